@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getApprovalSettings, saveApprovalSettings } from "@/lib/approval-settings-store";
+import { validateApprovalSettings } from "@/lib/quote-status";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const settings = await getApprovalSettings();
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("Error loading approval settings:", error);
+    return NextResponse.json(
+      { error: "Failed to load approval settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { discountThresholdPercent?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validateApprovalSettings(body);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const settings = await saveApprovalSettings(body.discountThresholdPercent as number);
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("Error saving approval settings:", error);
+    return NextResponse.json(
+      { error: "Failed to save approval settings. Please try again." },
+      { status: 500 }
+    );
+  }
+}
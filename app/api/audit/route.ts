@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { isAuditAction, MAX_AUDIT_RESULTS, queryAudit } from "@/lib/audit-log";
+import { requireQuote, requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+// Filters: quoteId, actorId, action, from, to (ISO dates) and limit.
+// Admins can read the whole log. Everyone else reads the entries of quotes
+// they can see, or their own actions when no quote is given.
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+  const { user } = auth;
+  const params = new URL(request.url).searchParams;
+
+  const quoteId = params.get("quoteId");
+  if (quoteId && user.role !== "admin") {
+    const access = await requireQuote(quoteId);
+    if (access.response) {
+      return access.response;
+    }
+  }
+
+  const action = params.get("action");
+  if (action && !isAuditAction(action)) {
+    return NextResponse.json({ error: `Unknown audit action "${action}"` }, { status: 400 });
+  }
+
+  const dates: Record<"from" | "to", string | null> = { from: null, to: null };
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (value) {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return NextResponse.json({ error: `${key} must be a date` }, { status: 400 });
+      }
+      dates[key] = new Date(time).toISOString();
+    }
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : MAX_AUDIT_RESULTS;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_RESULTS) {
+    return NextResponse.json(
+      { error: `limit must be a whole number between 1 and ${MAX_AUDIT_RESULTS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entries = await queryAudit({
+      quoteId,
+      actorId: quoteId || user.role === "admin" ? params.get("actorId") : user.id,
+      action: isAuditAction(action) ? action : null,
+      ...dates,
+      limit,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Error reading the audit log:", error);
+    return NextResponse.json({ error: "Failed to read the audit log" }, { status: 500 });
+  }
+}
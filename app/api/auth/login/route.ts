@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getAuthProvider } from "@/lib/auth-provider";
+import { safeRedirectPath, setSessionCookie } from "@/lib/route-auth";
+import { createSession } from "@/lib/session-store";
+
+export const runtime = "nodejs";
+
+// Target of the sign-in form on /login. Redirects to the page the user was
+// headed for, or back to /login when the credentials are wrong.
+export async function POST(request: Request) {
+  let username = "";
+  let password = "";
+  let next = "/";
+  try {
+    const formData = await request.formData();
+    username = String(formData.get("username") ?? "").trim();
+    password = String(formData.get("password") ?? "");
+    next = safeRedirectPath(formData.get("next"));
+  } catch {
+    // An unreadable form counts as wrong credentials.
+  }
+
+  try {
+    const user = username && password ? await getAuthProvider().authenticate(username, password) : null;
+    if (!user) {
+      const retry = new URL("/login", request.url);
+      retry.searchParams.set("error", "invalid");
+      retry.searchParams.set("next", next);
+      return NextResponse.redirect(retry, 303);
+    }
+    const token = await createSession(user.id);
+    return setSessionCookie(NextResponse.redirect(new URL(next, request.url), 303), token);
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
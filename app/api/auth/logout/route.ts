@@ -0,0 +1,20 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth";
+import { deleteSession } from "@/lib/session-store";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  try {
+    if (token) {
+      await deleteSession(token);
+    }
+  } catch (error) {
+    console.error("Error ending session:", error);
+  }
+  const response = NextResponse.redirect(new URL("/login", request.url), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+// The signed-in user, for the UI to decide what to offer.
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+  return NextResponse.json({ user: auth.user });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { validateUserInput } from "@/lib/auth";
+import { setSessionCookie } from "@/lib/route-auth";
+import { createSession } from "@/lib/session-store";
+import { createUser, hasUsers } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+
+// Creates the first admin account from the form /login shows while there
+// are no accounts yet. Does nothing once any account exists.
+export async function POST(request: Request) {
+  if (await hasUsers()) {
+    return NextResponse.json({ error: "Setup has already been completed" }, { status: 409 });
+  }
+
+  let input: { username: string; name: string; password: string } = { username: "", name: "", password: "" };
+  try {
+    const formData = await request.formData();
+    input = {
+      username: String(formData.get("username") ?? "").trim().toLowerCase(),
+      name: String(formData.get("name") ?? ""),
+      password: String(formData.get("password") ?? ""),
+    };
+  } catch {
+    // Validation below reports the missing fields.
+  }
+
+  const problem = validateUserInput({ ...input, role: "admin" });
+  if (problem) {
+    const retry = new URL("/login", request.url);
+    retry.searchParams.set("setupError", problem);
+    return NextResponse.redirect(retry, 303);
+  }
+
+  try {
+    const user = await createUser({ ...input, role: "admin" });
+    const token = await createSession(user.id);
+    return setSessionCookie(NextResponse.redirect(new URL("/", request.url), 303), token);
+  } catch (error) {
+    console.error("Error creating the first admin account:", error);
+    return NextResponse.json({ error: "Failed to create the account" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { buildBatchArchive } from "@/lib/batch-store";
+import { requireBatchJob } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// A ZIP of the converted PDFs with index.csv listing every workbook.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireBatchJob(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  if (auth.job.status !== "done") {
+    return NextResponse.json({ error: "The batch is still converting" }, { status: 409 });
+  }
+
+  try {
+    const archive = await buildBatchArchive(auth.job);
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="batch_${auth.job.createdAt.slice(0, 10)}_${id.slice(0, 8)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error building batch archive:", error);
+    return NextResponse.json({ error: "Failed to build the download" }, { status: 500 });
+  }
+}
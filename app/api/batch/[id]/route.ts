@@ -0,0 +1,23 @@
+import { after, NextResponse } from "next/server";
+import { isBatchJobLeased, runBatchJob } from "@/lib/batch-store";
+import { requireBatchJob } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+// Conversion runs after the response, within the function's time limit.
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Progress of a job. A job whose runner stopped renewing its lease, say after a
+// restart, is picked up again here.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireBatchJob(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  if (auth.job.status !== "done" && !isBatchJobLeased(auth.job)) {
+    after(() => runBatchJob(id));
+  }
+  return NextResponse.json({ job: auth.job });
+}
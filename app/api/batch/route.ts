@@ -0,0 +1,90 @@
+import { after, NextResponse } from "next/server";
+import { userActor } from "@/lib/audit-log";
+import {
+  BatchInputError,
+  createBatchJob,
+  expandBatchUploads,
+  listBatchJobs,
+  runBatchJob,
+  type BatchUpload,
+} from "@/lib/batch-store";
+import { getBrandProfiles } from "@/lib/brand-store";
+import { getChunkStore } from "@/lib/chunk-store";
+import { loadParsingProfiles } from "@/lib/parsing-profiles";
+import { requireUser } from "@/lib/route-auth";
+import { isSafeId } from "@/lib/storage";
+
+export const runtime = "nodejs";
+// Conversion runs after the response, within the function's time limit.
+export const maxDuration = 300;
+
+// Admins see every job; everyone else sees the jobs they started.
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const jobs = await listBatchJobs(auth.user.role === "admin" ? null : auth.user.id);
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("Error listing batch jobs:", error);
+    return NextResponse.json({ error: "Failed to load batch jobs" }, { status: 500 });
+  }
+}
+
+// Multipart: `files` (workbooks or ZIPs of workbooks, repeatable), `uploadId`
+// (a chunked upload of either, repeatable), `profile` and `brandId`.
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const formData = await request.formData();
+    const profile = (formData.get("profile") as string | null)?.trim() || "auto";
+    const brandId = (formData.get("brandId") as string | null)?.trim() || null;
+
+    if (profile !== "auto" && !(await loadParsingProfiles()).some((candidate) => candidate.id === profile)) {
+      return NextResponse.json({ error: `Unknown parsing profile "${profile}"` }, { status: 400 });
+    }
+    if (brandId && !(await getBrandProfiles()).brands.some((brand) => brand.id === brandId)) {
+      return NextResponse.json({ error: `Brand "${brandId}" does not exist` }, { status: 400 });
+    }
+
+    const uploads: BatchUpload[] = [];
+    for (const file of formData.getAll("files")) {
+      if (file instanceof File && file.size > 0) {
+        uploads.push({ fileName: file.name, data: new Uint8Array(await file.arrayBuffer()) });
+      }
+    }
+    const store = getChunkStore();
+    for (const field of formData.getAll("uploadId")) {
+      const uploadId = typeof field === "string" && isSafeId(field) ? field : null;
+      const upload = uploadId ? await store.readFile(uploadId) : null;
+      if (!uploadId || !upload) {
+        return NextResponse.json(
+          { error: "Uploaded file not found or not fully received. Please upload it again." },
+          { status: 400 }
+        );
+      }
+      await store.deleteUpload(uploadId);
+      uploads.push({ fileName: upload.fileName, data: new Uint8Array(upload.data) });
+    }
+
+    const job = await createBatchJob(userActor(auth.user), expandBatchUploads(uploads), { profile, brandId });
+    after(() => runBatchJob(job.id));
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof BatchInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error starting batch job:", error);
+    return NextResponse.json(
+      { error: "Failed to start the batch job. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { validateBrands, type BrandProfile } from "@/lib/brand";
+import { BrandInUseError, getBrandProfiles, resetBrandProfiles, saveBrandProfiles } from "@/lib/brand-store";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const brands = await getBrandProfiles();
+    return NextResponse.json(brands);
+  } catch (error) {
+    console.error("Error loading brand profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to load brand profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { brands?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validateBrands(body.brands);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const brands = await saveBrandProfiles(body.brands as BrandProfile[]);
+    return NextResponse.json(brands);
+  } catch (error) {
+    if (error instanceof BrandInUseError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error saving brand profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to save brand profiles. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+// Restores the built-in HUB profile.
+export async function DELETE() {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const brands = await resetBrandProfiles();
+    return NextResponse.json(brands);
+  } catch (error) {
+    if (error instanceof BrandInUseError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error resetting brand profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to reset brand profiles" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { findBrand } from "@/lib/brand";
+import { getBrandProfiles } from "@/lib/brand-store";
+import { validatePaymentSchedule } from "@/lib/payment-schedule";
+import { computeQuoteTotals, type QuoteDocument } from "@/lib/quote";
+import { buildQuoteWorkbook } from "@/lib/quote-xlsx";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+// Writes the quote as it stands in the preview, edits included, to a workbook
+// with a fixed layout that the accounts team imports into their ERP.
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: Partial<QuoteDocument> & { fileName?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON with rooms, meta and summary" },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body?.rooms) || !body.rooms.length) {
+    return NextResponse.json(
+      { error: "No rooms to export. Convert a workbook before exporting it." },
+      { status: 400 }
+    );
+  }
+
+  if (body.meta?.paymentSchedule) {
+    const { totalAfterDiscount } = computeQuoteTotals(body.summary ?? null, body.meta);
+    const problem = validatePaymentSchedule(body.meta.paymentSchedule, totalAfterDiscount);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+  }
+
+  try {
+    const { brands } = await getBrandProfiles();
+    const workbook = buildQuoteWorkbook(
+      {
+        rooms: body.rooms,
+        meta: body.meta ?? null,
+        summary: body.summary ?? null,
+      },
+      findBrand(brands, body.meta?.brandId).gstRates
+    );
+
+    const fileName = (body.fileName || "quote.xlsx").replace(/[^a-zA-Z0-9._-]/g, "_");
+
+    return new NextResponse(workbook, {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting quote workbook:", error);
+    return NextResponse.json(
+      { error: "Failed to export the workbook. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { listParsingProfiles } from "@/lib/parsing-profiles";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const profiles = await listParsingProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error("Error listing parsing profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to load parsing profiles" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import {
+  validatePaymentScheduleTemplates,
+  type PaymentScheduleTemplate,
+} from "@/lib/payment-schedule";
+import {
+  getPaymentScheduleTemplates,
+  resetPaymentScheduleTemplates,
+  savePaymentScheduleTemplates,
+} from "@/lib/payment-schedule-store";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const templates = await getPaymentScheduleTemplates();
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("Error loading payment schedule templates:", error);
+    return NextResponse.json(
+      { error: "Failed to load payment schedule templates" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { templates?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validatePaymentScheduleTemplates(body.templates);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const templates = await savePaymentScheduleTemplates(body.templates as PaymentScheduleTemplate[]);
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("Error saving payment schedule templates:", error);
+    return NextResponse.json(
+      { error: "Failed to save payment schedule templates. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+// Restores the built-in templates.
+export async function DELETE() {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const templates = await resetPaymentScheduleTemplates();
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("Error resetting payment schedule templates:", error);
+    return NextResponse.json(
+      { error: "Failed to reset payment schedule templates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getPolicyVersion } from "@/lib/policy-store";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ version: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { version } = await params;
+  if (!/^\d{1,9}$/.test(version)) {
+    return NextResponse.json({ error: "Unknown terms version" }, { status: 404 });
+  }
+
+  try {
+    const policy = await getPolicyVersion(Number(version));
+    if (!policy) {
+      return NextResponse.json({ error: "Unknown terms version" }, { status: 404 });
+    }
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error loading policy version:", error);
+    return NextResponse.json(
+      { error: "Failed to load the quote terms" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getLatestPolicyVersion, listPolicyVersions, publishPolicyVersion } from "@/lib/policy-store";
+import { validatePolicyContent, type PolicyContent } from "@/lib/quote-policies";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const [latest, versions] = await Promise.all([getLatestPolicyVersion(), listPolicyVersions()]);
+    return NextResponse.json({ latest, versions });
+  } catch (error) {
+    console.error("Error loading policy versions:", error);
+    return NextResponse.json(
+      { error: "Failed to load the quote terms" },
+      { status: 500 }
+    );
+  }
+}
+
+// Publishes the content as a new version; earlier versions stay as they were.
+export async function POST(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: Partial<PolicyContent> & { note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validatePolicyContent(body);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const policy = await publishPolicyVersion(
+      body as PolicyContent,
+      typeof body.note === "string" ? body.note : undefined
+    );
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    console.error("Error publishing policy version:", error);
+    return NextResponse.json(
+      { error: "Failed to publish the quote terms. Please try again." },
+      { status: 500 }
+    );
+  }
+}
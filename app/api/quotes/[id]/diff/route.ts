@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { diffQuotes } from "@/lib/quote-diff";
+import { canAccessQuote } from "@/lib/auth";
+import { getPreviousRevision, getQuote } from "@/lib/quote-store";
+import { requireQuote } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Compares the quote against ?against=<id>, or against its previous revision
+// when no other quote is given.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  const { user, quote } = auth;
+
+  const againstId = new URL(request.url).searchParams.get("against");
+  const baseline = againstId ? await getQuote(againstId) : await getPreviousRevision(quote);
+  if (!baseline || !canAccessQuote(user, baseline.owner)) {
+    return NextResponse.json(
+      {
+        error: againstId
+          ? "Quote to compare against was not found"
+          : "This quote has no earlier revision",
+      },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    diff: diffQuotes(baseline, quote),
+  });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { renderStoredQuotePdf } from "@/lib/quote-pdf";
+import { requireQuote } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The saved quote as a PDF, including the acceptance certificate once the
+// customer has signed. Unsaved edits in the preview go through /api/render-pdf.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  const { quote } = auth;
+
+  try {
+    const { pdf } = await renderStoredQuotePdf(quote);
+    const fileName = quote.pdfFilename.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering saved quote PDF:", error);
+    return NextResponse.json(
+      { error: "Failed to render the PDF. Please try again." },
+      { status: 500 }
+    );
+  }
+}
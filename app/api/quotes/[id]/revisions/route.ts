@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { canAccessQuote } from "@/lib/auth";
+import { listRevisions, toRevisionEntry } from "@/lib/quote-store";
+import { requireQuote } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  const { user, quote } = auth;
+
+  // Revisions saved by designers outside the user's team are left out.
+  const revisions = (await listRevisions(quote.meta?.quoteNumber)).filter((revision) =>
+    canAccessQuote(user, revision.owner)
+  );
+  return NextResponse.json({
+    revisions: (revisions.length ? revisions : [quote]).map(toRevisionEntry),
+  });
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import {
+  recordAudit,
+  recordContentChanges,
+  recordMetadataChanges,
+  recordStatusChange,
+  userActor,
+} from "@/lib/audit-log";
+import { withTermsVersion } from "@/lib/policy-store";
+import { requireQuote } from "@/lib/route-auth";
+import {
+  deleteQuote,
+  PaymentScheduleError,
+  QuoteLockedError,
+  updateQuote,
+  type QuoteInput,
+} from "@/lib/quote-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  return NextResponse.json({ quote: auth.quote });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let changes: Partial<QuoteInput>;
+  try {
+    changes = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (changes.rooms !== undefined && !Array.isArray(changes.rooms)) {
+    return NextResponse.json(
+      { error: "rooms must be an array" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await updateQuote(id, {
+      pdfFilename: changes.pdfFilename,
+      rooms: changes.rooms,
+      meta: changes.meta !== undefined ? await withTermsVersion(changes.meta) : undefined,
+      summary: changes.summary,
+    });
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+    const actor = userActor(auth.user);
+    await recordMetadataChanges(actor, id, auth.quote.meta, quote.meta);
+    await recordContentChanges(actor, id, auth.quote, quote);
+    await recordStatusChange(actor, id, auth.quote.meta, quote.meta, {
+      reason: "The saved discount is no longer covered by the approval.",
+    });
+    return NextResponse.json({ quote });
+  } catch (error) {
+    if (error instanceof PaymentScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof QuoteLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating quote:", error);
+    return NextResponse.json(
+      { error: "Failed to update quote. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  try {
+    const deleted = await deleteQuote(id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+    await recordAudit({
+      actor: userActor(auth.user),
+      quoteId: id,
+      action: "quote.deleted",
+      details: { customer: auth.quote.meta?.customer ?? null },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof QuoteLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error deleting quote:", error);
+    return NextResponse.json(
+      { error: "Failed to delete quote" },
+      { status: 500 }
+    );
+  }
+}
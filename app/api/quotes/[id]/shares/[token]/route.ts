@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { recordAudit, userActor } from "@/lib/audit-log";
+import { requireQuote } from "@/lib/route-auth";
+import { revokeShareLink } from "@/lib/share-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; token: string }> };
+
+// Revokes the link; it stays listed with its view counts.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id, token } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+  try {
+    const result = await revokeShareLink(id, token);
+    if (!result) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    const { link, revoked } = result;
+    // Revoking an already revoked link is not audited again.
+    if (revoked) {
+      await recordAudit({
+        actor: userActor(auth.user),
+        quoteId: id,
+        action: "quote.share_revoked",
+        details: { createdAt: link.createdAt, expiresAt: link.expiresAt, hasPin: link.hasPin },
+      });
+    }
+    return NextResponse.json({ link });
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    return NextResponse.json({ error: "Failed to revoke the share link" }, { status: 500 });
+  }
+}
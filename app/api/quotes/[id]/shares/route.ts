@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { recordAudit, recordStatusChange, userActor } from "@/lib/audit-log";
+import { markQuoteShared, QuoteStatusError } from "@/lib/quote-store";
+import { requireQuote } from "@/lib/route-auth";
+import { createShareLink, listShareLinks, validateSharePin } from "@/lib/share-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const links = await listShareLinks(id);
+    return NextResponse.json({ links });
+  } catch (error) {
+    console.error("Error listing share links:", error);
+    return NextResponse.json({ error: "Failed to load share links" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { expiresInDays?: unknown; pin?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  // Null means the link never expires.
+  const expiresInDays = body.expiresInDays ?? null;
+  if (
+    expiresInDays !== null &&
+    (typeof expiresInDays !== "number" || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365)
+  ) {
+    return NextResponse.json(
+      { error: "expiresInDays must be a whole number of days between 1 and 365, or null" },
+      { status: 400 }
+    );
+  }
+  const pinProblem = validateSharePin(body.pin);
+  if (pinProblem) {
+    return NextResponse.json({ error: pinProblem }, { status: 400 });
+  }
+
+  try {
+    const shared = await markQuoteShared(id);
+    const link = await createShareLink(id, {
+      expiresInDays,
+      pin: typeof body.pin === "string" && body.pin ? body.pin : null,
+    });
+    const actor = userActor(auth.user);
+    await recordAudit({
+      actor,
+      quoteId: id,
+      action: "quote.shared",
+      details: { expiresAt: link.expiresAt, hasPin: link.hasPin },
+    });
+    await recordStatusChange(actor, id, auth.quote.meta, shared?.meta ?? auth.quote.meta);
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuoteStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating share link:", error);
+    return NextResponse.json(
+      { error: "Failed to create the share link. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { recordStatusChange, userActor } from "@/lib/audit-log";
+import { canApproveDiscounts } from "@/lib/auth";
+import { isQuoteStatus } from "@/lib/quote-status";
+import { QuoteLockedError, QuoteStatusError, setQuoteStatus } from "@/lib/quote-store";
+import { requireQuote } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { status?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!isQuoteStatus(body.status)) {
+    return NextResponse.json({ error: "status is not a known quote status" }, { status: 400 });
+  }
+
+  if (body.status === "Approved" && !canApproveDiscounts(auth.user)) {
+    return NextResponse.json({ error: "Only managers can approve quotes" }, { status: 403 });
+  }
+
+  try {
+    const quote = await setQuoteStatus(id, body.status, body.status === "Approved" ? auth.user.name : null);
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+    await recordStatusChange(
+      userActor(auth.user),
+      id,
+      auth.quote.meta,
+      quote.meta,
+      quote.approval && body.status === "Approved" ? { approval: quote.approval } : undefined
+    );
+    return NextResponse.json({ quote });
+  } catch (error) {
+    if (error instanceof QuoteStatusError || error instanceof QuoteLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error changing quote status:", error);
+    return NextResponse.json(
+      { error: "Failed to change the quote status. Please try again." },
+      { status: 500 }
+    );
+  }
+}
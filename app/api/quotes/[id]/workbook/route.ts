@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { readQuoteWorkbook } from "@/lib/quote-store";
+import { requireQuote } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = await requireQuote(id);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const workbook = await readQuoteWorkbook(id);
+    if (!workbook) {
+      return NextResponse.json(
+        { error: "No source workbook stored for this quote" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(workbook.data), {
+      headers: {
+        "Content-Type": workbook.contentType,
+        "Content-Disposition": `attachment; filename="${workbook.fileName.replace(/"/g, "")}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error reading stored workbook:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve workbook" },
+      { status: 500 }
+    );
+  }
+}
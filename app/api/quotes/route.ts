@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { recordAudit, userActor } from "@/lib/audit-log";
+import { canAccessQuote, toQuoteOwner } from "@/lib/auth";
+import { getChunkStore } from "@/lib/chunk-store";
+import { withTermsVersion } from "@/lib/policy-store";
+import {
+  createQuote,
+  listQuotes,
+  PaymentScheduleError,
+  type QuoteInput,
+  type WorkbookUpload,
+} from "@/lib/quote-store";
+import { requireUser } from "@/lib/route-auth";
+import { shareViewsByQuote } from "@/lib/share-store";
+import { isSafeId } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const [quotes, views] = await Promise.all([listQuotes(), shareViewsByQuote()]);
+    return NextResponse.json({
+      quotes: quotes
+        .filter((quote) => canAccessQuote(auth.user, quote.owner))
+        .map((quote) => ({ ...quote, shareViews: views.get(quote.id) ?? null })),
+    });
+  } catch (error) {
+    console.error("Error listing saved quotes:", error);
+    return NextResponse.json(
+      { error: "Failed to load saved quotes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const formData = await request.formData();
+    const rawQuote = formData.get("quote");
+    const workbook = formData.get("workbook");
+    const workbookUploadId = formData.get("workbookUploadId");
+
+    let input: QuoteInput;
+    try {
+      input = JSON.parse(typeof rawQuote === "string" ? rawQuote : "");
+    } catch {
+      return NextResponse.json(
+        { error: "Missing or invalid quote data" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(input?.rooms)) {
+      return NextResponse.json(
+        { error: "Quote data must include the converted rooms" },
+        { status: 400 }
+      );
+    }
+
+    let source: WorkbookUpload | null = null;
+    if (workbook instanceof File && workbook.size > 0) {
+      source = {
+        fileName: workbook.name,
+        size: workbook.size,
+        contentType: workbook.type || "application/octet-stream",
+        data: Buffer.from(await workbook.arrayBuffer()),
+      };
+    } else if (typeof workbookUploadId === "string" && isSafeId(workbookUploadId)) {
+      // Large workbooks were uploaded in chunks; archive the assembled copy if it is still around.
+      const store = getChunkStore();
+      const upload = await store.readFile(workbookUploadId);
+      if (upload) {
+        await store.deleteUpload(workbookUploadId);
+        source = {
+          fileName: upload.fileName,
+          size: upload.data.byteLength,
+          contentType: "application/octet-stream",
+          data: upload.data,
+        };
+      }
+    }
+
+    const quote = await createQuote(
+      {
+        pdfFilename: input.pdfFilename,
+        rooms: input.rooms,
+        meta: await withTermsVersion(input.meta ?? null),
+        summary: input.summary ?? null,
+      },
+      source,
+      toQuoteOwner(auth.user)
+    );
+    await recordAudit({
+      actor: userActor(auth.user),
+      quoteId: quote.id,
+      action: "quote.created",
+      details: {
+        quoteNumber: quote.meta?.quoteNumber ?? null,
+        revision: quote.revision,
+        workbook: quote.sourceWorkbook?.fileName ?? null,
+      },
+    });
+
+    return NextResponse.json({ quote }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PaymentScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error saving quote:", error);
+    return NextResponse.json(
+      { error: "Failed to save quote. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { renderQuotePdf } from "@/lib/pdf/render-quote-pdf";
+import { validatePaymentSchedule } from "@/lib/payment-schedule";
+import { resolvePdfBranding } from "@/lib/quote-pdf";
+import { computeQuoteTotals, type QuoteDocument } from "@/lib/quote";
+import type { QuoteDiff } from "@/lib/quote-diff";
+import { requireUser } from "@/lib/route-auth";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: Partial<QuoteDocument> & { fileName?: string; changes?: QuoteDiff | null };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON with rooms, meta and summary" },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body?.rooms) || !body.rooms.length) {
+    return NextResponse.json(
+      { error: "No rooms to render. Convert a workbook before generating the PDF." },
+      { status: 400 }
+    );
+  }
+
+  if (body.meta?.paymentSchedule) {
+    const { totalAfterDiscount } = computeQuoteTotals(body.summary ?? null, body.meta);
+    const problem = validatePaymentSchedule(body.meta.paymentSchedule, totalAfterDiscount);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+  }
+
+  const branding = await resolvePdfBranding(body.meta ?? null);
+  if ("error" in branding) {
+    return NextResponse.json({ error: branding.error }, { status: 400 });
+  }
+
+  try {
+    const pdf = renderQuotePdf(
+      {
+        rooms: body.rooms,
+        meta: body.meta ?? null,
+        summary: body.summary ?? null,
+      },
+      { changes: body.changes ?? null, ...branding }
+    );
+
+    const fileName = (body.fileName || "quote.pdf").replace(/[^a-zA-Z0-9._-]/g, "_");
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering quote PDF:", error);
+    return NextResponse.json(
+      { error: "Failed to render the PDF. Please try again." },
+      { status: 500 }
+    );
+  }
+}
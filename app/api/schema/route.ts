@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { convertApiDocument } from "@/lib/quote-schema";
+
+export const runtime = "nodejs";
+
+// The OpenAPI document for /api/convert. It describes no data, so it is
+// served without a session for integrators' code generators.
+export async function GET() {
+  try {
+    return NextResponse.json(convertApiDocument());
+  } catch (error) {
+    console.error("Error building the API schema:", error);
+    return NextResponse.json(
+      { error: "Failed to build the API schema" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  clientIp,
+  quoteContentHash,
+  validateAcceptanceInput,
+  type AcceptanceInput,
+  type QuoteAcceptance,
+  type QuoteSignature,
+} from "@/lib/acceptance";
+import { recordAudit, recordStatusChange, type AuditActor } from "@/lib/audit-log";
+import { renderStoredQuotePdf } from "@/lib/quote-pdf";
+import {
+  acceptQuote,
+  getQuote,
+  QuoteLockedError,
+  QuoteStatusError,
+  setAcceptancePdfKey,
+} from "@/lib/quote-store";
+import { quotePdfKey, uploadPdf } from "@/lib/s3";
+import { checkShareAccess, shareCookieName } from "@/lib/share-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// The customer accepts the quote behind a share link. The acceptance is
+// recorded first; publishing the signed PDF to S3 is best effort. If it fails,
+// the designer can publish the accepted quote, certificate included, with
+// Upload to S3 (/api/upload-s3).
+export async function POST(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  const cookieStore = await cookies();
+  const access = await checkShareAccess(token, cookieStore.get(shareCookieName(token))?.value);
+  if (access.state !== "granted") {
+    return NextResponse.json({ error: "This link can no longer be used to accept the quote." }, { status: 403 });
+  }
+
+  let input: AcceptanceInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+  const problem = validateAcceptanceInput(input);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const quote = await getQuote(access.quoteId);
+  if (!quote) {
+    return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+  }
+
+  const signature = input.signature as QuoteSignature;
+  const acceptance: QuoteAcceptance = {
+    name: (input.name as string).trim(),
+    signature: signature.kind === "typed" ? { kind: "typed", text: signature.text.trim() } : signature,
+    acceptedAt: new Date().toISOString(),
+    ip: clientIp(request.headers),
+    userAgent: request.headers.get("user-agent"),
+    shareToken: token,
+    contentHash: quoteContentHash(quote),
+    pdfKey: null,
+  };
+
+  let accepted;
+  try {
+    accepted = await acceptQuote(quote.id, acceptance);
+  } catch (error) {
+    if (error instanceof QuoteLockedError || error instanceof QuoteStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error recording quote acceptance:", error);
+    return NextResponse.json(
+      { error: "Failed to record your acceptance. Please try again." },
+      { status: 500 }
+    );
+  }
+  if (!accepted) {
+    return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+  }
+
+  const actor: AuditActor = { id: null, name: acceptance.name, role: "customer" };
+  await recordAudit({
+    actor,
+    quoteId: accepted.id,
+    action: "quote.accepted",
+    details: { signature: acceptance.signature.kind, ip: acceptance.ip, contentHash: acceptance.contentHash },
+  });
+  await recordStatusChange(actor, accepted.id, quote.meta, accepted.meta);
+
+  if (process.env.AWS_S3_BUCKET_NAME) {
+    try {
+      const { pdf, brand } = await renderStoredQuotePdf(accepted);
+      const key = quotePdfKey(brand.s3Prefix, accepted.pdfFilename.replace(/\.pdf$/i, "_signed"));
+      await uploadPdf(key, new Uint8Array(pdf));
+      await setAcceptancePdfKey(accepted.id, key);
+      acceptance.pdfKey = key;
+      await recordAudit({ actor, quoteId: accepted.id, action: "quote.uploaded_to_s3", details: { key, signed: true } });
+    } catch (error) {
+      console.error(`Publishing the signed PDF of quote ${accepted.id} failed:`, error);
+    }
+  }
+
+  return NextResponse.json(
+    { acceptance: { name: acceptance.name, acceptedAt: acceptance.acceptedAt } },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { shareCookieName, unlockShareLink } from "@/lib/share-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// Target of the PIN form on /q/<token>. Always redirects back to the quote
+// page, which shows the quote or asks again.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  const sharePath = `/q/${encodeURIComponent(token)}`;
+
+  let pin = "";
+  try {
+    const formData = await request.formData();
+    pin = String(formData.get("pin") ?? "").trim();
+  } catch {
+    // An unreadable form counts as no PIN.
+  }
+
+  try {
+    const accessKey = pin ? await unlockShareLink(token, pin) : null;
+    if (!accessKey) {
+      return NextResponse.redirect(new URL(`${sharePath}?pin=wrong`, request.url), 303);
+    }
+    const response = NextResponse.redirect(new URL(sharePath, request.url), 303);
+    // The quote page and /api/shares/<token>/accept both need the cookie; its
+    // name is already unique to the token.
+    response.cookies.set(shareCookieName(token), accessKey, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+    return response;
+  } catch (error) {
+    console.error("Error unlocking share link:", error);
+    return NextResponse.json({ error: "Failed to check the PIN" }, { status: 500 });
+  }
+}
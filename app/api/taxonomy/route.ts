@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/route-auth";
+import { validateTaxonomy, type TaxonomyCategory } from "@/lib/taxonomy";
+import { getTaxonomy, resetTaxonomy, saveTaxonomy } from "@/lib/taxonomy-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const taxonomy = await getTaxonomy();
+    return NextResponse.json({ taxonomy });
+  } catch (error) {
+    console.error("Error loading taxonomy:", error);
+    return NextResponse.json(
+      { error: "Failed to load the item taxonomy" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: { categories?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validateTaxonomy(body.categories);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const taxonomy = await saveTaxonomy(body.categories as TaxonomyCategory[]);
+    return NextResponse.json({ taxonomy });
+  } catch (error) {
+    console.error("Error saving taxonomy:", error);
+    return NextResponse.json(
+      { error: "Failed to save the item taxonomy. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+// Restores the built-in categories.
+export async function DELETE() {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const taxonomy = await resetTaxonomy();
+    return NextResponse.json({ taxonomy });
+  } catch (error) {
+    console.error("Error resetting taxonomy:", error);
+    return NextResponse.json(
+      { error: "Failed to reset the item taxonomy" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,26 @@
 import { NextResponse } from "next/server";
+import { ChunkIntegrityError, getChunkStore, sha256Hex } from "@/lib/chunk-store";
+import { requireUser } from "@/lib/route-auth";
+import { isSafeId } from "@/lib/storage";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-// In-memory storage for chunks
-// Note: This works within the same function instance. For production with multiple instances,
-// use Vercel Blob, Redis, or a database for shared storage
-const chunkStorage = new Map<string, { chunks: Map<number, ArrayBuffer>; totalChunks: number; fileName: string; timestamp: number }>();
+// Chunks are kept in the shared chunk store (see lib/chunk-store) so the
+// chunk and convert requests may be served by different instances.
+//
+// Every chunk carries its own SHA-256 (chunkHash) and the whole file's
+// (fileHash). A chunk that fails its check gets a 422 and can simply be
+// resent; a file that fails after reassembly gets a 409 and is discarded.
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
 
 export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
   try {
     const formData = await request.formData();
     const chunk = formData.get("chunk") as File;
@@ -16,45 +28,48 @@ export async function POST(request: Request) {
     const totalChunks = parseInt(formData.get("totalChunks") as string);
     const uploadId = formData.get("uploadId") as string;
     const fileName = formData.get("fileName") as string;
+    const chunkHash = (formData.get("chunkHash") as string | null)?.toLowerCase();
+    const fileHash = (formData.get("fileHash") as string | null)?.toLowerCase();
 
-    if (!chunk || chunkIndex === undefined || totalChunks === undefined || !uploadId) {
+    if (!chunk || Number.isNaN(chunkIndex) || Number.isNaN(totalChunks) || !uploadId) {
       return NextResponse.json(
         { error: "Missing required chunk data" },
         { status: 400 }
       );
     }
 
-    // Get or create chunk storage for this upload
-    if (!chunkStorage.has(uploadId)) {
-      chunkStorage.set(uploadId, {
-        chunks: new Map(),
-        totalChunks,
-        fileName: fileName || "upload.xlsx",
-        timestamp: Date.now(),
-      });
+    if (!isSafeId(uploadId) || chunkIndex < 0 || totalChunks < 1 || chunkIndex >= totalChunks) {
+      return NextResponse.json(
+        { error: "Invalid chunk data" },
+        { status: 400 }
+      );
+    }
+
+    if (!chunkHash || !fileHash || !SHA256_PATTERN.test(chunkHash) || !SHA256_PATTERN.test(fileHash)) {
+      return NextResponse.json(
+        { error: "Missing or invalid chunkHash / fileHash (hex SHA-256 expected)" },
+        { status: 400 }
+      );
+    }
+
+    const data = Buffer.from(await chunk.arrayBuffer());
+    if (sha256Hex(data) !== chunkHash) {
+      return NextResponse.json(
+        { error: `Chunk ${chunkIndex + 1} was corrupted in transit`, chunkIndex },
+        { status: 422 }
+      );
     }
 
-    const upload = chunkStorage.get(uploadId)!;
-    const chunkBuffer = await chunk.arrayBuffer();
-    upload.chunks.set(chunkIndex, chunkBuffer);
-
-    // Check if all chunks are received
-    if (upload.chunks.size === totalChunks) {
-      // Reassemble the file
-      const chunks = Array.from({ length: totalChunks }, (_, i) => upload.chunks.get(i)!);
-      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
-      const reassembled = new Uint8Array(totalSize);
-      
-      let offset = 0;
-      for (const chunk of chunks) {
-        reassembled.set(new Uint8Array(chunk), offset);
-        offset += chunk.byteLength;
-      }
-
-      // Store the complete file
-      upload.chunks.clear();
-      upload.chunks.set(-1, reassembled.buffer); // Use -1 as key for complete file
+    const status = await getChunkStore().putChunk({
+      uploadId,
+      fileName: fileName || "upload.xlsx",
+      totalChunks,
+      chunkIndex,
+      fileHash,
+      data,
+    });
 
+    if (status.complete) {
       return NextResponse.json({
         success: true,
         uploadId,
@@ -67,10 +82,16 @@ export async function POST(request: Request) {
       success: true,
       uploadId,
       complete: false,
-      received: upload.chunks.size,
-      total: totalChunks,
+      received: status.received,
+      total: status.totalChunks,
     });
   } catch (error) {
+    if (error instanceof ChunkIntegrityError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
     console.error("Error handling chunk upload:", error);
     return NextResponse.json(
       { error: "Failed to process chunk upload" },
@@ -80,6 +101,11 @@ export async function POST(request: Request) {
 }
 
 export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const uploadId = searchParams.get("uploadId");
@@ -91,49 +117,26 @@ export async function GET(request: Request) {
       );
     }
 
-    const upload = chunkStorage.get(uploadId);
-    if (!upload) {
+    const status = isSafeId(uploadId) ? await getChunkStore().getStatus(uploadId) : null;
+    if (!status) {
       return NextResponse.json(
         { error: "Upload not found" },
         { status: 404 }
       );
     }
 
-    const completeFile = upload.chunks.get(-1);
-    if (!completeFile) {
-      return NextResponse.json({
-        complete: false,
-        received: upload.chunks.size,
-        total: upload.totalChunks,
-      });
-    }
-
-    // Return the complete file
-    return new NextResponse(completeFile, {
-      headers: {
-        "Content-Type": "application/octet-stream",
-        "Content-Disposition": `attachment; filename="${upload.fileName}"`,
-      },
+    return NextResponse.json({
+      complete: status.complete,
+      received: status.received,
+      receivedChunks: status.receivedChunks,
+      total: status.totalChunks,
+      fileName: status.fileName,
     });
   } catch (error) {
-    console.error("Error retrieving file:", error);
+    console.error("Error retrieving upload status:", error);
     return NextResponse.json(
-      { error: "Failed to retrieve file" },
+      { error: "Failed to retrieve upload status" },
       { status: 500 }
     );
   }
 }
-
-// Cleanup old uploads (run periodically)
-if (typeof setInterval !== "undefined") {
-  setInterval(() => {
-    const now = Date.now();
-    // Clean up uploads older than 10 minutes
-    for (const [uploadId, upload] of chunkStorage.entries()) {
-      if (now - upload.timestamp > 10 * 60 * 1000) {
-        chunkStorage.delete(uploadId);
-      }
-    }
-  }, 5 * 60 * 1000); // Check every 5 minutes
-}
-
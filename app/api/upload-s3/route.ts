@@ -1,31 +1,37 @@
 import { NextResponse } from "next/server";
-import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { getApprovalSettings } from "@/lib/approval-settings-store";
+import { recordAudit, userActor } from "@/lib/audit-log";
+import { renderStoredQuotePdf } from "@/lib/quote-pdf";
+import { approvalProblem, quoteStatusOf, type QuoteStatus } from "@/lib/quote-status";
+import { reconcileQuote } from "@/lib/reconciliation";
+import { getS3Client, quotePdfKey, SIGNED_URL_EXPIRY_SECONDS, uploadPdf } from "@/lib/s3";
+import { requireQuote } from "@/lib/route-auth";
 
 export const runtime = "nodejs";
 
-// Validate environment variables
-const getS3Client = () => {
-  const region = process.env.AWS_REGION || "us-east-1";
-  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-
-  if (!accessKeyId || !secretAccessKey) {
-    throw new Error("AWS credentials not configured. Please set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables");
-  }
-
-  return new S3Client({
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-  });
-};
+// Quotes awaiting approval, rejected or expired are not published.
+const UNPUBLISHABLE_STATUSES: QuoteStatus[] = ["Pending Approval", "Rejected", "Expired"];
 
+// Publishes a saved quote's PDF. The PDF is rendered here from the stored
+// quote, so what is checked below is exactly what gets uploaded; unsaved edits
+// in the preview have to be saved first.
 export async function POST(request: Request) {
   try {
-    // Validate environment variables first
+    const formData = await request.formData();
+    const quoteId = formData.get("quoteId");
+    if (typeof quoteId !== "string" || !quoteId) {
+      return NextResponse.json(
+        { error: "No quote provided", details: "Save the quote before publishing it to S3." },
+        { status: 400 }
+      );
+    }
+    const auth = await requireQuote(quoteId);
+    if (auth.response) {
+      return auth.response;
+    }
+    const { quote } = auth;
+
+    // Validate environment variables
     const bucketName = process.env.AWS_S3_BUCKET_NAME;
     if (!bucketName) {
       return NextResponse.json(
@@ -38,9 +44,8 @@ export async function POST(request: Request) {
     }
 
     // Validate AWS credentials
-    let s3Client;
     try {
-      s3Client = getS3Client();
+      getS3Client();
     } catch (error) {
       return NextResponse.json(
         {
@@ -51,55 +56,63 @@ export async function POST(request: Request) {
       );
     }
 
-    const formData = await request.formData();
-    const file = formData.get("file") as File | null;
-    const fileName = formData.get("fileName") as string | null;
-
-    if (!file) {
+    const status = quoteStatusOf(quote.meta);
+    if (UNPUBLISHABLE_STATUSES.includes(status)) {
       return NextResponse.json(
-        { error: "No file provided" },
-        { status: 400 }
+        { error: `A quote with the status ${status} cannot be published` },
+        { status: 409 }
       );
     }
 
-    // Generate a unique file name with timestamp
-    const timestamp = Date.now();
-    const sanitizedFileName = fileName
-      ? fileName.replace(/[^a-zA-Z0-9.-]/g, "_")
-      : "quote";
-    const s3Key = `pdfs/${sanitizedFileName}_${timestamp}.pdf`;
-
-    // Convert file to buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Upload to S3
-    const command = new PutObjectCommand({
-      Bucket: bucketName,
-      Key: s3Key,
-      Body: buffer,
-      ContentType: "application/pdf",
-    });
-
-    await s3Client.send(command);
+    // Quotes whose summary totals disagree with their room sheets are held
+    // back unless the designer explicitly overrides the check.
+    const reconciliation = reconcileQuote(quote.rooms, quote.summary);
+    if (reconciliation.mismatches > 0) {
+      if (formData.get("overrideReconciliation") !== "true") {
+        return NextResponse.json(
+          {
+            error: "Summary totals do not match the room sheets",
+            details: `${reconciliation.mismatches} room(s) differ by more than the allowed tolerance. Review them in the preview or override the check to publish anyway.`,
+            reconciliation,
+          },
+          { status: 409 }
+        );
+      }
+    }
 
-    // Generate a signed URL (works for both public and private buckets)
-    // Signed URLs are valid for 7 days by default
-    const expiresIn = 7 * 24 * 60 * 60; // 7 days in seconds
-    const getObjectCommand = new GetObjectCommand({
-      Bucket: bucketName,
-      Key: s3Key,
-    });
+    // A discount above the approval threshold has to be approved by a manager first.
+    const approvalIssue = approvalProblem(quote, quote.approval, await getApprovalSettings());
+    if (approvalIssue) {
+      return NextResponse.json(
+        { error: "Discount approval required", details: approvalIssue },
+        { status: 403 }
+      );
+    }
 
-    const s3Url = await getSignedUrl(s3Client, getObjectCommand, {
-      expiresIn,
+    // Each brand publishes under its own key prefix.
+    const { pdf, brand } = await renderStoredQuotePdf(quote);
+    const s3Key = quotePdfKey(brand.s3Prefix, quote.pdfFilename.replace(/\.pdf$/i, ""));
+    const s3Url = await uploadPdf(s3Key, new Uint8Array(pdf));
+
+    await recordAudit({
+      actor: userActor(auth.user),
+      quoteId: quote.id,
+      action: "quote.uploaded_to_s3",
+      details: {
+        key: s3Key,
+        brand: brand.id,
+        quoteNumber: quote.meta?.quoteNumber ?? null,
+        // The override is kept on the quote's trail with the rooms it let through.
+        reconciliationOverridden: reconciliation.mismatches > 0,
+        mismatchedRooms: reconciliation.rooms.filter((room) => room.status === "mismatch").map((room) => room.room),
+      },
     });
 
     return NextResponse.json({
       success: true,
       url: s3Url,
       key: s3Key,
-      expiresIn: expiresIn,
+      expiresIn: SIGNED_URL_EXPIRY_SECONDS,
     });
   } catch (error: unknown) {
     console.error("S3 upload error:", error);
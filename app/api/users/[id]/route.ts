@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { validateUserInput, type UserInput } from "@/lib/auth";
+import { requireUser } from "@/lib/route-auth";
+import {
+  deleteUser,
+  DuplicateUsernameError,
+  LastAdminError,
+  updateUser,
+  type UserChanges,
+} from "@/lib/user-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Leave `password` out to keep the current one.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: UserInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validateUserInput(body, true);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const user = await updateUser(id, body as UserChanges);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof DuplicateUsernameError || error instanceof LastAdminError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update the user. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+  if (id === auth.user.id) {
+    return NextResponse.json({ error: "You cannot delete your own account" }, { status: 409 });
+  }
+
+  try {
+    const deleted = await deleteUser(id);
+    if (!deleted) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof LastAdminError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error deleting user:", error);
+    return NextResponse.json(
+      { error: "Failed to delete the user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { validateUserInput, type UserInput, type UserRole } from "@/lib/auth";
+import { requireUser } from "@/lib/route-auth";
+import { createUser, DuplicateUsernameError, listUsers } from "@/lib/user-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return NextResponse.json({ error: "Failed to load users" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  let body: UserInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const problem = validateUserInput(body);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const user = await createUser({
+      username: body.username as string,
+      name: body.name as string,
+      role: body.role as UserRole,
+      team: (body.team as string | null | undefined) ?? null,
+      password: body.password as string,
+    });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateUsernameError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating user:", error);
+    return NextResponse.json(
+      { error: "Failed to create the user. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { BatchFileStatus, BatchJob } from "@/lib/batch-store";
+import type { BrandProfile } from "@/lib/brand";
+import { uploadFileInChunks } from "@/lib/chunked-upload";
+import type { ParsingProfileSummary } from "@/lib/parsing-profiles";
+
+type Status =
+  | { state: "idle" }
+  | { state: "uploading"; message: string }
+  | { state: "error"; message: string };
+
+// Requests above this size are rejected by serverless hosts, so larger
+// selections go through /api/upload-chunk first.
+const MAX_DIRECT_UPLOAD_BYTES = 4 * 1024 * 1024;
+const POLL_INTERVAL_MS = 2000;
+
+const FILE_STATUS_STYLES: Record<BatchFileStatus, string> = {
+  queued: "bg-zinc-100 text-zinc-600",
+  converting: "bg-sky-50 text-sky-700",
+  done: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const currencyFormat = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  maximumFractionDigits: 2,
+});
+
+const selectClassName = "rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900";
+
+export default function BatchPage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [profiles, setProfiles] = useState<ParsingProfileSummary[]>([]);
+  const [brands, setBrands] = useState<BrandProfile[]>([]);
+  const [profileId, setProfileId] = useState("auto");
+  const [brandId, setBrandId] = useState("");
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/parsing-profiles")
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((data: { profiles: ParsingProfileSummary[] }) => setProfiles(data.profiles))
+      .catch((error) => console.error("Loading parsing profiles failed", error));
+    fetch("/api/brands")
+      .then((response) => (response.ok ? response.json() : { brands: [] }))
+      .then((data: { brands: BrandProfile[] }) => setBrands(data.brands))
+      .catch((error) => console.error("Loading brands failed", error));
+    fetch("/api/batch")
+      .then((response) => (response.ok ? response.json() : { jobs: [] }))
+      .then((data: { jobs: BatchJob[] }) => {
+        setJobs(data.jobs);
+        setJobId((current) => current ?? data.jobs[0]?.id ?? null);
+      })
+      .catch((error) => console.error("Loading batch jobs failed", error));
+  }, []);
+
+  const job = jobs.find((entry) => entry.id === jobId) ?? null;
+  const isRunning = job?.status === "running";
+
+  // Polls the selected job until every file is converted.
+  useEffect(() => {
+    if (!jobId || !isRunning) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      fetch(`/api/batch/${jobId}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data: { job: BatchJob } | null) => {
+          if (data) {
+            setJobs((previous) => previous.map((entry) => (entry.id === data.job.id ? data.job : entry)));
+          }
+        })
+        .catch((error) => console.error("Loading batch progress failed", error));
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [jobId, isRunning]);
+
+  const startBatch = async () => {
+    if (!files.length) {
+      setStatus({ state: "error", message: "Choose workbooks or a ZIP of workbooks first." });
+      return;
+    }
+    try {
+      const body = new FormData();
+      body.append("profile", profileId);
+      if (brandId) {
+        body.append("brandId", brandId);
+      }
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+      if (totalSize > MAX_DIRECT_UPLOAD_BYTES) {
+        for (const [index, file] of files.entries()) {
+          setStatus({ state: "uploading", message: `Uploading ${file.name} (${index + 1} of ${files.length})…` });
+          body.append("uploadId", await uploadFileInChunks(file));
+        }
+      } else {
+        files.forEach((file) => body.append("files", file));
+      }
+
+      setStatus({ state: "uploading", message: "Starting the batch…" });
+      const response = await fetch("/api/batch", { method: "POST", body });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to start the batch.");
+      }
+      const created = data.job as BatchJob;
+      setJobs((previous) => [created, ...previous]);
+      setJobId(created.id);
+      setFiles([]);
+      setStatus({ state: "idle" });
+    } catch (error) {
+      setStatus({ state: "error", message: error instanceof Error ? error.message : "Failed to start the batch." });
+    }
+  };
+
+  const finished = job?.files.filter((file) => file.status === "done" || file.status === "failed").length ?? 0;
+  const failed = job?.files.filter((file) => file.status === "failed").length ?? 0;
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Batch Conversion</h1>
+          <p className="text-base text-zinc-600">
+            Convert many workbooks in one go, for example after a price-list change. Each workbook is
+            rendered as it would be from the preview, and the result downloads as a ZIP of PDFs with an
+            index.csv of quote numbers, customers and totals. Nothing is saved to the quote list.
+          </p>
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+
+        <section className="space-y-4 rounded-2xl border border-zinc-200 p-4">
+          <h2 className="text-lg font-semibold">New Batch</h2>
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Workbooks or ZIP files
+              <input
+                type="file"
+                multiple
+                accept=".xlsx,.xls,.xlsm,.ods,.zip"
+                onChange={(event) => setFiles(Array.from(event.target.files ?? []))}
+                className="text-sm font-normal text-zinc-900"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Workbook layout
+              <select value={profileId} onChange={(event) => setProfileId(event.target.value)} className={selectClassName}>
+                <option value="auto">Auto-detect each workbook</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Brand
+              <select value={brandId} onChange={(event) => setBrandId(event.target.value)} className={selectClassName}>
+                <option value="">Default brand</option>
+                {brands.map((brand) => (
+                  <option key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center justify-end gap-4">
+            {status.state === "uploading" && <span className="text-sm text-zinc-500">{status.message}</span>}
+            <button
+              type="button"
+              onClick={startBatch}
+              disabled={status.state === "uploading" || !files.length}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {files.length ? `Convert ${files.length} File${files.length === 1 ? "" : "s"}` : "Convert"}
+            </button>
+          </div>
+        </section>
+
+        {jobs.length > 0 && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+            Batch
+            <select value={jobId ?? ""} onChange={(event) => setJobId(event.target.value)} className={selectClassName}>
+              {jobs.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {dateFormat.format(new Date(entry.createdAt))} · {entry.files.length} workbook
+                  {entry.files.length === 1 ? "" : "s"} · {entry.createdBy.name}
+                  {entry.status === "running" ? " · converting" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {job && (
+          <section className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="min-w-60 flex-1 space-y-1">
+                <p className="text-sm text-zinc-700">
+                  {finished} of {job.files.length} converted
+                  {failed > 0 ? `, ${failed} failed` : ""}
+                  {job.completedAt ? ` · finished ${dateFormat.format(new Date(job.completedAt))}` : ""}
+                </p>
+                <div className="h-2 overflow-hidden rounded-full bg-zinc-100">
+                  <div
+                    className="h-full bg-indigo-500 transition-all"
+                    style={{ width: `${(finished / job.files.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+              {job.status === "done" && (
+                <a
+                  href={`/api/batch/${job.id}/download`}
+                  className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500"
+                >
+                  Download ZIP
+                </a>
+              )}
+            </div>
+
+            <div className="overflow-x-auto rounded-xl border border-zinc-200">
+              <table className="w-full text-left text-sm text-zinc-700">
+                <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                  <tr>
+                    <th className="px-4 py-3">Workbook</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Quote Number</th>
+                    <th className="px-4 py-3">Customer</th>
+                    <th className="px-4 py-3 text-right">Total Payable</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {job.files.map((file) => (
+                    <tr key={file.index} className="border-t border-zinc-100 align-top">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-zinc-900">{file.fileName}</p>
+                        {file.error && <p className="text-xs text-red-600">{file.error}</p>}
+                        {(file.parseErrors > 0 || file.reconciliationMismatches > 0) && (
+                          <p className="text-xs text-amber-700">
+                            {[
+                              file.parseErrors > 0 ? `${file.parseErrors} parse error(s)` : null,
+                              file.reconciliationMismatches > 0
+                                ? `${file.reconciliationMismatches} room(s) differ from the summary`
+                                : null,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${FILE_STATUS_STYLES[file.status]}`}>
+                          {file.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">{file.quoteNumber ?? "-"}</td>
+                      <td className="px-4 py-3">{file.customer ?? "-"}</td>
+                      <td className="px-4 py-3 text-right">
+                        {file.totalPayable != null ? currencyFormat.format(file.totalPayable) : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useRef, useState, type PointerEvent } from "react";
+import type { QuoteSignature } from "@/lib/acceptance";
+
+type AcceptQuoteFormProps = {
+  token: string;
+};
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 200;
+
+export default function AcceptQuoteForm({ token }: AcceptQuoteFormProps) {
+  const router = useRouter();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<QuoteSignature["kind"]>("typed");
+  const [typedSignature, setTypedSignature] = useState("");
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [agreed, setAgreed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canvasPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPoint.current = canvasPoint(event);
+  };
+
+  const continueStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!lastPoint.current || !context) {
+      return;
+    }
+    const point = canvasPoint(event);
+    context.strokeStyle = "#18181b";
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.beginPath();
+    context.moveTo(lastPoint.current.x, lastPoint.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+    setHasDrawing(true);
+  };
+
+  const clearDrawing = () => {
+    canvasRef.current?.getContext("2d")?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasDrawing(false);
+  };
+
+  const submit = async () => {
+    const signature: QuoteSignature | null =
+      mode === "typed"
+        ? typedSignature.trim()
+          ? { kind: "typed", text: typedSignature }
+          : null
+        : hasDrawing && canvasRef.current
+          ? { kind: "drawn", image: canvasRef.current.toDataURL("image/png") }
+          : null;
+    if (!signature) {
+      setError(mode === "typed" ? "Type your signature." : "Draw your signature.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const response = await fetch(`/api/shares/${encodeURIComponent(token)}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, signature, agreed }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to accept the quote. Please try again.");
+      }
+      router.refresh();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to accept the quote. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 border-t border-zinc-200 p-8">
+      <div>
+        <h2 className="text-xl font-semibold">Accept this quote</h2>
+        <p className="text-sm text-zinc-600">
+          Sign below to accept the quotation and its terms. Your name, the time and your IP address are recorded
+          on the signed copy.
+        </p>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+        Full name
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          autoComplete="name"
+          className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+        />
+      </label>
+
+      <div className="flex gap-2 text-sm">
+        {(["typed", "drawn"] as const).map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => setMode(kind)}
+            className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition ${
+              mode === kind ? "border-zinc-900 bg-zinc-900 text-white" : "border-zinc-300 text-zinc-700 hover:border-zinc-400"
+            }`}
+          >
+            {kind === "typed" ? "Type signature" : "Draw signature"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "typed" ? (
+        <input
+          type="text"
+          value={typedSignature}
+          onChange={(event) => setTypedSignature(event.target.value)}
+          placeholder="Your signature"
+          className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-serif text-3xl italic text-zinc-900"
+        />
+      ) : (
+        <div className="space-y-2">
+          <canvas
+            ref={canvasRef}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={() => (lastPoint.current = null)}
+            onPointerLeave={() => (lastPoint.current = null)}
+            className="w-full touch-none rounded-lg border border-zinc-300 bg-white"
+          />
+          <button
+            type="button"
+            onClick={clearDrawing}
+            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-start gap-2 text-sm text-zinc-700">
+        <input
+          type="checkbox"
+          checked={agreed}
+          onChange={(event) => setAgreed(event.target.checked)}
+          className="mt-0.5 h-4 w-4 rounded border-zinc-300"
+        />
+        I accept this quotation, including the payment schedule and terms above.
+      </label>
+
+      {error && (
+        <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{error}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={submit}
+        disabled={isSubmitting || !agreed || !name.trim()}
+        className="rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isSubmitting ? "Accepting…" : "Accept quote"}
+      </button>
+    </section>
+  );
+}
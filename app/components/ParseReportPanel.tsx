@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { ParseDiagnostic } from "@/lib/quote";
+
+type ParseReportPanelProps = {
+  diagnostics: ParseDiagnostic[];
+};
+
+const SEVERITIES: Array<{ severity: ParseDiagnostic["severity"]; label: string; className: string }> = [
+  { severity: "error", label: "Errors", className: "bg-red-100 text-red-700" },
+  { severity: "warning", label: "Warnings", className: "bg-amber-100 text-amber-800" },
+  { severity: "info", label: "Notes", className: "bg-zinc-100 text-zinc-600" },
+];
+
+export default function ParseReportPanel({ diagnostics }: ParseReportPanelProps) {
+  const [showNotes, setShowNotes] = useState(false);
+
+  const counts = SEVERITIES.map((entry) => ({
+    ...entry,
+    count: diagnostics.filter((diagnostic) => diagnostic.severity === entry.severity).length,
+  }));
+  const visible = showNotes
+    ? diagnostics
+    : diagnostics.filter((diagnostic) => diagnostic.severity !== "info");
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Parse Report</h2>
+          <p className="text-sm text-zinc-600">
+            Rows, sheets and columns the converter skipped. Errors mark rows whose amounts are
+            missing from the preview.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {counts.map(({ severity, label, className, count }) => (
+            <span key={severity} className={`rounded-full px-3 py-1 text-xs font-semibold ${className}`}>
+              {count} {label}
+            </span>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-zinc-600">
+            <input
+              type="checkbox"
+              checked={showNotes}
+              onChange={(event) => setShowNotes(event.target.checked)}
+            />
+            Show notes
+          </label>
+        </div>
+      </div>
+
+      {!visible.length ? (
+        <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+          {diagnostics.length
+            ? "Nothing needs attention. Tick “Show notes” to see the rows that were skipped on purpose."
+            : "Every row in the workbook was read."}
+        </div>
+      ) : (
+        <div className="max-h-96 overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-left text-sm text-zinc-700">
+            <thead className="sticky top-0 bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+              <tr>
+                <th className="px-4 py-3">Severity</th>
+                <th className="px-4 py-3">Sheet</th>
+                <th className="px-4 py-3 text-right">Row</th>
+                <th className="px-4 py-3">Reason</th>
+                <th className="px-4 py-3">Values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((diagnostic, index) => {
+                const badge = SEVERITIES.find((entry) => entry.severity === diagnostic.severity);
+                return (
+                  <tr key={index} className="border-t border-zinc-100 align-top">
+                    <td className="px-4 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${badge?.className ?? ""}`}>
+                        {diagnostic.severity}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">{diagnostic.sheet ?? "Workbook"}</td>
+                    <td className="px-4 py-2 text-right">{diagnostic.row ?? "-"}</td>
+                    <td className="px-4 py-2">{diagnostic.reason}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-zinc-500">
+                      {diagnostic.values.length ? diagnostic.values.join(" | ") : "-"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
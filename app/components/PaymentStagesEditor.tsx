@@ -0,0 +1,152 @@
+"use client";
+
+import { formatStagePercentage, paymentRows, type PaymentStage } from "@/lib/payment-schedule";
+
+type PaymentStagesEditorProps = {
+  stages: PaymentStage[];
+  // The payable total after discount, or null when editing a template.
+  total: number | null;
+  formatCurrency?: Intl.NumberFormat;
+  onChange: (stages: PaymentStage[]) => void;
+};
+
+export default function PaymentStagesEditor({ stages, total, formatCurrency, onChange }: PaymentStagesEditorProps) {
+  const rows = paymentRows({ templateId: null, name: "", stages }, total);
+  const showAmounts = total != null;
+  const formatMoney = (value: number | null) =>
+    value != null && formatCurrency ? formatCurrency.format(value) : "-";
+  const scheduledPercent = rows.reduce((sum, row) => sum + (row.percentage ?? 0), 0);
+  const scheduledAmount = rows.reduce((sum, row) => sum + (row.amount ?? 0), 0);
+
+  const updateStage = (index: number, changes: Partial<PaymentStage>) => {
+    onChange(stages.map((stage, position) => (position === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const removeStage = (index: number) => {
+    onChange(stages.filter((_stage, position) => position !== index));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) {
+      return;
+    }
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white shadow-sm">
+      <table className="w-full text-left text-sm text-zinc-700">
+        <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+          <tr>
+            <th className="px-3 py-3">Milestone</th>
+            <th className="px-3 py-3">Due</th>
+            <th className="px-3 py-3">Type</th>
+            <th className="px-3 py-3 w-32">Value</th>
+            {showAmounts && <th className="px-3 py-3">Percentage</th>}
+            {showAmounts && <th className="px-3 py-3 text-right">Amount</th>}
+            <th className="px-3 py-3 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stages.map((stage, index) => (
+            <tr key={index} className="border-t border-zinc-100 first:border-t-0">
+              <td className="px-3 py-2">
+                <input
+                  type="text"
+                  value={stage.label}
+                  onChange={(event) => updateStage(index, { label: event.target.value })}
+                  placeholder="Milestone"
+                  className="w-full rounded-lg border border-zinc-300 px-2 py-1 font-medium text-zinc-900"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="text"
+                  value={stage.dueDate ?? ""}
+                  onChange={(event) => updateStage(index, { dueDate: event.target.value || undefined })}
+                  placeholder="e.g. On booking"
+                  className="w-full rounded-lg border border-zinc-300 px-2 py-1"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <select
+                  value={stage.kind}
+                  onChange={(event) => updateStage(index, { kind: event.target.value as PaymentStage["kind"] })}
+                  className="rounded-lg border border-zinc-300 px-2 py-1"
+                >
+                  <option value="percentage">% of total</option>
+                  <option value="fixed">Fixed ₹</option>
+                </select>
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={Number.isNaN(stage.value) ? "" : stage.value}
+                  onChange={(event) => updateStage(index, { value: parseFloat(event.target.value) })}
+                  className="w-28 rounded-lg border border-zinc-300 px-2 py-1"
+                />
+              </td>
+              {showAmounts && <td className="px-3 py-2">{formatStagePercentage(rows[index].percentage)}</td>}
+              {showAmounts && <td className="px-3 py-2 text-right">{formatMoney(rows[index].amount)}</td>}
+              <td className="px-3 py-2">
+                <div className="flex justify-end gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move stage up"
+                    className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-600 hover:border-zinc-300 disabled:opacity-40"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                    aria-label="Move stage down"
+                    className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-600 hover:border-zinc-300 disabled:opacity-40"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeStage(index)}
+                    className="rounded-lg border border-red-200 px-2 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-zinc-200 bg-zinc-50 font-semibold">
+            <td className="px-3 py-2">
+              <button
+                type="button"
+                onClick={() => onChange([...stages, { label: "", kind: "percentage", value: 0 }])}
+                className="text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+              >
+                + Add stage
+              </button>
+            </td>
+            <td className="px-3 py-2 text-zinc-900" colSpan={2}>
+              Total
+            </td>
+            {/* Without a total only the percentage stages can be summed. */}
+            <td className="px-3 py-2">{showAmounts ? null : formatStagePercentage(scheduledPercent)}</td>
+            {showAmounts && <td className="px-3 py-2">{formatStagePercentage(scheduledPercent)}</td>}
+            {showAmounts && <td className="px-3 py-2 text-right">{formatMoney(scheduledAmount)}</td>}
+            <td />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
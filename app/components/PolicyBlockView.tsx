@@ -0,0 +1,44 @@
+import type { PolicyBlock } from "@/lib/quote-policies";
+
+// Renders one block of the quote terms; shared by the preview and the
+// customer page.
+export default function PolicyBlockView({ block }: { block: PolicyBlock }) {
+  switch (block.kind) {
+    case "table":
+      return (
+        <table className="w-full text-left text-sm text-zinc-700">
+          <tbody>
+            {block.rows.map((row) => (
+              <tr key={row.label} className="border-t border-zinc-100 first:border-t-0">
+                <td className="px-4 py-3 font-medium text-zinc-900">{row.label}</td>
+                <td className="px-4 py-3">{row.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    case "list":
+      if (block.numbered) {
+        return (
+          <ol className="list-decimal space-y-1 pl-5">
+            {block.items.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ol>
+        );
+      }
+      return (
+        <ul className={block.bulleted === false ? "space-y-2" : "list-disc space-y-1 pl-5"}>
+          {block.items.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      );
+    case "paragraph":
+      return <p className={block.muted ? "text-sm text-zinc-600" : undefined}>{block.text}</p>;
+    case "subheading":
+      return <p className="pt-2 font-semibold text-zinc-900 first:pt-0">{block.text}</p>;
+    case "divider":
+      return <hr className="my-3 border-zinc-200" />;
+  }
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { QuoteDocument } from "@/lib/quote";
+import type { StoredQuote } from "@/lib/quote-store";
+import {
+  approvalProblem,
+  DEFAULT_APPROVAL_SETTINGS,
+  discountPercent,
+  QUOTE_STATUS_TRANSITIONS,
+  quoteStatusOf,
+  type ApprovalSettings,
+  type QuoteApproval,
+  type QuoteStatus,
+} from "@/lib/quote-status";
+
+type QuoteStatusPanelProps = {
+  quoteId: string;
+  document: Pick<QuoteDocument, "meta" | "summary">;
+  // Only managers and admins can approve.
+  canApprove: boolean;
+  onStatusChange: (status: QuoteStatus) => void;
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const STATUS_STYLES: Record<QuoteStatus, string> = {
+  Draft: "bg-zinc-100 text-zinc-700",
+  "Pending Approval": "bg-amber-50 text-amber-700",
+  Approved: "bg-indigo-50 text-indigo-700",
+  Sent: "bg-sky-50 text-sky-700",
+  Accepted: "bg-emerald-50 text-emerald-700",
+  Rejected: "bg-red-50 text-red-600",
+  Expired: "bg-zinc-100 text-zinc-500",
+};
+
+const TRANSITION_LABELS: Partial<Record<QuoteStatus, string>> = {
+  "Pending Approval": "Request Approval",
+  Sent: "Mark as Sent",
+  Rejected: "Mark as Rejected",
+  Expired: "Mark as Expired",
+  Draft: "Back to Draft",
+};
+
+export default function QuoteStatusPanel({ quoteId, document, canApprove, onStatusChange }: QuoteStatusPanelProps) {
+  const [approval, setApproval] = useState<QuoteApproval | null>(null);
+  const [settings, setSettings] = useState<ApprovalSettings>(DEFAULT_APPROVAL_SETTINGS);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/quotes/${quoteId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setApproval((data?.quote as StoredQuote | undefined)?.approval ?? null))
+      .catch((loadError) => console.error("Loading quote approval failed", loadError));
+    fetch("/api/approval-settings")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) {
+          setSettings(data as ApprovalSettings);
+        }
+      })
+      .catch((loadError) => console.error("Loading approval settings failed", loadError));
+  }, [quoteId]);
+
+  const status = quoteStatusOf(document.meta);
+  const percent = discountPercent(document);
+  const problem = approvalProblem(document, approval, settings);
+  const transitions = QUOTE_STATUS_TRANSITIONS[status].filter(
+    (next) => next !== "Accepted" && (next !== "Approved" || canApprove)
+  );
+
+  const changeStatus = async (next: QuoteStatus) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await fetch(`/api/quotes/${quoteId}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error([data?.error, data?.details].filter(Boolean).join(": ") || "Failed to change the status.");
+      }
+      const quote = data.quote as StoredQuote;
+      setApproval(quote.approval ?? null);
+      onStatusChange(quoteStatusOf(quote.meta));
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : "Failed to change the status.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Quote Status</h2>
+          <p className="text-sm text-zinc-600">
+            Status changes apply to the saved quote. Save first if you have changed the discount.
+          </p>
+        </div>
+        <span className={`rounded-full px-3 py-1 text-xs font-semibold ${STATUS_STYLES[status]}`}>{status}</span>
+      </div>
+
+      <div className="mb-4 space-y-1 text-sm text-zinc-700">
+        <p>
+          Discount: <span className="font-semibold">{percent}%</span> of the subtotal (approval needed above{" "}
+          {settings.discountThresholdPercent}%).
+        </p>
+        {approval && (
+          <p>
+            Approved by <span className="font-semibold">{approval.approvedBy}</span> for {approval.discountPercent}% on{" "}
+            {dateFormat.format(new Date(approval.approvedAt))}.
+          </p>
+        )}
+        {problem && <p className="text-amber-700">{problem} Uploading to S3 and sharing are blocked until then.</p>}
+      </div>
+
+      {transitions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {transitions.map((next) => (
+            <button
+              key={next}
+              type="button"
+              onClick={() => changeStatus(next)}
+              disabled={isWorking}
+              className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {next === "Approved" ? `Approve ${percent}% Discount` : (TRANSITION_LABELS[next] ?? next)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { USER_ROLE_LABELS } from "@/lib/auth";
+import type { AuditAction, AuditActor, AuditEntry } from "@/lib/audit-log";
+import { METADATA_FIELDS } from "@/lib/quote";
+
+type QuoteTimelinePanelProps = {
+  quoteId: string;
+  // Changes whenever the saved quote does, so the timeline reloads.
+  version?: string;
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "quote.converted": "Workbook converted",
+  "quote.created": "Saved",
+  "quote.fields_changed": "Details edited",
+  "quote.updated": "Rooms or summary edited",
+  "quote.discount_changed": "Discount changed",
+  "quote.status_changed": "Status changed",
+  "quote.uploaded_to_s3": "PDF uploaded to S3",
+  "quote.shared": "Customer link created",
+  "quote.share_revoked": "Customer link revoked",
+  "quote.accepted": "Accepted by the customer",
+  "quote.deleted": "Deleted",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(METADATA_FIELDS.map(({ field, label }) => [field, label])),
+  quoteStatus: "Status",
+  paymentSchedule: "Payment Schedule",
+  terms: "Terms",
+  brandId: "Brand",
+  priceVersion: "Price Version",
+  subtotal: "Subtotal",
+  totalPayable: "Total Payable",
+};
+
+const ACTOR_ROLE_LABELS: Record<AuditActor["role"], string> = {
+  ...USER_ROLE_LABELS,
+  customer: "Customer",
+  system: "Command line",
+};
+
+function actorLabel(actor: AuditActor) {
+  return `${actor.name} (${ACTOR_ROLE_LABELS[actor.role]})`;
+}
+
+// Schedules and terms are too long to show inline.
+function formatValue(value: unknown) {
+  if (value == null || value === "") {
+    return "empty";
+  }
+  return typeof value === "object" ? "previous version" : String(value);
+}
+
+function entrySummary(entry: AuditEntry) {
+  const details = entry.details ?? {};
+  switch (entry.action) {
+    case "quote.created":
+      return [`Revision ${details.revision}`, details.workbook ? `from ${details.workbook}` : null]
+        .filter(Boolean)
+        .join(" ");
+    case "quote.uploaded_to_s3":
+      return [
+        `${details.signed ? "Signed copy" : "Key"}: ${details.key}`,
+        details.reconciliationOverridden && Array.isArray(details.mismatchedRooms)
+          ? `reconciliation overridden for ${details.mismatchedRooms.join(", ")}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(", ");
+    case "quote.shared":
+      return `${details.hasPin ? "PIN protected, " : ""}${
+        details.expiresAt ? `expires ${dateFormat.format(new Date(String(details.expiresAt)))}` : "never expires"
+      }`;
+    case "quote.updated":
+      return Array.isArray(details.edited) ? `Edited the ${details.edited.join(" and ")}` : null;
+    case "quote.share_revoked":
+      return details.createdAt ? `Link created ${dateFormat.format(new Date(String(details.createdAt)))}` : null;
+    case "quote.status_changed":
+      return typeof details.reason === "string" ? details.reason : null;
+    default:
+      return null;
+  }
+}
+
+export default function QuoteTimelinePanel({ quoteId, version }: QuoteTimelinePanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    fetch(`/api/audit?quoteId=${encodeURIComponent(quoteId)}`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load the timeline.");
+        }
+        setEntries(data.entries as AuditEntry[]);
+        setError(null);
+      })
+      .catch((loadError) =>
+        setError(loadError instanceof Error ? loadError.message : "Failed to load the timeline.")
+      );
+  }, [quoteId, version, reloads]);
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Timeline</h2>
+          <p className="text-sm text-zinc-600">Who changed, approved, shared or uploaded this revision, newest first.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setReloads((count) => count + 1)}
+          className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {entries && entries.length === 0 && (
+        <p className="text-sm text-zinc-500">Nothing has been recorded for this revision yet.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ol className="space-y-4 border-l border-zinc-200 pl-4">
+          {entries.map((entry) => {
+            const summary = entrySummary(entry);
+            return (
+              <li key={entry.id} className="relative text-sm text-zinc-700">
+                <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-indigo-500" />
+                <p>
+                  <span className="font-semibold text-zinc-900">{ACTION_LABELS[entry.action] ?? entry.action}</span>{" "}
+                  by {actorLabel(entry.actor)}
+                </p>
+                <p className="text-xs text-zinc-500">{dateFormat.format(new Date(entry.at))}</p>
+                {summary && <p className="mt-1 text-xs text-zinc-600">{summary}</p>}
+                {entry.changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-zinc-600">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>
+                        {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.before)} →{" "}
+                        <span className="font-medium text-zinc-900">
+                          {typeof change.after === "object" && change.after != null ? "updated" : formatValue(change.after)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
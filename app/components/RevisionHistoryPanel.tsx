@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AmountChange, QuoteDiff, RoomDiff } from "@/lib/quote-diff";
+import type { QuoteRevisionEntry } from "@/lib/quote-store";
+
+type RevisionHistoryPanelProps = {
+  quoteId: string;
+  formatCurrency: Intl.NumberFormat;
+  includeChangesInPdf: boolean;
+  onIncludeChangesInPdfChange: (include: boolean) => void;
+  onOpen: (id: string) => void;
+};
+
+const createdAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function formatAmount(formatCurrency: Intl.NumberFormat, value: number | null) {
+  return value == null ? "-" : formatCurrency.format(value);
+}
+
+function AmountChangeRow({ change, formatCurrency }: { change: AmountChange; formatCurrency: Intl.NumberFormat }) {
+  const difference = change.before != null && change.after != null ? change.after - change.before : null;
+  return (
+    <tr className="border-t border-zinc-100">
+      <td className="px-4 py-2 font-medium text-zinc-900">{change.label}</td>
+      <td className="px-4 py-2 text-right">{formatAmount(formatCurrency, change.before)}</td>
+      <td className="px-4 py-2 text-right">{formatAmount(formatCurrency, change.after)}</td>
+      <td
+        className={`px-4 py-2 text-right font-semibold ${
+          difference == null ? "text-zinc-500" : difference > 0 ? "text-red-600" : "text-emerald-700"
+        }`}
+      >
+        {difference == null ? "-" : `${difference > 0 ? "+" : ""}${formatCurrency.format(difference)}`}
+      </td>
+    </tr>
+  );
+}
+
+function RoomChanges({ room, formatCurrency }: { room: RoomDiff; formatCurrency: Intl.NumberFormat }) {
+  const itemLabel = (code: string, description: string) => (code ? `${code} - ${description}` : description);
+
+  return (
+    <div className="rounded-xl border border-zinc-200 p-4">
+      <div className="mb-2 flex items-center justify-between gap-3">
+        <h4 className="font-semibold text-zinc-900">{room.name}</h4>
+        {room.status !== "changed" && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+              room.status === "added" ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-600"
+            }`}
+          >
+            {room.status === "added" ? "New room" : "Removed"}
+          </span>
+        )}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {room.addedItems.map(({ type, item }, index) => (
+          <li key={`added-${index}`} className="text-emerald-700">
+            + {itemLabel(item.code, item.description)}{" "}
+            <span className="text-xs text-zinc-500">({type})</span>{" "}
+            {formatAmount(formatCurrency, item.price ?? null)}
+          </li>
+        ))}
+        {room.removedItems.map(({ type, item }, index) => (
+          <li key={`removed-${index}`} className="text-red-600 line-through decoration-red-300">
+            − {itemLabel(item.code, item.description)}{" "}
+            <span className="text-xs text-zinc-500">({type})</span>{" "}
+            {formatAmount(formatCurrency, item.price ?? null)}
+          </li>
+        ))}
+        {room.priceChanges.map(({ type, item, before, after }, index) => (
+          <li key={`price-${index}`} className="text-zinc-700">
+            {itemLabel(item.code, item.description)} <span className="text-xs text-zinc-500">({type})</span>:{" "}
+            {formatAmount(formatCurrency, before)} → <strong>{formatAmount(formatCurrency, after)}</strong>
+          </li>
+        ))}
+      </ul>
+      {(room.totalBefore != null || room.totalAfter != null) && room.totalBefore !== room.totalAfter && (
+        <p className="mt-2 text-xs text-zinc-500">
+          Room total {formatAmount(formatCurrency, room.totalBefore)} →{" "}
+          {formatAmount(formatCurrency, room.totalAfter)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function RevisionHistoryPanel({
+  quoteId,
+  formatCurrency,
+  includeChangesInPdf,
+  onIncludeChangesInPdfChange,
+  onOpen,
+}: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<QuoteRevisionEntry[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{
+    baseId: string;
+    diff: QuoteDiff | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/quotes/${quoteId}/revisions`)
+      .then((response) => (response.ok ? response.json() : { revisions: [] }))
+      .then((data: { revisions: QuoteRevisionEntry[] }) => {
+        if (cancelled) {
+          return;
+        }
+        setRevisions(data.revisions);
+        const currentIndex = data.revisions.findIndex((entry) => entry.id === quoteId);
+        setBaseId(currentIndex > 0 ? data.revisions[currentIndex - 1].id : null);
+      })
+      .catch((fetchError) => console.error("Loading revisions failed", fetchError));
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteId]);
+
+  useEffect(() => {
+    if (!baseId) {
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/quotes/${quoteId}/diff?against=${encodeURIComponent(baseId)}`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to compare revisions.");
+        }
+        return data.diff as QuoteDiff;
+      })
+      .then((result) => {
+        if (!cancelled) {
+          setComparison({ baseId, diff: result, error: null });
+        }
+      })
+      .catch((diffError) => {
+        if (!cancelled) {
+          setComparison({
+            baseId,
+            diff: null,
+            error: diffError instanceof Error ? diffError.message : "Failed to compare revisions.",
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteId, baseId]);
+
+  // Results for a previously selected revision are ignored until the new one loads.
+  const activeComparison = baseId && comparison?.baseId === baseId ? comparison : null;
+  const diff = activeComparison?.diff ?? null;
+  const error = activeComparison?.error ?? null;
+  const current = revisions.find((entry) => entry.id === quoteId);
+  if (revisions.length < 2 || !current) {
+    return null;
+  }
+
+  const amountChanges = diff ? [...diff.summaryRows, ...diff.totals] : [];
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Revision History</h2>
+          <p className="text-sm text-zinc-600">
+            Revision {current.revision} of {revisions.length}. Compares saved revisions; save first to include
+            unsaved edits.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-700">
+          <input
+            type="checkbox"
+            checked={includeChangesInPdf}
+            onChange={(event) => onIncludeChangesInPdfChange(event.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300"
+          />
+          Add “Changes since last revision” to the PDF
+        </label>
+      </div>
+
+      <div className="mb-4 flex flex-wrap gap-2">
+        {revisions.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => (entry.id === quoteId ? undefined : onOpen(entry.id))}
+            className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition ${
+              entry.id === quoteId
+                ? "border-zinc-900 bg-zinc-900 text-white"
+                : "border-zinc-300 text-zinc-700 hover:border-zinc-400"
+            }`}
+            title={createdAtFormat.format(new Date(entry.createdAt))}
+          >
+            Rev {entry.revision}
+            {entry.priceVersion ? ` · ${entry.priceVersion}` : ""}
+            {entry.totalPayable != null ? ` · ${formatCurrency.format(entry.totalPayable)}` : ""}
+          </button>
+        ))}
+      </div>
+
+      <label className="mb-4 flex items-center gap-2 text-sm text-zinc-700">
+        Compare with
+        <select
+          value={baseId ?? ""}
+          onChange={(event) => setBaseId(event.target.value || null)}
+          className="rounded-lg border border-zinc-300 px-2 py-1 text-sm"
+        >
+          <option value="">Select a revision</option>
+          {revisions
+            .filter((entry) => entry.id !== quoteId)
+            .map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                Revision {entry.revision}
+              </option>
+            ))}
+        </select>
+      </label>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {diff && !diff.hasChanges && (
+        <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+          No differences between revision {diff.fromRevision} and revision {diff.toRevision}.
+        </div>
+      )}
+
+      {diff && diff.hasChanges && (
+        <div className="space-y-4">
+          {amountChanges.length > 0 && (
+            <div className="overflow-hidden rounded-xl border border-zinc-200">
+              <table className="w-full text-left text-sm text-zinc-700">
+                <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                  <tr>
+                    <th className="px-4 py-2">Summary</th>
+                    <th className="px-4 py-2 text-right">Revision {diff.fromRevision}</th>
+                    <th className="px-4 py-2 text-right">Revision {diff.toRevision}</th>
+                    <th className="px-4 py-2 text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {amountChanges.map((change) => (
+                    <AmountChangeRow key={change.label} change={change} formatCurrency={formatCurrency} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {diff.rooms.map((room) => (
+            <RoomChanges key={room.name} room={room} formatCurrency={formatCurrency} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import type { QuoteListEntry } from "@/lib/quote-store";
+
+type SavedQuotesPanelProps = {
+  quotes: QuoteListEntry[];
+  activeQuoteId: string | null;
+  isLoading: boolean;
+  formatCurrency: Intl.NumberFormat;
+  // Managers and admins see other designers' quotes too.
+  showOwners?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const updatedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function SavedQuotesPanel({
+  quotes,
+  activeQuoteId,
+  isLoading,
+  formatCurrency,
+  showOwners = false,
+  onOpen,
+  onDelete,
+}: SavedQuotesPanelProps) {
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">{showOwners ? "Team Quotes" : "My Quotes"}</h2>
+        <p className="text-sm text-zinc-600">
+          Reopen a saved quote to continue editing without re-uploading the workbook.
+        </p>
+      </div>
+
+      {isLoading && !quotes.length ? (
+        <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+          Loading saved quotes…
+        </div>
+      ) : !quotes.length ? (
+        <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+          No saved quotes yet. Generate a preview and use “Save Quote” to keep it.
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-zinc-200">
+          <table className="w-full text-left text-sm text-zinc-700">
+            <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+              <tr>
+                <th className="px-4 py-3">Quote</th>
+                <th className="px-4 py-3">Customer</th>
+                <th className="px-4 py-3 text-right">Total Payable</th>
+                <th className="px-4 py-3">Last Updated</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.map((quote) => (
+                <tr
+                  key={quote.id}
+                  className={`border-t border-zinc-100 ${quote.id === activeQuoteId ? "bg-indigo-50" : ""}`}
+                >
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-zinc-900">
+                      {quote.quoteNumber || "Untitled quote"}
+                      {quote.revision > 1 && (
+                        <span className="ml-2 rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-semibold text-zinc-600">
+                          Rev {quote.revision}
+                        </span>
+                      )}
+                      {quote.status !== "Draft" && (
+                        <span
+                          className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                            quote.accepted ? "bg-emerald-50 text-emerald-700" : "bg-zinc-100 text-zinc-600"
+                          }`}
+                        >
+                          {quote.status}
+                        </span>
+                      )}
+                    </p>
+                    {quote.propertyName && (
+                      <p className="text-xs text-zinc-500">{quote.propertyName}</p>
+                    )}
+                    {showOwners && quote.owner && (
+                      <p className="text-xs text-zinc-500">Saved by {quote.owner.name}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">{quote.customer || "-"}</td>
+                  <td className="px-4 py-3 text-right">
+                    {quote.totalPayable != null ? formatCurrency.format(quote.totalPayable) : "-"}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-zinc-500">
+                    {updatedAtFormat.format(new Date(quote.updatedAt))}
+                    {quote.shareViews && (
+                      <p className="mt-1 text-zinc-600">
+                        {quote.shareViews.lastViewedAt
+                          ? `Customer opened ${quote.shareViews.count}× · last ${updatedAtFormat.format(new Date(quote.shareViews.lastViewedAt))}`
+                          : "Shared, not opened yet"}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onOpen(quote.id)}
+                        className="rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-800"
+                      >
+                        Open
+                      </button>
+                      {quote.hasWorkbook && (
+                        <a
+                          href={`/api/quotes/${quote.id}/workbook`}
+                          className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400"
+                        >
+                          Workbook
+                        </a>
+                      )}
+                      {!quote.accepted && (
+                        <button
+                          type="button"
+                          onClick={() => onDelete(quote.id)}
+                          className="rounded-lg border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ShareLink } from "@/lib/share-store";
+
+type ShareLinksPanelProps = {
+  quoteId: string;
+  onLinkCreated?: () => void;
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const EXPIRY_OPTIONS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "Never", days: null },
+];
+
+function linkState(link: ShareLink) {
+  if (link.revokedAt) {
+    return { label: "Revoked", className: "bg-zinc-100 text-zinc-600" };
+  }
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) {
+    return { label: "Expired", className: "bg-zinc-100 text-zinc-600" };
+  }
+  if (link.locked) {
+    return { label: "Locked", className: "bg-red-50 text-red-600" };
+  }
+  return { label: "Active", className: "bg-emerald-50 text-emerald-700" };
+}
+
+export default function ShareLinksPanel({ quoteId, onLinkCreated }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    const response = await fetch(`/api/quotes/${quoteId}/shares`);
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error || "Failed to load share links.");
+    }
+    setLinks(data.links as ShareLink[]);
+  }, [quoteId]);
+
+  useEffect(() => {
+    loadLinks().catch((loadError) =>
+      setError(loadError instanceof Error ? loadError.message : "Failed to load share links.")
+    );
+  }, [loadLinks]);
+
+  const shareUrl = (token: string) => `${window.location.origin}/q/${token}`;
+
+  const createLink = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await fetch(`/api/quotes/${quoteId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInDays: EXPIRY_OPTIONS[expiryIndex].days, pin: pin.trim() || null }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to create the share link.");
+      }
+      setPin("");
+      setLinks((previous) => [data.link as ShareLink, ...previous]);
+      onLinkCreated?.();
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : "Failed to create the share link.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const revokeLink = async (token: string) => {
+    if (!window.confirm("Revoke this link? The customer will no longer be able to open it.")) {
+      return;
+    }
+    try {
+      setError(null);
+      const response = await fetch(`/api/quotes/${quoteId}/shares/${token}`, { method: "DELETE" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to revoke the share link.");
+      }
+      setLinks((previous) => previous.map((link) => (link.token === token ? (data.link as ShareLink) : link)));
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : "Failed to revoke the share link.");
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+    } catch {
+      window.prompt("Copy the link:", shareUrl(token));
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Customer Links</h2>
+          <p className="text-sm text-zinc-600">
+            A link opens a read-only web copy of this saved quote. Save first to share unsaved edits.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => loadLinks().catch(() => undefined)}
+          className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400"
+        >
+          Refresh views
+        </button>
+      </div>
+
+      <div className="mb-4 flex flex-col gap-3 text-sm sm:flex-row sm:items-end">
+        <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+          Expires after
+          <select
+            value={expiryIndex}
+            onChange={(event) => setExpiryIndex(Number(event.target.value))}
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+          >
+            {EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+          PIN (optional)
+          <input
+            type="text"
+            inputMode="numeric"
+            value={pin}
+            onChange={(event) => setPin(event.target.value.replace(/\D/g, "").slice(0, 8))}
+            placeholder="4-8 digits"
+            className="w-32 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={createLink}
+          disabled={isWorking}
+          className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isWorking ? "Creating…" : "Create Link"}
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {links.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-left text-sm text-zinc-700">
+            <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+              <tr>
+                <th className="px-4 py-3">Link</th>
+                <th className="px-4 py-3">Expires</th>
+                <th className="px-4 py-3 text-right">Views</th>
+                <th className="px-4 py-3">First opened</th>
+                <th className="px-4 py-3">Last opened</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {links.map((link) => {
+                const state = linkState(link);
+                return (
+                  <tr key={link.token} className="border-t border-zinc-100">
+                    <td className="px-4 py-3">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${state.className}`}>
+                        {state.label}
+                      </span>
+                      {link.hasPin && <span className="ml-2 text-xs text-zinc-500">PIN</span>}
+                      <p className="mt-1 text-xs text-zinc-500">Created {dateFormat.format(new Date(link.createdAt))}</p>
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {link.expiresAt ? dateFormat.format(new Date(link.expiresAt)) : "Never"}
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold">{link.views.count}</td>
+                    <td className="px-4 py-3 text-xs">
+                      {link.views.firstViewedAt ? dateFormat.format(new Date(link.views.firstViewedAt)) : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {link.views.lastViewedAt ? dateFormat.format(new Date(link.views.lastViewedAt)) : "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {state.label === "Active" && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => copyLink(link.token)}
+                            className="rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-800"
+                          >
+                            {copiedToken === link.token ? "Copied" : "Copy"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => revokeLink(link.token)}
+                            className="rounded-lg border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:bg-red-50"
+                          >
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,313 @@
+import Image from "next/image";
+import { BRAND_FONTS, brandFooterLines, type BrandProfile } from "@/lib/brand";
+import { formatStagePercentage } from "@/lib/payment-schedule";
+import {
+  computeQuoteTotals,
+  METADATA_FIELDS,
+  PROJECT_DETAIL_FIELDS,
+  removeBracketValues,
+  typeTotal,
+  type QuoteDocument,
+} from "@/lib/quote";
+import { includedSections, PAYMENT_SCHEDULE_SECTION_ID, type PolicyVersion } from "@/lib/quote-policies";
+import { computeTaxBreakdown, placeOfSupplyNote } from "@/lib/tax";
+import PolicyBlockView from "@/app/components/PolicyBlockView";
+
+type SharedQuoteViewProps = {
+  quote: QuoteDocument;
+  brand: BrandProfile;
+  // Already filled in for the brand.
+  policy: PolicyVersion;
+};
+
+const currencyFormat = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 2,
+});
+
+function formatMoney(value?: number | null) {
+  return value != null && !Number.isNaN(value) ? currencyFormat.format(value) : "-";
+}
+
+// The customer's read-only copy of a quote at /q/<token>: the same content as
+// the designer's preview without any of the editing controls.
+export default function SharedQuoteView({ quote, brand, policy }: SharedQuoteViewProps) {
+  const meta = quote.meta ?? {};
+  const rows = quote.summary?.rows ?? [];
+  const { totalsRow, totalBeforeDiscount, discount, totalAfterDiscount, paymentRows } = computeQuoteTotals(
+    quote.summary,
+    quote.meta
+  );
+  const taxBreakdown = computeTaxBreakdown(quote.summary, quote.meta, brand.gstRates);
+  const hasDueDates = paymentRows.some((row) => row.dueDate);
+  const footerLines = brandFooterLines(brand);
+
+  const details = PROJECT_DETAIL_FIELDS.map(({ field, subtitleField, fullWidth }) => ({
+    field,
+    fullWidth,
+    label: METADATA_FIELDS.find((item) => item.field === field)?.label ?? field,
+    value: field === "discountAmount" ? (meta.discountAmount ? formatMoney(meta.discountAmount) : "") : String(meta[field] ?? ""),
+    subtitle: subtitleField ? String(meta[subtitleField] ?? "") : "",
+  })).filter((detail) => detail.value.trim());
+
+  return (
+    <article className="space-y-10 p-8 text-zinc-900" style={{ fontFamily: BRAND_FONTS[brand.font].css }}>
+      <header className="space-y-4 border-b border-zinc-200 pb-4">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-4xl font-bold">Quotation</h1>
+          <Image src={brand.logo} alt={brand.name} width={160} height={48} className="h-12 w-auto" />
+        </div>
+        <div className="flex flex-col gap-2 text-sm text-zinc-600 md:flex-row md:justify-between">
+          <p>Hi {meta.customer || "there"} &amp; Family,</p>
+          {meta.quoteDate && <p>Issued on: {meta.quoteDate}</p>}
+        </div>
+        <p className="text-sm text-zinc-600">
+          Here is the quote that you requested. Please review and reach out to us for any questions.
+        </p>
+        {meta.quoteNumber && <p className="text-right font-semibold">{meta.quoteNumber}</p>}
+      </header>
+
+      {details.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-base font-semibold">Project Details</h2>
+          <dl className="grid gap-4 rounded-3xl border border-zinc-200 bg-zinc-50 p-6 text-sm md:grid-cols-2 lg:grid-cols-4">
+            {details.map((detail) => (
+              <div
+                key={detail.field}
+                className={`rounded-2xl bg-white p-4 ${detail.fullWidth ? "md:col-span-2 lg:col-span-4" : ""}`}
+              >
+                <dt className="text-xs font-semibold uppercase tracking-wide text-zinc-500">{detail.label}</dt>
+                <dd className="whitespace-pre-line text-base font-semibold">{detail.value}</dd>
+                {detail.subtitle && <dd className="text-xs text-zinc-500">{detail.subtitle}</dd>}
+              </div>
+            ))}
+          </dl>
+        </section>
+      )}
+
+      {rows.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Room Summary</h2>
+          <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white shadow-sm">
+            <table className="w-full text-left text-sm text-zinc-700">
+              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                <tr>
+                  <th className="px-4 py-3">Room</th>
+                  <th className="px-4 py-3 text-right">Modules</th>
+                  <th className="px-4 py-3 text-right">Accessories</th>
+                  <th className="px-4 py-3 text-right">Appliances</th>
+                  <th className="px-4 py-3 text-right">Services</th>
+                  <th className="px-4 py-3 text-right">Furniture</th>
+                  <th className="px-4 py-3 text-right">Worktops</th>
+                  <th className="px-4 py-3 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.room} className="border-t border-zinc-100">
+                    <td
+                      className="px-4 py-3 font-semibold uppercase tracking-wide"
+                      style={{ backgroundColor: brand.colors.primary, color: brand.colors.onPrimary }}
+                    >
+                      {row.room}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.modules)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.accessories)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.appliances)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.services)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.furniture)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.worktops)}</td>
+                    <td className="px-4 py-3 text-right font-semibold text-zinc-900">{formatMoney(row.total)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-zinc-200 bg-zinc-100 font-semibold uppercase tracking-wide text-zinc-900">
+                  <td className="px-4 py-3">Total</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.modules)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.accessories)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.appliances)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.services)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.furniture)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.worktops)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(totalsRow.total)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-zinc-500">* All amounts include GST.</p>
+        </section>
+      )}
+
+      {totalAfterDiscount != null && (
+        <section className="grid gap-4 sm:grid-cols-2">
+          {discount ? (
+            <div className="rounded-3xl border border-blue-200 bg-blue-50 p-6 text-blue-800 shadow-sm">
+              <h3 className="text-xs font-semibold uppercase tracking-[0.2em]">Discount Applied</h3>
+              <p className="mt-3 text-3xl font-bold">{formatMoney(Math.abs(discount))}</p>
+              {totalBeforeDiscount != null && (
+                <p className="mt-2 text-xs">Subtracted from rooms total of {formatMoney(totalBeforeDiscount)}</p>
+              )}
+            </div>
+          ) : null}
+          <div className="rounded-3xl border border-emerald-200 bg-emerald-50 p-6 text-emerald-800 shadow-sm">
+            <h3 className="text-xs font-semibold uppercase tracking-[0.2em]">Total Payable</h3>
+            <p className="mt-3 text-3xl font-bold">{formatMoney(totalAfterDiscount)}</p>
+          </div>
+        </section>
+      )}
+
+      {taxBreakdown && (
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">Tax Breakdown</h2>
+          <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white shadow-sm">
+            <table className="w-full text-left text-sm text-zinc-700">
+              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                <tr>
+                  <th className="px-4 py-3">Category</th>
+                  <th className="px-4 py-3">HSN/SAC</th>
+                  <th className="px-4 py-3 text-right">Taxable Value</th>
+                  <th className="px-4 py-3 text-right">{taxBreakdown.interState ? "IGST" : "CGST + SGST"}</th>
+                  <th className="px-4 py-3 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxBreakdown.lines.map((line) => (
+                  <tr key={line.category} className="border-t border-zinc-100">
+                    <td className="px-4 py-3 font-medium text-zinc-900">{line.label}</td>
+                    <td className="px-4 py-3">{line.hsn || "-"}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(line.taxableValue)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {formatMoney(line.igst + line.cgst + line.sgst)}{" "}
+                      <span className="text-xs text-zinc-500">@ {line.rate}%</span>
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatMoney(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-zinc-500">{placeOfSupplyNote(taxBreakdown)}</p>
+        </section>
+      )}
+
+      {quote.rooms
+        .filter((room) => room.types.length > 0)
+        .map((room) => (
+          <section key={room.name} className="space-y-6">
+            <h2 className="border-b border-zinc-200 pb-2 text-lg font-semibold">{room.name}</h2>
+            {room.types.map((type) => (
+              <div key={type.type} className="space-y-4 rounded-2xl border border-zinc-200 bg-zinc-50 p-5 shadow-sm">
+                <header className="flex flex-col gap-1 md:flex-row md:items-baseline md:justify-between">
+                  <div>
+                    <h3 className="text-base font-semibold">{type.label}</h3>
+                    <p className="text-xs uppercase tracking-wide text-zinc-500">{type.type}</p>
+                  </div>
+                  {typeTotal(type) != null && (
+                    <p className="text-sm font-medium text-zinc-700">{formatMoney(typeTotal(type))}</p>
+                  )}
+                </header>
+                {Object.keys(type.materials).length > 0 && (
+                  <div className="rounded-xl border border-zinc-200 bg-white p-3 text-sm leading-relaxed text-zinc-700">
+                    {Object.entries(type.materials).map(([key, value]) => (
+                      <p key={key}>
+                        <span className="font-medium text-zinc-900">{key}:</span> {removeBracketValues(value)}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {type.items.length > 0 && (
+                  <div className="overflow-x-auto rounded-xl border border-zinc-200 bg-white">
+                    <table className="w-full text-left text-sm text-zinc-700">
+                      <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                        <tr>
+                          <th className="px-4 py-3">Code</th>
+                          <th className="px-4 py-3">Unit Name</th>
+                          <th className="px-4 py-3">Dimension</th>
+                          <th className="px-4 py-3 text-right">Price</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {type.items.map((item, index) => (
+                          <tr key={index} className="border-t border-zinc-100">
+                            <td className="px-4 py-3 font-mono text-xs">{item.code || "-"}</td>
+                            <td className="px-4 py-3">{item.description}</td>
+                            <td className="px-4 py-3">{item.size || "-"}</td>
+                            <td className="px-4 py-3 text-right">{formatMoney(item.price)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        ))}
+
+      <section className="space-y-6">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-semibold">{policy.heading.title}</h2>
+          <p className="text-sm text-zinc-600">{policy.heading.subtitle}</p>
+        </div>
+        {includedSections(policy, meta.terms).map((section) => (
+          <div key={section.id} className="space-y-3">
+            <h3 className="text-lg font-semibold">{section.title}</h3>
+            {section.blocks.length > 0 && (
+              <div className="space-y-2 rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
+                {section.blocks.map((block, index) => (
+                  <PolicyBlockView key={index} block={block} />
+                ))}
+              </div>
+            )}
+            {section.id === PAYMENT_SCHEDULE_SECTION_ID && (
+              <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white shadow-sm">
+                <table className="w-full text-left text-sm text-zinc-700">
+                  <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                    <tr>
+                      <th className="px-4 py-3">Milestone</th>
+                      <th className="px-4 py-3 text-right">Percentage</th>
+                      <th className="px-4 py-3 text-right">Amount</th>
+                      {hasDueDates && <th className="px-4 py-3">Due</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {paymentRows.map((row, index) => (
+                      <tr key={index} className="border-t border-zinc-100">
+                        <td className="px-4 py-3 font-medium text-zinc-900">{row.stage}</td>
+                        <td className="px-4 py-3 text-right">{formatStagePercentage(row.percentage)}</td>
+                        <td className="px-4 py-3 text-right">{formatMoney(row.amount)}</td>
+                        {hasDueDates && <td className="px-4 py-3">{row.dueDate || "-"}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {section.notes?.map((note) => (
+              <p key={note} className="text-sm text-zinc-600">
+                {note}
+              </p>
+            ))}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-lg font-semibold">{policy.disclaimer.title}</h3>
+        <p className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
+          {policy.disclaimer.text}
+        </p>
+        <p className="text-xs text-zinc-500">Terms version {policy.version}</p>
+      </section>
+
+      {footerLines.length > 0 && (
+        <footer className="space-y-1 border-t border-zinc-200 pt-4 text-xs text-zinc-500">
+          {footerLines.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </footer>
+      )}
+    </article>
+  );
+}
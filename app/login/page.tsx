@@ -0,0 +1,112 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth";
+import { currentUser, safeRedirectPath } from "@/lib/route-auth";
+import { hasUsers } from "@/lib/user-store";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Sign in",
+};
+
+type PageProps = {
+  searchParams: Promise<{ error?: string; setupError?: string; next?: string }>;
+};
+
+const inputClassName = "w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm";
+
+export default async function LoginPage({ searchParams }: PageProps) {
+  const { error, setupError, next } = await searchParams;
+  const nextPath = safeRedirectPath(next);
+  if (await currentUser()) {
+    redirect(nextPath);
+  }
+  const needsSetup = !(await hasUsers());
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-md space-y-6 rounded-3xl bg-white p-10 shadow-xl">
+        {needsSetup ? (
+          <>
+            <div className="space-y-2">
+              <h1 className="text-2xl font-semibold">Create the admin account</h1>
+              <p className="text-sm text-zinc-600">
+                There are no accounts yet. The first one is an admin, who can then add designers and managers.
+              </p>
+            </div>
+            {setupError && (
+              <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{setupError}</p>
+            )}
+            <form method="post" action="/api/auth/setup" className="space-y-4">
+              <label className="block space-y-1 text-xs font-medium text-zinc-600">
+                <span>Your name</span>
+                <input type="text" name="name" autoComplete="name" required className={inputClassName} />
+              </label>
+              <label className="block space-y-1 text-xs font-medium text-zinc-600">
+                <span>Username</span>
+                <input type="text" name="username" autoComplete="username" required className={inputClassName} />
+              </label>
+              <label className="block space-y-1 text-xs font-medium text-zinc-600">
+                <span>Password (at least {MIN_PASSWORD_LENGTH} characters)</span>
+                <input
+                  type="password"
+                  name="password"
+                  autoComplete="new-password"
+                  minLength={MIN_PASSWORD_LENGTH}
+                  required
+                  className={inputClassName}
+                />
+              </label>
+              <button
+                type="submit"
+                className="w-full rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500"
+              >
+                Create Account
+              </button>
+            </form>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-semibold">Sign in</h1>
+            {error === "invalid" && (
+              <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">
+                The username or password is not correct.
+              </p>
+            )}
+            <form method="post" action="/api/auth/login" className="space-y-4">
+              <input type="hidden" name="next" value={nextPath} />
+              <label className="block space-y-1 text-xs font-medium text-zinc-600">
+                <span>Username</span>
+                <input
+                  type="text"
+                  name="username"
+                  autoComplete="username"
+                  required
+                  autoFocus
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block space-y-1 text-xs font-medium text-zinc-600">
+                <span>Password</span>
+                <input
+                  type="password"
+                  name="password"
+                  autoComplete="current-password"
+                  required
+                  className={inputClassName}
+                />
+              </label>
+              <button
+                type="submit"
+                className="w-full rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500"
+              >
+                Sign In
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,16 +1,80 @@
 "use client";
 
-import html2canvas from "html2canvas";
-import { jsPDF } from "jspdf";
 import {
-  forwardRef,
   useCallback,
+  useEffect,
   useMemo,
-  useRef,
   useState,
   type ChangeEvent,
   type FormEvent,
 } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  computeQuoteTotals,
+  itemsTotal,
+  METADATA_FIELDS,
+  PROJECT_DETAIL_FIELDS,
+  removeBracketValues,
+  toPdfFilename,
+  typeTotal,
+  type ParseDiagnostic,
+  type QuoteMetadata,
+  type QuoteRoom,
+  type QuoteSummary,
+} from "@/lib/quote";
+import {
+  BUILT_IN_POLICY_VERSION,
+  availableSections,
+  includedSections,
+  PAYMENT_SCHEDULE_SECTION_ID,
+  type PolicyVersion,
+  type PolicyVersionSummary,
+  type QuoteTerms,
+  type TermsSource,
+} from "@/lib/quote-policies";
+import {
+  BRAND_FONTS,
+  brandFooterLines,
+  brandPolicy,
+  DEFAULT_BRANDS,
+  findBrand,
+  type BrandProfile,
+} from "@/lib/brand";
+import { uploadFileInChunks } from "@/lib/chunked-upload";
+import { ConvertApiError, convertWorkbookUpload } from "@/lib/convert-client";
+import type { ConvertResult } from "@/lib/quote-schema";
+import type { ParsingProfileSummary } from "@/lib/parsing-profiles";
+import {
+  DEFAULT_PAYMENT_SCHEDULE_TEMPLATES,
+  scheduleFromTemplate,
+  validatePaymentSchedule,
+  type PaymentSchedule,
+  type PaymentScheduleTemplate,
+} from "@/lib/payment-schedule";
+import type { QuoteAcceptance } from "@/lib/acceptance";
+import { canApproveDiscounts, canManageSettings, USER_ROLE_LABELS, type User } from "@/lib/auth";
+import type { QuoteDiff } from "@/lib/quote-diff";
+import type { QuoteListEntry, StoredQuote } from "@/lib/quote-store";
+import { quoteStatusOf, type QuoteStatus } from "@/lib/quote-status";
+import {
+  addItem,
+  deleteItem,
+  moveItem,
+  updateItem,
+  type QuoteEdit,
+} from "@/lib/quote-edit";
+import { reconcileQuote, type ReconciliationResult } from "@/lib/reconciliation";
+import { computeTaxBreakdown, placeOfSupplyNote } from "@/lib/tax";
+import { UNCATEGORISED } from "@/lib/taxonomy";
+import ParseReportPanel from "@/app/components/ParseReportPanel";
+import PaymentStagesEditor from "@/app/components/PaymentStagesEditor";
+import PolicyBlockView from "@/app/components/PolicyBlockView";
+import QuoteStatusPanel from "@/app/components/QuoteStatusPanel";
+import QuoteTimelinePanel from "@/app/components/QuoteTimelinePanel";
+import RevisionHistoryPanel from "@/app/components/RevisionHistoryPanel";
+import SavedQuotesPanel from "@/app/components/SavedQuotesPanel";
+import ShareLinksPanel from "@/app/components/ShareLinksPanel";
 
 // --- Types ---
 
@@ -20,104 +84,23 @@ type Status =
   | { state: "error"; message: string }
   | { state: "success"; message: string };
 
-type PreviewDetail = {
-  code: string;
-  description: string;
-  size: string;
-  price?: number;
-};
-
-type PreviewType = {
-  type: string;
-  label: string;
-  materials: Record<string, string>;
-  stats: {
-    areaSqFt: number | null;
-    costPerSqFt: number | null;
-    total: number | null;
-  };
-  dimensionAggregate: number | null;
-  items: PreviewDetail[];
-};
-
-type PreviewRoom = {
-  name: string;
-  types: PreviewType[];
-};
-
-type RoomSummaryRow = {
-  room: string;
-  modules: number;
-  accessories: number;
-  appliances: number;
-  services: number;
-  furniture: number;
-  worktops: number;
-  total?: number;
-};
-
-type QuoteSummary = {
-  rows: RoomSummaryRow[];
-  subtotal?: number;
-  totalPayable?: number;
-  discount?: number;
-};
-
-type QuoteMetadata = {
-  reference?: string;
-  customer?: string;
-  designerName?: string;
-  designerEmail?: string;
-  designerPhone?: string;
-  quoteDate?: string;
-  quoteValidTill?: string;
-  propertyName?: string;
-  totalBuiltUpArea?: string;
-  propertyConfig?: string;
-  quoteStatus?: string;
-  address?: string;
-  quoteNumber?: string;
-  discountAmount?: number;
-};
-
-const METADATA_FIELDS: Array<{
-  field: keyof QuoteMetadata;
-  label: string;
-  placeholder?: string;
-  multiline?: boolean;
-  fullWidth?: boolean;
-}> = [
-  { field: "quoteNumber", label: "Quote Number" },
-  { field: "quoteDate", label: "Quote Date" },
-  { field: "customer", label: "Customer Name" },
-  { field: "propertyName", label: "Property Name" },
-  { field: "totalBuiltUpArea", label: "Total Built-up Area" },
-  { field: "propertyConfig", label: "Property Config" },
-  { field: "designerName", label: "Design Expert" },
-  { field: "designerEmail", label: "Designer Email" },
-  { field: "designerPhone", label: "Designer Phone" },
-  { field: "quoteValidTill", label: "Quote Valid Till" },
-  { field: "quoteStatus", label: "Quote Status" },
-  { field: "discountAmount", label: "Discount Amount (₹)" },
-  { field: "address", label: "Address", multiline: true, fullWidth: true },
-];
-
-const PAYMENT_SCHEDULE = [
-  { stage: "Design Start Stage", percentage: 10 },
-  { stage: "Design Freeze Stage", percentage: 10 },
-  { stage: "Production Start", percentage: 40 },
-  { stage: "Before Dispatch", percentage: 30 },
-  { stage: "Post Carcass", percentage: 10 },
-] as const;
-
 type PreviewContentProps = {
   meta: QuoteMetadata | null;
-  rooms: PreviewRoom[];
+  rooms: QuoteRoom[];
   summary: QuoteSummary | null;
   formatNumber: Intl.NumberFormat;
   formatCurrency: Intl.NumberFormat;
+  reconciliation: ReconciliationResult | null;
+  paymentScheduleTemplates: PaymentScheduleTemplate[];
+  policy: PolicyVersion;
+  policyVersions: PolicyVersionSummary[];
+  brand: BrandProfile;
+  brands: BrandProfile[];
   onMetaChange: (field: keyof QuoteMetadata, value: string) => void;
-  projectTotal: number | null;
+  onQuoteEdit: (edit: QuoteEdit) => void;
+  onPaymentScheduleChange: (schedule: PaymentSchedule) => void;
+  onTermsChange: (terms: QuoteTerms) => void;
+  onBrandChange: (brandId: string) => void;
 };
 
 type MetaFieldInputProps = {
@@ -131,6 +114,18 @@ type MetaFieldInputProps = {
 
 // --- Helper Components & Functions ---
 
+// Hands a generated file to the browser as a download.
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 function MetaFieldInput({ field, value, placeholder, onChange, className, multiline }: MetaFieldInputProps) {
   const commonClasses = `w-full resize-none bg-transparent text-inherit focus:outline-none focus:ring-0 ${className ?? ""}`;
   if (multiline) {
@@ -155,1045 +150,154 @@ function MetaFieldInput({ field, value, placeholder, onChange, className, multil
   );
 }
 
-function clamp(value: number, min = 0, max = 1) {
-  return Math.min(Math.max(value, min), max);
-}
-
-function labToRgb(lab: string) {
-  try {
-    const match = lab
-      .replace(/\s+/g, " ")
-      .match(/^lab\(([^)]+)\)/i);
-    if (!match) {
-      return lab;
-    }
-
-    const parts = match[1]
-      .split(/[,\s]+/)
-      .map((token) => token.trim())
-      .filter(Boolean);
-
-    if (parts.length < 3) {
-      return lab;
-    }
-
-    const alphaIndex = parts.findIndex((token) => token.includes("/"));
-    let alpha = 1;
-
-    if (alphaIndex !== -1) {
-      const [value, alphaToken] = parts[alphaIndex].split("/").map((token) => token.trim());
-      parts[alphaIndex] = value;
-      alpha = Number(alphaToken);
-      if (Number.isNaN(alpha)) {
-        alpha = 1;
-      }
-    } else if (parts.length >= 4) {
-      alpha = Number(parts[3]);
-      if (Number.isNaN(alpha)) {
-        alpha = 1;
-      }
-    }
-
-    const L = parseFloat(parts[0]);
-    const a = parseFloat(parts[1]);
-    const b = parseFloat(parts[2]);
-
-    if (Number.isNaN(L) || Number.isNaN(a) || Number.isNaN(b)) {
-      return lab;
-    }
-
-    const y = (L + 16) / 116;
-    const x = a / 500 + y;
-    const z = y - b / 200;
-
-    const f = (t: number) => {
-      if (Number.isNaN(t) || !Number.isFinite(t)) {
-        return 0;
-      }
-      return t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787;
-    };
-
-    const Xn = 0.95047;
-    const Yn = 1.0;
-    const Zn = 1.08883;
-
-    const X = Xn * f(x);
-    const Y = Yn * f(y);
-    const Z = Zn * f(z);
-
-    let r = X * 3.2406 + Y * -1.5372 + Z * -0.4986;
-    let g = X * -0.9689 + Y * 1.8758 + Z * 0.0415;
-    let bl = X * 0.0557 + Y * -0.204 + Z * 1.057;
-
-    const gamma = (c: number) => {
-      if (Number.isNaN(c) || !Number.isFinite(c)) {
-        return 0;
-      }
-      return c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
-    };
-
-    r = clamp(gamma(r));
-    g = clamp(gamma(g));
-    bl = clamp(gamma(bl));
-
-    const to255 = (c: number) => Math.round(clamp(c) * 255);
-
-    if (!Number.isFinite(r) || !Number.isFinite(g) || !Number.isFinite(bl)) {
-      return lab;
-    }
-
-    if (alpha < 1) {
-      return `rgba(${to255(r)}, ${to255(g)}, ${to255(bl)}, ${clamp(alpha)})`;
-    }
-
-    return `rgb(${to255(r)}, ${to255(g)}, ${to255(bl)})`;
-  } catch (error) {
-    console.warn("Error converting LAB color:", lab, error);
-    return lab;
-  }
-}
-
-function oklabToRgb(oklab: string) {
-  try {
-    const match = oklab
-      .replace(/\s+/g, " ")
-      .match(/^oklab\(([^)]+)\)/i);
-    if (!match) {
-      return oklab;
-    }
-
-    const parts = match[1]
-      .split(/[,\s]+/)
-      .map((token) => token.trim())
-      .filter(Boolean);
-
-    if (parts.length < 3) {
-      return oklab;
-    }
-
-    const alphaIndex = parts.findIndex((token) => token.includes("/"));
-    let alpha = 1;
-
-    if (alphaIndex !== -1) {
-      const [value, alphaToken] = parts[alphaIndex].split("/").map((token) => token.trim());
-      parts[alphaIndex] = value;
-      alpha = Number(alphaToken);
-      if (Number.isNaN(alpha)) {
-        alpha = 1;
-      }
-    } else if (parts.length >= 4) {
-      alpha = Number(parts[3]);
-      if (Number.isNaN(alpha)) {
-        alpha = 1;
-      }
-    }
-
-    const L = parseFloat(parts[0]);
-    const a = parseFloat(parts[1]);
-    const b = parseFloat(parts[2]);
-
-    if (Number.isNaN(L) || Number.isNaN(a) || Number.isNaN(b)) {
-      return oklab;
-    }
-
-    const l_ = L + 0.3963377774 * a + 0.2158037573 * b;
-    const m_ = L - 0.1055613458 * a - 0.0638541728 * b;
-    const s_ = L - 0.0894841775 * a - 1.2914855480 * b;
-
-    const l = l_ ** 3;
-    const m = m_ ** 3;
-    const s = s_ ** 3;
-
-    let r = +4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
-    let g = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
-    let bl = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
-
-    const gamma = (c: number) => {
-      if (Number.isNaN(c) || !Number.isFinite(c)) {
-        return 0;
-      }
-      const abs = Math.abs(c);
-      if (abs > 0.0031308) {
-        return (c > 0 ? 1 : -1) * (1.055 * Math.pow(abs, 1.0 / 2.4) - 0.055);
-      }
-      return 12.92 * c;
-    };
-
-    r = clamp(gamma(r));
-    g = clamp(gamma(g));
-    bl = clamp(gamma(bl));
-
-    const to255 = (c: number) => Math.round(clamp(c) * 255);
-
-    if (!Number.isFinite(r) || !Number.isFinite(g) || !Number.isFinite(bl)) {
-      return oklab;
-    }
-
-    if (alpha < 1) {
-      return `rgba(${to255(r)}, ${to255(g)}, ${to255(bl)}, ${clamp(alpha)})`;
-    }
-
-    return `rgb(${to255(r)}, ${to255(g)}, ${to255(bl)})`;
-  } catch (error) {
-    console.warn("Error converting OKLab color:", oklab, error);
-    return oklab;
-  }
-}
-
-function normalizeColor(value: string, property?: string) {
-  if (!value || typeof value !== "string") {
-    return value;
-  }
-   
-  const hasUnsupportedColor = /(lab|oklab)\(/i.test(value);
-  if (!hasUnsupportedColor) {
-    return value;
-  }
-   
-  try {
-    let normalized = value.replace(/oklab\([^)]*\)/gi, (match) => {
-      try {
-        const converted = oklabToRgb(match);
-        if (converted === match) {
-          if (property === "backgroundColor" || property === "background") return "white";
-          else if (property === "color") return "black";
-          else if (property === "borderColor" || property === "border") return "currentColor";
-          return "transparent";
-        }
-        return converted;
-      } catch (error) {
-        if (property === "backgroundColor" || property === "background") return "white";
-        else if (property === "color") return "black";
-        return "transparent";
-      }
-    });
-    
-    normalized = normalized.replace(/lab\([^)]*\)/gi, (match) => {
-      try {
-        const converted = labToRgb(match);
-        if (converted === match) {
-          if (property === "backgroundColor" || property === "background") return "white";
-          else if (property === "color") return "black";
-          else if (property === "borderColor" || property === "border") return "currentColor";
-          return "transparent";
-        }
-        return converted;
-      } catch (error) {
-        if (property === "backgroundColor" || property === "background") return "white";
-        else if (property === "color") return "black";
-        return "transparent";
-      }
-    });
-
-    return normalized;
-  } catch (error) {
-    if (property === "backgroundColor" || property === "background") return "white";
-    else if (property === "color") return "black";
-    return value;
-  }
-}
+type ItemTextInputProps = {
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+};
 
-function convertAllColorsInElement(element: HTMLElement) {
-  try {
-    const style = window.getComputedStyle(element);
-    const colorProps = ['color', 'backgroundColor', 'background', 'borderColor',
-                        'borderTopColor', 'borderRightColor', 'borderBottomColor',
-                        'borderLeftColor', 'border', 'borderTop', 'borderRight',
-                        'borderBottom', 'borderLeft', 'outlineColor', 'outline',
-                        'textShadow', 'boxShadow', 'columnRuleColor'] as const;
-    
-    colorProps.forEach((prop) => {
-      try {
-        let value = style.getPropertyValue(prop);
-        if (!value) {
-          const camelProp = prop.replace(/-([a-z])/g, (g) => g[1].toUpperCase());
-          value = (style as any)[camelProp];
-        }
-        
-        if (value && typeof value === 'string') {
-          if ((prop === 'textShadow' || prop === 'boxShadow') && /(lab|oklab)\(/i.test(value)) {
-            const shadowMatch = value.match(/(lab|oklab\([^)]+\))/gi);
-            if (shadowMatch) {
-              let shadowValue = value;
-              shadowMatch.forEach(match => {
-                const normalized = normalizeColor(match, prop);
-                if (normalized && !/(lab|oklab)\(/i.test(normalized)) {
-                  shadowValue = shadowValue.replace(match, normalized);
-                } else {
-                  shadowValue = shadowValue.replace(match, 'rgba(0,0,0,0.1)');
-                }
-              });
-              element.style.setProperty(prop, shadowValue, 'important');
-            }
-          }
-          else if ((prop === 'border' || prop.startsWith('border')) && !(prop as string).includes('Color') && /(lab|oklab)\(/i.test(value)) {
-            const borderParts = value.split(/\s+/);
-            const hasLabColor = borderParts.some(part => /(lab|oklab)\(/i.test(part));
-            if (hasLabColor) {
-              const width = borderParts.find(part => /^\d/.test(part)) || '1px';
-              const styleType = borderParts.find(part => ['solid', 'dashed', 'dotted', 'double', 'none'].includes(part)) || 'solid';
-              element.style.setProperty(prop, `${width} ${styleType} currentColor`, 'important');
-            }
-          }
-          else if (/(lab|oklab)\(/i.test(value) || (prop as string).includes('Color')) {
-            const normalized = normalizeColor(value, prop);
-            if (normalized && !/(lab|oklab)\(/i.test(normalized)) {
-              element.style.setProperty(prop, normalized, 'important');
-            } else {
-              if (prop === 'backgroundColor' || prop === 'background') {
-                element.style.setProperty('backgroundColor', 'white', 'important');
-              } else if (prop === 'color') {
-                element.style.setProperty('color', 'black', 'important');
-              } else if ((prop as string).includes('border') && (prop as string).includes('Color')) {
-                element.style.setProperty(prop, 'currentColor', 'important');
-              } else if (prop === 'outlineColor' || prop === 'outline') {
-                element.style.setProperty(prop, 'currentColor', 'important');
-              }
-            }
-          }
-        }
-      } catch (error) {
-        try {
-          if (prop === 'backgroundColor' || prop === 'background') {
-            element.style.setProperty('backgroundColor', 'white', 'important');
-          } else if (prop === 'color') {
-            element.style.setProperty('color', 'black', 'important');
-          }
-        } catch (fallbackError) {
-          // Ignore
-        }
-      }
-    });
-  } catch (error) {
-    try {
-      element.style.setProperty('color', 'black', 'important');
-      element.style.setProperty('backgroundColor', 'white', 'important');
-    } catch (fallbackError) {
-      // Ignore
-    }
-  }
-   
-  Array.from(element.children).forEach((child) => {
-    if (child instanceof HTMLElement) {
-      convertAllColorsInElement(child);
-    }
-  });
-   
-  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
-  let textNode;
-  while (textNode = walker.nextNode()) {
-    if (textNode.parentElement instanceof HTMLElement) {
-      const parentStyle = window.getComputedStyle(textNode.parentElement);
-      if (parentStyle.color && /(lab|oklab)\(/i.test(parentStyle.color)) {
-        const normalized = normalizeColor(parentStyle.color, "color");
-        if (normalized && !/(lab|oklab)\(/i.test(normalized)) {
-          textNode.parentElement.style.setProperty('color', normalized, 'important');
-        } else {
-          textNode.parentElement.style.setProperty('color', 'black', 'important');
-        }
-      }
-    }
-  }
+function ItemTextInput({ value, placeholder, onChange }: ItemTextInputProps) {
+  return (
+    <input
+      type="text"
+      className="w-full bg-transparent text-inherit focus:outline-none focus:ring-0 border-b border-dotted border-transparent hover:border-zinc-300 focus:border-zinc-400"
+      value={value}
+      placeholder={placeholder}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  );
 }
 
-function createPrintableClone(source: HTMLElement) {
-  const clone = source.cloneNode(true) as HTMLElement;
-
-  const convertInputsToText = (element: HTMLElement) => {
-    const inputs = element.querySelectorAll('input, textarea');
-     
-    inputs.forEach((input) => {
-      if (!(input instanceof HTMLInputElement) && !(input instanceof HTMLTextAreaElement)) {
-        return;
-      }
-      
-      const span = document.createElement('span');
-      let value = input.value || (input.placeholder && input.placeholder.trim() ? input.placeholder : '');
-      value = value.replace(/\s*-\s*$/, '').trim();
-      span.textContent = value;
-      
-      let computedStyle = window.getComputedStyle(input);
-      let originalInput: HTMLInputElement | HTMLTextAreaElement | null = null;
-      const inputName = input.getAttribute('name');
-      const inputId = input.id;
-      
-      if (inputId) {
-        originalInput = source.querySelector(`#${inputId}`) as HTMLInputElement | HTMLTextAreaElement | null;
-      }
-      if (!originalInput && inputName) {
-        originalInput = source.querySelector(`[name="${inputName}"]`) as HTMLInputElement | HTMLTextAreaElement | null;
-      }
-      
-      if (originalInput) {
-        computedStyle = window.getComputedStyle(originalInput);
-      }
-      
-      const inputDisplay = computedStyle.display;
-      if (inputDisplay === 'inline' || inputDisplay === 'inline-block' || inputDisplay === 'block') {
-        span.style.display = inputDisplay;
-      } else {
-        span.style.display = 'inline-block';
-      }
-      
-      span.style.width = computedStyle.width || '100%';
-      span.style.height = computedStyle.height || 'auto';
-      span.style.minWidth = computedStyle.minWidth || 'auto';
-      span.style.maxWidth = computedStyle.maxWidth || 'none';
-      span.style.minHeight = computedStyle.minHeight || 'auto';
-      span.style.maxHeight = computedStyle.maxHeight || 'none';
-      
-      span.style.fontFamily = computedStyle.fontFamily;
-      span.style.fontSize = computedStyle.fontSize;
-      span.style.fontWeight = computedStyle.fontWeight;
-      span.style.fontStyle = computedStyle.fontStyle;
-      span.style.lineHeight = computedStyle.lineHeight;
-      span.style.letterSpacing = computedStyle.letterSpacing;
-      span.style.textAlign = computedStyle.textAlign;
-      
-      if (input.parentElement) {
-        const parentStyle = window.getComputedStyle(input.parentElement);
-        if (parentStyle.display === 'flex' || parentStyle.display === 'inline-flex') {
-          span.style.flex = computedStyle.flex;
-          span.style.flexGrow = computedStyle.flexGrow;
-          span.style.flexShrink = computedStyle.flexShrink;
-          span.style.flexBasis = computedStyle.flexBasis;
-          span.style.alignSelf = computedStyle.alignSelf;
-        }
-      }
-      
-      span.style.padding = computedStyle.padding;
-      span.style.paddingTop = computedStyle.paddingTop;
-      span.style.paddingRight = computedStyle.paddingRight;
-      span.style.paddingBottom = computedStyle.paddingBottom;
-      span.style.paddingLeft = computedStyle.paddingLeft;
-      span.style.margin = computedStyle.margin;
-      span.style.marginTop = computedStyle.marginTop;
-      span.style.marginRight = computedStyle.marginRight;
-      span.style.marginBottom = computedStyle.marginBottom;
-      span.style.marginLeft = computedStyle.marginLeft;
-      
-      const normalizedSpanColor = normalizeColor(computedStyle.color, "color");
-      span.style.color = normalizedSpanColor && !/(lab|oklab)\(/i.test(normalizedSpanColor) 
-        ? normalizedSpanColor 
-        : "black";
-      
-      const normalizedBorderColor = normalizeColor(computedStyle.borderColor, "borderColor");
-      span.style.borderColor = normalizedBorderColor && !/(lab|oklab)\(/i.test(normalizedBorderColor)
-        ? normalizedBorderColor
-        : computedStyle.borderColor || "currentColor";
-      
-      span.style.borderWidth = computedStyle.borderWidth;
-      span.style.borderStyle = computedStyle.borderStyle;
-      span.style.borderTopWidth = computedStyle.borderTopWidth;
-      span.style.borderRightWidth = computedStyle.borderRightWidth;
-      span.style.borderBottomWidth = computedStyle.borderBottomWidth;
-      span.style.borderLeftWidth = computedStyle.borderLeftWidth;
-      span.style.borderRadius = computedStyle.borderRadius;
-      
-      const normalizedSpanBg = normalizeColor(computedStyle.backgroundColor, "backgroundColor");
-      span.style.backgroundColor = normalizedSpanBg && !/(lab|oklab)\(/i.test(normalizedSpanBg)
-        ? normalizedSpanBg
-        : "transparent";
-      span.style.height = computedStyle.height;
-      span.style.whiteSpace = computedStyle.whiteSpace;
-      span.style.overflowWrap = computedStyle.overflowWrap;
-      span.style.wordBreak = computedStyle.wordBreak;
-      span.style.verticalAlign = computedStyle.verticalAlign;
-      span.style.opacity = computedStyle.opacity;
-      span.style.visibility = computedStyle.visibility;
-      
-      span.className = input.className;
-      
-      if (!value) {
-        span.style.minHeight = computedStyle.minHeight || computedStyle.height || '1em';
-      }
-      
-      if (input.parentNode) {
-        input.parentNode.replaceChild(span, input);
-      }
-    });
-  };
+type ItemPriceInputProps = {
+  value?: number;
+  formatCurrency: Intl.NumberFormat;
+  onChange: (value: number | undefined) => void;
+};
 
-  const applyComputedStyles = (originalNode: Element, clonedNode: Element) => {
-    if (!(originalNode instanceof HTMLElement) || !(clonedNode instanceof HTMLElement)) {
-      return;
-    }
+// Prices are committed on blur or Enter so totals do not jump while typing.
+// The parent keys this by price, which resets the draft after each commit.
+function ItemPriceInput({ value, formatCurrency, onChange }: ItemPriceInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
 
-    let style: CSSStyleDeclaration;
-    try {
-      style = window.getComputedStyle(originalNode);
-    } catch (error) {
-      console.warn("Error getting computed style:", error);
+  const commit = () => {
+    if (draft == null) {
       return;
     }
-    try {
-      const normalizedColor = normalizeColor(style.color, "color");
-      if (normalizedColor && !/(lab|oklab)\(/i.test(normalizedColor)) {
-        clonedNode.style.color = normalizedColor;
-      } else {
-        clonedNode.style.color = "black";
-      }
-      
-      const normalizedBg = normalizeColor(style.backgroundColor, "backgroundColor");
-      if (normalizedBg && !/(lab|oklab)\(/i.test(normalizedBg)) {
-        clonedNode.style.backgroundColor = normalizedBg;
-      } else {
-        clonedNode.style.backgroundColor = "white";
-      }
-    clonedNode.style.font = style.font;
-    clonedNode.style.fontSize = style.fontSize;
-    clonedNode.style.fontFamily = style.fontFamily;
-    clonedNode.style.fontWeight = style.fontWeight;
-      clonedNode.style.fontStyle = style.fontStyle;
-      clonedNode.style.fontVariant = style.fontVariant;
-    clonedNode.style.lineHeight = style.lineHeight;
-    clonedNode.style.letterSpacing = style.letterSpacing;
-    clonedNode.style.textTransform = style.textTransform;
-      clonedNode.style.textDecoration = style.textDecoration;
-      clonedNode.style.textIndent = style.textIndent;
-      clonedNode.style.textAlign = style.textAlign;
-      const normalizedTextShadow = normalizeColor(style.textShadow, "textShadow");
-      if (normalizedTextShadow && !/(lab|oklab)\(/i.test(normalizedTextShadow)) {
-        clonedNode.style.textShadow = normalizedTextShadow;
-      }
-      
-      clonedNode.style.whiteSpace = style.whiteSpace;
-      clonedNode.style.wordWrap = style.wordWrap;
-      clonedNode.style.overflowWrap = style.overflowWrap;
-      clonedNode.style.wordBreak = style.wordBreak;
-
-    clonedNode.style.display = style.display;
-    clonedNode.style.flexDirection = style.flexDirection;
-    clonedNode.style.justifyContent = style.justifyContent;
-    clonedNode.style.alignItems = style.alignItems;
-      clonedNode.style.alignContent = style.alignContent;
-      clonedNode.style.alignSelf = style.alignSelf;
-      clonedNode.style.flexWrap = style.flexWrap;
-      clonedNode.style.flex = style.flex;
-      clonedNode.style.flexGrow = style.flexGrow;
-      clonedNode.style.flexShrink = style.flexShrink;
-      clonedNode.style.flexBasis = style.flexBasis;
-      clonedNode.style.alignContent = style.alignContent;
-      clonedNode.style.alignSelf = style.alignSelf;
-      clonedNode.style.flexWrap = style.flexWrap;
-      clonedNode.style.flex = style.flex;
-      clonedNode.style.flexGrow = style.flexGrow;
-      clonedNode.style.flexShrink = style.flexShrink;
-      clonedNode.style.flexBasis = style.flexBasis;
-      clonedNode.style.gap = style.gap;
-      clonedNode.style.rowGap = style.rowGap;
-      clonedNode.style.columnGap = style.columnGap;
-      clonedNode.style.rowGap = style.rowGap;
-      clonedNode.style.columnGap = style.columnGap;
-    clonedNode.style.padding = style.padding;
-      clonedNode.style.paddingTop = style.paddingTop;
-      clonedNode.style.paddingRight = style.paddingRight;
-      clonedNode.style.paddingBottom = style.paddingBottom;
-      clonedNode.style.paddingLeft = style.paddingLeft;
-      clonedNode.style.paddingTop = style.paddingTop;
-      clonedNode.style.paddingRight = style.paddingRight;
-      clonedNode.style.paddingBottom = style.paddingBottom;
-      clonedNode.style.paddingLeft = style.paddingLeft;
-    clonedNode.style.margin = style.margin;
-      clonedNode.style.marginTop = style.marginTop;
-      clonedNode.style.marginRight = style.marginRight;
-      clonedNode.style.marginBottom = style.marginBottom;
-      clonedNode.style.marginLeft = style.marginLeft;
-      clonedNode.style.gridTemplateColumns = style.gridTemplateColumns;
-      clonedNode.style.gridTemplateRows = style.gridTemplateRows;
-      clonedNode.style.gridTemplateAreas = style.gridTemplateAreas;
-      clonedNode.style.gridColumn = style.gridColumn;
-      clonedNode.style.gridRow = style.gridRow;
-      clonedNode.style.gridColumnStart = style.gridColumnStart;
-      clonedNode.style.gridColumnEnd = style.gridColumnEnd;
-      clonedNode.style.gridRowStart = style.gridRowStart;
-      clonedNode.style.gridRowEnd = style.gridRowEnd;
-      clonedNode.style.placeItems = style.placeItems;
-      clonedNode.style.placeContent = style.placeContent;
-      
-      const normalizedBorder = normalizeColor(style.border, "border");
-      if (normalizedBorder && !/(lab|oklab)\(/i.test(normalizedBorder)) {
-        clonedNode.style.border = normalizedBorder;
-      } else {
-        clonedNode.style.border = style.border || "none";
-      }
-      
-      const normalizedBorderColor = normalizeColor(style.borderColor, "borderColor");
-      if (normalizedBorderColor && !/(lab|oklab)\(/i.test(normalizedBorderColor)) {
-        clonedNode.style.borderColor = normalizedBorderColor;
-      } else {
-        clonedNode.style.borderColor = style.borderColor || "currentColor";
-      }
-      
-      clonedNode.style.borderWidth = style.borderWidth;
-      clonedNode.style.borderStyle = style.borderStyle;
-      
-      const normalizedOutline = normalizeColor(style.outline, "outline");
-      if (normalizedOutline && !/(lab|oklab)\(/i.test(normalizedOutline)) {
-        clonedNode.style.outline = normalizedOutline;
-      } else {
-        clonedNode.style.outline = style.outline || "none";
-      }
-      
-    clonedNode.style.borderRadius = style.borderRadius;
-      
-      const normalizedBoxShadow = normalizeColor(style.boxShadow, "boxShadow");
-      if (normalizedBoxShadow && !/(lab|oklab)\(/i.test(normalizedBoxShadow)) {
-        clonedNode.style.boxShadow = normalizedBoxShadow;
-      } else {
-        clonedNode.style.boxShadow = style.boxShadow || "none";
-      }
-    } catch (error) {
-      console.warn("Error applying computed styles:", error);
-      try {
-        clonedNode.style.color = "black";
-        clonedNode.style.backgroundColor = "white";
-        clonedNode.style.borderColor = "currentColor";
-      } catch (fallbackError) {
-        console.warn("Error setting fallback colors:", fallbackError);
-      }
+    const sanitized = draft.replace(/[^0-9.]/g, "");
+    const numeric = sanitized ? Number(sanitized) : undefined;
+    setDraft(null);
+    if (numeric !== value && (numeric == null || !Number.isNaN(numeric))) {
+      onChange(numeric);
     }
-    clonedNode.style.maxWidth = style.maxWidth;
-    clonedNode.style.minWidth = style.minWidth;
-    clonedNode.style.width = style.width;
-    clonedNode.style.height = style.height;
-    clonedNode.style.minHeight = style.minHeight;
-    clonedNode.style.maxHeight = style.maxHeight;
-    clonedNode.style.listStyle = style.listStyle;
-    clonedNode.style.listStyleType = style.listStyleType;
-    clonedNode.style.listStylePosition = style.listStylePosition;
-    clonedNode.style.verticalAlign = style.verticalAlign;
-
-    const originalChildren = Array.from(originalNode.children);
-    const clonedChildren = Array.from(clonedNode.children);
-    originalChildren.forEach((child, index) => {
-      const clonedChild = clonedChildren[index];
-      if (clonedChild) {
-        applyComputedStyles(child, clonedChild);
-      }
-    });
   };
 
-  applyComputedStyles(source, clone);
-
-  convertInputsToText(clone);
-  
-  convertAllColorsInElement(clone);
-
-  const rect = source.getBoundingClientRect();
-  const scrollWidth = source.scrollWidth || rect.width;
-  const scrollHeight = source.scrollHeight || rect.height;
-
-  clone.style.position = "absolute";
-  clone.style.left = "0";
-  clone.style.top = "0";
-  clone.style.pointerEvents = "none";
-  clone.style.zIndex = "-9999";
-  clone.style.backgroundColor = "#ffffff";
-  clone.style.width = `${scrollWidth}px`;
-  clone.style.height = `${scrollHeight}px`;
-  clone.style.overflow = "visible";
-  clone.style.opacity = "1";
-  clone.style.visibility = "visible";
-  clone.style.display = "block";
-  clone.classList.add("__pdf-clone");
-
-  const ensureVisibility = (element: HTMLElement) => {
-    const style = window.getComputedStyle(element);
-    
-    if (style.display === "none" && element.tagName !== 'SCRIPT' && element.tagName !== 'STYLE') {
-      if (element.tagName === 'TR' || element.classList.contains('border-blue-200')) {
-        element.style.display = 'table-row';
-        element.style.visibility = 'visible';
-        element.style.opacity = '1';
-      } else {
-        return;
-      }
-    }
-    
-    if (style.visibility === "hidden") {
-      element.style.visibility = "visible";
-      element.style.setProperty('visibility', 'visible', 'important');
-    }
-    if (style.opacity === "0" || parseFloat(style.opacity) === 0) {
-      element.style.opacity = "1";
-      element.style.setProperty('opacity', '1', 'important');
-    }
-    
-    if (element.tagName === 'TR') {
-      element.style.display = 'table-row';
-      element.style.setProperty('display', 'table-row', 'important');
-      element.style.visibility = 'visible';
-      element.style.setProperty('visibility', 'visible', 'important');
-      element.style.opacity = '1';
-      element.style.setProperty('opacity', '1', 'important');
-      element.style.position = 'static';
-      element.style.height = 'auto';
-      element.style.minHeight = 'auto';
-    }
-    
-    if (element.tagName === 'TR' && (element.classList.contains('discount-row') || element.getAttribute('data-discount-row') === 'true')) {
-      const discountCell = element.querySelector('td:last-child');
-      const hasDiscountValue = discountCell && discountCell.textContent && 
-                               discountCell.textContent.trim() !== '' && 
-                               discountCell.textContent.trim() !== '-';
-      
-      if (hasDiscountValue) {
-        element.style.display = 'table-row';
-        element.style.setProperty('display', 'table-row', 'important');
-        element.style.visibility = 'visible';
-        element.style.setProperty('visibility', 'visible', 'important');
-        element.style.opacity = '1';
-        element.style.setProperty('opacity', '1', 'important');
-        element.style.position = 'static';
-        element.style.height = 'auto';
-        element.style.minHeight = 'auto';
-        element.style.removeProperty('display');
-        element.style.removeProperty('visibility');
-        element.style.removeProperty('opacity');
-        
-        Array.from(element.children).forEach((child) => {
-          if (child instanceof HTMLElement) {
-            child.style.display = 'table-cell';
-            child.style.setProperty('display', 'table-cell', 'important');
-            child.style.visibility = 'visible';
-            child.style.setProperty('visibility', 'visible', 'important');
-            child.style.opacity = '1';
-            child.style.setProperty('opacity', '1', 'important');
-            child.style.removeProperty('display');
-            child.style.removeProperty('visibility');
-            child.style.removeProperty('opacity');
-          }
-        });
-        
-        const innerDivs = element.querySelectorAll('div');
-        innerDivs.forEach((div) => {
-          if (div instanceof HTMLElement) {
-            div.style.display = 'flex';
-            div.style.setProperty('display', 'flex', 'important');
-            div.style.visibility = 'visible';
-            div.style.setProperty('visibility', 'visible', 'important');
-            div.style.opacity = '1';
-            div.style.setProperty('opacity', '1', 'important');
-          }
-        });
-      }
-    }
-    
-    if (element.tagName === 'TD' || element.tagName === 'TH') {
-      element.style.display = 'table-cell';
-      element.style.setProperty('display', 'table-cell', 'important');
-      element.style.visibility = 'visible';
-      element.style.setProperty('visibility', 'visible', 'important');
-      element.style.opacity = '1';
-      element.style.setProperty('opacity', '1', 'important');
-    }
-    
-    if (element.classList.contains('discount-card') || element.getAttribute('data-discount-card') === 'true') {
-      const discountAmount = element.querySelector('p.text-3xl, p.mt-3, p[class*="text-3xl"], p[class*="mt-3"]') ||
-                             Array.from(element.querySelectorAll('p')).find(p => {
-                               const text = p.textContent?.trim() || '';
-                               return text !== '' && text !== '-' && !text.match(/^[\s₹,-]*$/) && 
-                                      (p.classList.contains('text-3xl') || p.classList.contains('mt-3') || 
-                                       p.style.fontSize?.includes('1.875rem') || p.style.fontSize?.includes('30px'));
-                             });
-      
-      const hasContent = discountAmount && discountAmount.textContent && 
-                         discountAmount.textContent.trim() !== '' && 
-                         discountAmount.textContent.trim() !== '-' &&
-                         !discountAmount.textContent.trim().match(/^[\s₹,-]*$/);
-      
-      if (hasContent) {
-        element.style.display = 'block';
-        element.style.setProperty('display', 'block', 'important');
-        element.style.visibility = 'visible';
-        element.style.setProperty('visibility', 'visible', 'important');
-        element.style.opacity = '1';
-        element.style.setProperty('opacity', '1', 'important');
-        
-        const children = element.querySelectorAll('*');
-        children.forEach((child) => {
-          if (child instanceof HTMLElement) {
-            child.style.visibility = 'visible';
-            child.style.setProperty('visibility', 'visible', 'important');
-            child.style.opacity = '1';
-            child.style.setProperty('opacity', '1', 'important');
-            if (child.style.display === 'none') {
-              child.style.display = '';
-              child.style.removeProperty('display');
-            }
-            
-            if (child.tagName === 'H4') {
-              child.style.display = 'block';
-              child.style.setProperty('display', 'block', 'important');
-              child.style.visibility = 'visible';
-              child.style.setProperty('visibility', 'visible', 'important');
-              child.style.opacity = '1';
-              child.style.setProperty('opacity', '1', 'important');
-              try {
-                const computedStyle = window.getComputedStyle(child);
-                if (computedStyle.color) {
-                  child.style.color = computedStyle.color;
-                  child.style.setProperty('color', computedStyle.color, 'important');
-                }
-                if (computedStyle.fontSize) {
-                  child.style.fontSize = computedStyle.fontSize;
-                }
-                if (computedStyle.fontWeight) {
-                  child.style.fontWeight = computedStyle.fontWeight;
-                }
-                if (computedStyle.textTransform) {
-                  child.style.textTransform = computedStyle.textTransform;
-                }
-              } catch (e) {
-                // Preserve default styling
-              }
-            }
-            
-            if (child === discountAmount || (child.tagName === 'P' && (child.classList.contains('text-3xl') || child.classList.contains('mt-3')))) {
-              child.style.display = 'block';
-              child.style.setProperty('display', 'block', 'important');
-              child.style.visibility = 'visible';
-              child.style.setProperty('visibility', 'visible', 'important');
-              child.style.opacity = '1';
-              child.style.setProperty('opacity', '1', 'important');
-              try {
-                const computedStyle = window.getComputedStyle(child);
-                if (computedStyle.color) {
-                  child.style.color = computedStyle.color;
-                  child.style.setProperty('color', computedStyle.color, 'important');
-                } else {
-                  child.style.color = '#1e40af';
-                  child.style.setProperty('color', '#1e40af', 'important');
-                }
-                if (computedStyle.fontSize) {
-                  child.style.fontSize = computedStyle.fontSize;
-                }
-                if (computedStyle.fontWeight) {
-                  child.style.fontWeight = computedStyle.fontWeight;
-                }
-              } catch (e) {
-                child.style.color = '#1e40af';
-                child.style.fontSize = '1.875rem';
-                child.style.fontWeight = '700';
-              }
-            }
-            
-            if (child.tagName === 'P' && (child.classList.contains('mt-2') || child.classList.contains('text-xs'))) {
-              child.style.display = 'block';
-              child.style.setProperty('display', 'block', 'important');
-              child.style.visibility = 'visible';
-              child.style.setProperty('visibility', 'visible', 'important');
-              child.style.opacity = '1';
-              child.style.setProperty('opacity', '1', 'important');
-              try {
-                const computedStyle = window.getComputedStyle(child);
-                if (computedStyle.color) {
-                  child.style.color = computedStyle.color;
-                  child.style.setProperty('color', computedStyle.color, 'important');
-                }
-                if (computedStyle.fontSize) {
-                  child.style.fontSize = computedStyle.fontSize;
-                }
-              } catch (e) {
-                // Preserve default styling
-              }
-            }
-          }
-        });
-      } else {
-        element.style.display = 'none';
-        element.style.setProperty('display', 'none', 'important');
-      }
-    }
-    
-    Array.from(element.children).forEach((child) => {
-      if (child instanceof HTMLElement) {
-        ensureVisibility(child);
-      }
-    });
-  };
-  
-  ensureVisibility(clone);
-
-  const container = document.createElement("div");
-  container.style.position = "absolute";
-  container.style.left = "-9999px";
-  container.style.top = "0";
-  container.style.width = `${scrollWidth}px`;
-  container.style.height = `${scrollHeight}px`;
-  container.style.overflow = "visible";
-  container.appendChild(clone);
-  document.body.appendChild(container);
-
-  return {
-    clone,
-    cleanup: () => {
-      container.remove();
-    },
-  };
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      className="w-28 bg-transparent text-right text-inherit focus:outline-none focus:ring-0 border-b border-dotted border-transparent hover:border-zinc-300 focus:border-zinc-400"
+      value={draft ?? (value != null ? formatCurrency.format(value) : "")}
+      placeholder="-"
+      onFocus={() => setDraft(value != null ? String(value) : "")}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          event.currentTarget.blur();
+        }
+      }}
+    />
+  );
 }
 
 // --- Preview Component ---
 
-const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
-  ({ meta: metaProp, rooms, summary, formatNumber, formatCurrency, onMetaChange, projectTotal: projectTotalProp }, ref) => {
-    if (summary) {
-      // eslint-disable-next-line no-console
-      console.log("Room summary from API:", summary);
-    }
-
-    // Helper function to remove bracket values (content within parentheses)
-    const removeBracketValues = (text: string): string => {
-      return text.replace(/\s*\([^)]*\)/g, '').trim();
-    };
-
-    const effectiveTotal = projectTotalProp;
-
-    const discountAmountValue =
-      typeof metaProp?.discountAmount === "number" && !Number.isNaN(metaProp.discountAmount)
-        ? metaProp.discountAmount
-        : null;
-    const roomSummaryRows = summary?.rows ?? [];
-    const discountValue = summary?.discount ?? null;
-    const subtotalValue = summary?.subtotal ?? null;
-    const totalPayableValue = summary?.totalPayable ?? null;
-    const hasSummaryTable =
-      roomSummaryRows.length > 0 ||
-      discountValue != null ||
-      subtotalValue != null ||
-      totalPayableValue != null;
-
-    const formatMoney = (value?: number) =>
-      value != null && !Number.isNaN(value) ? formatCurrency.format(value) : "-";
-
-    const totalsRow = roomSummaryRows.reduce<{
-      modules: number;
-      accessories: number;
-      appliances: number;
-      services: number;
-      furniture: number;
-      worktops: number;
-      total: number;
-    }>((acc, row) => {
-      acc.modules += row.modules ?? 0;
-      acc.accessories += row.accessories ?? 0;
-      acc.appliances += row.appliances ?? 0;
-      acc.services += row.services ?? 0;
-      acc.furniture += row.furniture ?? 0;
-      acc.worktops += row.worktops ?? 0;
-      acc.total +=
-        row.total ??
-        (row.modules ?? 0) +
-          (row.accessories ?? 0) +
-          (row.appliances ?? 0) +
-          (row.services ?? 0) +
-          (row.furniture ?? 0) +
-          (row.worktops ?? 0);
-      return acc;
-    }, {
-      modules: 0,
-      accessories: 0,
-      appliances: 0,
-      services: 0,
-      furniture: 0,
-      worktops: 0,
-      total: 0,
-    });
-
-    const totalBeforeDiscount =
-      subtotalValue ?? (roomSummaryRows.length > 0 ? totalsRow.total : null);
-
-    const effectiveDiscountValue =
-      discountAmountValue ?? discountValue ?? null;
-
-    const calculatedTotalAfterDiscount =
-      totalPayableValue != null
-        ? totalPayableValue
-        : totalBeforeDiscount != null
-          ? Math.max(totalBeforeDiscount - (effectiveDiscountValue ?? 0), 0)
-          : null;
-
-    const paymentBase =
-      calculatedTotalAfterDiscount != null ? calculatedTotalAfterDiscount : null;
-
-    const paymentRows = PAYMENT_SCHEDULE.map((row) => {
-      const amount = paymentBase != null ? (paymentBase * row.percentage) / 100 : null;
-      return {
-        ...row,
-        amount,
-      };
-    });
+function PreviewContent({
+  meta: metaProp,
+  rooms,
+  summary,
+  formatNumber,
+  formatCurrency,
+  reconciliation,
+  paymentScheduleTemplates,
+  policy,
+  policyVersions,
+  brand,
+  brands,
+  onMetaChange,
+  onQuoteEdit,
+  onPaymentScheduleChange,
+  onTermsChange,
+  onBrandChange,
+}: PreviewContentProps) {
+  const discountAmountValue =
+    typeof metaProp?.discountAmount === "number" && !Number.isNaN(metaProp.discountAmount)
+      ? metaProp.discountAmount
+      : null;
+  const roomSummaryRows = summary?.rows ?? [];
+  const discountValue = summary?.discount ?? null;
+  const subtotalValue = summary?.subtotal ?? null;
+  const totalPayableValue = summary?.totalPayable ?? null;
+  const hasSummaryTable =
+    roomSummaryRows.length > 0 ||
+    discountValue != null ||
+    subtotalValue != null ||
+    totalPayableValue != null;
+
+  const formatMoney = (value?: number) =>
+    value != null && !Number.isNaN(value) ? formatCurrency.format(value) : "-";
+
+  // Items can move to any type already in the quote, or to Uncategorised.
+  const moveTargets = Array.from(
+    new Set([...rooms.flatMap((room) => room.types.map((type) => type.type)), UNCATEGORISED])
+  ).sort((a, b) => a.localeCompare(b));
+
+  const {
+    totalsRow,
+    totalBeforeDiscount,
+    discount: effectiveDiscountValue,
+    totalAfterDiscount: calculatedTotalAfterDiscount,
+    paymentSchedule,
+  } = computeQuoteTotals(summary, metaProp);
+  const paymentScheduleProblem = validatePaymentSchedule(paymentSchedule, calculatedTotalAfterDiscount);
+  const terms: QuoteTerms = metaProp?.terms ?? { version: policy.version, excludedSectionIds: [] };
+  const toggleSection = (sectionId: string, included: boolean) => {
+    const excluded = terms.excludedSectionIds.filter((id) => id !== sectionId);
+    onTermsChange({ ...terms, excludedSectionIds: included ? excluded : [...excluded, sectionId] });
+  };
+  const taxBreakdown = computeTaxBreakdown(summary, metaProp, brand.gstRates);
 
-    const paymentTotal = paymentBase;
+  const brandLines = brandFooterLines(brand);
 
-    return (
-      <>
-        <style>{`
-          /* Page break prevention for PDF generation */
-          section {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          div[class*="rounded-2xl"][class*="border"][class*="bg-zinc-50"],
-          div[class*="rounded-2xl"][class*="border"][class*="bg-white"][class*="shadow-sm"] {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          table {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          thead tr,
-          tbody tr {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          h1, h2, h3, h4, h5 {
-            page-break-after: avoid !important;
-            break-after: avoid !important;
-          }
-           
-          div[class*="border-b"][class*="border-zinc-200"] {
-            page-break-after: avoid !important;
-            break-after: avoid !important;
-          }
-           
-          div[class*="overflow-hidden"][class*="rounded-2xl"][class*="border"] {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          div[class*="grid"][class*="gap-4"] {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          div[class*="grid"][class*="rounded-3xl"][class*="border"] {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-           
-          div[class*="space-y-2"] > h5,
-          div[class*="space-y-3"] > h3 {
-            page-break-after: avoid !important;
-            break-after: avoid !important;
-          }
-           
-          div[class*="space-y-6"] {
-            page-break-inside: avoid !important;
-            break-inside: avoid !important;
-          }
-        `}</style>
-      <div ref={ref} className="space-y-10 p-8">
+  return (
+    <div className="space-y-10 p-8" style={{ fontFamily: BRAND_FONTS[brand.font].css }}>
       {metaProp && (
         <section className="space-y-6">
+          <div className="flex flex-col gap-2 rounded-2xl border border-zinc-200 bg-zinc-50 p-4 text-sm sm:flex-row sm:items-center">
+            <label htmlFor="quote-brand" className="font-medium text-zinc-700">
+              Brand
+            </label>
+            <select
+              id="quote-brand"
+              value={brand.id}
+              onChange={(event) => onBrandChange(event.target.value)}
+              className="rounded-lg border border-zinc-300 bg-white px-3 py-2"
+            >
+              {brands.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+            <Link href="/settings/brands" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+              Manage brands
+            </Link>
+          </div>
           <div className="space-y-4 border-b border-zinc-200 pb-4">
-            <h1 className="text-4xl font-bold text-zinc-900">Quotation</h1>
+            <div className="flex items-center justify-between gap-4">
+              <h1 className="text-4xl font-bold text-zinc-900">Quotation</h1>
+              <Image src={brand.logo} alt={brand.name} width={160} height={48} className="h-12 w-auto" />
+            </div>
             <div className="space-y-2">
               <div className="flex flex-col gap-4 md:flex-row md:items-baseline md:justify-between">
                 <div className="text-sm text-zinc-600 leading-[1.5rem] m-0 whitespace-normal">
@@ -1236,16 +340,7 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
           <div className="space-y-4">
             <h2 className="text-base font-semibold text-zinc-900 h-[50px]">Project Details</h2>
             <div className="grid gap-4 rounded-3xl border border-zinc-200 bg-zinc-50 p-6 text-sm shadow-sm md:grid-cols-2 lg:grid-cols-4">
-              {[
-                { field: "propertyName" as const },
-                { field: "totalBuiltUpArea" as const },
-                { field: "propertyConfig" as const },
-                { field: "designerName" as const, subtitleField: "designerEmail" as const },
-                { field: "quoteValidTill" as const },
-                { field: "quoteStatus" as const },
-                { field: "discountAmount" as const },
-                { field: "address" as const, fullWidth: true, multiline: true },
-              ].map(({ field, subtitleField, fullWidth, multiline }) => {
+              {PROJECT_DETAIL_FIELDS.map(({ field, subtitleField, fullWidth, multiline }) => {
                 const config = METADATA_FIELDS.find((item) => item.field === field);
                 const subtitleConfig = subtitleField ? METADATA_FIELDS.find((item) => item.field === subtitleField) : null;
                 const valueFromMeta = metaProp ? (metaProp as Record<string, unknown>)[field as string] : undefined;
@@ -1313,7 +408,10 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
               <tbody>
                 {roomSummaryRows.map((row) => (
                   <tr key={row.room} className="border-t border-zinc-100">
-                    <td className="px-4 py-3 font-semibold uppercase tracking-wide bg-red-600 text-white">
+                    <td
+                      className="px-4 py-3 font-semibold uppercase tracking-wide"
+                      style={{ backgroundColor: brand.colors.primary, color: brand.colors.onPrimary }}
+                    >
                       {row.room}
                     </td>
                     <td className="px-4 py-3 text-right">{formatMoney(row.modules)}</td>
@@ -1406,7 +504,73 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
               </tbody>
             </table>
           </div>
-          <p className="text-xs text-zinc-500">* All amounts include GST @ 18%</p>
+          <p className="text-xs text-zinc-500">
+            * All amounts include GST{taxBreakdown ? "; see the tax breakdown below" : ""}.
+          </p>
+        </section>
+      )}
+
+      {taxBreakdown && (
+        <section className="space-y-4">
+          <h3 className="text-lg font-semibold text-zinc-900">Tax Breakdown</h3>
+          <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white shadow-sm">
+            <table className="w-full text-left text-sm text-zinc-700">
+              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                <tr>
+                  <th className="px-4 py-3">Category</th>
+                  <th className="px-4 py-3">HSN/SAC</th>
+                  <th className="px-4 py-3 text-right">Taxable Value</th>
+                  {taxBreakdown.interState ? (
+                    <th className="px-4 py-3 text-right">IGST</th>
+                  ) : (
+                    <>
+                      <th className="px-4 py-3 text-right">CGST</th>
+                      <th className="px-4 py-3 text-right">SGST</th>
+                    </>
+                  )}
+                  <th className="px-4 py-3 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxBreakdown.lines.map((line) => (
+                  <tr key={line.category} className="border-t border-zinc-100">
+                    <td className="px-4 py-3 font-medium text-zinc-900">{line.label}</td>
+                    <td className="px-4 py-3">{line.hsn || "-"}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(line.taxableValue)}</td>
+                    {taxBreakdown.interState ? (
+                      <td className="px-4 py-3 text-right">
+                        {formatMoney(line.igst)} <span className="text-xs text-zinc-500">@ {line.rate}%</span>
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-4 py-3 text-right">
+                          {formatMoney(line.cgst)} <span className="text-xs text-zinc-500">@ {line.rate / 2}%</span>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatMoney(line.sgst)} <span className="text-xs text-zinc-500">@ {line.rate / 2}%</span>
+                        </td>
+                      </>
+                    )}
+                    <td className="px-4 py-3 text-right">{formatMoney(line.amount)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-zinc-200 bg-zinc-100 font-semibold uppercase tracking-wide text-zinc-900">
+                  <td className="px-4 py-3" colSpan={2}>Total</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(taxBreakdown.totals.taxableValue)}</td>
+                  {taxBreakdown.interState ? (
+                    <td className="px-4 py-3 text-right">{formatMoney(taxBreakdown.totals.igst)}</td>
+                  ) : (
+                    <>
+                      <td className="px-4 py-3 text-right">{formatMoney(taxBreakdown.totals.cgst)}</td>
+                      <td className="px-4 py-3 text-right">{formatMoney(taxBreakdown.totals.sgst)}</td>
+                    </>
+                  )}
+                  <td className="px-4 py-3 text-right">{formatMoney(taxBreakdown.totals.amount)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-zinc-500">{placeOfSupplyNote(taxBreakdown)}</p>
         </section>
       )}
 
@@ -1416,11 +580,11 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
             const discountToShow = effectiveDiscountValue ?? discountAmountValue ?? discountValue ?? null;
             const shouldShowDiscount = (discountToShow != null && discountToShow !== 0);
             const discountAmountText = discountToShow != null ? formatMoney(Math.abs(discountToShow)) : '';
-            
+          
             if (!shouldShowDiscount || discountToShow == null) {
               return null;
             }
-            
+          
             return (
           <div 
             className="rounded-3xl border border-blue-200 bg-blue-50 p-6 shadow-sm discount-card" 
@@ -1473,18 +637,31 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
           return null;
         }
 
+        const check = reconciliation?.rooms.find((entry) => entry.room === room.name);
+
         return (
           <section key={room.name} className="space-y-6">
-            <div className="border-b border-zinc-200 pb-2">
+            <div className="flex flex-wrap items-center gap-3 border-b border-zinc-200 pb-2">
               <h3 className="text-lg font-semibold text-zinc-900">
                 {room.name}
               </h3>
+              {check?.status === "mismatch" && (
+                <span
+                  className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-800"
+                  title={`Summary sheet: ${formatMoney(check.summaryTotal ?? undefined)} · Room sheets: ${formatMoney(check.detailTotal ?? undefined)} (types ${formatMoney(check.typeTotal)} + items ${formatMoney(check.itemTotal)})`}
+                >
+                  {check.summaryTotal == null
+                    ? "Not on summary sheet"
+                    : `Totals differ by ${formatMoney(Math.abs(check.difference))}`}
+                </span>
+              )}
             </div>
 
             <div className="space-y-6">
               {room.types.map((type) => {
                 const hasMaterials = Object.keys(type.materials).length > 0;
-                const hasPricing = type.stats.total != null;
+                const pricedTotal = typeTotal(type);
+                const hasPricing = pricedTotal != null;
                 const showInfoSections = hasMaterials || hasPricing;
                 const gridColumns = hasMaterials && hasPricing ? "md:grid-cols-2" : "md:grid-cols-1";
 
@@ -1537,9 +714,7 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
                             <div className="rounded-xl border border-zinc-200 bg-white p-3 text-sm text-zinc-700">
                               <p>
                                 <span className="font-medium">Total:</span>{" "}
-                                {type.stats.total != null
-                                  ? formatCurrency.format(type.stats.total)
-                                  : "-"}
+                                {pricedTotal != null ? formatCurrency.format(pricedTotal) : "-"}
                               </p>
                             </div>
                           </div>
@@ -1547,8 +722,8 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
                       </div>
                     )}
 
-                    {type.items.length > 0 && (
-                      <div className="mt-4 overflow-hidden rounded-xl border border-zinc-200 bg-white">
+                    {type.items.length > 0 ? (
+                      <div className="mt-4 overflow-x-auto rounded-xl border border-zinc-200 bg-white">
                         <table className="w-full min-w-[600px] text-left text-sm text-zinc-700">
                           <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
                             <tr>
@@ -1556,29 +731,114 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
                               <th className="px-4 py-3">Unit Name</th>
                               <th className="px-4 py-3">Dimension</th>
                               <th className="px-4 py-3 text-right">Price</th>
+                              <th className="px-4 py-3 text-right">Actions</th>
                             </tr>
                           </thead>
                           <tbody>
-                            {type.items.map((item, index) => (
-                              <tr
-                                key={`${type.type}-${item.code || "no-code"}-${index}`}
-                                className="border-t border-zinc-100"
-                              >
-                                <td className="px-4 py-3 font-medium text-zinc-900">
-                                  {item.code || "-"}
-                                </td>
-                                <td className="px-4 py-3">{item.description}</td>
-                                <td className="px-4 py-3">{item.size || "-"}</td>
-                                <td className="px-4 py-3 text-right">
-                                  {typeof item.price === "number"
-                                    ? formatCurrency.format(item.price)
-                                    : "-"}
-                                </td>
-                              </tr>
-                            ))}
+                            {type.items.map((item, index) => {
+                              const location = { room: room.name, type: type.type, index };
+                              return (
+                                <tr
+                                  key={`${type.type}-${index}`}
+                                  className="border-t border-zinc-100 align-top"
+                                >
+                                  <td className="px-4 py-2 font-medium text-zinc-900">
+                                    <ItemTextInput
+                                      value={item.code}
+                                      placeholder="-"
+                                      onChange={(code) => onQuoteEdit(updateItem(location, { code }))}
+                                    />
+                                  </td>
+                                  <td className="px-4 py-2">
+                                    <ItemTextInput
+                                      value={item.description}
+                                      placeholder="Description"
+                                      onChange={(description) => onQuoteEdit(updateItem(location, { description }))}
+                                    />
+                                  </td>
+                                  <td className="px-4 py-2">
+                                    <ItemTextInput
+                                      value={item.size}
+                                      placeholder="-"
+                                      onChange={(size) => onQuoteEdit(updateItem(location, { size }))}
+                                    />
+                                  </td>
+                                  <td className="px-4 py-2 text-right">
+                                    <ItemPriceInput
+                                      key={item.price ?? "none"}
+                                      value={item.price}
+                                      formatCurrency={formatCurrency}
+                                      onChange={(price) => onQuoteEdit(updateItem(location, { price }))}
+                                    />
+                                  </td>
+                                  <td className="px-4 py-2">
+                                    <div className="flex items-center justify-end gap-2">
+                                      <select
+                                        aria-label="Move item"
+                                        value=""
+                                        onChange={(event) => {
+                                          const [targetRoom, targetType] = JSON.parse(event.target.value);
+                                          onQuoteEdit(moveItem(location, { room: targetRoom, type: targetType }));
+                                        }}
+                                        className="max-w-32 rounded-lg border border-zinc-300 bg-white px-2 py-1 text-xs"
+                                      >
+                                        <option value="" disabled>
+                                          Move to…
+                                        </option>
+                                        {rooms.map((targetRoom) => (
+                                          <optgroup key={targetRoom.name} label={targetRoom.name}>
+                                            {moveTargets
+                                              .filter(
+                                                (targetType) =>
+                                                  targetRoom.name !== room.name || targetType !== type.type
+                                              )
+                                              .map((targetType) => (
+                                                <option
+                                                  key={targetType}
+                                                  value={JSON.stringify([targetRoom.name, targetType])}
+                                                >
+                                                  {targetType}
+                                                </option>
+                                              ))}
+                                          </optgroup>
+                                        ))}
+                                      </select>
+                                      <button
+                                        type="button"
+                                        onClick={() => onQuoteEdit(deleteItem(location))}
+                                        className="rounded-lg border border-red-200 px-2 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700"
+                                      >
+                                        Delete
+                                      </button>
+                                    </div>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                            <tr className="border-t border-zinc-200 bg-zinc-50 font-semibold text-zinc-900">
+                              <td className="px-4 py-3" colSpan={3}>
+                                <button
+                                  type="button"
+                                  onClick={() => onQuoteEdit(addItem({ room: room.name, type: type.type }))}
+                                  className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                                >
+                                  + Add item
+                                </button>
+                              </td>
+                              <td className="px-4 py-3 text-right">{formatMoney(itemsTotal(type))}</td>
+                              <td className="px-4 py-3"></td>
+                            </tr>
                           </tbody>
                         </table>
                       </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => onQuoteEdit(addItem({ room: room.name, type: type.type }))}
+                        className="mt-4 text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                      >
+                        + Add item
+                      </button>
                     )}
                   </div>
                 );
@@ -1591,344 +851,217 @@ const PreviewContent = forwardRef<HTMLDivElement, PreviewContentProps>(
       <section className="space-y-6">
         <div className="space-y-2 text-center">
           <h2 className="text-2xl font-semibold text-zinc-900">
-            Project Policies &amp; Materials
+            {policy.heading.title}
           </h2>
           <p className="text-sm text-zinc-600 h-[50px]">
-            Specifications, materials, and policies governing design, installation, and service.
+            {policy.heading.subtitle}
           </p>
         </div>
 
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Core Materials</h3>
-          <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm">
-            <table className="w-full text-left text-sm text-zinc-700">
-              <tbody>
-                {["Core Materials (Kitchen base unit, Bathroom Vanity Carcass, etc.)", "Dry Areas (Wardrobe & Lofts, TV units,etc)"]
-                  .map((label, index) => {
-                    const value = index === 0 ? "Century BWP (IS-710 Grade)" : "Century Sainik MR (ISI-303)";
-                    return (
-                      <tr key={label} className="border-t border-zinc-100 first:border-t-0">
-                        <td className="px-4 py-3 font-medium text-zinc-900">{label}</td>
-                        <td className="px-4 py-3">{value}</td>
-                      </tr>
-                    );
-                  })}
-              </tbody>
-            </table>
-          </div>
-          <p className="text-sm text-zinc-600">
-            ALL MODULES CAN BE CUSTOMIZED AS PER REQUIREMENT / ACTUAL SIZE
-          </p>
-          <p className="text-sm text-zinc-600 h-[50px]">
-            Note: Plywood is not suggested for shutters, as they bend over time. HDHMR Pro is a better alternative
-            &amp; recommended.
-          </p>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Material Thickness</h3>
-          <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm">
-            <table className="w-full text-left text-sm text-zinc-700">
-              <tbody>
-                {[
-                  {
-                    label: "Front Shutters, Doors, Exterior Frame",
-                    value: "18mm (Including laminate)",
-                  },
-                  {
-                    label: "Back panels & below drawer panel",
-                    value: "8mm (Including Laminate)",
-                  },
-                ].map((row) => (
-                  <tr key={row.label} className="border-t border-zinc-100 first:border-t-0">
-                    <td className="px-4 py-3 font-medium text-zinc-900">{row.label}</td>
-                    <td className="px-4 py-3">{row.value}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Core Material Brands</h3>
-          <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm">
-            <table className="w-full text-left text-sm text-zinc-700">
-              <tbody>
-                {[
-                  { label: "BWP (Boiling water proof)", value: "Century Club Prime" },
-                  { label: "MR (Moisture Resistance)", value: "Century Sainik" },
-                  { label: "HDHMR Pro", value: "Action Tesa" },
-                  { label: "MDF", value: "Action Tesa / Green Panel" },
-                  { label: "Edge Banding (Outside)", value: "Rehau (2mm Exterior)" },
-                  { label: "Edge Banding (Inside)", value: "Rehau (0.8mm Exterior)" },
-                ].map((row) => (
-                  <tr key={row.label} className="border-t border-zinc-100 first:border-t-0">
-                    <td className="px-4 py-3 font-medium text-zinc-900">{row.label}</td>
-                    <td className="px-4 py-3">{row.value}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-          <p className="text-sm text-zinc-600 h-[50px]">
-            We recommend checking physical samples of all finish options at our experience centers.
-          </p>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Finish Options</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <ul className="space-y-2">
-              <li>Outside Laminates: 1 mm thickness, choose from 200+ options. Prices vary by laminate range.</li>
-              <li>
-                Brand Options: Laminates sourced from Merino, Greenlam, Royale Touche, Dorby. Edge bands are pre-matched
-                where available.
-              </li>
-              <li>
-                Additional laminate options may incur higher pricing and timelines due to availability and optimization.
-              </li>
-              <li>Other finishes such as Veneer/Membrane/Acrylic/Duco/PU available at extra cost.</li>
-              <li>
-                Inside Laminates: 0.72 mm white by default. Choose from 30+ options (price varies with selection).
-              </li>
-            </ul>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Adhesive &amp; Accessories</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <p className="font-semibold text-zinc-900">Adhesive</p>
-            <p>Brand: Fevicol</p>
-            <hr className="my-3 border-zinc-200" />
-            <p className="font-semibold text-zinc-900">Accessories Included</p>
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Shutter Hinges: Hettich, Ebco, Häfele</li>
-              <li>Drawer Channels: Hettich, Ebco, Häfele</li>
-              <li>Soft-close options available at extra cost</li>
-              <li>Glass &amp; Mirror: Saint Gobain / Modi Guard (additional charges)</li>
-              <li>Hettich is default; other brands available with price variance</li>
-            </ul>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Design Information</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Manufacturing Type: Fully modular by default; customizable during design phase.</li>
-              <li>Wardrobe internal design includes 1 drawer &amp; two shelves by default; final cost as per selection.</li>
-              <li>70+ optimized wardrobe internal presets available.</li>
-              <li>Custom non-optimized designs possible with additional timeline and pricing.</li>
-              <li>Mirrors chargeable if required.</li>
-              <li>Detachable modular kitchen skirting provided based on site conditions (wooden skirting by default).</li>
-              <li>All dimensions can be customized; new designs may require extra timeline.</li>
-              <li>Manual works (strip laminate designs, etc.) charged extra.</li>
-            </ul>
+        <div className="space-y-3 rounded-2xl border border-zinc-200 bg-zinc-50 p-4 text-sm">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <label htmlFor="terms-version" className="font-medium text-zinc-700">
+              Terms version
+            </label>
+            <select
+              id="terms-version"
+              value={terms.version}
+              onChange={(event) => onTermsChange({ ...terms, version: Number(event.target.value) })}
+              className="rounded-lg border border-zinc-300 bg-white px-3 py-2"
+            >
+              {!policyVersions.some((entry) => entry.version === terms.version) && (
+                <option value={terms.version}>Version {terms.version}</option>
+              )}
+              {policyVersions.map((entry) => (
+                <option key={entry.version} value={entry.version}>
+                  Version {entry.version}
+                  {entry.publishedAt ? ` (${entry.publishedAt.slice(0, 10)})` : " (built-in)"}
+                  {entry.note ? ` - ${entry.note}` : ""}
+                </option>
+              ))}
+            </select>
+            <Link href="/settings/policies" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+              Edit terms
+            </Link>
           </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Site Usage &amp; Terms</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm space-y-3">
-            <div>
-              <p className="font-semibold text-zinc-900">Flat Usage</p>
-              <p>Workers require electrical &amp; water connections and one bathroom during the project schedule.</p>
-            </div>
-            <div>
-              <p className="font-semibold text-zinc-900">Design Sign-off Terms</p>
-              <ul className="list-disc space-y-1 pl-5">
-                <li>Laminate colors may vary from renders; check samples before finalizing.</li>
-                <li>Wood grain laminates: review full sheet if required before production.</li>
-                <li>Closest matching Rehau edge banding used; customization not available.</li>
-                <li>No design changes permitted after sign-off &amp; material procurement.</li>
-              </ul>
-            </div>
-            <div>
-              <p className="font-semibold text-zinc-900">Cleaning</p>
-              <p>
-                One-time professional cleaning (furniture, bathrooms, debris removal) provided at project end. Interim
-                cleaning for occasions such as Pooja is chargeable.
-              </p>
-            </div>
-            <div>
-              <p className="font-semibold text-zinc-900">Final Coat of Paint</p>
-              <ul className="list-disc space-y-1 pl-5">
-                <li>Recommended after interior completion to address installation marks.</li>
-                <li>Cost excluded unless specified in quote.</li>
-                <li>False ceiling painting included if opted.</li>
-              </ul>
+          {terms.workbookSections?.length ? (
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <label htmlFor="terms-source" className="font-medium text-zinc-700">
+                Print
+              </label>
+              <select
+                id="terms-source"
+                value={terms.source ?? "standard"}
+                onChange={(event) => onTermsChange({ ...terms, source: event.target.value as TermsSource })}
+                className="rounded-lg border border-zinc-300 bg-white px-3 py-2"
+              >
+                <option value="merged">Standard terms and the workbook&apos;s terms</option>
+                <option value="workbook">Only the workbook&apos;s terms</option>
+                <option value="standard">Only the standard terms</option>
+              </select>
+              <span className="text-xs text-zinc-500">
+                {terms.workbookSections.length} section{terms.workbookSections.length === 1 ? "" : "s"} read
+                from the workbook&apos;s terms sheet
+              </span>
             </div>
+          ) : null}
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {availableSections(policy, terms).map((section) => (
+              <label key={section.id} className="flex items-center gap-2 text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={!terms.excludedSectionIds.includes(section.id)}
+                  // The payment schedule is part of every quote.
+                  disabled={section.id === PAYMENT_SCHEDULE_SECTION_ID}
+                  onChange={(event) => toggleSection(section.id, event.target.checked)}
+                  className="h-4 w-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {section.title}
+              </label>
+            ))}
           </div>
         </div>
 
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Post Handover Service</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Raise issues via care@hubinterior.com after handover.</li>
-              <li>Two free service visits within 12 months for routine maintenance &amp; alignments.</li>
-              <li>Post-free period visits charged at ₹499 (alignment only; replacements extra).</li>
-              <li>
-                Warranty replacements covered without service fee; non-warranty replacements chargeable in addition to the
-                service fee.
-              </li>
-            </ul>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Warranty</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Modular units: 10-year product warranty against manufacturing defects.</li>
-              <li>Hardware, accessories &amp; appliances: as per manufacturer warranty.</li>
-              <li>Mirrors &amp; glass excluded post handover.</li>
-              <li>
-                Warranty void for third-party components, force majeure, negligence, water damage, misuse, accidents, or
-                tampering.
-              </li>
-              <li>Does not cover solid wood furniture, civil works, electrical fittings, paint/polish, or non-branded accessories.</li>
-              <li>HUB not liable for loss or damage from force majeure events.</li>
-            </ul>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Payment Schedule</h3>
-          <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm">
-            <table className="w-full text-left text-sm text-zinc-700">
-              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
-                <tr>
-                  <th className="px-4 py-3">Milestone</th>
-                  <th className="px-4 py-3">Percentage</th>
-                  <th className="px-4 py-3 text-right">Amount</th>
-                </tr>
-              </thead>
-              <tbody>
-                {paymentRows.map((row) => (
-                  <tr key={row.stage} className="border-t border-zinc-100 first:border-t-0">
-                    <td className="px-4 py-3 font-medium text-zinc-900">{row.stage}</td>
-                    <td className="px-4 py-3">{row.percentage}%</td>
-                    <td className="px-4 py-3 text-right">
-                      {row.amount != null ? formatCurrency.format(row.amount) : "-"}
-                    </td>
-                  </tr>
-                ))}
-
-                <tr className="border-t border-zinc-200 bg-zinc-50 font-semibold">
-                  <td className="px-4 py-3 text-zinc-900">Total</td>
-                  <td className="px-4 py-3">100%</td>
-                  <td className="px-4 py-3 text-right">
-                    {paymentTotal != null ? formatCurrency.format(paymentTotal) : "-"}
-                  </td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-          <p className="text-xs text-zinc-500">
-            Update the discount amount above to refresh the payable totals automatically.
-          </p>
-          <p className="text-sm text-zinc-600">
-            Works like electrical, plumbing, painting, countertops, tiling, false ceiling, etc., are considered under civil work.
-          </p>
-          <p className="text-sm text-zinc-600">
-            Non-modular products include appliances, fixtures, lighting, decor items, wallpapers, wooden flooring, blinds,
-            curtains, readymade furniture, etc.
-          </p>
-          <p className="text-sm text-zinc-600">
-            * NEFT/IMPS accepted. Card/NetBanking attracts 2% convenience fee (waived for first 10% tranche).
-          </p>
-        </div>
-
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Cancellation &amp; Scope Change</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Booking: 100% design advance refundable if HUB can't match a valid competitor quote within 24 hours.</li>
-              <li>Design Stage: No refunds.</li>
-              <li>Production Stage: No refunds after materials are ordered.</li>
-              <li>
-                Refunds (if applicable) processed post execution of refund deed within 21 working days after finance confirmation.
-              </li>
-              <li>
-                Descoping &gt; ₹1 lakh during design incurs charges via discount reduction; no descoping post production or during installation.
-              </li>
-            </ul>
-          </div>
-        </div>
+        {includedSections(policy, terms).map((section) => {
+          const isTableOnly =
+            section.blocks.length === 1 && section.blocks[0].kind === "table";
+          const hasSubheadings = section.blocks.some((block) => block.kind === "subheading");
+
+          return (
+            <div key={section.id} className="space-y-3">
+              <h3 className="text-lg font-semibold text-zinc-900">{section.title}</h3>
+              {isTableOnly ? (
+                <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm">
+                  <PolicyBlockView block={section.blocks[0]} />
+                </div>
+              ) : section.blocks.length > 0 ? (
+                <div
+                  className={`rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm ${
+                    hasSubheadings ? "space-y-1" : "space-y-2"
+                  }`}
+                >
+                  {section.blocks.map((block, index) => (
+                    <PolicyBlockView key={`${section.id}-${index}`} block={block} />
+                  ))}
+                </div>
+              ) : null}
+
+              {section.id === PAYMENT_SCHEDULE_SECTION_ID && (
+                <>
+                  <div className="flex flex-col gap-2 text-sm sm:flex-row sm:items-center">
+                    <label htmlFor="payment-schedule-template" className="font-medium text-zinc-700">
+                      Template
+                    </label>
+                    <select
+                      id="payment-schedule-template"
+                      value={paymentSchedule.templateId ?? ""}
+                      onChange={(event) => {
+                        const template = paymentScheduleTemplates.find(
+                          (candidate) => candidate.id === event.target.value
+                        );
+                        if (template) {
+                          onPaymentScheduleChange(scheduleFromTemplate(template));
+                        }
+                      }}
+                      className="rounded-lg border border-zinc-300 bg-white px-3 py-2"
+                    >
+                      {!paymentScheduleTemplates.some((template) => template.id === paymentSchedule.templateId) && (
+                        <option value={paymentSchedule.templateId ?? ""}>{paymentSchedule.name}</option>
+                      )}
+                      {paymentScheduleTemplates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Link
+                      href="/settings/payment-schedules"
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                    >
+                      Manage templates
+                    </Link>
+                  </div>
+                  <PaymentStagesEditor
+                    stages={paymentSchedule.stages}
+                    total={calculatedTotalAfterDiscount}
+                    formatCurrency={formatCurrency}
+                    onChange={(stages) => onPaymentScheduleChange({ ...paymentSchedule, stages })}
+                  />
+                  {paymentScheduleProblem ? (
+                    <p className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+                      {paymentScheduleProblem} Adjust the stages before generating the PDF.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-zinc-500">
+                      Percentage stages follow the payable total when the discount or item prices change;
+                      fixed stages keep their amount.
+                    </p>
+                  )}
+                </>
+              )}
 
-        <div className="space-y-3">
-          <h3 className="text-lg font-semibold text-zinc-900">Delivery &amp; Installation</h3>
-          <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm space-y-2">
-            <p>Delivery and installation occur on/before the timeline communicated via email, at the provided address.</p>
-            <p>Delivery date calculated post the following "All-Set-Go" conditions:</p>
-            <ul className="list-disc space-y-1 pl-5">
-              <li>Both parties sign off final designs &amp; specifications.</li>
-              <li>Site readiness checklist met; additional unloading charges may apply if no lift is available.</li>
-              <li>All milestone payments received and acknowledged by HUB.</li>
-              <li>Customer hands over site meeting all contractual conditions.</li>
-              <li>Customer agrees not to solicit vendors outside HUB's approved scope without written consent.</li>
-            </ul>
-            <p className="text-sm text-zinc-600">
-              * Disclaiming of Liability: HUB is not liable for products/services from non-approved vendors or where approved vendors act outside assigned scope. Any third-party arrangements are at the customer's risk and lie outside HUB's warranty.
-            </p>
-          </div>
-        </div>
+              {section.notes?.map((note) => (
+                <p key={note} className="text-sm text-zinc-600">
+                  {note}
+                </p>
+              ))}
+            </div>
+          );
+        })}
       </section>
 
       <section className="space-y-3">
-        <h3 className="text-lg font-semibold text-zinc-900">Disclaimer of Liability</h3>
+        <h3 className="text-lg font-semibold text-zinc-900">{policy.disclaimer.title}</h3>
         <p className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm">
-          HUB shall not be liable in any manner for any products or services provided by vendors, contractors, or agencies who are referred to the customer but are not formally registered as approved vendors with HUB, or where approved vendors act outside their allocated scope. All quotations, negotiations, payments, commitments, or arrangements with such third parties are at the customer's own risk. HUB's warranty and service obligations do not extend to such products or services, and no statement or referral shall be construed as binding on HUB.
-        </p>
-      </section>
-    </div>
-    </>
-    );
-  }
-);
-
-PreviewContent.displayName = "PreviewContent";
+          {policy.disclaimer.text}
+        </p>
+        <p className="text-xs text-zinc-500">Terms version {policy.version}</p>
+      </section>
 
-function toPdfFilename(original: string) {
-  const base = original.replace(/\.[^/.]+$/, "").replace(/[^a-z0-9-_]+/gi, "_");
-  return `${base || "design_summary"}.pdf`;
+      {brandLines.length > 0 && (
+        <footer className="space-y-1 border-t border-zinc-200 pt-4 text-xs text-zinc-500">
+          {brandLines.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </footer>
+      )}
+    </div>
+  );
 }
 
 // --- Main Page Component ---
 
 export default function Home() {
   const [status, setStatus] = useState<Status>({ state: "idle" });
-  const [preview, setPreview] = useState<PreviewRoom[] | null>(null);
+  const [preview, setPreview] = useState<QuoteRoom[] | null>(null);
   const [metadata, setMetadata] = useState<QuoteMetadata | null>(null);
   const [summary, setSummary] = useState<QuoteSummary | null>(null);
   const [pdfFilename, setPdfFilename] = useState("design_summary.pdf");
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [isExportingXlsx, setIsExportingXlsx] = useState(false);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isUploadingToS3, setIsUploadingToS3] = useState(false);
   const [s3Url, setS3Url] = useState<string | null>(null);
-  const previewRef = useRef<HTMLDivElement>(null);
-
-  const computedProjectTotal = useMemo(() => {
-    if (!preview) {
-      return 0;
-    }
-    return preview.reduce((roomSum, room) => {
-      return (
-        roomSum +
-        room.types.reduce((typeSum, type) => typeSum + (type.stats.total ?? 0), 0)
-      );
-    }, 0);
-  }, [preview]);
-
-  const aggregatedProjectTotal = useMemo(() => {
-    if (summary?.totalPayable && !Number.isNaN(summary.totalPayable)) {
-      return summary.totalPayable;
-    }
-    return computedProjectTotal;
-  }, [summary, computedProjectTotal]);
+  const [user, setUser] = useState<User | null>(null);
+  const [quoteId, setQuoteId] = useState<string | null>(null);
+  const [acceptance, setAcceptance] = useState<QuoteAcceptance | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [savedQuotes, setSavedQuotes] = useState<QuoteListEntry[]>([]);
+  const [isLoadingQuotes, setIsLoadingQuotes] = useState(true);
+  const [isSavingQuote, setIsSavingQuote] = useState(false);
+  const [includeChangesInPdf, setIncludeChangesInPdf] = useState(false);
+  const [parsingProfiles, setParsingProfiles] = useState<ParsingProfileSummary[]>([]);
+  const [parsingProfileId, setParsingProfileId] = useState("auto");
+  const [policies, setPolicies] = useState<Record<number, PolicyVersion>>({});
+  const [latestPolicyVersion, setLatestPolicyVersion] = useState<number | null>(null);
+  const [policyVersions, setPolicyVersions] = useState<PolicyVersionSummary[]>([]);
+  const [paymentScheduleTemplates, setPaymentScheduleTemplates] = useState<PaymentScheduleTemplate[]>(
+    DEFAULT_PAYMENT_SCHEDULE_TEMPLATES
+  );
+  const [brands, setBrands] = useState<BrandProfile[]>(DEFAULT_BRANDS);
+  const [overrideReconciliation, setOverrideReconciliation] = useState(false);
+  // Null when the preview did not come from a conversion, e.g. a reopened quote.
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[] | null>(null);
 
   const formatNumber = useMemo(
     () =>
@@ -1950,50 +1083,16 @@ export default function Home() {
     []
   );
 
-  const uploadFileInChunks = useCallback(async (file: File): Promise<string> => {
-    const chunkSize = 3 * 1024 * 1024; // 3MB chunks (safe for Vercel)
-    const totalChunks = Math.ceil(file.size / chunkSize);
-    const uploadId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
-
-    // Upload chunks sequentially
-    for (let i = 0; i < totalChunks; i++) {
-      const start = i * chunkSize;
-      const end = Math.min(start + chunkSize, file.size);
-      const chunk = file.slice(start, end);
-
-      const chunkFormData = new FormData();
-      chunkFormData.append("chunk", chunk);
-      chunkFormData.append("chunkIndex", i.toString());
-      chunkFormData.append("totalChunks", totalChunks.toString());
-      chunkFormData.append("uploadId", uploadId);
-      chunkFormData.append("fileName", file.name);
-
-      const response = await fetch("/api/upload-chunk", {
-        method: "POST",
-        body: chunkFormData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: "Chunk upload failed" }));
-        throw new Error(error.error || `Failed to upload chunk ${i + 1} of ${totalChunks}`);
-      }
-
-      const result = await response.json();
-      if (result.complete) {
-        return uploadId;
-      }
-
-      // Update status for progress
-      setStatus({
-        state: "uploading",
-        message: `Uploading... ${i + 1} of ${totalChunks} chunks`,
-      } as Status);
-    }
-
-    // Wait a bit for the last chunk to be processed
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    return uploadId;
-  }, []);
+  const uploadLargeFile = useCallback(
+    (file: File) =>
+      uploadFileInChunks(file, (uploadedChunks, totalChunks) => {
+        setStatus({
+          state: "uploading",
+          message: `Uploading... ${uploadedChunks} of ${totalChunks} chunks`,
+        } as Status);
+      }),
+    []
+  );
 
   const handleSubmit = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
@@ -2005,7 +1104,7 @@ export default function Home() {
       if (!(file instanceof File) || !file.name) {
         setStatus({
           state: "error",
-          message: "Please choose an Excel file before converting.",
+          message: "Please choose a workbook before converting.",
         });
         return;
       }
@@ -2015,6 +1114,8 @@ export default function Home() {
         setPreview(null);
         setMetadata(null);
         setSummary(null);
+        setDiagnostics(null);
+        setOverrideReconciliation(false);
 
         const maxDirectSize = 4 * 1024 * 1024; // 4MB for direct upload
         let uploadId: string | null = null;
@@ -2025,15 +1126,7 @@ export default function Home() {
             state: "uploading",
             message: "Uploading file in chunks...",
           } as Status);
-          uploadId = await uploadFileInChunks(file);
-        }
-
-        // Prepare conversion request
-        const convertFormData = new FormData();
-        if (uploadId) {
-          convertFormData.append("uploadId", uploadId);
-        } else {
-          convertFormData.append("file", file);
+          uploadId = await uploadLargeFile(file);
         }
 
         setStatus({
@@ -2041,41 +1134,44 @@ export default function Home() {
           message: "Processing file...",
         } as Status);
 
-        const response = await fetch("/api/convert", {
-          method: "POST",
-          body: convertFormData,
-        });
-
-        if (!response.ok) {
-          let errorMessage = "Conversion failed. Please try again.";
-           
-          if (response.status === 413) {
-            errorMessage = "File is too large. Please try again or use a smaller file.";
-          } else {
-            try {
-              const data = await response.json();
-              errorMessage = data?.error || errorMessage;
-            } catch {
-              // If JSON parsing fails, use default message
-            }
+        let data: ConvertResult;
+        try {
+          data = await convertWorkbookUpload(uploadId ? { uploadId } : { file }, parsingProfileId);
+        } catch (error) {
+          if (error instanceof ConvertApiError && error.diagnostics) {
+            setDiagnostics(error.diagnostics);
           }
-           
-          throw new Error(errorMessage);
-        }
-
-        const data = await response.json();
-        if (!Array.isArray(data?.rooms)) {
-          throw new Error("Unexpected response format from server.");
+          throw error;
         }
 
-        setPreview(data.rooms as PreviewRoom[]);
-        setMetadata((data.meta ?? {}) as QuoteMetadata);
-        setSummary((data.summary ?? null) as QuoteSummary | null);
+        setPreview(data.rooms);
+        setMetadata({
+          ...data.meta,
+          // Saving starts every quote as a draft, whatever the workbook says.
+          quoteStatus: "Draft",
+          // Workbook terms print next to the standard ones until the designer picks.
+          ...(data.terms.length
+            ? {
+                terms: {
+                  version: latestPolicyVersion ?? BUILT_IN_POLICY_VERSION.version,
+                  excludedSectionIds: [],
+                  workbookSections: data.terms,
+                  source: "merged" as const,
+                },
+              }
+            : {}),
+        });
+        setSummary(data.summary);
+        setDiagnostics(data.diagnostics);
         setPdfFilename(toPdfFilename(file.name));
+        setQuoteId(null);
+        setAcceptance(null);
+        setSourceFile(file);
         setIsPreviewOpen(true);
+        const detected = data.profile.detected ? " (auto-detected)" : "";
         setStatus({
           state: "success",
-          message: "Preview ready. Review the summary below and download the PDF when ready.",
+          message: `Preview ready. Parsed with the ${data.profile.name} layout${detected}. Review the summary below and download the PDF when ready.`,
         });
         form.reset();
       } catch (error) {
@@ -2089,199 +1185,308 @@ export default function Home() {
         });
       }
     },
-    [uploadFileInChunks]
+    [uploadLargeFile, parsingProfileId, latestPolicyVersion]
   );
 
   const closePreview = useCallback(() => setIsPreviewOpen(false), []);
 
-  // Helper function to generate PDF blob
-  const generatePdfBlob = useCallback(async (): Promise<Blob | null> => {
-    if (!preview || !preview.length || !previewRef.current) {
-      return null;
-    }
+  const handleQuoteEdit = useCallback(
+    (edit: QuoteEdit) => {
+      if (!preview) {
+        return;
+      }
+      const next = edit({ rooms: preview, summary, meta: metadata });
+      setPreview(next.rooms);
+      setSummary(next.summary);
+      setMetadata(next.meta);
+    },
+    [preview, summary, metadata]
+  );
+
+  const reconciliation = useMemo(
+    () => (preview && preview.length ? reconcileQuote(preview, summary) : null),
+    [preview, summary]
+  );
 
-    const { clone, cleanup } = createPrintableClone(previewRef.current);
+  const parseErrorCount =
+    diagnostics?.filter((diagnostic) => diagnostic.severity === "error").length ?? 0;
 
+  const loadSavedQuotes = useCallback(async () => {
     try {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      const pdf = new jsPDF("p", "mm", "a4");
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const margin = 10;
-      const contentWidth = pageWidth - 2 * margin;
-      const safetyBuffer = 10;
-
-      let currentY = margin;
-
-      const getFlattenedElements = (element: HTMLElement): HTMLElement[] => {
-        const flatList: HTMLElement[] = [];
-        const isWrapper =
-          element.tagName === "SECTION" ||
-          (element.tagName === "DIV" &&
-            (element.className.includes("space-y-6") ||
-              element.className.includes("space-y-4") ||
-              element.className.includes("space-y-10")));
-
-        const isCard =
-          element.className.includes("rounded-2xl") ||
-          element.className.includes("rounded-3xl");
-        const isHeader = element.className.includes("border-b");
-        const isDiscountSection =
-          element.getAttribute("data-discount-section") === "true";
-        const isContentSection =
-          element.className.includes("space-y-2") ||
-          element.className.includes("space-y-3");
-        const isSectionTitle =
-          element.className.includes("space-y-2") &&
-          element.querySelector("h2") !== null;
-
-        if (
-          isCard ||
-          isHeader ||
-          isDiscountSection ||
-          isContentSection ||
-          isSectionTitle
-        ) {
-          if (element.offsetHeight > 0 || element.textContent?.trim())
-            flatList.push(element);
-          return flatList;
-        }
+      const response = await fetch("/api/quotes");
+      if (!response.ok) {
+        throw new Error("Failed to load saved quotes");
+      }
+      const data = await response.json();
+      setSavedQuotes(Array.isArray(data?.quotes) ? (data.quotes as QuoteListEntry[]) : []);
+    } catch (error) {
+      console.error("Loading saved quotes failed", error);
+    } finally {
+      setIsLoadingQuotes(false);
+    }
+  }, []);
 
-        if (isWrapper) {
-          Array.from(element.children).forEach((child) => {
-            if (child instanceof HTMLElement) {
-              flatList.push(...getFlattenedElements(child));
-            }
-          });
-          return flatList;
-        } else {
-          if (element.offsetHeight > 0 || element.textContent?.trim()) {
-            flatList.push(element);
-          }
+  useEffect(() => {
+    void loadSavedQuotes();
+  }, [loadSavedQuotes]);
+
+  // The session may have expired since the page was loaded.
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => {
+        if (response.status === 401) {
+          window.location.assign(`/login?next=${encodeURIComponent(window.location.pathname)}`);
+          return null;
         }
-        return flatList;
-      };
+        return response.ok ? response.json() : null;
+      })
+      .then((data: { user: User } | null) => setUser(data?.user ?? null))
+      .catch((error) => console.error("Loading the signed-in user failed", error));
+  }, []);
 
-      const elementsToProcess = getFlattenedElements(clone);
+  useEffect(() => {
+    fetch("/api/parsing-profiles")
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((data: { profiles: ParsingProfileSummary[] }) => setParsingProfiles(data.profiles))
+      .catch((error) => console.error("Loading parsing profiles failed", error));
+  }, []);
 
-      const uniqueElements: HTMLElement[] = [];
-      const seen = new Set<HTMLElement>();
+  useEffect(() => {
+    fetch("/api/payment-schedules")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { templates: PaymentScheduleTemplate[] } | null) => {
+        if (data?.templates?.length) {
+          setPaymentScheduleTemplates(data.templates);
+        }
+      })
+      .catch((error) => console.error("Loading payment schedule templates failed", error));
+  }, []);
 
-      for (const element of elementsToProcess) {
-        if (seen.has(element)) continue;
+  useEffect(() => {
+    fetch("/api/brands")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { brands: BrandProfile[] } | null) => {
+        if (data?.brands?.length) {
+          setBrands(data.brands);
+        }
+      })
+      .catch((error) => console.error("Loading brand profiles failed", error));
+  }, []);
 
-        let isDuplicate = false;
-        for (const existing of uniqueElements) {
-          if (existing.contains(element) || element.contains(existing)) {
-            if (existing.contains(element)) {
-              isDuplicate = true;
-              break;
-            }
-            if (element.contains(existing)) {
-              const index = uniqueElements.indexOf(existing);
-              if (index > -1) {
-                uniqueElements.splice(index, 1);
-                seen.delete(existing);
-              }
-            }
-          }
+  useEffect(() => {
+    fetch("/api/policies")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { latest: PolicyVersion; versions: PolicyVersionSummary[] } | null) => {
+        if (data) {
+          setPolicies((previous) => ({ ...previous, [data.latest.version]: data.latest }));
+          setLatestPolicyVersion(data.latest.version);
+          setPolicyVersions(data.versions);
         }
+      })
+      .catch((error) => console.error("Loading quote terms failed", error));
+  }, []);
 
-        if (!isDuplicate) {
-          uniqueElements.push(element);
-          seen.add(element);
+  // Quotes issued with older terms keep showing them.
+  const termsVersion = metadata?.terms?.version ?? latestPolicyVersion;
+  useEffect(() => {
+    if (termsVersion == null || policies[termsVersion]) {
+      return;
+    }
+    fetch(`/api/policies/${termsVersion}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { policy: PolicyVersion } | null) => {
+        if (data) {
+          setPolicies((previous) => ({ ...previous, [data.policy.version]: data.policy }));
         }
-      }
+      })
+      .catch((error) => console.error("Loading quote terms failed", error));
+  }, [termsVersion, policies]);
+
+  const activeBrand = findBrand(brands, metadata?.brandId);
+  const activePolicy = useMemo(
+    () => brandPolicy((termsVersion != null ? policies[termsVersion] : null) ?? BUILT_IN_POLICY_VERSION, activeBrand),
+    [termsVersion, policies, activeBrand]
+  );
 
-      uniqueElements.sort((a, b) => {
-        const aRect = a.getBoundingClientRect();
-        const bRect = b.getBoundingClientRect();
-        return aRect.top - bRect.top;
+  const handleSaveQuote = useCallback(async () => {
+    if (!preview || !preview.length) {
+      setStatus({
+        state: "error",
+        message: "Upload a workbook and generate the preview before saving.",
       });
+      return;
+    }
 
-      const processElement = async (element: HTMLElement) => {
-        const hasText =
-          element.textContent?.trim() &&
-          element.textContent.trim().length > 10;
-        const hasVisibleContent =
-          element.offsetHeight > 0 || hasText;
-        if (!hasVisibleContent || (element.offsetHeight < 5 && !hasText))
-          return;
-
-        const canvas = await html2canvas(element, {
-          scale: 2,
-          useCORS: true,
-          logging: false,
-          backgroundColor: "#ffffff",
-          windowWidth: 1200,
+    try {
+      setIsSavingQuote(true);
+      // An accepted revision is locked, so edits to it are saved as the next revision.
+      const isNewRevision = !quoteId || acceptance != null;
+      const quoteData = { pdfFilename, rooms: preview, meta: metadata, summary };
+
+      let response: Response;
+      if (!isNewRevision) {
+        response = await fetch(`/api/quotes/${quoteId}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(quoteData),
         });
+      } else {
+        const formData = new FormData();
+        formData.append("quote", JSON.stringify(quoteData));
+        // Workbooks above the direct upload limit go through the chunk store
+        // again; the server deletes each chunked upload once it has read it.
+        if (sourceFile && sourceFile.size > 4 * 1024 * 1024) {
+          formData.append("workbookUploadId", await uploadLargeFile(sourceFile));
+        } else if (sourceFile) {
+          formData.append("workbook", sourceFile, sourceFile.name);
+        }
+        response = await fetch("/api/quotes", { method: "POST", body: formData });
+      }
 
-        const imgData = canvas.toDataURL("image/png");
-        const imgProps = pdf.getImageProperties(imgData);
-        const pdfImgHeight = (imgProps.height * contentWidth) / imgProps.width;
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to save quote. Please try again.");
+      }
 
-        if (currentY + pdfImgHeight + safetyBuffer > pageHeight - margin) {
-          if (currentY > margin) {
-            pdf.addPage();
-            currentY = margin;
-          }
-        }
+      const data = await response.json();
+      const saved = data.quote as StoredQuote;
+      setQuoteId(saved.id);
+      setAcceptance(null);
+      // The server pins the terms version on save.
+      setMetadata(saved.meta ?? {});
+      const revisionNote = saved.revision > 1 ? ` as revision ${saved.revision}` : "";
+      setStatus({
+        state: "success",
+        message: !isNewRevision
+          ? "Quote changes saved."
+          : saved.sourceWorkbook
+            ? `Quote saved${revisionNote} with its source workbook.`
+            : `Quote saved${revisionNote}. The source workbook could not be archived alongside it.`,
+      });
+      await loadSavedQuotes();
+    } catch (error) {
+      console.error("Saving quote failed", error);
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to save quote. Please try again.",
+      });
+    } finally {
+      setIsSavingQuote(false);
+    }
+  }, [preview, metadata, summary, pdfFilename, quoteId, acceptance, sourceFile, uploadLargeFile, loadSavedQuotes]);
+
+  const handleOpenQuote = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${id}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to open quote.");
+      }
+      const data = await response.json();
+      const quote = data.quote as StoredQuote;
+
+      setPreview(quote.rooms);
+      setMetadata(quote.meta ?? {});
+      setSummary(quote.summary);
+      setPdfFilename(quote.pdfFilename);
+      setQuoteId(quote.id);
+      setAcceptance(quote.acceptance ?? null);
+      setSourceFile(null);
+      setDiagnostics(null);
+      setOverrideReconciliation(false);
+      setS3Url(null);
+      setIsPreviewOpen(true);
+      setStatus({
+        state: "success",
+        message: quote.acceptance
+          ? `Reopened ${quote.meta?.quoteNumber || "saved quote"}, accepted by the customer. Edits will be saved as a new revision.`
+          : `Reopened ${quote.meta?.quoteNumber || "saved quote"}. Save to keep any further edits.`,
+      });
+    } catch (error) {
+      console.error("Opening quote failed", error);
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to open quote.",
+      });
+    }
+  }, []);
 
-        if (pdfImgHeight > pageHeight - 2 * margin) {
-          let heightLeft = pdfImgHeight;
+  // Status changes are saved straight away, so only the status is taken over
+  // and unsaved edits stay as they are.
+  const handleStatusChange = useCallback((quoteStatus: QuoteStatus) => {
+    setMetadata((previous) => ({ ...(previous ?? {}), quoteStatus }));
+    void loadSavedQuotes();
+  }, [loadSavedQuotes]);
 
-          pdf.addImage(
-            imgData,
-            "PNG",
-            margin,
-            currentY,
-            contentWidth,
-            pdfImgHeight
-          );
-          const printedOnFirstPage = pageHeight - margin - currentY;
-          heightLeft -= printedOnFirstPage;
-
-          while (heightLeft > 0) {
-            pdf.addPage();
-            currentY = margin;
-
-            const yOffset = -1 * (pdfImgHeight - heightLeft) + margin;
-
-            pdf.addImage(
-              imgData,
-              "PNG",
-              margin,
-              yOffset,
-              contentWidth,
-              pdfImgHeight
-            );
-            heightLeft -= pageHeight - 2 * margin;
-          }
+  // Sharing a draft or approved quote marks it as sent.
+  const refreshQuoteStatus = useCallback(async () => {
+    if (!quoteId) {
+      return;
+    }
+    const response = await fetch(`/api/quotes/${quoteId}`);
+    if (response.ok) {
+      const data = await response.json();
+      handleStatusChange(quoteStatusOf((data.quote as StoredQuote).meta));
+    }
+  }, [quoteId, handleStatusChange]);
 
-          currentY = margin;
-        } else {
-          pdf.addImage(
-            imgData,
-            "PNG",
-            margin,
-            currentY,
-            contentWidth,
-            pdfImgHeight
-          );
-          currentY += pdfImgHeight + 5;
-        }
-      };
+  const handleDeleteQuote = useCallback(async (id: string) => {
+    if (!window.confirm("Delete this saved quote? This cannot be undone.")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/quotes/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to delete quote.");
+      }
+      if (id === quoteId) {
+        setQuoteId(null);
+        setAcceptance(null);
+      }
+      await loadSavedQuotes();
+    } catch (error) {
+      console.error("Deleting quote failed", error);
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to delete quote.",
+      });
+    }
+  }, [quoteId, loadSavedQuotes]);
 
-      for (const element of uniqueElements) {
-        await processElement(element);
+  const generatePdfBlob = useCallback(async (): Promise<Blob | null> => {
+    if (!preview || !preview.length) {
+      return null;
+    }
+
+    let changes: QuoteDiff | null = null;
+    if (quoteId && includeChangesInPdf) {
+      const diffResponse = await fetch(`/api/quotes/${quoteId}/diff`);
+      if (diffResponse.ok) {
+        changes = (await diffResponse.json()).diff;
       }
+    }
 
-      return pdf.output("blob");
-    } finally {
-      cleanup();
+    const response = await fetch("/api/render-pdf", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        rooms: preview,
+        meta: metadata,
+        summary,
+        fileName: pdfFilename,
+        changes,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || "Failed to render the PDF. Please try again.");
     }
-  }, [preview]);
+
+    return response.blob();
+  }, [preview, metadata, summary, pdfFilename, quoteId, includeChangesInPdf]);
 
   const handleMetaFieldChange = useCallback(
     (field: keyof QuoteMetadata, value: string) => {
@@ -2315,6 +1520,18 @@ export default function Home() {
     []
   );
    
+  const handlePaymentScheduleChange = useCallback((paymentSchedule: PaymentSchedule) => {
+    setMetadata((previous) => ({ ...(previous ?? {}), paymentSchedule }));
+  }, []);
+
+  const handleTermsChange = useCallback((terms: QuoteTerms) => {
+    setMetadata((previous) => ({ ...(previous ?? {}), terms }));
+  }, []);
+
+  const handleBrandChange = useCallback((brandId: string) => {
+    setMetadata((previous) => ({ ...(previous ?? {}), brandId }));
+  }, []);
+
   const handleDownloadPdf = useCallback(async () => {
     if (!preview || !preview.length) {
       setStatus({
@@ -2324,14 +1541,6 @@ export default function Home() {
       return;
     }
 
-    if (!previewRef.current) {
-      setStatus({
-        state: "error",
-        message: "Preview content not available. Please refresh and try again.",
-      });
-      return;
-    }
-
     try {
       setIsGeneratingPdf(true);
 
@@ -2344,15 +1553,7 @@ export default function Home() {
         return;
       }
 
-      // Create download link
-      const url = URL.createObjectURL(pdfBlob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = pdfFilename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      saveBlob(pdfBlob, pdfFilename);
 
       setStatus({
         state: "success",
@@ -2372,6 +1573,44 @@ export default function Home() {
     }
   }, [preview, pdfFilename, generatePdfBlob]);
 
+  const handleExportXlsx = useCallback(async () => {
+    if (!preview || !preview.length) {
+      setStatus({
+        state: "error",
+        message: "Upload a workbook and generate the preview before exporting.",
+      });
+      return;
+    }
+
+    const fileName = pdfFilename.replace(/\.pdf$/i, ".xlsx");
+    try {
+      setIsExportingXlsx(true);
+      const response = await fetch("/api/export/xlsx", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rooms: preview, meta: metadata, summary, fileName }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to export the workbook. Please try again.");
+      }
+
+      saveBlob(await response.blob(), fileName);
+      setStatus({
+        state: "success",
+        message: "Excel workbook exported.",
+      });
+    } catch (error) {
+      console.error("Excel export failed", error);
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to export the workbook. Please try again.",
+      });
+    } finally {
+      setIsExportingXlsx(false);
+    }
+  }, [preview, metadata, summary, pdfFilename]);
+
   const handleUploadToS3 = useCallback(async () => {
     if (!preview || !preview.length) {
       setStatus({
@@ -2381,10 +1620,19 @@ export default function Home() {
       return;
     }
 
-    if (!previewRef.current) {
+    // The server publishes the saved quote, so edits have to be saved first.
+    if (!quoteId) {
+      setStatus({
+        state: "error",
+        message: "Save the quote before uploading it to S3.",
+      });
+      return;
+    }
+
+    if (reconciliation?.mismatches && !overrideReconciliation) {
       setStatus({
         state: "error",
-        message: "Preview content not available. Please refresh and try again.",
+        message: `${reconciliation.mismatches} room${reconciliation.mismatches === 1 ? "" : "s"} do not match the summary sheet. Review the flagged rooms or tick the override before publishing.`,
       });
       return;
     }
@@ -2393,19 +1641,9 @@ export default function Home() {
       setIsUploadingToS3(true);
       setS3Url(null);
 
-      const pdfBlob = await generatePdfBlob();
-      if (!pdfBlob) {
-        setStatus({
-          state: "error",
-          message: "Failed to generate PDF blob.",
-        });
-        return;
-      }
-
-      // Upload to S3
       const formData = new FormData();
-      formData.append("file", pdfBlob, pdfFilename);
-      formData.append("fileName", pdfFilename);
+      formData.append("quoteId", quoteId);
+      formData.append("overrideReconciliation", String(overrideReconciliation));
 
       const response = await fetch("/api/upload-s3", {
         method: "POST",
@@ -2457,7 +1695,7 @@ export default function Home() {
     } finally {
       setIsUploadingToS3(false);
     }
-  }, [preview, pdfFilename, generatePdfBlob]);
+  }, [preview, quoteId, reconciliation, overrideReconciliation]);
    
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 px-4 py-16 font-sans">
@@ -2465,10 +1703,48 @@ export default function Home() {
         <header className="space-y-2 text-center">
           <h1 className="text-3xl font-semibold">Excel to PDF Designer Summary</h1>
           <p className="text-base text-zinc-600">
-            Upload an Excel workbook (.xlsx or .xls) and we parse every worksheet into a
+            Upload an Excel workbook (.xlsx or .xls), a LibreOffice workbook (.ods) or a ZIP of
+            per-sheet CSV exports, and we parse every worksheet into a
             structured summary grouped by room and cabinet type. Preview the result below and
             download it as a formatted PDF.
           </p>
+          {user && canManageSettings(user) && (
+            <div className="flex flex-wrap gap-4">
+              <Link href="/settings/taxonomy" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Manage item categories
+              </Link>
+              <Link
+                href="/settings/payment-schedules"
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                Manage payment schedules
+              </Link>
+              <Link href="/settings/policies" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Edit quote terms
+              </Link>
+              <Link href="/settings/brands" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Manage brands
+              </Link>
+              <Link href="/settings/approvals" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Discount approval
+              </Link>
+              <Link href="/settings/users" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Manage users
+              </Link>
+            </div>
+          )}
+          {user && (
+            <form method="post" action="/api/auth/logout" className="flex items-center justify-center gap-3 text-sm text-zinc-600">
+              <span>
+                Signed in as <span className="font-semibold text-zinc-900">{user.name}</span> ·{" "}
+                {USER_ROLE_LABELS[user.role]}
+                {user.team ? ` · ${user.team}` : ""}
+              </span>
+              <button type="submit" className="font-medium text-indigo-600 hover:text-indigo-800">
+                Sign out
+              </button>
+            </form>
+          )}
         </header>
   
         <section>
@@ -2480,12 +1756,12 @@ export default function Home() {
               htmlFor="file"
               className="flex flex-col gap-1 text-left text-base font-medium"
             >
-              Select Excel file
+              Select workbook
               <input
                 id="file"
                 name="file"
                 type="file"
-                accept=".xls,.xlsx,.xlsm"
+                accept=".xls,.xlsx,.xlsm,.ods,.zip"
                 className="mt-1 w-full cursor-pointer rounded-xl border border-zinc-300 bg-white p-3 text-sm text-zinc-700 transition hover:border-zinc-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
               />
               <span className="text-xs font-normal text-zinc-400">
@@ -2494,6 +1770,29 @@ export default function Home() {
                 Files up to 4MB upload directly. Larger files use chunked upload automatically.
               </span>
             </label>
+
+            <label
+              htmlFor="profile"
+              className="flex flex-col gap-1 text-left text-base font-medium"
+            >
+              Workbook layout
+              <select
+                id="profile"
+                value={parsingProfileId}
+                onChange={(event) => setParsingProfileId(event.target.value)}
+                className="mt-1 w-full rounded-xl border border-zinc-300 bg-white p-3 text-sm text-zinc-700 transition hover:border-zinc-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="auto">Auto-detect</option>
+                {parsingProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs font-normal text-zinc-400">
+                Pick the design tool or partner the workbook came from, or let the layout be detected.
+              </span>
+            </label>
   
             <button
               type="submit"
@@ -2502,6 +1801,12 @@ export default function Home() {
             >
               {status.state === "uploading" ? "Processing…" : "Generate Preview"}
             </button>
+            <p className="text-center text-sm text-zinc-500">
+              Regenerating many quotes at once?{" "}
+              <Link href="/batch" className="font-medium text-indigo-600 hover:text-indigo-800">
+                Convert a batch of workbooks
+              </Link>
+            </p>
           </form>
         </section>
   
@@ -2516,6 +1821,8 @@ export default function Home() {
           </p>
         )}
   
+        {diagnostics && <ParseReportPanel diagnostics={diagnostics} />}
+
         <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
           <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
             <div>
@@ -2541,6 +1848,14 @@ export default function Home() {
               >
                 {isGeneratingPdf ? "Preparing PDF…" : `Download PDF (${pdfFilename})`}
               </button>
+              <button
+                type="button"
+                onClick={handleExportXlsx}
+                className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 focus:outline-none focus:ring-4 focus:ring-zinc-300 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={!preview || !preview.length || isExportingXlsx}
+              >
+                {isExportingXlsx ? "Exporting…" : "Export to Excel"}
+              </button>
               <button
                 type="button"
                 onClick={handleUploadToS3}
@@ -2549,6 +1864,14 @@ export default function Home() {
               >
                 {isUploadingToS3 ? "Uploading to S3…" : "Upload to S3"}
               </button>
+              <button
+                type="button"
+                onClick={handleSaveQuote}
+                className="rounded-xl border border-indigo-300 px-4 py-2 text-sm font-semibold text-indigo-700 transition hover:border-indigo-400 hover:text-indigo-900 focus:outline-none focus:ring-4 focus:ring-indigo-200 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={!preview || !preview.length || isSavingQuote}
+              >
+                {isSavingQuote ? "Saving…" : acceptance ? "Save as New Revision" : quoteId ? "Save Changes" : "Save Quote"}
+              </button>
             </div>
           </div>
   
@@ -2561,6 +1884,51 @@ export default function Home() {
               <div className="rounded-xl border border-dashed border-emerald-300 bg-emerald-50 p-6 text-sm text-emerald-700">
                 Preview generated. Use the buttons above to open the full-page view or download the PDF.
               </div>
+              {quoteId && acceptance && (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-emerald-200 bg-white p-4 text-sm text-emerald-800">
+                  <p>
+                    Accepted by <span className="font-semibold">{acceptance.name}</span> on{" "}
+                    {new Date(acceptance.acceptedAt).toLocaleString("en-IN")}. This revision is locked; saving
+                    creates a new revision.
+                  </p>
+                  <a
+                    href={`/api/quotes/${quoteId}/pdf`}
+                    className="rounded-lg border border-emerald-300 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:border-emerald-400"
+                  >
+                    Signed PDF
+                  </a>
+                </div>
+              )}
+              {reconciliation && reconciliation.mismatches > 0 && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+                  <p className="font-semibold">
+                    Summary totals do not match the room sheets for{" "}
+                    {reconciliation.rooms
+                      .filter((entry) => entry.status === "mismatch")
+                      .map((entry) => entry.room)
+                      .join(", ")}
+                    .
+                  </p>
+                  <p className="mt-1">
+                    The flagged rooms are marked in the full-page preview. Publishing to S3 is blocked
+                    until they are fixed or you override the check.
+                  </p>
+                  <label className="mt-3 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={overrideReconciliation}
+                      onChange={(event) => setOverrideReconciliation(event.target.checked)}
+                    />
+                    Publish to S3 anyway
+                  </label>
+                </div>
+              )}
+              {parseErrorCount > 0 && (
+                <div className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                  {parseErrorCount} row{parseErrorCount === 1 ? "" : "s"} with amounts could not be read.
+                  Check the Parse Report above before exporting.
+                </div>
+              )}
               {s3Url && (
                 <div className="rounded-xl border border-indigo-200 bg-indigo-50 p-4">
                   <p className="text-sm font-semibold text-indigo-900 mb-2">PDF uploaded to S3 successfully!</p>
@@ -2578,6 +1946,47 @@ export default function Home() {
           )}
         </section>
   
+        <SavedQuotesPanel
+          quotes={savedQuotes}
+          activeQuoteId={quoteId}
+          isLoading={isLoadingQuotes}
+          formatCurrency={formatCurrency}
+          showOwners={user != null && user.role !== "designer"}
+          onOpen={handleOpenQuote}
+          onDelete={handleDeleteQuote}
+        />
+
+        {quoteId && (
+          <RevisionHistoryPanel
+            key={quoteId}
+            quoteId={quoteId}
+            formatCurrency={formatCurrency}
+            includeChangesInPdf={includeChangesInPdf}
+            onIncludeChangesInPdfChange={setIncludeChangesInPdf}
+            onOpen={handleOpenQuote}
+          />
+        )}
+
+        {quoteId && metadata && (
+          <QuoteStatusPanel
+            key={quoteId}
+            quoteId={quoteId}
+            document={{ meta: metadata, summary }}
+            canApprove={user != null && canApproveDiscounts(user)}
+            onStatusChange={handleStatusChange}
+          />
+        )}
+
+        {quoteId && <ShareLinksPanel key={quoteId} quoteId={quoteId} onLinkCreated={refreshQuoteStatus} />}
+
+        {quoteId && (
+          <QuoteTimelinePanel
+            key={quoteId}
+            quoteId={quoteId}
+            version={savedQuotes.find((quote) => quote.id === quoteId)?.updatedAt}
+          />
+        )}
+
         {metadata && (
           <section className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
             <div className="mb-4 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
@@ -2678,6 +2087,14 @@ export default function Home() {
                   >
                     {isGeneratingPdf ? "Preparing PDF…" : "Download PDF"}
                   </button>
+                  <button
+                    type="button"
+                    onClick={handleExportXlsx}
+                    disabled={isExportingXlsx}
+                    className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 focus:outline-none focus:ring-4 focus:ring-zinc-300 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isExportingXlsx ? "Exporting…" : "Export to Excel"}
+                  </button>
                   <button
                     type="button"
                     onClick={handleUploadToS3}
@@ -2686,6 +2103,14 @@ export default function Home() {
                   >
                     {isUploadingToS3 ? "Uploading…" : "Upload to S3"}
                   </button>
+                  <button
+                    type="button"
+                    onClick={handleSaveQuote}
+                    disabled={isSavingQuote}
+                    className="rounded-xl border border-indigo-300 px-4 py-2 text-sm font-semibold text-indigo-700 transition hover:border-indigo-400 hover:text-indigo-900 focus:outline-none focus:ring-4 focus:ring-indigo-200 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isSavingQuote ? "Saving…" : acceptance ? "Save as New Revision" : quoteId ? "Save Changes" : "Save Quote"}
+                  </button>
                   <button
                     type="button"
                     onClick={closePreview}
@@ -2711,14 +2136,22 @@ export default function Home() {
             </div>
             <div className="min-h-0 flex-1 overflow-auto">
               <PreviewContent
-                ref={previewRef}
                 meta={metadata}
                 rooms={preview}
                 summary={summary}
                 formatNumber={formatNumber}
                 formatCurrency={formatCurrency}
+                reconciliation={reconciliation}
+                paymentScheduleTemplates={paymentScheduleTemplates}
+                policy={activePolicy}
+                policyVersions={policyVersions}
+                brand={activeBrand}
+                brands={brands}
                 onMetaChange={handleMetaFieldChange}
-                projectTotal={aggregatedProjectTotal}
+                onQuoteEdit={handleQuoteEdit}
+                onPaymentScheduleChange={handlePaymentScheduleChange}
+                onTermsChange={handleTermsChange}
+                onBrandChange={handleBrandChange}
               />
             </div>
           </div>
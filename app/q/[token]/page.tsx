@@ -0,0 +1,128 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import AcceptQuoteForm from "@/app/components/AcceptQuoteForm";
+import SharedQuoteView from "@/app/components/SharedQuoteView";
+import { brandPolicy, findBrand } from "@/lib/brand";
+import { getBrandProfiles } from "@/lib/brand-store";
+import { getLatestPolicyVersion, getPolicyVersion } from "@/lib/policy-store";
+import { getQuote } from "@/lib/quote-store";
+import { quoteStatusOf } from "@/lib/quote-status";
+import { checkShareAccess, MAX_PIN_ATTEMPTS, recordShareView, shareCookieName } from "@/lib/share-store";
+
+// Every visit is counted, so nothing here may be cached.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Your quotation",
+  robots: { index: false, follow: false },
+};
+
+type PageProps = {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ pin?: string }>;
+};
+
+const NOTICES = {
+  missing: "This link is not valid. Please check it with your designer.",
+  revoked: "This link has been withdrawn. Please ask your designer for a new one.",
+  expired: "This link has expired. Please ask your designer for a new one.",
+  locked: `This link was locked after ${MAX_PIN_ATTEMPTS} incorrect PINs. Please ask your designer for a new one.`,
+  gone: "This quote is no longer available. Please contact your designer.",
+};
+
+const acceptedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "Asia/Kolkata",
+});
+
+function Notice({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-md space-y-4 rounded-3xl bg-white p-10 shadow-xl">{children}</main>
+    </div>
+  );
+}
+
+export default async function SharedQuotePage({ params, searchParams }: PageProps) {
+  const { token } = await params;
+  const { pin } = await searchParams;
+  const cookieStore = await cookies();
+  const access = await checkShareAccess(token, cookieStore.get(shareCookieName(token))?.value);
+
+  if (access.state === "pin-required") {
+    return (
+      <Notice>
+        <h1 className="text-2xl font-semibold">Enter your PIN</h1>
+        <p className="text-sm text-zinc-600">Your designer protected this quote with a PIN.</p>
+        {pin === "wrong" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">
+            That PIN is not correct. Please try again.
+          </p>
+        )}
+        <form method="post" action={`/api/shares/${encodeURIComponent(token)}/unlock`} className="flex gap-3">
+          <input
+            type="password"
+            name="pin"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="\d{4,8}"
+            required
+            autoFocus
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2"
+          />
+          <button
+            type="submit"
+            className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500"
+          >
+            Open
+          </button>
+        </form>
+      </Notice>
+    );
+  }
+  if (access.state !== "granted") {
+    return (
+      <Notice>
+        <p className="text-sm text-zinc-600">{NOTICES[access.state]}</p>
+      </Notice>
+    );
+  }
+
+  const quote = await getQuote(access.quoteId);
+  if (!quote) {
+    return (
+      <Notice>
+        <p className="text-sm text-zinc-600">{NOTICES.gone}</p>
+      </Notice>
+    );
+  }
+
+  const termsVersion = quote.meta?.terms?.version;
+  const [policy, { brands }] = await Promise.all([
+    termsVersion != null ? getPolicyVersion(termsVersion) : getLatestPolicyVersion(),
+    getBrandProfiles(),
+  ]);
+  const brand = findBrand(brands, quote.meta?.brandId);
+  await recordShareView(token);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 px-4 py-10">
+      <div className="mx-auto max-w-5xl rounded-3xl bg-white shadow-xl">
+        <SharedQuoteView
+          quote={quote}
+          brand={brand}
+          policy={brandPolicy(policy ?? (await getLatestPolicyVersion()), brand)}
+        />
+        {quote.acceptance ? (
+          <p className="border-t border-zinc-200 p-8 text-sm font-medium text-emerald-700">
+            Accepted by {quote.acceptance.name} on {acceptedAtFormat.format(new Date(quote.acceptance.acceptedAt))}.
+            Thank you!
+          </p>
+        ) : (
+          quoteStatusOf(quote.meta) === "Sent" && <AcceptQuoteForm token={token} />
+        )}
+      </div>
+    </div>
+  );
+}
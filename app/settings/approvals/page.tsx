@@ -0,0 +1,137 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { validateApprovalSettings, type ApprovalSettings } from "@/lib/quote-status";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+const updatedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function ApprovalSettingsPage() {
+  const [threshold, setThreshold] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applySettings = useCallback((data: ApprovalSettings) => {
+    setThreshold(String(data.discountThresholdPercent));
+    setUpdatedAt(data.updatedAt);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/approval-settings")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load approval settings");
+        }
+        applySettings(data as ApprovalSettings);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load approval settings",
+        })
+      );
+  }, [applySettings]);
+
+  const discountThresholdPercent = threshold?.trim() ? Number(threshold) : NaN;
+  const problem = threshold != null ? validateApprovalSettings({ discountThresholdPercent }) : null;
+
+  const saveSettings = async () => {
+    if (problem) {
+      setStatus({ state: "error", message: problem });
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/approval-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ discountThresholdPercent }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save approval settings.");
+      }
+      applySettings(data as ApprovalSettings);
+      setStatus({ state: "success", message: "Approval threshold saved. It applies to every quote from now on." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to save approval settings.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-3xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Discount Approval</h1>
+          <p className="text-base text-zinc-600">
+            Quotes whose discount is above this share of the subtotal need a manager&apos;s approval
+            before they can be uploaded to S3 or shared with the customer.
+          </p>
+          {updatedAt && (
+            <p className="text-xs text-zinc-500">Last saved {updatedAtFormat.format(new Date(updatedAt))}</p>
+          )}
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        {threshold == null ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading settings…
+          </div>
+        ) : (
+          <label className="flex flex-col gap-1 text-sm font-medium text-zinc-700">
+            Approval needed above (% of subtotal)
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={100}
+              step="0.5"
+              value={threshold}
+              onChange={(event) => setThreshold(event.target.value)}
+              className="w-40 rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+            />
+          </label>
+        )}
+
+        {problem && <p className="text-sm text-red-600">{problem}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={saveSettings}
+            disabled={threshold == null || isSaving || problem != null}
+            className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isSaving ? "Saving…" : "Save Settings"}
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
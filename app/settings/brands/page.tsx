@@ -0,0 +1,446 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  BRAND_FONTS,
+  validateBrands,
+  type BrandFont,
+  type BrandProfile,
+  type BrandProfiles,
+} from "@/lib/brand";
+import { GST_RATES, type TaxCategory } from "@/lib/tax";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+}
+
+const updatedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  className,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}) {
+  return (
+    <label className={`flex flex-col gap-1 text-xs font-medium text-zinc-600 ${className ?? ""}`}>
+      {label}
+      <input
+        type="text"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={placeholder}
+        className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+      />
+    </label>
+  );
+}
+
+function ColourField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+      {label}
+      <span className="flex items-center gap-2">
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(value) ? value : "#000000"}
+          onChange={(event) => onChange(event.target.value)}
+          className="h-9 w-12 rounded border border-zinc-300"
+        />
+        <input
+          type="text"
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          className="w-28 rounded-lg border border-zinc-300 px-3 py-2 font-mono text-sm font-normal text-zinc-900"
+        />
+      </span>
+    </label>
+  );
+}
+
+// Keeps what was typed, so "0." can become "0.25"; an empty field means the
+// standard rate.
+function GstRateField({
+  label,
+  rate,
+  standardRate,
+  onChange,
+}: {
+  label: string;
+  rate: number | undefined;
+  standardRate: number;
+  onChange: (rate: number | undefined) => void;
+}) {
+  const [text, setText] = useState(rate?.toString() ?? "");
+  return (
+    <TextField
+      label={label}
+      value={text}
+      placeholder={String(standardRate)}
+      onChange={(value) => {
+        const sanitized = value.replace(/[^0-9.]/g, "");
+        setText(sanitized);
+        onChange(sanitized && !Number.isNaN(Number(sanitized)) ? Number(sanitized) : undefined);
+      }}
+    />
+  );
+}
+
+export default function BrandSettingsPage() {
+  const [brands, setBrands] = useState<BrandProfile[] | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyBrands = useCallback((data: BrandProfiles) => {
+    setBrands(data.brands);
+    setUpdatedAt(data.updatedAt);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/brands")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load brand profiles");
+        }
+        applyBrands(data as BrandProfiles);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load brand profiles",
+        })
+      );
+  }, [applyBrands]);
+
+  const problem = useMemo(() => (brands ? validateBrands(brands) : null), [brands]);
+
+  const updateBrand = (index: number, changes: Partial<BrandProfile>) => {
+    setBrands((previous) =>
+      previous ? previous.map((brand, position) => (position === index ? { ...brand, ...changes } : brand)) : previous
+    );
+  };
+
+  const addBrand = () => {
+    setBrands((previous) => {
+      const existing = previous ?? [];
+      let id = "new-brand";
+      for (let suffix = 2; existing.some((brand) => brand.id === id); suffix += 1) {
+        id = `new-brand-${suffix}`;
+      }
+      // Starts as a copy of the default brand so only the differences need typing.
+      const base = existing[0];
+      return [
+        ...existing,
+        {
+          ...base,
+          id,
+          name: "",
+          shortName: "",
+          legalName: "",
+          gstin: "",
+          contact: { email: "", phone: "", website: "", address: "" },
+          footerText: "",
+          s3Prefix: `${id}/pdfs`,
+        },
+      ];
+    });
+  };
+
+  const updateGstRate = (index: number, category: TaxCategory, rate: number | undefined) => {
+    setBrands((previous) =>
+      previous
+        ? previous.map((brand, position) => {
+            if (position !== index) {
+              return brand;
+            }
+            const gstRates = { ...brand.gstRates };
+            if (rate == null) {
+              delete gstRates[category];
+            } else {
+              gstRates[category] = rate;
+            }
+            return { ...brand, gstRates };
+          })
+        : previous
+    );
+  };
+
+  const removeBrand = (index: number) => {
+    setBrands((previous) => (previous ? previous.filter((_brand, position) => position !== index) : previous));
+  };
+
+  const saveBrands = async () => {
+    if (problem) {
+      setStatus({ state: "error", message: problem });
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/brands", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brands }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save brand profiles.");
+      }
+      applyBrands(data as BrandProfiles);
+      setStatus({ state: "success", message: "Brands saved. Open previews pick up the changes on reload." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to save brand profiles.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetBrands = async () => {
+    if (!window.confirm("Replace every brand with the built-in HUB profile?")) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/brands", { method: "DELETE" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to reset brand profiles.");
+      }
+      applyBrands(data as BrandProfiles);
+      setStatus({ state: "success", message: "Brands reset to the built-in HUB profile." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to reset brand profiles.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Brands</h1>
+          <p className="text-base text-zinc-600">
+            Each brand sets the logo, colours, font and footer of the preview and the PDF, and the S3
+            folder published quotes go to. Designers pick a brand per quote; quotes without one use the
+            first brand here. A brand that saved quotes use cannot be removed. Logos are PNG or JPEG files under <code>public/</code>. The quote terms can
+            mention the brand with <code>{"{{brand}}"}</code>, <code>{"{{legalName}}"}</code>,{" "}
+            <code>{"{{email}}"}</code>, <code>{"{{phone}}"}</code> and <code>{"{{website}}"}</code>.
+          </p>
+          {updatedAt && (
+            <p className="text-xs text-zinc-500">Last saved {updatedAtFormat.format(new Date(updatedAt))}</p>
+          )}
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        {!brands ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading brands…
+          </div>
+        ) : (
+          brands.map((brand, index) => (
+            <section key={index} className="space-y-4 rounded-2xl border border-zinc-200 p-4">
+              <div className="flex flex-col gap-3 md:flex-row md:items-center">
+                <div className="flex-1">
+                  <input
+                    type="text"
+                    value={brand.name}
+                    onChange={(event) => {
+                      const name = event.target.value;
+                      // Only brand-new profiles follow their name; saved ids stay put.
+                      const followsName = brand.id.startsWith("new-brand") || !brand.name;
+                      updateBrand(index, followsName && slugify(name) ? { name, id: slugify(name) } : { name });
+                    }}
+                    placeholder="Brand name"
+                    className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-semibold"
+                  />
+                  <p className="mt-1 font-mono text-xs text-zinc-400">
+                    {brand.id}
+                    {index === 0 ? " (default)" : ""}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeBrand(index)}
+                  className="rounded-lg border border-red-200 px-3 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700"
+                >
+                  Remove Brand
+                </button>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-3">
+                <TextField
+                  label="Short name"
+                  value={brand.shortName}
+                  placeholder="HUB"
+                  onChange={(shortName) => updateBrand(index, { shortName })}
+                />
+                <TextField
+                  label="Legal name"
+                  value={brand.legalName}
+                  onChange={(legalName) => updateBrand(index, { legalName })}
+                />
+                <TextField
+                  label="GSTIN"
+                  value={brand.gstin}
+                  placeholder="29ABCDE1234F1Z5"
+                  onChange={(gstin) => updateBrand(index, { gstin: gstin.toUpperCase() })}
+                />
+                <TextField
+                  label="Logo"
+                  value={brand.logo}
+                  placeholder="/quote-logo.png"
+                  onChange={(logo) => updateBrand(index, { logo })}
+                />
+                <ColourField
+                  label="Primary colour"
+                  value={brand.colors.primary}
+                  onChange={(primary) => updateBrand(index, { colors: { ...brand.colors, primary } })}
+                />
+                <ColourField
+                  label="Text on primary"
+                  value={brand.colors.onPrimary}
+                  onChange={(onPrimary) => updateBrand(index, { colors: { ...brand.colors, onPrimary } })}
+                />
+                <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+                  Font
+                  <select
+                    value={brand.font}
+                    onChange={(event) => updateBrand(index, { font: event.target.value as BrandFont })}
+                    className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900"
+                  >
+                    {(Object.keys(BRAND_FONTS) as BrandFont[]).map((font) => (
+                      <option key={font} value={font}>
+                        {BRAND_FONTS[font].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <TextField
+                  label="Email"
+                  value={brand.contact.email}
+                  onChange={(email) => updateBrand(index, { contact: { ...brand.contact, email } })}
+                />
+                <TextField
+                  label="Phone"
+                  value={brand.contact.phone}
+                  onChange={(phone) => updateBrand(index, { contact: { ...brand.contact, phone } })}
+                />
+                <TextField
+                  label="Website"
+                  value={brand.contact.website}
+                  onChange={(website) => updateBrand(index, { contact: { ...brand.contact, website } })}
+                />
+                <TextField
+                  label="Address"
+                  value={brand.contact.address}
+                  className="md:col-span-2"
+                  onChange={(address) => updateBrand(index, { contact: { ...brand.contact, address } })}
+                />
+                <TextField
+                  label="Footer text"
+                  value={brand.footerText}
+                  className="md:col-span-2"
+                  onChange={(footerText) => updateBrand(index, { footerText })}
+                />
+                <TextField
+                  label="S3 prefix"
+                  value={brand.s3Prefix}
+                  placeholder="pdfs"
+                  onChange={(s3Prefix) => updateBrand(index, { s3Prefix })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-zinc-800">GST rates (%)</h2>
+                <p className="text-xs text-zinc-500">
+                  Used for the tax breakdown of this brand&apos;s quotes. Leave a category empty for the standard rate.
+                </p>
+                <div className="grid gap-3 md:grid-cols-6">
+                  {(Object.keys(GST_RATES) as TaxCategory[]).map((category) => (
+                    <GstRateField
+                      key={`${updatedAt}-${brand.id}-${category}`}
+                      label={`${GST_RATES[category].label} (HSN ${GST_RATES[category].hsn})`}
+                      rate={brand.gstRates?.[category]}
+                      standardRate={GST_RATES[category].rate}
+                      onChange={(rate) => updateGstRate(index, category, rate)}
+                    />
+                  ))}
+                </div>
+              </div>
+            </section>
+          ))
+        )}
+
+        {problem && brands && <p className="text-sm text-red-600">{problem}</p>}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:justify-between">
+          <button
+            type="button"
+            onClick={addBrand}
+            disabled={!brands?.length}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Add Brand
+          </button>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button
+              type="button"
+              onClick={resetBrands}
+              disabled={!brands || isSaving}
+              className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              type="button"
+              onClick={saveBrands}
+              disabled={!brands || isSaving || problem != null}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving…" : "Save Brands"}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
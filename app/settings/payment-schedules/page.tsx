@@ -0,0 +1,243 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  validatePaymentScheduleTemplates,
+  type PaymentScheduleTemplate,
+  type PaymentScheduleTemplates,
+} from "@/lib/payment-schedule";
+import PaymentStagesEditor from "@/app/components/PaymentStagesEditor";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+}
+
+const updatedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function PaymentScheduleSettingsPage() {
+  const [templates, setTemplates] = useState<PaymentScheduleTemplate[] | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyTemplates = useCallback((data: PaymentScheduleTemplates) => {
+    setTemplates(data.templates);
+    setUpdatedAt(data.updatedAt);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/payment-schedules")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load payment schedule templates");
+        }
+        applyTemplates(data as PaymentScheduleTemplates);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load payment schedule templates",
+        })
+      );
+  }, [applyTemplates]);
+
+  const problem = useMemo(
+    () => (templates ? validatePaymentScheduleTemplates(templates) : null),
+    [templates]
+  );
+
+  const updateTemplate = (index: number, changes: Partial<PaymentScheduleTemplate>) => {
+    setTemplates((previous) =>
+      previous
+        ? previous.map((template, position) => (position === index ? { ...template, ...changes } : template))
+        : previous
+    );
+  };
+
+  const addTemplate = () => {
+    setTemplates((previous) => {
+      const existing = previous ?? [];
+      let id = "new-template";
+      for (let suffix = 2; existing.some((template) => template.id === id); suffix += 1) {
+        id = `new-template-${suffix}`;
+      }
+      return [
+        ...existing,
+        { id, name: "", stages: [{ label: "Booking", kind: "percentage", value: 100 }] },
+      ];
+    });
+  };
+
+  const removeTemplate = (index: number) => {
+    setTemplates((previous) => (previous ? previous.filter((_template, position) => position !== index) : previous));
+  };
+
+  const saveTemplates = async () => {
+    if (problem) {
+      setStatus({ state: "error", message: problem });
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/payment-schedules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templates }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save payment schedule templates.");
+      }
+      applyTemplates(data as PaymentScheduleTemplates);
+      setStatus({
+        state: "success",
+        message: "Templates saved. Quotes that already have a schedule keep it until a template is picked again.",
+      });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to save payment schedule templates.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetTemplates = async () => {
+    if (!window.confirm("Replace every template with the built-in schedules?")) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/payment-schedules", { method: "DELETE" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to reset payment schedule templates.");
+      }
+      applyTemplates(data as PaymentScheduleTemplates);
+      setStatus({ state: "success", message: "Templates reset to the built-in schedules." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to reset payment schedule templates.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Payment Schedules</h1>
+          <p className="text-base text-zinc-600">
+            Named milestone plans designers can pick for a quote and then adjust. Stages are a
+            percentage of the payable total or a fixed amount; templates made only of percentages
+            must add up to 100%.
+          </p>
+          {updatedAt && (
+            <p className="text-xs text-zinc-500">Last saved {updatedAtFormat.format(new Date(updatedAt))}</p>
+          )}
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        {!templates ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading templates…
+          </div>
+        ) : (
+          templates.map((template, index) => (
+            <section key={index} className="space-y-3 rounded-2xl border border-zinc-200 p-4">
+              <div className="flex flex-col gap-3 md:flex-row md:items-center">
+                <div className="flex-1">
+                  <input
+                    type="text"
+                    value={template.name}
+                    onChange={(event) => {
+                      const name = event.target.value;
+                      // Only brand-new templates follow their name; saved ids stay put.
+                      const followsName = template.id.startsWith("new-template") || !template.name;
+                      updateTemplate(index, followsName && slugify(name) ? { name, id: slugify(name) } : { name });
+                    }}
+                    placeholder="Template name"
+                    className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-semibold"
+                  />
+                  <p className="mt-1 font-mono text-xs text-zinc-400">{template.id}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeTemplate(index)}
+                  className="rounded-lg border border-red-200 px-3 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700"
+                >
+                  Remove Template
+                </button>
+              </div>
+              <PaymentStagesEditor
+                stages={template.stages}
+                total={null}
+                onChange={(stages) => updateTemplate(index, { stages })}
+              />
+            </section>
+          ))
+        )}
+
+        {problem && templates && <p className="text-sm text-red-600">{problem}</p>}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:justify-between">
+          <button
+            type="button"
+            onClick={addTemplate}
+            disabled={!templates}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Add Template
+          </button>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button
+              type="button"
+              onClick={resetTemplates}
+              disabled={!templates || isSaving}
+              className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              type="button"
+              onClick={saveTemplates}
+              disabled={!templates || isSaving || problem != null}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving…" : "Save Templates"}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
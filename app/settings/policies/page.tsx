@@ -0,0 +1,420 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { blocksToMarkdown, markdownToBlocks } from "@/lib/policy-markdown";
+import {
+  PAYMENT_SCHEDULE_SECTION_ID,
+  validatePolicyContent,
+  type PolicyContent,
+  type PolicySection,
+  type PolicyVersion,
+  type PolicyVersionSummary,
+} from "@/lib/quote-policies";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+// Blocks are edited as markdown (see lib/policy-markdown.ts), notes one per line.
+type DraftSection = { id: string; title: string; markdown: string; notes: string };
+
+type Draft = Omit<PolicyContent, "sections"> & { sections: DraftSection[] };
+
+function toDraft(policy: PolicyVersion): Draft {
+  return {
+    heading: { ...policy.heading },
+    disclaimer: { ...policy.disclaimer },
+    sections: policy.sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      markdown: blocksToMarkdown(section.blocks),
+      notes: (section.notes ?? []).join("\n"),
+    })),
+  };
+}
+
+function fromDraft(draft: Draft): PolicyContent {
+  return {
+    ...draft,
+    sections: draft.sections.map((section): PolicySection => {
+      const notes = section.notes.split("\n").map((note) => note.trim()).filter(Boolean);
+      return {
+        id: section.id,
+        title: section.title,
+        blocks: markdownToBlocks(section.markdown),
+        ...(notes.length ? { notes } : {}),
+      };
+    }),
+  };
+}
+
+function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+}
+
+const publishedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function PolicySettingsPage() {
+  const [versions, setVersions] = useState<PolicyVersionSummary[]>([]);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [note, setNote] = useState("");
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const loadPolicies = useCallback(async () => {
+    const response = await fetch("/api/policies");
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || "Failed to load the quote terms");
+    }
+    setVersions(data.versions as PolicyVersionSummary[]);
+    return data.latest as PolicyVersion;
+  }, []);
+
+  useEffect(() => {
+    loadPolicies()
+      .then((latest) => {
+        setDraft(toDraft(latest));
+        setBaseVersion(latest.version);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load the quote terms",
+        })
+      );
+  }, [loadPolicies]);
+
+  const content = useMemo(() => (draft ? fromDraft(draft) : null), [draft]);
+  const problem = useMemo(() => (content ? validatePolicyContent(content) : null), [content]);
+  const latestVersion = versions[0]?.version ?? null;
+
+  const startFromVersion = async (version: number) => {
+    try {
+      const response = await fetch(`/api/policies/${version}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load that version");
+      }
+      setDraft(toDraft(data.policy as PolicyVersion));
+      setBaseVersion(version);
+      setStatus({ state: "idle" });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to load that version",
+      });
+    }
+  };
+
+  const updateSection = (index: number, changes: Partial<DraftSection>) => {
+    setDraft((previous) =>
+      previous
+        ? {
+            ...previous,
+            sections: previous.sections.map((section, position) =>
+              position === index ? { ...section, ...changes } : section
+            ),
+          }
+        : previous
+    );
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setDraft((previous) => {
+      const target = index + offset;
+      if (!previous || target < 0 || target >= previous.sections.length) {
+        return previous;
+      }
+      const sections = [...previous.sections];
+      [sections[index], sections[target]] = [sections[target], sections[index]];
+      return { ...previous, sections };
+    });
+  };
+
+  const addSection = () => {
+    setDraft((previous) => {
+      if (!previous) {
+        return previous;
+      }
+      let id = "new-section";
+      for (let suffix = 2; previous.sections.some((section) => section.id === id); suffix += 1) {
+        id = `new-section-${suffix}`;
+      }
+      return { ...previous, sections: [...previous.sections, { id, title: "", markdown: "", notes: "" }] };
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setDraft((previous) =>
+      previous
+        ? { ...previous, sections: previous.sections.filter((_section, position) => position !== index) }
+        : previous
+    );
+  };
+
+  const publish = async () => {
+    if (!content || problem) {
+      setStatus({ state: "error", message: problem ?? "Nothing to publish." });
+      return;
+    }
+    try {
+      setIsPublishing(true);
+      const response = await fetch("/api/policies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...content, note }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to publish the quote terms.");
+      }
+      const policy = data.policy as PolicyVersion;
+      await loadPolicies();
+      setDraft(toDraft(policy));
+      setBaseVersion(policy.version);
+      setNote("");
+      setStatus({
+        state: "success",
+        message: `Published version ${policy.version}. New quotes use it; saved quotes keep the version they were issued with.`,
+      });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to publish the quote terms.",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Quote Terms</h1>
+          <p className="text-base text-zinc-600">
+            The policies, materials and disclaimer printed after the room breakdown. Publishing
+            creates a new version; quotes already issued keep the version they were issued with.
+          </p>
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        {versions.length > 0 && (
+          <section className="rounded-2xl border border-zinc-200 bg-zinc-50 p-4 text-sm">
+            <h2 className="font-medium text-zinc-700">Versions</h2>
+            <ul className="mt-2 space-y-1">
+              {versions.map((entry) => (
+                <li key={entry.version} className="flex flex-wrap items-center gap-2 text-zinc-600">
+                  <span className="font-semibold text-zinc-900">Version {entry.version}</span>
+                  <span>
+                    {entry.publishedAt ? publishedAtFormat.format(new Date(entry.publishedAt)) : "Built-in"}
+                  </span>
+                  {entry.note && <span>· {entry.note}</span>}
+                  {entry.version === baseVersion ? (
+                    <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-semibold text-indigo-700">
+                      Editing
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => startFromVersion(entry.version)}
+                      className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                    >
+                      Start from this version
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {!draft ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading terms…
+          </div>
+        ) : (
+          <>
+            <section className="grid gap-3 md:grid-cols-2">
+              <label className="space-y-1 text-sm font-medium text-zinc-700">
+                Heading
+                <input
+                  type="text"
+                  value={draft.heading.title}
+                  onChange={(event) =>
+                    setDraft({ ...draft, heading: { ...draft.heading, title: event.target.value } })
+                  }
+                  className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-normal"
+                />
+              </label>
+              <label className="space-y-1 text-sm font-medium text-zinc-700">
+                Subtitle
+                <input
+                  type="text"
+                  value={draft.heading.subtitle}
+                  onChange={(event) =>
+                    setDraft({ ...draft, heading: { ...draft.heading, subtitle: event.target.value } })
+                  }
+                  className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-normal"
+                />
+              </label>
+            </section>
+
+            <p className="text-xs text-zinc-500">
+              Section content: <code>### Subheading</code>, <code>- bullet</code>, <code>| Label | Value</code>{" "}
+              table rows, <code>&gt; muted text</code> and <code>---</code> for a divider. Lines in a row without
+              a blank line between them form a list without bullets.
+            </p>
+
+            {draft.sections.map((section, index) => (
+              <section key={index} className="space-y-3 rounded-2xl border border-zinc-200 p-4">
+                <div className="flex flex-col gap-3 md:flex-row md:items-start">
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={section.title}
+                      onChange={(event) => {
+                        const title = event.target.value;
+                        // Only brand-new sections follow their title; quotes refer to saved ids.
+                        const followsTitle = section.id.startsWith("new-section") || !section.title;
+                        updateSection(
+                          index,
+                          followsTitle && slugify(title) ? { title, id: slugify(title) } : { title }
+                        );
+                      }}
+                      placeholder="Section title"
+                      className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-semibold"
+                    />
+                    <p className="mt-1 font-mono text-xs text-zinc-400">{section.id}</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move section up"
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-600 hover:border-zinc-300 disabled:opacity-40"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === draft.sections.length - 1}
+                      aria-label="Move section down"
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-600 hover:border-zinc-300 disabled:opacity-40"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeSection(index)}
+                      disabled={section.id === PAYMENT_SCHEDULE_SECTION_ID}
+                      className="rounded-lg border border-red-200 px-3 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700 disabled:opacity-40"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <textarea
+                  rows={Math.min(16, Math.max(3, section.markdown.split("\n").length))}
+                  value={section.markdown}
+                  onChange={(event) => updateSection(index, { markdown: event.target.value })}
+                  placeholder={
+                    section.id === PAYMENT_SCHEDULE_SECTION_ID
+                      ? "Shown above the payment schedule table"
+                      : "Section content"
+                  }
+                  className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-mono text-xs"
+                />
+                <textarea
+                  rows={Math.max(1, section.notes.split("\n").length)}
+                  value={section.notes}
+                  onChange={(event) => updateSection(index, { notes: event.target.value })}
+                  placeholder="Notes printed after the section, one per line"
+                  className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-xs"
+                />
+              </section>
+            ))}
+
+            <section className="space-y-3">
+              <input
+                type="text"
+                value={draft.disclaimer.title}
+                onChange={(event) =>
+                  setDraft({ ...draft, disclaimer: { ...draft.disclaimer, title: event.target.value } })
+                }
+                placeholder="Disclaimer title"
+                className="w-full rounded-lg border border-zinc-300 px-3 py-2 font-semibold"
+              />
+              <textarea
+                rows={4}
+                value={draft.disclaimer.text}
+                onChange={(event) =>
+                  setDraft({ ...draft, disclaimer: { ...draft.disclaimer, text: event.target.value } })
+                }
+                className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm"
+              />
+            </section>
+          </>
+        )}
+
+        {problem && draft && <p className="text-sm text-red-600">{problem}</p>}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <button
+            type="button"
+            onClick={addSection}
+            disabled={!draft}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Add Section
+          </button>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+            <input
+              type="text"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="What changed (optional)"
+              className="rounded-xl border border-zinc-300 px-3 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={publish}
+              disabled={!draft || isPublishing || problem != null}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isPublishing
+                ? "Publishing…"
+                : latestVersion != null
+                  ? `Publish as Version ${latestVersion + 1}`
+                  : "Publish"}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
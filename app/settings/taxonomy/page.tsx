@@ -0,0 +1,352 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  classifyItem,
+  compileTaxonomy,
+  validateTaxonomy,
+  type Taxonomy,
+  type TaxonomyCategory,
+} from "@/lib/taxonomy";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+// Synonyms are edited as a comma-separated line, patterns one per line since
+// regular expressions may contain commas.
+type DraftCategory = Omit<TaxonomyCategory, "synonyms" | "patterns"> & {
+  synonyms: string;
+  patterns: string;
+};
+
+function toDraft(category: TaxonomyCategory): DraftCategory {
+  return {
+    ...category,
+    synonyms: category.synonyms.join(", "),
+    patterns: category.patterns.join("\n"),
+  };
+}
+
+function fromDraft(draft: DraftCategory): TaxonomyCategory {
+  return {
+    ...draft,
+    synonyms: draft.synonyms.split(",").map((synonym) => synonym.trim()).filter(Boolean),
+    patterns: draft.patterns.split("\n").map((pattern) => pattern.trim()).filter(Boolean),
+  };
+}
+
+function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+}
+
+const updatedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function TaxonomySettingsPage() {
+  const [drafts, setDrafts] = useState<DraftCategory[] | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [sample, setSample] = useState("");
+
+  const applyTaxonomy = useCallback((taxonomy: Taxonomy) => {
+    setDrafts(taxonomy.categories.map(toDraft));
+    setUpdatedAt(taxonomy.updatedAt);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/taxonomy")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load the item taxonomy");
+        }
+        applyTaxonomy(data.taxonomy as Taxonomy);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load the item taxonomy",
+        })
+      );
+  }, [applyTaxonomy]);
+
+  const categories = useMemo(() => (drafts ?? []).map(fromDraft), [drafts]);
+  const problem = useMemo(() => (drafts ? validateTaxonomy(categories) : null), [drafts, categories]);
+  const sampleCategory = useMemo(
+    () => (sample.trim() && !problem ? classifyItem(compileTaxonomy(categories), sample) : null),
+    [sample, problem, categories]
+  );
+
+  const updateDraft = (index: number, changes: Partial<DraftCategory>) => {
+    setDrafts((previous) =>
+      previous ? previous.map((draft, position) => (position === index ? { ...draft, ...changes } : draft)) : previous
+    );
+  };
+
+  const addCategory = () => {
+    setDrafts((previous) => {
+      const existing = previous ?? [];
+      let id = "new-category";
+      for (let suffix = 2; existing.some((draft) => draft.id === id); suffix += 1) {
+        id = `new-category-${suffix}`;
+      }
+      return [
+        ...existing,
+        { id, name: "", synonyms: "", patterns: "", priority: 0, parentId: null },
+      ];
+    });
+  };
+
+  const removeCategory = (index: number) => {
+    setDrafts((previous) => {
+      if (!previous) {
+        return previous;
+      }
+      const removedId = previous[index].id;
+      return previous
+        .filter((_draft, position) => position !== index)
+        .map((draft) => (draft.parentId === removedId ? { ...draft, parentId: null } : draft));
+    });
+  };
+
+  const saveTaxonomy = async () => {
+    if (problem) {
+      setStatus({ state: "error", message: problem });
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/taxonomy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categories }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save the item taxonomy.");
+      }
+      applyTaxonomy(data.taxonomy as Taxonomy);
+      setStatus({ state: "success", message: "Taxonomy saved. New conversions will use it." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to save the item taxonomy.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetTaxonomy = async () => {
+    if (!window.confirm("Replace every category with the built-in defaults?")) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/taxonomy", { method: "DELETE" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to reset the item taxonomy.");
+      }
+      applyTaxonomy(data.taxonomy as Taxonomy);
+      setStatus({ state: "success", message: "Taxonomy reset to the built-in categories." });
+    } catch (error) {
+      setStatus({
+        state: "error",
+        message: error instanceof Error ? error.message : "Failed to reset the item taxonomy.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Item Categories</h1>
+          <p className="text-base text-zinc-600">
+            Decide which category each cabinet type and item description belongs to. A category
+            matches when the text contains one of its synonyms or matches one of its patterns;
+            higher priorities are tried first. Items that match nothing are kept under
+            “Uncategorised”.
+          </p>
+          {updatedAt && (
+            <p className="text-xs text-zinc-500">Last saved {updatedAtFormat.format(new Date(updatedAt))}</p>
+          )}
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        <section className="rounded-2xl border border-zinc-200 bg-zinc-50 p-4 text-sm">
+          <label htmlFor="sample" className="font-medium text-zinc-700">
+            Try a description
+          </label>
+          <div className="mt-2 flex flex-col gap-2 md:flex-row md:items-center">
+            <input
+              id="sample"
+              type="text"
+              value={sample}
+              onChange={(event) => setSample(event.target.value)}
+              placeholder="e.g. TV unit with back panel"
+              className="flex-1 rounded-lg border border-zinc-300 bg-white px-3 py-2"
+            />
+            <span className="text-zinc-600">
+              {sampleCategory ? (
+                <>
+                  → <span className="font-semibold text-zinc-900">{sampleCategory}</span>
+                </>
+              ) : problem && sample.trim() ? (
+                "Fix the errors below to test."
+              ) : null}
+            </span>
+          </div>
+        </section>
+
+        {!drafts ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading categories…
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-zinc-200">
+            <table className="w-full text-left text-sm text-zinc-700">
+              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                <tr>
+                  <th className="px-3 py-3">Name</th>
+                  <th className="px-3 py-3">Synonyms</th>
+                  <th className="px-3 py-3">Patterns</th>
+                  <th className="px-3 py-3 w-24">Priority</th>
+                  <th className="px-3 py-3">Parent</th>
+                  <th className="px-3 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map((draft, index) => (
+                  <tr key={index} className="border-t border-zinc-100 align-top">
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(event) => {
+                          const name = event.target.value;
+                          // Only brand-new categories follow their name; saved ids stay put.
+                          const followsName = draft.id.startsWith("new-category") || !draft.name;
+                          updateDraft(index, followsName && slugify(name) ? { name, id: slugify(name) } : { name });
+                        }}
+                        placeholder="Category name"
+                        className="w-full rounded-lg border border-zinc-300 px-2 py-1"
+                      />
+                      <p className="mt-1 font-mono text-xs text-zinc-400">{draft.id}</p>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={draft.synonyms}
+                        onChange={(event) => updateDraft(index, { synonyms: event.target.value })}
+                        placeholder="base, bottom unit"
+                        className="w-full rounded-lg border border-zinc-300 px-2 py-1"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <textarea
+                        rows={Math.max(1, draft.patterns.split("\n").length)}
+                        value={draft.patterns}
+                        onChange={(event) => updateDraft(index, { patterns: event.target.value })}
+                        placeholder="One regular expression per line"
+                        className="w-full resize-none rounded-lg border border-zinc-300 px-2 py-1 font-mono text-xs"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        value={draft.priority}
+                        onChange={(event) => updateDraft(index, { priority: Number(event.target.value) })}
+                        className="w-20 rounded-lg border border-zinc-300 px-2 py-1"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={draft.parentId ?? ""}
+                        onChange={(event) => updateDraft(index, { parentId: event.target.value || null })}
+                        className="rounded-lg border border-zinc-300 px-2 py-1"
+                      >
+                        <option value="">None</option>
+                        {drafts
+                          .filter((candidate) => candidate.id !== draft.id)
+                          .map((candidate) => (
+                            <option key={candidate.id} value={candidate.id}>
+                              {candidate.name || candidate.id}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeCategory(index)}
+                        className="rounded-lg border border-red-200 px-3 py-1 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {problem && drafts && <p className="text-sm text-red-600">{problem}</p>}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:justify-between">
+          <button
+            type="button"
+            onClick={addCategory}
+            disabled={!drafts}
+            className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Add Category
+          </button>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button
+              type="button"
+              onClick={resetTaxonomy}
+              disabled={!drafts || isSaving}
+              className="rounded-xl border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 hover:text-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              type="button"
+              onClick={saveTaxonomy}
+              disabled={!drafts || isSaving || problem != null}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving…" : "Save Categories"}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
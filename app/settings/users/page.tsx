@@ -0,0 +1,298 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  MIN_PASSWORD_LENGTH,
+  USER_ROLE_LABELS,
+  USER_ROLES,
+  validateUserInput,
+  type User,
+  type UserRole,
+} from "@/lib/auth";
+
+type Status =
+  | { state: "idle" }
+  | { state: "error"; message: string }
+  | { state: "success"; message: string };
+
+type NewUserForm = {
+  username: string;
+  name: string;
+  role: UserRole;
+  team: string;
+  password: string;
+};
+
+const EMPTY_FORM: NewUserForm = { username: "", name: "", role: "designer", team: "", password: "" };
+
+const inputClassName = "rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-900";
+
+export default function UserSettingsPage() {
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [form, setForm] = useState<NewUserForm>(EMPTY_FORM);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/users")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load users");
+        }
+        setUsers(data.users as User[]);
+      })
+      .catch((error) =>
+        setStatus({
+          state: "error",
+          message: error instanceof Error ? error.message : "Failed to load users",
+        })
+      );
+  }, []);
+
+  // Sends one request and reports its outcome; returns the response body on success.
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(url, {
+        ...init,
+        headers: init.body ? { "Content-Type": "application/json" } : undefined,
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || fallback);
+      }
+      return data;
+    } catch (error) {
+      setStatus({ state: "error", message: error instanceof Error ? error.message : fallback });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const newUser = { ...form, username: form.username.trim().toLowerCase(), team: form.team.trim() || null };
+  const problem = validateUserInput(newUser);
+
+  const addUser = async () => {
+    if (problem) {
+      setStatus({ state: "error", message: problem });
+      return;
+    }
+    const data = await send("/api/users", { method: "POST", body: JSON.stringify(newUser) }, "Failed to add the user.");
+    if (data) {
+      setUsers((previous) => [...(previous ?? []), data.user as User].sort((a, b) => a.name.localeCompare(b.name)));
+      setForm(EMPTY_FORM);
+      setStatus({ state: "success", message: `${(data.user as User).name} can now sign in.` });
+    }
+  };
+
+  const changeUser = async (id: string, changes: Partial<User> & { password?: string }, message: string) => {
+    const data = await send(
+      `/api/users/${id}`,
+      { method: "PUT", body: JSON.stringify(changes) },
+      "Failed to update the user."
+    );
+    if (data) {
+      setUsers((previous) => (previous ?? []).map((user) => (user.id === id ? (data.user as User) : user)));
+      setStatus({ state: "success", message });
+    }
+  };
+
+  const resetPassword = (user: User) => {
+    const password = window.prompt(`New password for ${user.name} (at least ${MIN_PASSWORD_LENGTH} characters):`);
+    if (password) {
+      void changeUser(user.id, { password }, `Password changed for ${user.name}.`);
+    }
+  };
+
+  const removeUser = async (user: User) => {
+    if (!window.confirm(`Delete ${user.name}'s account? Their saved quotes are kept.`)) {
+      return;
+    }
+    const data = await send(`/api/users/${user.id}`, { method: "DELETE" }, "Failed to delete the user.");
+    if (data) {
+      setUsers((previous) => (previous ?? []).filter((entry) => entry.id !== user.id));
+      setStatus({ state: "success", message: `${user.name}'s account was deleted.` });
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 px-4 py-16 font-sans">
+      <main className="w-full max-w-6xl space-y-8 rounded-3xl bg-white p-10 shadow-xl">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            ← Back to quotes
+          </Link>
+          <h1 className="text-3xl font-semibold">Users</h1>
+          <p className="text-base text-zinc-600">
+            Designers see the quotes they saved. Managers see every quote saved by their team and
+            approve large discounts. Admins see all quotes and manage templates, settings and users.
+          </p>
+        </header>
+
+        {status.state === "error" && (
+          <p className="rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">{status.message}</p>
+        )}
+        {status.state === "success" && (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+            {status.message}
+          </p>
+        )}
+
+        {!users ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 p-6 text-center text-sm text-zinc-500">
+            Loading users…
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-zinc-200">
+            <table className="w-full text-left text-sm text-zinc-700">
+              <thead className="bg-zinc-100 text-xs uppercase tracking-wide text-zinc-600">
+                <tr>
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Role</th>
+                  <th className="px-4 py-3">Team</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-t border-zinc-100">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-zinc-900">{user.name}</p>
+                      <p className="font-mono text-xs text-zinc-500">{user.username}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={user.role}
+                        disabled={isSaving}
+                        onChange={(event) =>
+                          changeUser(
+                            user.id,
+                            { role: event.target.value as UserRole },
+                            `${user.name} is now a ${USER_ROLE_LABELS[event.target.value as UserRole].toLowerCase()}.`
+                          )
+                        }
+                        className={inputClassName}
+                      >
+                        {USER_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {USER_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="text"
+                        defaultValue={user.team ?? ""}
+                        placeholder="No team"
+                        disabled={isSaving}
+                        onBlur={(event) => {
+                          const team = event.target.value.trim() || null;
+                          if (team !== user.team) {
+                            void changeUser(user.id, { team }, `${user.name}'s team was updated.`);
+                          }
+                        }}
+                        className={`w-40 ${inputClassName}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => resetPassword(user)}
+                          disabled={isSaving}
+                          className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400"
+                        >
+                          Reset Password
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeUser(user)}
+                          disabled={isSaving}
+                          className="rounded-lg border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-600 transition hover:border-red-300 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <section className="space-y-4 rounded-2xl border border-zinc-200 p-4">
+          <h2 className="text-lg font-semibold">Add a User</h2>
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Username
+              <input
+                type="text"
+                value={form.username}
+                onChange={(event) => setForm({ ...form, username: event.target.value })}
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Password
+              <input
+                type="password"
+                value={form.password}
+                onChange={(event) => setForm({ ...form, password: event.target.value })}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Role
+              <select
+                value={form.role}
+                onChange={(event) => setForm({ ...form, role: event.target.value as UserRole })}
+                className={inputClassName}
+              >
+                {USER_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {USER_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+              Team (optional)
+              <input
+                type="text"
+                value={form.team}
+                onChange={(event) => setForm({ ...form, team: event.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={addUser}
+              disabled={isSaving || problem != null}
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500 focus:outline-none focus:ring-4 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving…" : "Add User"}
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
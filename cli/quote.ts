@@ -0,0 +1,200 @@
+// Converts workbooks without a browser, through the same pipeline as
+// /api/convert:
+//
+//   npm run quote -- convert quote.xlsx --json > quote.json
+//   npm run quote -- convert *.xlsx --json --pdf --out converted/
+//
+// The @/ imports resolve through the repository's tsconfig.json, which the npm
+// script passes to tsx explicitly. npm runs scripts from the repository root,
+// so paths are taken relative to the directory it was started in (INIT_CWD).
+//
+// The parse report of each workbook goes to stderr. Exit codes:
+//   0  every workbook was converted
+//   1  a workbook could not be converted
+//   2  the command line was wrong
+//   3  converted, but the parse report has errors (rows with amounts were dropped)
+//
+// Saved data such as parsing profiles, brands and terms is read from
+// QUOTE_DATA_DIR, or .data/ under the current directory.
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { parseArgs } from "util";
+import { recordAudit } from "@/lib/audit-log";
+import { getBrandProfiles } from "@/lib/brand-store";
+import { loadParsingProfiles } from "@/lib/parsing-profiles";
+import { uniquePdfFilenames, type ParseDiagnostic } from "@/lib/quote";
+import { renderConversionPdf } from "@/lib/quote-pdf";
+import { convertSuccess } from "@/lib/quote-schema";
+import { convertWorkbook } from "@/lib/workbook-conversion";
+
+const EXIT_OK = 0;
+const EXIT_CONVERSION_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_PARSE_ERRORS = 3;
+
+const USAGE = `Usage: quote convert <workbook>... [--json] [--pdf] [--out <dir>] [--profile <id>] [--brand <id>]
+
+  --json           Write the /api/convert response JSON (the default).
+                   Goes to stdout for a single workbook without --out.
+  --pdf            Render the quote PDF. Needs --out.
+  --out <dir>      Write <workbook>.json and <workbook>.pdf into this directory.
+  --profile <id>   Workbook layout; "auto" (the default) detects it per workbook.
+  --brand <id>     Brand profile for the PDF; the first brand by default.
+`;
+
+class UsageError extends Error {}
+
+function formatDiagnostic(fileName: string, entry: ParseDiagnostic) {
+  const where = [entry.sheet ?? "workbook", entry.row != null ? `row ${entry.row}` : null].filter(Boolean).join(" ");
+  return `${fileName}: ${entry.severity}: ${where}: ${entry.reason}`;
+}
+
+async function convert(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      pdf: { type: "boolean", default: false },
+      out: { type: "string" },
+      profile: { type: "string", default: "auto" },
+      brand: { type: "string" },
+    },
+  });
+
+  const cwd = process.env.INIT_CWD || process.cwd();
+  const files = positionals.map((file) => path.resolve(cwd, file));
+  const writeJson = values.json || !values.pdf;
+  const outDir = values.out && path.resolve(cwd, values.out);
+  if (!files.length) {
+    throw new UsageError("Give at least one workbook to convert.");
+  }
+  if (!outDir && values.pdf) {
+    throw new UsageError("--pdf needs --out <dir>.");
+  }
+  if (!outDir && files.length > 1) {
+    throw new UsageError("Converting several workbooks needs --out <dir>.");
+  }
+  if (values.profile !== "auto" && !(await loadParsingProfiles()).some((profile) => profile.id === values.profile)) {
+    throw new UsageError(`Unknown parsing profile "${values.profile}".`);
+  }
+  const brandId = values.brand ?? null;
+  if (brandId && !(await getBrandProfiles()).brands.some((brand) => brand.id === brandId)) {
+    throw new UsageError(`Brand "${brandId}" does not exist.`);
+  }
+  if (outDir) {
+    await fs.mkdir(outDir, { recursive: true });
+  }
+
+  const actor = { id: null, name: os.userInfo().username, role: "system" as const };
+  // Outputs are named after their workbook, numbered where two would collide.
+  const baseNames = uniquePdfFilenames(files.map((file) => path.basename(file))).map((name) =>
+    name.replace(/\.pdf$/, "")
+  );
+  let exitCode = EXIT_OK;
+  for (const [index, file] of files.entries()) {
+    const fileName = path.basename(file);
+    const baseName = baseNames[index];
+    let data: Buffer;
+    try {
+      data = await fs.readFile(file);
+    } catch (error) {
+      console.error(`${fileName}: cannot read the file: ${(error as Error).message}`);
+      exitCode = EXIT_CONVERSION_FAILED;
+      continue;
+    }
+
+    const conversion = await convertWorkbook(data, values.profile);
+    conversion.diagnostics?.forEach((entry) => console.error(formatDiagnostic(fileName, entry)));
+    if ("error" in conversion) {
+      console.error(`${fileName}: ${conversion.error}`);
+      exitCode = EXIT_CONVERSION_FAILED;
+      continue;
+    }
+
+    const { rooms, meta, summary, profile, terms, diagnostics } = conversion;
+    if (writeJson) {
+      const json = JSON.stringify(
+        convertSuccess({
+          rooms,
+          meta,
+          summary,
+          profile: { id: profile.id, name: profile.name, detected: values.profile === "auto" },
+          terms,
+          diagnostics,
+        }),
+        null,
+        2
+      );
+      if (outDir) {
+        await fs.writeFile(path.join(outDir, `${baseName}.json`), `${json}\n`);
+      } else {
+        process.stdout.write(`${json}\n`);
+      }
+    }
+    if (values.pdf && outDir) {
+      const rendered = await renderConversionPdf(conversion, brandId);
+      if ("error" in rendered) {
+        console.error(`${fileName}: ${rendered.error}`);
+        exitCode = EXIT_CONVERSION_FAILED;
+        continue;
+      }
+      await fs.writeFile(path.join(outDir, `${baseName}.pdf`), new Uint8Array(rendered.pdf));
+    }
+
+    const parseErrors = diagnostics.filter((entry) => entry.severity === "error").length;
+    await recordAudit({
+      actor,
+      quoteId: null,
+      action: "quote.converted",
+      details: {
+        fileName,
+        profile: profile.id,
+        rooms: rooms.length,
+        quoteNumber: meta.quoteNumber ?? null,
+        errors: parseErrors,
+        source: "cli",
+      },
+    });
+    if (parseErrors > 0 && exitCode === EXIT_OK) {
+      exitCode = EXIT_PARSE_ERRORS;
+    }
+  }
+  return exitCode;
+}
+
+async function main(argv: string[]) {
+  const [command, ...args] = argv;
+  if (!command || command === "--help" || command === "-h") {
+    process.stdout.write(USAGE);
+    return command ? EXIT_OK : EXIT_USAGE;
+  }
+  try {
+    if (command !== "convert") {
+      throw new UsageError(`Unknown command "${command}".`);
+    }
+    return await convert(args);
+  } catch (error) {
+    // parseArgs reports unknown or malformed options with ERR_PARSE_ARGS_* codes.
+    if (
+      error instanceof UsageError ||
+      (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS_")
+    ) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_CONVERSION_FAILED;
+  }
+);
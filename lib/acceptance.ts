@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import type { QuoteDocument } from "@/lib/quote";
+
+// A customer's online acceptance of a quote, captured from its share link.
+
+export type QuoteSignature =
+  | { kind: "typed"; text: string }
+  // A PNG data URL drawn on the acceptance form.
+  | { kind: "drawn"; image: string };
+
+export type QuoteAcceptance = {
+  name: string;
+  signature: QuoteSignature;
+  acceptedAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  shareToken: string;
+  // SHA-256 of the rooms, metadata and summary the customer saw.
+  contentHash: string;
+  // Where the signed PDF was published, if S3 is configured.
+  pdfKey: string | null;
+};
+
+export type AcceptanceInput = {
+  name?: unknown;
+  signature?: unknown;
+  agreed?: unknown;
+};
+
+// Large enough for a signature drawn on a 600x200 canvas.
+const MAX_SIGNATURE_IMAGE_LENGTH = 300_000;
+
+export function validateAcceptanceInput(input: AcceptanceInput | null): string | null {
+  if (input?.agreed !== true) {
+    return "Tick the box to confirm you accept the quote.";
+  }
+  if (typeof input.name !== "string" || !input.name.trim() || input.name.length > 120) {
+    return "Enter your full name.";
+  }
+  const signature = input.signature as Partial<QuoteSignature> | null | undefined;
+  if (signature?.kind === "typed") {
+    return typeof signature.text === "string" && signature.text.trim() && signature.text.length <= 120
+      ? null
+      : "Type your signature.";
+  }
+  if (signature?.kind === "drawn") {
+    return typeof signature.image === "string" &&
+      signature.image.startsWith("data:image/png;base64,") &&
+      signature.image.length <= MAX_SIGNATURE_IMAGE_LENGTH
+      ? null
+      : "Draw your signature.";
+  }
+  return "Sign the quote by typing or drawing your signature.";
+}
+
+export function quoteContentHash({ rooms, meta, summary }: QuoteDocument) {
+  return createHash("sha256").update(JSON.stringify({ rooms, meta, summary })).digest("hex");
+}
+
+// Proxies put the original client first in X-Forwarded-For.
+export function clientIp(headers: Headers) {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || headers.get("x-real-ip") || null;
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_APPROVAL_SETTINGS, type ApprovalSettings } from "@/lib/quote-status";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// The discount approval threshold lives in <data dir>/approval-settings.json;
+// the default applies until someone saves their own.
+
+function settingsPath() {
+  return dataPath("approval-settings.json");
+}
+
+export async function getApprovalSettings(): Promise<ApprovalSettings> {
+  const stored = await readJsonFile<ApprovalSettings>(settingsPath());
+  return stored ?? DEFAULT_APPROVAL_SETTINGS;
+}
+
+// Callers validate with validateApprovalSettings first.
+export async function saveApprovalSettings(discountThresholdPercent: number): Promise<ApprovalSettings> {
+  const saved: ApprovalSettings = { discountThresholdPercent, updatedAt: new Date().toISOString() };
+  await writeJsonFile(settingsPath(), saved);
+  return saved;
+}
@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { User, UserRole } from "@/lib/auth";
+import { computeQuoteTotals, type QuoteDocument, type QuoteMetadata } from "@/lib/quote";
+import { quoteStatusOf } from "@/lib/quote-status";
+import { dataPath } from "@/lib/storage";
+
+// Every quote action is appended as one JSON line to <data dir>/audit.jsonl.
+// Entries are never rewritten or removed.
+
+export const AUDIT_ACTIONS = [
+  "quote.converted",
+  "quote.created",
+  "quote.fields_changed",
+  "quote.updated",
+  "quote.discount_changed",
+  "quote.status_changed",
+  "quote.uploaded_to_s3",
+  "quote.shared",
+  "quote.share_revoked",
+  "quote.accepted",
+  "quote.deleted",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Customers act through their share link and have no account; "system" is
+// the command-line converter, named after the operating-system user.
+export type AuditActor = {
+  id: string | null;
+  name: string;
+  role: UserRole | "customer" | "system";
+};
+
+export type AuditChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  actor: AuditActor;
+  quoteId: string | null;
+  action: AuditAction;
+  changes: AuditChange[];
+  details?: Record<string, unknown>;
+};
+
+export type AuditQuery = {
+  quoteId?: string | null;
+  actorId?: string | null;
+  action?: AuditAction | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+};
+
+export const MAX_AUDIT_RESULTS = 500;
+
+function auditPath() {
+  return dataPath("audit.jsonl");
+}
+
+export function userActor({ id, name, role }: User): AuditActor {
+  return { id, name, role };
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Appends an entry. A failure is logged rather than thrown so the action it
+ * describes, which has already happened, is still reported as done.
+ */
+export async function recordAudit(entry: Omit<AuditEntry, "id" | "at" | "changes"> & { changes?: AuditChange[] }) {
+  const line: AuditEntry = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    ...entry,
+    changes: entry.changes ?? [],
+  };
+  try {
+    await fs.mkdir(path.dirname(auditPath()), { recursive: true });
+    await fs.appendFile(auditPath(), `${JSON.stringify(line)}\n`, "utf8");
+  } catch (error) {
+    console.error(`Error writing audit entry ${line.action} for quote ${line.quoteId}:`, error);
+  }
+}
+
+// Newest first, at most `limit` entries.
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(auditPath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const limit = Math.min(query.limit ?? MAX_AUDIT_RESULTS, MAX_AUDIT_RESULTS);
+  const matches: AuditEntry[] = [];
+  const lines = raw.split("\n");
+  for (let index = lines.length - 1; index >= 0 && matches.length < limit; index -= 1) {
+    if (!lines[index].trim()) {
+      continue;
+    }
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[index]);
+    } catch {
+      // A line cut short by a crash mid-append is skipped.
+      continue;
+    }
+    if (
+      (query.quoteId && entry.quoteId !== query.quoteId) ||
+      (query.actorId && entry.actor.id !== query.actorId) ||
+      (query.action && entry.action !== query.action) ||
+      (query.from && entry.at < query.from) ||
+      (query.to && entry.at > query.to)
+    ) {
+      continue;
+    }
+    matches.push(entry);
+  }
+  return matches;
+}
+
+// The status is audited on its own, so it is left out here.
+export function metadataChanges(before: QuoteMetadata | null, after: QuoteMetadata | null): AuditChange[] {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  fields.delete("quoteStatus");
+  return [...fields]
+    .filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .sort()
+    .map((field) => ({ field, before: previous[field] ?? null, after: next[field] ?? null }));
+}
+
+/**
+ * Records a saved edit: discount changes get their own entry so they are easy
+ * to find, the other changed fields share one.
+ */
+export async function recordMetadataChanges(
+  actor: AuditActor,
+  quoteId: string,
+  before: QuoteMetadata | null,
+  after: QuoteMetadata | null
+) {
+  const changes = metadataChanges(before, after);
+  const discount = changes.filter((change) => change.field === "discountAmount");
+  const others = changes.filter((change) => change.field !== "discountAmount");
+  if (discount.length) {
+    await recordAudit({ actor, quoteId, action: "quote.discount_changed", changes: discount });
+  }
+  if (others.length) {
+    await recordAudit({ actor, quoteId, action: "quote.fields_changed", changes: others });
+  }
+}
+
+/**
+ * Records a saved edit of the rooms or the summary, with the subtotal and
+ * payable total before and after it.
+ */
+export async function recordContentChanges(
+  actor: AuditActor,
+  quoteId: string,
+  before: QuoteDocument,
+  after: QuoteDocument
+) {
+  const edited = (["rooms", "summary"] as const).filter(
+    (part) => JSON.stringify(before[part]) !== JSON.stringify(after[part])
+  );
+  if (!edited.length) {
+    return;
+  }
+  const previous = computeQuoteTotals(before.summary, before.meta);
+  const next = computeQuoteTotals(after.summary, after.meta);
+  await recordAudit({
+    actor,
+    quoteId,
+    action: "quote.updated",
+    changes: [
+      { field: "subtotal", before: previous.totalBeforeDiscount, after: next.totalBeforeDiscount },
+      { field: "totalPayable", before: previous.totalAfterDiscount, after: next.totalAfterDiscount },
+    ],
+    details: { edited },
+  });
+}
+
+// Records a status change only when the status actually moved.
+export async function recordStatusChange(
+  actor: AuditActor,
+  quoteId: string,
+  before: QuoteMetadata | null,
+  after: QuoteMetadata | null,
+  details?: Record<string, unknown>
+) {
+  const from = quoteStatusOf(before);
+  const to = quoteStatusOf(after);
+  if (from !== to) {
+    await recordAudit({
+      actor,
+      quoteId,
+      action: "quote.status_changed",
+      changes: [{ field: "quoteStatus", before: from, after: to }],
+      details,
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import type { User } from "@/lib/auth";
+import { verifyUserPassword } from "@/lib/user-store";
+
+/**
+ * Checks the credentials typed on the sign-in page. Another directory (LDAP,
+ * a company SSO's password grant) plugs in by implementing this and being
+ * registered under the id set in AUTH_PROVIDER.
+ */
+export interface AuthProvider {
+  id: string;
+  // Returns the signed-in user, or null when the credentials are wrong.
+  authenticate(username: string, password: string): Promise<User | null>;
+}
+
+const localProvider: AuthProvider = {
+  id: "local",
+  authenticate: verifyUserPassword,
+};
+
+const providers = new Map<string, AuthProvider>([[localProvider.id, localProvider]]);
+
+export function registerAuthProvider(provider: AuthProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getAuthProvider(): AuthProvider {
+  const id = process.env.AUTH_PROVIDER || localProvider.id;
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown AUTH_PROVIDER "${id}"`);
+  }
+  return provider;
+}
@@ -0,0 +1,110 @@
+// Who can do what. Designers see their own quotes, managers see their team's
+// quotes and approve discounts, and admins see everything and manage the
+// templates, settings and user accounts.
+
+export const USER_ROLES = ["designer", "manager", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  designer: "Designer",
+  manager: "Manager",
+  admin: "Admin",
+};
+
+export type User = {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  team: string | null;
+};
+
+// The designer who saved a quote, as they were at the time.
+export type QuoteOwner = {
+  id: string;
+  name: string;
+  team: string | null;
+};
+
+export type UserInput = {
+  username?: unknown;
+  name?: unknown;
+  role?: unknown;
+  team?: unknown;
+  password?: unknown;
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Holds the session token; see lib/session-store.ts.
+export const SESSION_COOKIE = "quote_session";
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function toQuoteOwner({ id, name, team }: User): QuoteOwner {
+  return { id, name, team };
+}
+
+// Quotes saved before accounts existed have no owner; only managers and
+// admins see those.
+export function canAccessQuote(user: User, owner: QuoteOwner | null | undefined) {
+  if (user.role === "admin") {
+    return true;
+  }
+  if (!owner) {
+    return user.role === "manager";
+  }
+  if (owner.id === user.id) {
+    return true;
+  }
+  return user.role === "manager" && user.team != null && owner.team === user.team;
+}
+
+export function canApproveDiscounts(user: User) {
+  return user.role === "manager" || user.role === "admin";
+}
+
+export function canManageSettings(user: User) {
+  return user.role === "admin";
+}
+
+export function validatePassword(password: unknown): string | null {
+  return typeof password === "string" && password.length >= MIN_PASSWORD_LENGTH && password.length <= 200
+    ? null
+    : `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+}
+
+/**
+ * Checks a new account, or the changed fields of an existing one when
+ * `isUpdate` is set. A password is required for new accounts only.
+ */
+export function validateUserInput(input: UserInput | null, isUpdate = false): string | null {
+  if (!input) {
+    return "User details are required.";
+  }
+  if (!isUpdate || input.username !== undefined) {
+    if (typeof input.username !== "string" || !/^[a-z0-9._-]{3,40}$/.test(input.username)) {
+      return "Usernames are 3 to 40 lowercase letters, digits, dots, dashes or underscores.";
+    }
+  }
+  if (!isUpdate || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim() || input.name.length > 120) {
+      return "Enter the person's name.";
+    }
+  }
+  if (!isUpdate || input.role !== undefined) {
+    if (!isUserRole(input.role)) {
+      return `Role must be one of ${USER_ROLES.join(", ")}.`;
+    }
+  }
+  if (input.team != null && (typeof input.team !== "string" || input.team.length > 60)) {
+    return "Team names are at most 60 characters.";
+  }
+  if (!isUpdate || input.password !== undefined) {
+    return validatePassword(input.password);
+  }
+  return null;
+}
@@ -0,0 +1,384 @@
+import { randomUUID } from "crypto";
+import { unzipSync, zipSync, strToU8, type Zippable } from "fflate";
+import { promises as fs } from "fs";
+import path from "path";
+import { recordAudit, type AuditActor } from "@/lib/audit-log";
+import { computeQuoteTotals, uniquePdfFilenames } from "@/lib/quote";
+import { renderConversionPdf } from "@/lib/quote-pdf";
+import { reconcileQuote } from "@/lib/reconciliation";
+import { dataPath, isSafeId, listDirectories, readJsonFile, writeJsonFile } from "@/lib/storage";
+import { convertWorkbook } from "@/lib/workbook-conversion";
+
+// Batch conversion jobs are kept one directory per job:
+//   <data dir>/batches/<id>/job.json     - the job and the progress of each file
+//   <data dir>/batches/<id>/inputs/<n>   - the uploaded workbooks
+//   <data dir>/batches/<id>/pdfs/<n>.pdf - the rendered quotes
+//
+// Files are converted one at a time in the background. The instance working
+// on a job holds a lease on it in job.json, renewed after every file; another
+// instance takes the job over only once the lease has expired, so a job cut
+// short by a restart carries on from its first unfinished file when it is
+// next run.
+
+export const MAX_BATCH_FILES = 100;
+export const MAX_BATCH_WORKBOOK_BYTES = 20 * 1024 * 1024;
+
+// Longer than any one file takes to convert, so a live runner renews it in time.
+export const BATCH_LEASE_MS = 2 * 60 * 1000;
+
+const WORKBOOK_NAME = /\.(xlsx|xls|xlsm|ods)$/i;
+
+// Identifies this process as the holder of a job's lease.
+const RUNNER_ID = randomUUID();
+
+export type BatchFileStatus = "queued" | "converting" | "done" | "failed";
+
+export type BatchFile = {
+  index: number;
+  fileName: string;
+  // Unique within the job; the PDF's name inside the download.
+  pdfFilename: string;
+  status: BatchFileStatus;
+  error: string | null;
+  quoteNumber: string | null;
+  customer: string | null;
+  totalPayable: number | null;
+  parseErrors: number;
+  reconciliationMismatches: number;
+};
+
+export type BatchJob = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  createdBy: AuditActor;
+  // A parsing profile id or "auto".
+  profile: string;
+  brandId: string | null;
+  status: "running" | "done";
+  files: BatchFile[];
+  // The lease of the instance converting the job; null while nobody is.
+  runnerId: string | null;
+  heartbeatAt: string | null;
+};
+
+export type BatchUpload = {
+  fileName: string;
+  data: Uint8Array;
+};
+
+// Raised when another instance has taken over a job whose lease ran out.
+class BatchLeaseLostError extends Error {
+  constructor(id: string) {
+    super(`Batch job ${id} was taken over by another runner.`);
+    this.name = "BatchLeaseLostError";
+  }
+}
+
+// Raised when the uploads hold no workbooks, too many, or unreadable ZIPs.
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchInputError";
+  }
+}
+
+function jobDir(id: string) {
+  return dataPath("batches", id);
+}
+
+function jobFile(id: string) {
+  return path.join(jobDir(id), "job.json");
+}
+
+function inputFile(id: string, index: number) {
+  return path.join(jobDir(id), "inputs", String(index));
+}
+
+function pdfFile(id: string, index: number) {
+  return path.join(jobDir(id), "pdfs", `${index}.pdf`);
+}
+
+/**
+ * Replaces each ZIP among the uploads with the workbooks inside it, named by
+ * their path in the ZIP. macOS metadata and Excel lock files are skipped. A
+ * ZIP holding CSVs and no workbooks is one workbook of per-sheet CSVs.
+ */
+export function expandBatchUploads(uploads: BatchUpload[]): BatchUpload[] {
+  const workbooks: BatchUpload[] = [];
+  for (const upload of uploads) {
+    if (!/\.zip$/i.test(upload.fileName)) {
+      if (!WORKBOOK_NAME.test(upload.fileName)) {
+        throw new BatchInputError(`${upload.fileName} is not a workbook or a ZIP file.`);
+      }
+      workbooks.push(upload);
+      continue;
+    }
+
+    let entries: Record<string, Uint8Array>;
+    let hasCsv = false;
+    try {
+      entries = unzipSync(upload.data, {
+        filter: (entry) => {
+          const name = path.posix.basename(entry.name);
+          if (entry.name.startsWith("__MACOSX/") || name.startsWith(".") || name.startsWith("~$")) {
+            return false;
+          }
+          hasCsv ||= /\.csv$/i.test(name);
+          if (!WORKBOOK_NAME.test(name)) {
+            return false;
+          }
+          if (entry.originalSize > MAX_BATCH_WORKBOOK_BYTES) {
+            throw new BatchInputError(`${name} in ${upload.fileName} is larger than 20 MB.`);
+          }
+          return true;
+        },
+      });
+    } catch (error) {
+      if (error instanceof BatchInputError) {
+        throw error;
+      }
+      throw new BatchInputError(`${upload.fileName} is not a readable ZIP file.`);
+    }
+    if (!Object.keys(entries).length && hasCsv) {
+      workbooks.push(upload);
+      continue;
+    }
+    for (const [name, data] of Object.entries(entries).sort(([a], [b]) => a.localeCompare(b))) {
+      workbooks.push({ fileName: name, data });
+    }
+  }
+
+  if (!workbooks.length) {
+    throw new BatchInputError("No workbooks (.xlsx, .xls, .xlsm, .ods or ZIPs of CSV sheets) were found in the upload.");
+  }
+  if (workbooks.length > MAX_BATCH_FILES) {
+    throw new BatchInputError(`A batch can hold at most ${MAX_BATCH_FILES} workbooks; this one has ${workbooks.length}.`);
+  }
+  const oversized = workbooks.find((workbook) => workbook.data.byteLength > MAX_BATCH_WORKBOOK_BYTES);
+  if (oversized) {
+    throw new BatchInputError(`${oversized.fileName} is larger than 20 MB.`);
+  }
+  return workbooks;
+}
+
+export async function createBatchJob(
+  createdBy: AuditActor,
+  workbooks: BatchUpload[],
+  options: { profile: string; brandId: string | null }
+): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const pdfFilenames = uniquePdfFilenames(workbooks.map((workbook) => workbook.fileName));
+  const job: BatchJob = {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    createdBy,
+    profile: options.profile,
+    brandId: options.brandId,
+    status: "running",
+    runnerId: null,
+    heartbeatAt: null,
+    files: workbooks.map((workbook, index) => ({
+      index,
+      fileName: workbook.fileName,
+      pdfFilename: pdfFilenames[index],
+      status: "queued",
+      error: null,
+      quoteNumber: null,
+      customer: null,
+      totalPayable: null,
+      parseErrors: 0,
+      reconciliationMismatches: 0,
+    })),
+  };
+
+  await fs.mkdir(path.join(jobDir(job.id), "inputs"), { recursive: true });
+  await fs.mkdir(path.join(jobDir(job.id), "pdfs"), { recursive: true });
+  for (const [index, workbook] of workbooks.entries()) {
+    await fs.writeFile(inputFile(job.id, index), workbook.data);
+  }
+  await writeJsonFile(jobFile(job.id), job);
+  return job;
+}
+
+export async function getBatchJob(id: string) {
+  if (!isSafeId(id)) {
+    return null;
+  }
+  return readJsonFile<BatchJob>(jobFile(id));
+}
+
+// Newest first; only the given user's jobs when `createdById` is set.
+export async function listBatchJobs(createdById?: string | null) {
+  const ids = await listDirectories(dataPath("batches"));
+  const jobs = await Promise.all(ids.map((id) => getBatchJob(id)));
+  return jobs
+    .filter((job): job is BatchJob => job != null && (!createdById || job.createdBy.id === createdById))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Whether an instance is converting the job and has renewed its lease in time.
+export function isBatchJobLeased(job: BatchJob, now = Date.now()) {
+  return Boolean(job.runnerId && job.heartbeatAt && now - Date.parse(job.heartbeatAt) < BATCH_LEASE_MS);
+}
+
+// Saves progress and renews the lease, unless another runner holds the job by now.
+async function saveJob(job: BatchJob) {
+  const stored = await getBatchJob(job.id);
+  if (stored?.runnerId !== RUNNER_ID) {
+    throw new BatchLeaseLostError(job.id);
+  }
+  job.updatedAt = new Date().toISOString();
+  job.heartbeatAt = job.status === "done" ? null : job.updatedAt;
+  if (job.status === "done") {
+    job.runnerId = null;
+  }
+  await writeJsonFile(jobFile(job.id), job);
+}
+
+// Takes the lease of a job nobody is converting; null when there is nothing to do.
+async function claimJob(id: string) {
+  const job = await getBatchJob(id);
+  if (!job || job.status === "done" || (isBatchJobLeased(job) && job.runnerId !== RUNNER_ID)) {
+    return null;
+  }
+  job.runnerId = RUNNER_ID;
+  job.heartbeatAt = new Date().toISOString();
+  await writeJsonFile(jobFile(id), job);
+  return job;
+}
+
+// Converts one workbook and renders its PDF.
+async function convertBatchFile(job: BatchJob, file: BatchFile): Promise<Partial<BatchFile>> {
+  const conversion = await convertWorkbook(await fs.readFile(inputFile(job.id, file.index)), job.profile);
+  if ("error" in conversion) {
+    return { status: "failed", error: conversion.error };
+  }
+
+  const rendered = await renderConversionPdf(conversion, job.brandId);
+  if ("error" in rendered) {
+    return { status: "failed", error: rendered.error };
+  }
+  const { meta } = rendered;
+  await fs.writeFile(pdfFile(job.id, file.index), new Uint8Array(rendered.pdf));
+
+  const parseErrors = conversion.diagnostics.filter((entry) => entry.severity === "error").length;
+
+  await recordAudit({
+    actor: job.createdBy,
+    quoteId: null,
+    action: "quote.converted",
+    details: {
+      fileName: file.fileName,
+      profile: conversion.profile.id,
+      rooms: conversion.rooms.length,
+      quoteNumber: meta.quoteNumber ?? null,
+      errors: parseErrors,
+      batchId: job.id,
+    },
+  });
+
+  return {
+    status: "done",
+    error: null,
+    quoteNumber: meta.quoteNumber ?? null,
+    customer: meta.customer ?? null,
+    totalPayable: computeQuoteTotals(conversion.summary, meta).totalAfterDiscount,
+    parseErrors,
+    reconciliationMismatches: reconcileQuote(conversion.rooms, conversion.summary).mismatches,
+  };
+}
+
+const runningJobs = new Set<string>();
+
+/**
+ * Works through the job's unfinished files, saving progress after each.
+ * Calling it again while the job is running in this or another live instance
+ * does nothing.
+ */
+export async function runBatchJob(id: string) {
+  if (runningJobs.has(id)) {
+    return;
+  }
+  runningJobs.add(id);
+  try {
+    const job = await claimJob(id);
+    if (!job) {
+      return;
+    }
+    for (const file of job.files) {
+      if (file.status === "done" || file.status === "failed") {
+        continue;
+      }
+      file.status = "converting";
+      await saveJob(job);
+      try {
+        Object.assign(file, await convertBatchFile(job, file));
+      } catch (error) {
+        console.error(`Error converting ${file.fileName} in batch ${id}:`, error);
+        Object.assign(file, {
+          status: "failed",
+          error: error instanceof Error ? `Conversion failed: ${error.message}` : "Conversion failed.",
+        });
+      }
+      await saveJob(job);
+    }
+    job.status = "done";
+    job.completedAt = new Date().toISOString();
+    await saveJob(job);
+  } catch (error) {
+    if (error instanceof BatchLeaseLostError) {
+      console.warn(error.message);
+      return;
+    }
+    console.error(`Batch job ${id} stopped:`, error);
+  } finally {
+    runningJobs.delete(id);
+  }
+}
+
+function csvCell(value: string | number | null) {
+  const text = value == null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function batchIndexCsv(job: BatchJob) {
+  const header = [
+    "File",
+    "Status",
+    "Quote Number",
+    "Customer",
+    "Total Payable",
+    "PDF",
+    "Parse Errors",
+    "Mismatched Rooms",
+    "Error",
+  ];
+  const rows = job.files.map((file) => [
+    file.fileName,
+    file.status,
+    file.quoteNumber,
+    file.customer,
+    file.totalPayable,
+    file.status === "done" ? file.pdfFilename : null,
+    file.parseErrors,
+    file.reconciliationMismatches,
+    file.error,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// The converted PDFs plus index.csv. PDFs are stored rather than deflated
+// because they are compressed already.
+export async function buildBatchArchive(job: BatchJob) {
+  const entries: Zippable = { "index.csv": strToU8(batchIndexCsv(job)) };
+  for (const file of job.files) {
+    if (file.status === "done") {
+      entries[file.pdfFilename] = [new Uint8Array(await fs.readFile(pdfFile(job.id, file.index))), { level: 0 }];
+    }
+  }
+  return zipSync(entries);
+}
@@ -0,0 +1,75 @@
+import { DEFAULT_BRANDS, type BrandProfile, type BrandProfiles } from "@/lib/brand";
+import { brandUsage } from "@/lib/quote-store";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Brand profiles live in <data dir>/brands.json; until someone saves their
+// own, HUB is the only brand.
+//
+// Saved quotes render with the brand they name and an unknown brand is an
+// error, so a brand that any saved quote names cannot be removed.
+
+// Raised when a save or reset would remove a brand saved quotes still use.
+export class BrandInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrandInUseError";
+  }
+}
+
+function brandsPath() {
+  return dataPath("brands.json");
+}
+
+export async function getBrandProfiles(): Promise<BrandProfiles> {
+  const stored = await readJsonFile<BrandProfiles>(brandsPath());
+  return stored ?? { brands: DEFAULT_BRANDS, updatedAt: null };
+}
+
+async function ensureBrandsKept(brands: BrandProfile[]) {
+  const kept = new Set(brands.map((brand) => brand.id));
+  const usage = await brandUsage();
+  const removed = (await getBrandProfiles()).brands.filter((brand) => !kept.has(brand.id) && usage.has(brand.id));
+  if (removed.length) {
+    const inUse = removed.map((brand) => `${brand.name} (${usage.get(brand.id)} saved quote${usage.get(brand.id) === 1 ? "" : "s"})`);
+    throw new BrandInUseError(
+      `${inUse.join(", ")} cannot be removed while saved quotes render with ${removed.length === 1 ? "it" : "them"}.`
+    );
+  }
+}
+
+// Callers validate with validateBrands first. Throws BrandInUseError instead
+// of dropping a brand that saved quotes use.
+export async function saveBrandProfiles(brands: BrandProfile[]): Promise<BrandProfiles> {
+  await ensureBrandsKept(brands);
+  const saved: BrandProfiles = {
+    brands: brands.map((brand) => ({
+      id: brand.id,
+      name: brand.name.trim(),
+      shortName: brand.shortName.trim(),
+      legalName: brand.legalName.trim(),
+      logo: brand.logo.trim(),
+      colors: { primary: brand.colors.primary, onPrimary: brand.colors.onPrimary },
+      font: brand.font,
+      gstin: brand.gstin.trim(),
+      contact: {
+        email: brand.contact.email.trim(),
+        phone: brand.contact.phone.trim(),
+        website: brand.contact.website.trim(),
+        address: brand.contact.address.trim(),
+      },
+      footerText: brand.footerText.trim(),
+      s3Prefix: brand.s3Prefix,
+      ...(brand.gstRates && Object.keys(brand.gstRates).length ? { gstRates: brand.gstRates } : {}),
+    })),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJsonFile(brandsPath(), saved);
+  return saved;
+}
+
+export async function resetBrandProfiles(): Promise<BrandProfiles> {
+  await ensureBrandsKept(DEFAULT_BRANDS);
+  const saved: BrandProfiles = { brands: DEFAULT_BRANDS, updatedAt: new Date().toISOString() };
+  await writeJsonFile(brandsPath(), saved);
+  return saved;
+}
@@ -0,0 +1,197 @@
+import type { PolicyBlock, PolicyContent } from "@/lib/quote-policies";
+import { GST_RATES, type GstRateOverrides, type TaxCategory } from "@/lib/tax";
+
+// A brand profile is everything that makes a quote look like it came from one
+// of our brands or franchise partners. Quotes pick one by id in their metadata
+// and fall back to the first profile, which is HUB out of the box.
+
+export type BrandFont = "sans" | "serif" | "mono";
+
+export type BrandProfile = {
+  id: string;
+  name: string;
+  // Used wherever the terms say {{brand}}, e.g. "HUB".
+  shortName: string;
+  legalName: string;
+  // A PNG or JPEG under public/, e.g. "/quote-logo.png".
+  logo: string;
+  colors: {
+    primary: string;
+    onPrimary: string;
+  };
+  font: BrandFont;
+  gstin: string;
+  contact: {
+    email: string;
+    phone: string;
+    website: string;
+    address: string;
+  };
+  footerText: string;
+  // Published PDFs are stored under this S3 key prefix.
+  s3Prefix: string;
+  // GST rates for the tax breakdown where they differ from the standard ones
+  // in lib/tax.ts; absent on profiles saved before rates were configurable.
+  gstRates?: GstRateOverrides;
+};
+
+export type BrandProfiles = {
+  brands: BrandProfile[];
+  updatedAt: string | null;
+};
+
+// The PDF can only use jsPDF's built-in fonts, so each choice pairs one of
+// those with the closest web font stack for the preview.
+export const BRAND_FONTS: Record<BrandFont, { label: string; pdf: "helvetica" | "times" | "courier"; css: string }> = {
+  sans: { label: "Sans serif", pdf: "helvetica", css: "var(--font-geist-sans), Arial, Helvetica, sans-serif" },
+  serif: { label: "Serif", pdf: "times", css: "Georgia, 'Times New Roman', serif" },
+  mono: { label: "Monospace", pdf: "courier", css: "var(--font-geist-mono), 'Courier New', monospace" },
+};
+
+export const DEFAULT_BRANDS: BrandProfile[] = [
+  {
+    id: "hub",
+    name: "HUB Interior",
+    shortName: "HUB",
+    legalName: "HUB Interior",
+    logo: "/quote-logo.png",
+    colors: { primary: "#dc2626", onPrimary: "#ffffff" },
+    font: "sans",
+    gstin: "",
+    contact: { email: "care@hubinterior.com", phone: "", website: "", address: "" },
+    footerText: "",
+    s3Prefix: "pdfs",
+  },
+];
+
+export function findBrand(brands: BrandProfile[], id: string | null | undefined): BrandProfile {
+  return brands.find((brand) => brand.id === id) ?? brands[0] ?? DEFAULT_BRANDS[0];
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace(/^#/, ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Lines for the footer of the preview and every PDF page, empty parts left out.
+export function brandFooterLines(brand: BrandProfile) {
+  const company = [brand.legalName, brand.gstin && `GSTIN ${brand.gstin}`].filter(Boolean).join("  |  ");
+  const contact = [brand.contact.email, brand.contact.phone, brand.contact.website].filter(Boolean).join("  |  ");
+  return [company, contact, brand.contact.address, brand.footerText].filter((line) => line.trim());
+}
+
+/**
+ * Fills the placeholders the quote terms may use: {{brand}}, {{legalName}},
+ * {{email}}, {{phone}} and {{website}}. Unknown placeholders are left as typed.
+ */
+export function applyBrandText(text: string, brand: BrandProfile) {
+  const values: Record<string, string> = {
+    brand: brand.shortName,
+    legalName: brand.legalName,
+    email: brand.contact.email,
+    phone: brand.contact.phone,
+    website: brand.contact.website,
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function brandBlock(block: PolicyBlock, brand: BrandProfile): PolicyBlock {
+  switch (block.kind) {
+    case "table":
+      return {
+        ...block,
+        rows: block.rows.map((row) => ({
+          label: applyBrandText(row.label, brand),
+          value: applyBrandText(row.value, brand),
+        })),
+      };
+    case "list":
+      return { ...block, items: block.items.map((item) => applyBrandText(item, brand)) };
+    case "paragraph":
+    case "subheading":
+      return { ...block, text: applyBrandText(block.text, brand) };
+    default:
+      return block;
+  }
+}
+
+export function brandPolicy<T extends PolicyContent>(policy: T, brand: BrandProfile): T {
+  return {
+    ...policy,
+    heading: {
+      title: applyBrandText(policy.heading.title, brand),
+      subtitle: applyBrandText(policy.heading.subtitle, brand),
+    },
+    sections: policy.sections.map((section) => ({
+      ...section,
+      title: applyBrandText(section.title, brand),
+      blocks: section.blocks.map((block) => brandBlock(block, brand)),
+      ...(section.notes ? { notes: section.notes.map((note) => applyBrandText(note, brand)) } : {}),
+    })),
+    disclaimer: {
+      title: applyBrandText(policy.disclaimer.title, brand),
+      text: applyBrandText(policy.disclaimer.text, brand),
+    },
+  };
+}
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+
+export function validateBrands(brands: unknown): string | null {
+  if (!Array.isArray(brands) || !brands.length) {
+    return "Keep at least one brand.";
+  }
+
+  const ids = new Set<string>();
+  for (const brand of brands as Array<Partial<BrandProfile> | null>) {
+    if (typeof brand?.id !== "string" || !/^[a-z0-9-]{1,64}$/.test(brand.id)) {
+      return "Brand ids must be 1-64 lowercase letters, digits or dashes.";
+    }
+    if (ids.has(brand.id)) {
+      return `Brand id "${brand.id}" is used more than once.`;
+    }
+    ids.add(brand.id);
+    const label = brand.name || brand.id;
+    for (const field of ["name", "shortName", "legalName"] as const) {
+      if (typeof brand[field] !== "string" || !brand[field].trim()) {
+        return `${label}: the ${field === "shortName" ? "short name" : field === "legalName" ? "legal name" : "name"} is required.`;
+      }
+    }
+    if (typeof brand.logo !== "string" || !/^\/[\w\-/.]+\.(png|jpe?g)$/i.test(brand.logo) || brand.logo.includes("..")) {
+      return `${label}: the logo must be a PNG or JPEG path under public/, e.g. /brands/logo.png.`;
+    }
+    if (!HEX_COLOUR.test(brand.colors?.primary ?? "") || !HEX_COLOUR.test(brand.colors?.onPrimary ?? "")) {
+      return `${label}: colours must be hex values such as #dc2626.`;
+    }
+    if (!brand.font || !Object.hasOwn(BRAND_FONTS, brand.font)) {
+      return `${label}: pick one of the available fonts.`;
+    }
+    if (typeof brand.gstin !== "string" || (brand.gstin && !/^[0-9A-Z]{15}$/.test(brand.gstin))) {
+      return `${label}: a GSTIN is 15 capital letters and digits.`;
+    }
+    const contact = brand.contact;
+    if (!contact || !["email", "phone", "website", "address"].every((key) => typeof contact[key as keyof typeof contact] === "string")) {
+      return `${label}: contact details are incomplete.`;
+    }
+    if (typeof brand.footerText !== "string") {
+      return `${label}: the footer text is invalid.`;
+    }
+    if (typeof brand.s3Prefix !== "string" || !/^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/.test(brand.s3Prefix)) {
+      return `${label}: the S3 prefix may only use letters, digits, dashes, underscores and slashes.`;
+    }
+    if (brand.gstRates != null) {
+      if (typeof brand.gstRates !== "object") {
+        return `${label}: the GST rates are invalid.`;
+      }
+      for (const [category, rate] of Object.entries(brand.gstRates)) {
+        if (!Object.hasOwn(GST_RATES, category)) {
+          return `${label}: "${category}" is not a GST category.`;
+        }
+        if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+          return `${label}: the GST rate for ${GST_RATES[category as TaxCategory].label} must be a percentage from 0 to 100.`;
+        }
+      }
+    }
+  }
+  return null;
+}
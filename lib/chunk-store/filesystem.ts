@@ -0,0 +1,167 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { listDirectories, readJsonFile, writeJsonFile } from "@/lib/storage";
+import {
+  ChunkIntegrityError,
+  chunkIndices,
+  UPLOAD_TTL_MS,
+  type ChunkStore,
+  type ChunkUploadStatus,
+} from "@/lib/chunk-store/types";
+
+// Layout under CHUNK_STORE_DIR (default: <os tmpdir>/quote-uploads):
+//   <uploadId>/manifest.json  - file name, chunk count, file hash and start time
+//   <uploadId>/chunk-<n>      - received chunks
+//   <uploadId>/file           - the assembled upload, once complete
+// Instances only see each other's chunks when the directory is shared.
+
+type Manifest = {
+  fileName: string;
+  totalChunks: number;
+  fileHash: string;
+  createdAt: number;
+};
+
+function rootDir() {
+  return process.env.CHUNK_STORE_DIR || path.join(os.tmpdir(), "quote-uploads");
+}
+
+function uploadDir(uploadId: string) {
+  return path.join(rootDir(), uploadId);
+}
+
+async function fileExists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function receivedChunks(uploadId: string) {
+  try {
+    return chunkIndices(await fs.readdir(uploadDir(uploadId)), /^chunk-(\d+)$/);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Goes by the directory's mtime, which every chunk written into it moves on,
+// so an upload whose manifest is still being written is never swept.
+async function sweepExpired() {
+  const ids = await listDirectories(rootDir());
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  await Promise.all(
+    ids.map(async (id) => {
+      const stats = await fs.stat(uploadDir(id)).catch(() => null);
+      if (stats && stats.mtimeMs < cutoff) {
+        await fs.rm(uploadDir(id), { recursive: true, force: true });
+      }
+    })
+  );
+}
+
+async function assemble(uploadId: string, manifest: Manifest) {
+  const dir = uploadDir(uploadId);
+  const target = path.join(dir, "file");
+  // Two final chunks can arrive together; both write the same bytes and the
+  // rename is atomic, so whichever lands last wins harmlessly.
+  const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+  const hash = createHash("sha256");
+  const handle = await fs.open(tempPath, "w");
+  try {
+    for (let index = 0; index < manifest.totalChunks; index += 1) {
+      const chunk = await fs.readFile(path.join(dir, `chunk-${index}`));
+      hash.update(chunk);
+      await handle.write(chunk);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (hash.digest("hex") !== manifest.fileHash) {
+    await fs.rm(dir, { recursive: true, force: true });
+    throw new ChunkIntegrityError("The reassembled file does not match the uploaded file's checksum");
+  }
+  await fs.rename(tempPath, target);
+}
+
+export function createFilesystemChunkStore(): ChunkStore {
+  const getStatus = async (uploadId: string): Promise<ChunkUploadStatus | null> => {
+    const dir = uploadDir(uploadId);
+    const manifest = await readJsonFile<Manifest>(path.join(dir, "manifest.json"));
+    if (!manifest) {
+      return null;
+    }
+    const received = await receivedChunks(uploadId);
+    return {
+      uploadId,
+      fileName: manifest.fileName,
+      totalChunks: manifest.totalChunks,
+      received: received.length,
+      receivedChunks: received,
+      complete: await fileExists(path.join(dir, "file")),
+    };
+  };
+
+  return {
+    async putChunk({ uploadId, fileName, totalChunks, chunkIndex, fileHash, data }) {
+      const dir = uploadDir(uploadId);
+      const manifestPath = path.join(dir, "manifest.json");
+
+      if (chunkIndex === 0) {
+        await sweepExpired();
+      }
+      let manifest = await readJsonFile<Manifest>(manifestPath);
+      if (!manifest) {
+        manifest = { fileName, totalChunks, fileHash, createdAt: Date.now() };
+        await writeJsonFile(manifestPath, manifest);
+      } else if (manifest.fileHash !== fileHash || manifest.totalChunks !== totalChunks) {
+        throw new ChunkIntegrityError("This upload id belongs to a different file");
+      }
+
+      const chunkPath = path.join(dir, `chunk-${chunkIndex}`);
+      const tempPath = `${chunkPath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, chunkPath);
+
+      const received = await receivedChunks(uploadId);
+      const complete = received.length >= totalChunks;
+      if (complete) {
+        await assemble(uploadId, manifest);
+      }
+
+      return {
+        uploadId,
+        fileName: manifest.fileName,
+        totalChunks,
+        received: received.length,
+        receivedChunks: received,
+        complete,
+      };
+    },
+
+    getStatus,
+
+    async readFile(uploadId) {
+      const status = await getStatus(uploadId);
+      if (!status?.complete) {
+        return null;
+      }
+      return {
+        fileName: status.fileName,
+        data: await fs.readFile(path.join(uploadDir(uploadId), "file")),
+      };
+    },
+
+    async deleteUpload(uploadId) {
+      await fs.rm(uploadDir(uploadId), { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { createFilesystemChunkStore } from "@/lib/chunk-store/filesystem";
+import { createS3ChunkStore } from "@/lib/chunk-store/s3";
+import type { ChunkStore } from "@/lib/chunk-store/types";
+export { ChunkIntegrityError, sha256Hex } from "@/lib/chunk-store/types";
+
+export type {
+  AssembledUpload,
+  ChunkInput,
+  ChunkStore,
+  ChunkUploadStatus,
+} from "@/lib/chunk-store/types";
+
+let store: ChunkStore | null = null;
+
+// CHUNK_STORE=s3 keeps chunks in S3 (required when requests can land on
+// different instances, e.g. on Vercel); anything else uses the filesystem.
+export function getChunkStore(): ChunkStore {
+  if (!store) {
+    store = process.env.CHUNK_STORE === "s3" ? createS3ChunkStore() : createFilesystemChunkStore();
+  }
+  return store;
+}
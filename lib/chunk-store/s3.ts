@@ -0,0 +1,288 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  UploadPartCommand,
+  type CompletedPart,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { createHash } from "crypto";
+import { getS3Client } from "@/lib/s3";
+import {
+  ChunkIntegrityError,
+  chunkIndices,
+  type ChunkStore,
+  type ChunkUploadStatus,
+} from "@/lib/chunk-store/types";
+
+// Layout under <bucket>/<CHUNK_STORE_S3_PREFIX>/<uploadId>/:
+//   manifest.json   - file name, chunk count and file hash
+//   chunks/<n>      - received chunks
+//   file            - the assembled upload, built with a multipart upload
+// Abandoned uploads are not swept here; add a bucket lifecycle rule that
+// expires the prefix after a day.
+
+// S3 rejects multipart parts under 5MB (except the last), while browser
+// chunks are 3MB, so chunks are buffered into parts of at least this size.
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+type Manifest = {
+  fileName: string;
+  totalChunks: number;
+  fileHash: string;
+  createdAt: number;
+};
+
+function getBucket() {
+  const bucket = process.env.CHUNK_STORE_S3_BUCKET || process.env.AWS_S3_BUCKET_NAME;
+  if (!bucket) {
+    throw new Error("Chunk store bucket not configured. Set CHUNK_STORE_S3_BUCKET or AWS_S3_BUCKET_NAME");
+  }
+  return bucket;
+}
+
+function uploadPrefix(uploadId: string) {
+  const prefix = (process.env.CHUNK_STORE_S3_PREFIX || "uploads").replace(/\/+$/, "");
+  return `${prefix}/${uploadId}/`;
+}
+
+function isNotFound(error: unknown) {
+  const name = (error as { name?: string })?.name;
+  return name === "NoSuchKey" || name === "NotFound";
+}
+
+async function readObject(client: S3Client, key: string) {
+  try {
+    const response = await client.send(new GetObjectCommand({ Bucket: getBucket(), Key: key }));
+    const bytes = await response.Body?.transformToByteArray();
+    return bytes ? Buffer.from(bytes) : null;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function objectExists(client: S3Client, key: string) {
+  try {
+    await client.send(new HeadObjectCommand({ Bucket: getBucket(), Key: key }));
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function listKeys(client: S3Client, prefix: string) {
+  const keys: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const response = await client.send(
+      new ListObjectsV2Command({ Bucket: getBucket(), Prefix: prefix, ContinuationToken: continuationToken })
+    );
+    response.Contents?.forEach((object) => {
+      if (object.Key) {
+        keys.push(object.Key);
+      }
+    });
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return keys;
+}
+
+async function receivedChunks(client: S3Client, uploadId: string) {
+  const prefix = `${uploadPrefix(uploadId)}chunks/`;
+  const keys = await listKeys(client, prefix);
+  return chunkIndices(
+    keys.map((key) => key.slice(prefix.length)),
+    /^(\d+)$/
+  );
+}
+
+async function deletePrefix(client: S3Client, prefix: string) {
+  const keys = await listKeys(client, prefix);
+  // DeleteObjects accepts at most 1000 keys per request.
+  for (let start = 0; start < keys.length; start += 1000) {
+    await client.send(
+      new DeleteObjectsCommand({
+        Bucket: getBucket(),
+        Delete: { Objects: keys.slice(start, start + 1000).map((Key) => ({ Key })), Quiet: true },
+      })
+    );
+  }
+}
+
+async function readManifest(client: S3Client, uploadId: string) {
+  const raw = await readObject(client, `${uploadPrefix(uploadId)}manifest.json`);
+  return raw ? (JSON.parse(raw.toString("utf8")) as Manifest) : null;
+}
+
+async function assemble(client: S3Client, uploadId: string, manifest: Manifest) {
+  const bucket = getBucket();
+  const prefix = uploadPrefix(uploadId);
+  const fileKey = `${prefix}file`;
+
+  const { UploadId: multipartId } = await client.send(
+    new CreateMultipartUploadCommand({ Bucket: bucket, Key: fileKey })
+  );
+  if (!multipartId) {
+    throw new Error("S3 did not return a multipart upload id");
+  }
+
+  const parts: CompletedPart[] = [];
+  const hash = createHash("sha256");
+  let pending: Buffer[] = [];
+  let pendingSize = 0;
+
+  const flush = async () => {
+    const partNumber = parts.length + 1;
+    const response = await client.send(
+      new UploadPartCommand({
+        Bucket: bucket,
+        Key: fileKey,
+        UploadId: multipartId,
+        PartNumber: partNumber,
+        Body: Buffer.concat(pending),
+      })
+    );
+    parts.push({ ETag: response.ETag, PartNumber: partNumber });
+    pending = [];
+    pendingSize = 0;
+  };
+
+  try {
+    for (let index = 0; index < manifest.totalChunks; index += 1) {
+      const chunk = await readObject(client, `${prefix}chunks/${index}`);
+      if (!chunk) {
+        // Another request assembled the file and removed the chunks first.
+        await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: fileKey, UploadId: multipartId }));
+        return;
+      }
+      hash.update(chunk);
+      pending.push(chunk);
+      pendingSize += chunk.byteLength;
+      if (pendingSize >= MIN_PART_SIZE) {
+        await flush();
+      }
+    }
+    if (pendingSize > 0 || !parts.length) {
+      await flush();
+    }
+
+    if (hash.digest("hex") !== manifest.fileHash) {
+      throw new ChunkIntegrityError("The reassembled file does not match the uploaded file's checksum");
+    }
+
+    await client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: fileKey,
+        UploadId: multipartId,
+        MultipartUpload: { Parts: parts },
+      })
+    );
+  } catch (error) {
+    await client
+      .send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: fileKey, UploadId: multipartId }))
+      .catch(() => undefined);
+    if (error instanceof ChunkIntegrityError) {
+      await deletePrefix(client, prefix);
+    }
+    throw error;
+  }
+
+  await deletePrefix(client, `${prefix}chunks/`);
+}
+
+function allIndices(totalChunks: number) {
+  return Array.from({ length: totalChunks }, (_, index) => index);
+}
+
+export function createS3ChunkStore(): ChunkStore {
+  const client = getS3Client();
+
+  const getStatus = async (uploadId: string): Promise<ChunkUploadStatus | null> => {
+    const manifest = await readManifest(client, uploadId);
+    if (!manifest) {
+      return null;
+    }
+    const complete = await objectExists(client, `${uploadPrefix(uploadId)}file`);
+    const received = complete ? allIndices(manifest.totalChunks) : await receivedChunks(client, uploadId);
+    return {
+      uploadId,
+      fileName: manifest.fileName,
+      totalChunks: manifest.totalChunks,
+      received: received.length,
+      receivedChunks: received,
+      complete,
+    };
+  };
+
+  return {
+    async putChunk({ uploadId, fileName, totalChunks, chunkIndex, fileHash, data }) {
+      const bucket = getBucket();
+      const prefix = uploadPrefix(uploadId);
+
+      let manifest = await readManifest(client, uploadId);
+      if (!manifest) {
+        manifest = { fileName, totalChunks, fileHash, createdAt: Date.now() };
+        await client.send(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: `${prefix}manifest.json`,
+            Body: JSON.stringify(manifest),
+            ContentType: "application/json",
+          })
+        );
+      } else if (manifest.fileHash !== fileHash || manifest.totalChunks !== totalChunks) {
+        throw new ChunkIntegrityError("This upload id belongs to a different file");
+      }
+
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: `${prefix}chunks/${chunkIndex}`, Body: data })
+      );
+
+      let received = await receivedChunks(client, uploadId);
+      if (received.length >= totalChunks) {
+        await assemble(client, uploadId, manifest);
+      }
+
+      // A concurrent final chunk may already have assembled and cleared the chunks.
+      const complete = received.length >= totalChunks || (await objectExists(client, `${prefix}file`));
+      if (complete) {
+        received = allIndices(totalChunks);
+      }
+      return {
+        uploadId,
+        fileName: manifest.fileName,
+        totalChunks,
+        received: received.length,
+        receivedChunks: received,
+        complete,
+      };
+    },
+
+    getStatus,
+
+    async readFile(uploadId) {
+      const manifest = await readManifest(client, uploadId);
+      if (!manifest) {
+        return null;
+      }
+      const data = await readObject(client, `${uploadPrefix(uploadId)}file`);
+      return data ? { fileName: manifest.fileName, data } : null;
+    },
+
+    async deleteUpload(uploadId) {
+      await deletePrefix(client, uploadPrefix(uploadId));
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+
+export type ChunkUploadStatus = {
+  uploadId: string;
+  fileName: string;
+  totalChunks: number;
+  received: number;
+  // Indices the store already holds, so an interrupted upload can resume.
+  receivedChunks: number[];
+  complete: boolean;
+};
+
+export type ChunkInput = {
+  uploadId: string;
+  fileName: string;
+  totalChunks: number;
+  chunkIndex: number;
+  // Hex SHA-256 of the whole file, checked against the assembled upload.
+  fileHash: string;
+  data: Buffer;
+};
+
+export type AssembledUpload = {
+  fileName: string;
+  data: Buffer;
+};
+
+/**
+ * Holds the chunks of an in-progress upload somewhere every server instance
+ * can reach, and assembles them once the last one arrives. `putChunk` may be
+ * called for chunks in any order and more than once for the same chunk.
+ */
+export interface ChunkStore {
+  // Throws ChunkIntegrityError if the assembled file does not match fileHash.
+  putChunk(chunk: ChunkInput): Promise<ChunkUploadStatus>;
+  getStatus(uploadId: string): Promise<ChunkUploadStatus | null>;
+  // Resolves to null until every chunk has been received.
+  readFile(uploadId: string): Promise<AssembledUpload | null>;
+  // Routes call it once they have read the assembled file; the rest expire.
+  deleteUpload(uploadId: string): Promise<void>;
+}
+
+// Raised when chunks do not add up to the file the client described. The
+// upload is discarded, so the client has to start it again.
+export class ChunkIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChunkIntegrityError";
+  }
+}
+
+// Uploads are abandoned after this long; stores sweep or expire them lazily.
+export const UPLOAD_TTL_MS = 60 * 60 * 1000;
+
+export function sha256Hex(data: Uint8Array) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Chunk objects are named chunk-<n> (filesystem) or chunks/<n> (S3).
+export function chunkIndices(names: string[], pattern: RegExp) {
+  return names
+    .map((name) => pattern.exec(name)?.[1])
+    .filter((index): index is string => index != null)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
@@ -0,0 +1,154 @@
+// Browser side of /api/upload-chunk: splits a workbook into chunks, skips the
+// ones the server already holds, and uploads the rest a few at a time.
+
+const CHUNK_SIZE = 3 * 1024 * 1024; // 3MB chunks (safe for Vercel)
+const PARALLEL_UPLOADS = 3;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 500;
+
+type ChunkResponse = {
+  complete: boolean;
+};
+
+type UploadStatus = {
+  complete: boolean;
+  receivedChunks: number[];
+};
+
+class ChunkUploadError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "ChunkUploadError";
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchStatus(uploadId: string): Promise<UploadStatus | null> {
+  const response = await fetch(`/api/upload-chunk?uploadId=${encodeURIComponent(uploadId)}`);
+  if (!response.ok) {
+    return null;
+  }
+  return response.json();
+}
+
+async function sendChunk(body: FormData, chunkNumber: number, totalChunks: number) {
+  let response: Response;
+  try {
+    response = await fetch("/api/upload-chunk", { method: "POST", body });
+  } catch {
+    throw new ChunkUploadError(`Network error while uploading chunk ${chunkNumber} of ${totalChunks}`, true);
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Chunk upload failed" }));
+    // 422 means the chunk arrived corrupted; timeouts, throttling and server
+    // errors are worth another try too.
+    const retryable = response.status >= 500 || [408, 422, 429].includes(response.status);
+    throw new ChunkUploadError(
+      error.error || `Failed to upload chunk ${chunkNumber} of ${totalChunks}`,
+      retryable
+    );
+  }
+
+  return (await response.json()) as ChunkResponse;
+}
+
+async function uploadChunk(
+  file: File,
+  uploadId: string,
+  fileHash: string,
+  chunkIndex: number,
+  totalChunks: number
+) {
+  const start = chunkIndex * CHUNK_SIZE;
+  const chunk = file.slice(start, Math.min(start + CHUNK_SIZE, file.size));
+  const chunkHash = await sha256Hex(await chunk.arrayBuffer());
+
+  for (let attempt = 1; ; attempt += 1) {
+    const chunkFormData = new FormData();
+    chunkFormData.append("chunk", chunk);
+    chunkFormData.append("chunkIndex", chunkIndex.toString());
+    chunkFormData.append("totalChunks", totalChunks.toString());
+    chunkFormData.append("uploadId", uploadId);
+    chunkFormData.append("fileName", file.name);
+    chunkFormData.append("chunkHash", chunkHash);
+    chunkFormData.append("fileHash", fileHash);
+
+    try {
+      return await sendChunk(chunkFormData, chunkIndex + 1, totalChunks);
+    } catch (error) {
+      if (!(error instanceof ChunkUploadError) || !error.retryable || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await wait(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_RETRY_DELAY_MS);
+    }
+  }
+}
+
+/**
+ * Uploads a file through /api/upload-chunk and resolves to its upload id once
+ * the server has reassembled and verified it. The id is derived from the
+ * file's SHA-256, so retrying the same file after a failure or a page reload
+ * only sends the chunks the server is missing.
+ */
+export async function uploadFileInChunks(
+  file: File,
+  onProgress?: (uploadedChunks: number, totalChunks: number) => void
+): Promise<string> {
+  const fileHash = await sha256Hex(await file.arrayBuffer());
+  const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+  const uploadId = `${fileHash.slice(0, 48)}-${totalChunks}`;
+
+  const existing = await fetchStatus(uploadId);
+  if (existing?.complete) {
+    onProgress?.(totalChunks, totalChunks);
+    return uploadId;
+  }
+
+  const uploaded = new Set(existing?.receivedChunks ?? []);
+  const pending = Array.from({ length: totalChunks }, (_, index) => index).filter(
+    (index) => !uploaded.has(index)
+  );
+  if (!pending.length) {
+    // Every chunk arrived but assembly never finished; resending one retriggers it.
+    pending.push(totalChunks - 1);
+  }
+  onProgress?.(uploaded.size, totalChunks);
+
+  let complete = false;
+  let failed = false;
+  const worker = async () => {
+    let chunkIndex: number | undefined;
+    while (!failed && (chunkIndex = pending.shift()) !== undefined) {
+      try {
+        const result = await uploadChunk(file, uploadId, fileHash, chunkIndex, totalChunks);
+        complete = complete || result.complete;
+        uploaded.add(chunkIndex);
+        onProgress?.(uploaded.size, totalChunks);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PARALLEL_UPLOADS, pending.length) }, worker));
+
+  // The request that completed the upload may have been a parallel one whose
+  // response was lost, so confirm with the server before giving up.
+  if (!complete && !(await fetchStatus(uploadId))?.complete) {
+    throw new Error("The upload did not complete. Please try again to resume it.");
+  }
+  return uploadId;
+}
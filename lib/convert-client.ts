@@ -0,0 +1,58 @@
+// Browser side of /api/convert: sends a workbook, or the id of one sent
+// through /api/upload-chunk, and checks the reply against the schema in
+// lib/quote-schema.ts before handing it on.
+
+import {
+  convertResponseSchema,
+  type ConvertResult,
+  type ParseDiagnostic,
+} from "@/lib/quote-schema";
+
+export type ConvertSource = { file: File } | { uploadId: string };
+
+// A conversion the server refused or could not finish. `diagnostics` is the
+// parse report when the workbook was read but had nothing to quote.
+export class ConvertApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly diagnostics: ParseDiagnostic[] | null = null
+  ) {
+    super(message);
+    this.name = "ConvertApiError";
+  }
+}
+
+export async function convertWorkbookUpload(source: ConvertSource, profile = "auto"): Promise<ConvertResult> {
+  const body = new FormData();
+  if ("uploadId" in source) {
+    body.append("uploadId", source.uploadId);
+  } else {
+    body.append("file", source.file);
+  }
+  body.append("profile", profile);
+
+  const response = await fetch("/api/convert", { method: "POST", body });
+  if (response.status === 413) {
+    throw new ConvertApiError("File is too large. Please try again or use a smaller file.", 413);
+  }
+  const json: unknown = await response.json().catch(() => null);
+  const parsed = convertResponseSchema.safeParse(json);
+
+  if (!parsed.success) {
+    // Sign-in and other shared checks answer with a bare { error }.
+    const error = (json as { error?: unknown } | null)?.error;
+    if (!response.ok) {
+      throw new ConvertApiError(
+        typeof error === "string" ? error : "Conversion failed. Please try again.",
+        response.status
+      );
+    }
+    console.error("Unexpected /api/convert response:", parsed.error);
+    throw new ConvertApiError("Unexpected response format from server.", response.status);
+  }
+  if (!parsed.data.ok) {
+    throw new ConvertApiError(parsed.data.error, response.status, parsed.data.diagnostics ?? null);
+  }
+  return parsed.data.data;
+}
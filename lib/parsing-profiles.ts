@@ -0,0 +1,313 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { utils, type WorkBook } from "xlsx";
+import { dataPath } from "@/lib/storage";
+
+// A parsing profile describes one workbook layout: which sheets hold what,
+// the header keywords that locate each table, the column aliases inside those
+// tables and the labels the quote details sit next to. Patterns are regular
+// expression sources and keywords are substrings; both match case-insensitively.
+//
+// The built-in "standard" profile matches the layout exported by our own
+// design tool. Partner layouts live as JSON files in
+// <data dir>/parsing-profiles/<id>.json and only need to list what differs;
+// anything left out falls back to the standard profile.
+
+export type SummaryColumn =
+  | "modules"
+  | "accessories"
+  | "appliances"
+  | "services"
+  | "furniture"
+  | "worktops";
+
+export type MetadataLabelField =
+  | "reference"
+  | "propertyName"
+  | "customer"
+  | "priceVersion"
+  | "quoteValidTill"
+  | "quoteStatus"
+  | "propertyConfig"
+  | "totalBuiltUpArea"
+  | "designerName"
+  | "address";
+
+export type ParsingProfile = {
+  id: string;
+  name: string;
+  description?: string;
+  sheets: {
+    summary: string[];
+    ignore: string[];
+    // Project-specific terms typed into the workbook.
+    terms: string[];
+    cabinetStats: string[];
+    detailItems: string[];
+  };
+  // Cells matching this pattern name a room, e.g. "Kitchen - Parallel".
+  roomName: string;
+  summary: {
+    roomHeader: string[];
+    totalHeader: string[];
+    // Aliases are tried in order, so later ones only apply when earlier ones
+    // are missing from the header row.
+    columns: Record<SummaryColumn, string[]>;
+    materialMarkers: string[];
+  };
+  cabinetStats: {
+    typeHeader: string[];
+    columns: { area: string[]; costPerSqFt: string[]; total: string[] };
+    // The table ends at the first type cell matching one of these.
+    stopRows: string[];
+  };
+  detailItems: {
+    descriptionHeader: string[];
+    columns: { sl: string[]; code: string[]; size: string[]; price: string[] };
+    skipRows: string[];
+  };
+  metadata: {
+    // The value is the first non-empty cell to the right of the label.
+    labels: Record<MetadataLabelField, string[]>;
+    // Matched against the cell itself rather than a label.
+    quoteNumber: string;
+    quoteDate: string;
+  };
+};
+
+export type ProfileOverrides = Partial<Omit<ParsingProfile, "id" | "name">> & {
+  id: string;
+  name: string;
+};
+
+export type ParsingProfileSummary = {
+  id: string;
+  name: string;
+  description?: string;
+};
+
+export type CompiledProfile = {
+  id: string;
+  name: string;
+  description?: string;
+  sheets: Record<keyof ParsingProfile["sheets"], RegExp[]>;
+  roomName: RegExp;
+  summary: ParsingProfile["summary"];
+  cabinetStats: Omit<ParsingProfile["cabinetStats"], "stopRows"> & { stopRows: RegExp[] };
+  detailItems: Omit<ParsingProfile["detailItems"], "skipRows"> & { skipRows: RegExp[] };
+  metadata: {
+    labels: Array<[MetadataLabelField, RegExp[]]>;
+    quoteNumber: RegExp;
+    quoteDate: RegExp;
+  };
+};
+
+export const DEFAULT_PROFILE_ID = "standard";
+
+export const DEFAULT_PROFILE: ParsingProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Standard (HUB design tool)",
+  description: "Summary sheet, per-room sq.ft and details sheets.",
+  sheets: {
+    summary: ["^summary$"],
+    ignore: [],
+    terms: ["^terms\\s*(&|and)\\s*conditions$", "^t\\s*&\\s*c$"],
+    cabinetStats: ["sq\\.?ft\\.?$"],
+    detailItems: ["details$"],
+  },
+  roomName: " - ",
+  summary: {
+    roomHeader: ["ROOM"],
+    totalHeader: ["TOTAL"],
+    columns: {
+      modules: ["UNIT"],
+      accessories: ["ACCESS", "HARDWARE"],
+      appliances: ["APPLIANCE"],
+      services: ["SERVICE"],
+      furniture: ["FURNITURE", "DÉCOR", "DECOR"],
+      worktops: ["WORKTOP"],
+    },
+    materialMarkers: ["Carcass:", "Handles:"],
+  },
+  cabinetStats: {
+    typeHeader: ["CABINET TYPE"],
+    columns: { area: ["AREA"], costPerSqFt: ["COST"], total: ["TOTAL"] },
+    stopRows: ["^wood work", "^total"],
+  },
+  detailItems: {
+    descriptionHeader: ["DESCRIPTION"],
+    columns: { sl: ["SL"], code: ["CODE"], size: ["SIZE"], price: ["PRICE"] },
+    skipRows: ["^total$"],
+  },
+  metadata: {
+    labels: {
+      reference: ["^reference$"],
+      propertyName: ["property\\s*name"],
+      customer: ["^customer$"],
+      priceVersion: ["price\\s*version"],
+      quoteValidTill: ["quote\\s*valid\\s*till"],
+      quoteStatus: ["quote\\s*status"],
+      propertyConfig: ["property\\s*config"],
+      totalBuiltUpArea: ["total\\s*built"],
+      designerName: ["design\\s*expert", "dp\\s*name"],
+      address: ["address"],
+    },
+    quoteNumber: "\\bquote[-\\s]?\\w+",
+    quoteDate: "(\\d{2}[\\/-]\\d{2}[\\/-]\\d{2,4})|(\\d{4}[\\/-]\\d{2}[\\/-]\\d{2})",
+  },
+};
+
+function toRegExp(source: string) {
+  return new RegExp(source, "i");
+}
+
+// Shallow-merges each section of a partner profile over the standard one.
+function mergeProfile(overrides: ProfileOverrides): ParsingProfile {
+  return {
+    ...DEFAULT_PROFILE,
+    ...overrides,
+    sheets: { ...DEFAULT_PROFILE.sheets, ...overrides.sheets },
+    summary: {
+      ...DEFAULT_PROFILE.summary,
+      ...overrides.summary,
+      columns: { ...DEFAULT_PROFILE.summary.columns, ...overrides.summary?.columns },
+    },
+    cabinetStats: {
+      ...DEFAULT_PROFILE.cabinetStats,
+      ...overrides.cabinetStats,
+      columns: { ...DEFAULT_PROFILE.cabinetStats.columns, ...overrides.cabinetStats?.columns },
+    },
+    detailItems: {
+      ...DEFAULT_PROFILE.detailItems,
+      ...overrides.detailItems,
+      columns: { ...DEFAULT_PROFILE.detailItems.columns, ...overrides.detailItems?.columns },
+    },
+    metadata: {
+      ...DEFAULT_PROFILE.metadata,
+      ...overrides.metadata,
+      labels: { ...DEFAULT_PROFILE.metadata.labels, ...overrides.metadata?.labels },
+    },
+  };
+}
+
+export function compileProfile(profile: ParsingProfile): CompiledProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    sheets: {
+      summary: profile.sheets.summary.map(toRegExp),
+      ignore: profile.sheets.ignore.map(toRegExp),
+      terms: profile.sheets.terms.map(toRegExp),
+      cabinetStats: profile.sheets.cabinetStats.map(toRegExp),
+      detailItems: profile.sheets.detailItems.map(toRegExp),
+    },
+    roomName: toRegExp(profile.roomName),
+    summary: profile.summary,
+    cabinetStats: { ...profile.cabinetStats, stopRows: profile.cabinetStats.stopRows.map(toRegExp) },
+    detailItems: { ...profile.detailItems, skipRows: profile.detailItems.skipRows.map(toRegExp) },
+    metadata: {
+      labels: (Object.entries(profile.metadata.labels) as Array<[MetadataLabelField, string[]]>).map(
+        ([field, patterns]) => [field, patterns.map(toRegExp)]
+      ),
+      quoteNumber: toRegExp(profile.metadata.quoteNumber),
+      quoteDate: toRegExp(profile.metadata.quoteDate),
+    },
+  };
+}
+
+function profilesDir() {
+  return dataPath("parsing-profiles");
+}
+
+async function loadPartnerProfiles() {
+  let fileNames: string[];
+  try {
+    fileNames = (await fs.readdir(profilesDir())).filter((name) => name.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const profiles: CompiledProfile[] = [];
+  for (const fileName of fileNames.sort()) {
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(profilesDir(), fileName), "utf8"));
+      const overrides: ProfileOverrides = { ...raw, id: raw.id || path.basename(fileName, ".json") };
+      if (!overrides.name || overrides.id === DEFAULT_PROFILE_ID) {
+        throw new Error("profile needs a name and an id other than the standard one");
+      }
+      profiles.push(compileProfile(mergeProfile(overrides)));
+    } catch (error) {
+      // A broken partner file should not take conversions down for everyone.
+      console.warn(`Skipping parsing profile ${fileName}:`, error);
+    }
+  }
+  return profiles;
+}
+
+export async function loadParsingProfiles(): Promise<CompiledProfile[]> {
+  return [compileProfile(DEFAULT_PROFILE), ...(await loadPartnerProfiles())];
+}
+
+export async function listParsingProfiles(): Promise<ParsingProfileSummary[]> {
+  const profiles = await loadParsingProfiles();
+  return profiles.map(({ id, name, description }) => ({ id, name, description }));
+}
+
+function matchesAny(value: string, patterns: RegExp[]) {
+  return patterns.some((pattern) => pattern.test(value));
+}
+
+function sheetContains(workbook: WorkBook, sheetName: string, keywords: string[]) {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    return false;
+  }
+  const rows = utils.sheet_to_json<(string | number)[]>(sheet, {
+    header: 1,
+    defval: "",
+    raw: false,
+    blankrows: false,
+  });
+  const upperKeywords = keywords.map((keyword) => keyword.toUpperCase());
+  return rows.some((row) =>
+    row.some((cell) => upperKeywords.some((keyword) => String(cell).toUpperCase().includes(keyword)))
+  );
+}
+
+/**
+ * Scores how well a profile explains a workbook: a point for each sheet whose
+ * name it recognises and another when that sheet also contains the header the
+ * profile expects there.
+ */
+export function scoreProfile(workbook: WorkBook, profile: CompiledProfile) {
+  let score = 0;
+  workbook.SheetNames.forEach((sheetName) => {
+    if (matchesAny(sheetName, profile.sheets.ignore) || matchesAny(sheetName, profile.sheets.terms)) {
+      return;
+    }
+    if (matchesAny(sheetName, profile.sheets.summary)) {
+      score += 1 + (sheetContains(workbook, sheetName, profile.summary.totalHeader) ? 1 : 0);
+    } else if (matchesAny(sheetName, profile.sheets.cabinetStats)) {
+      score += 1 + (sheetContains(workbook, sheetName, profile.cabinetStats.typeHeader) ? 1 : 0);
+    } else if (matchesAny(sheetName, profile.sheets.detailItems)) {
+      score += 1 + (sheetContains(workbook, sheetName, profile.detailItems.descriptionHeader) ? 1 : 0);
+    }
+  });
+  return score;
+}
+
+// Picks the best-scoring profile; ties go to the earlier one, i.e. standard.
+export function detectProfile(workbook: WorkBook, profiles: CompiledProfile[]) {
+  let best = { profile: profiles[0], score: -1 };
+  profiles.forEach((profile) => {
+    const score = scoreProfile(workbook, profile);
+    if (score > best.score) {
+      best = { profile, score };
+    }
+  });
+  return best;
+}
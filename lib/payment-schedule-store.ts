@@ -0,0 +1,48 @@
+import {
+  DEFAULT_PAYMENT_SCHEDULE_TEMPLATES,
+  type PaymentScheduleTemplate,
+  type PaymentScheduleTemplates,
+} from "@/lib/payment-schedule";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Templates live in <data dir>/payment-schedules.json; the built-in set
+// applies until someone saves their own.
+
+function templatesPath() {
+  return dataPath("payment-schedules.json");
+}
+
+export async function getPaymentScheduleTemplates(): Promise<PaymentScheduleTemplates> {
+  const stored = await readJsonFile<PaymentScheduleTemplates>(templatesPath());
+  return stored ?? { templates: DEFAULT_PAYMENT_SCHEDULE_TEMPLATES, updatedAt: null };
+}
+
+// Callers validate with validatePaymentScheduleTemplates first.
+export async function savePaymentScheduleTemplates(
+  templates: PaymentScheduleTemplate[]
+): Promise<PaymentScheduleTemplates> {
+  const saved: PaymentScheduleTemplates = {
+    templates: templates.map(({ id, name, stages }) => ({
+      id,
+      name: name.trim(),
+      stages: stages.map(({ label, kind, value, dueDate }) => ({
+        label: label.trim(),
+        kind,
+        value,
+        ...(dueDate?.trim() ? { dueDate: dueDate.trim() } : {}),
+      })),
+    })),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJsonFile(templatesPath(), saved);
+  return saved;
+}
+
+export async function resetPaymentScheduleTemplates(): Promise<PaymentScheduleTemplates> {
+  const saved: PaymentScheduleTemplates = {
+    templates: DEFAULT_PAYMENT_SCHEDULE_TEMPLATES,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJsonFile(templatesPath(), saved);
+  return saved;
+}
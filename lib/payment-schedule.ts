@@ -0,0 +1,206 @@
+// Payment milestones for a quote. Sales keeps named templates on the server;
+// a quote carries its own copy of the chosen template in `meta`, so later
+// template edits never change a quote that was already sent.
+//
+// A stage is either a percentage of the payable total or a fixed amount (e.g.
+// appliances paid upfront). Together the stages must come to exactly the
+// payable total after discount.
+
+export type PaymentStage = {
+  label: string;
+  kind: "percentage" | "fixed";
+  value: number;
+  // Free text such as "On booking" or an ISO date; shown as entered.
+  dueDate?: string;
+};
+
+export type PaymentScheduleTemplate = {
+  id: string;
+  name: string;
+  stages: PaymentStage[];
+};
+
+export type PaymentScheduleTemplates = {
+  templates: PaymentScheduleTemplate[];
+  updatedAt: string | null;
+};
+
+// What a quote stores: the stages plus the template they started from.
+export type PaymentSchedule = {
+  templateId: string | null;
+  name: string;
+  stages: PaymentStage[];
+};
+
+export type PaymentRow = {
+  stage: string;
+  // Null for a fixed stage while the payable total is unknown.
+  percentage: number | null;
+  amount: number | null;
+  dueDate?: string;
+};
+
+export const STANDARD_TEMPLATE_ID = "standard";
+
+export const DEFAULT_PAYMENT_SCHEDULE_TEMPLATES: PaymentScheduleTemplate[] = [
+  {
+    id: STANDARD_TEMPLATE_ID,
+    name: "Standard (10/10/40/30/10)",
+    stages: [
+      { label: "Design Start Stage", kind: "percentage", value: 10 },
+      { label: "Design Freeze Stage", kind: "percentage", value: 10 },
+      { label: "Production Start", kind: "percentage", value: 40 },
+      { label: "Before Dispatch", kind: "percentage", value: 30 },
+      { label: "Post Carcass", kind: "percentage", value: 10 },
+    ],
+  },
+  {
+    id: "booking-5",
+    name: "5% Booking",
+    stages: [
+      { label: "Booking", kind: "percentage", value: 5, dueDate: "On booking" },
+      { label: "Design Freeze Stage", kind: "percentage", value: 15 },
+      { label: "Production Start", kind: "percentage", value: 40 },
+      { label: "Before Dispatch", kind: "percentage", value: 30 },
+      { label: "Post Carcass", kind: "percentage", value: 10 },
+    ],
+  },
+  {
+    id: "emi-6",
+    name: "EMI (6 monthly instalments)",
+    stages: [
+      { label: "Booking", kind: "percentage", value: 10, dueDate: "On booking" },
+      { label: "Instalment 1", kind: "percentage", value: 15, dueDate: "Month 1" },
+      { label: "Instalment 2", kind: "percentage", value: 15, dueDate: "Month 2" },
+      { label: "Instalment 3", kind: "percentage", value: 15, dueDate: "Month 3" },
+      { label: "Instalment 4", kind: "percentage", value: 15, dueDate: "Month 4" },
+      { label: "Instalment 5", kind: "percentage", value: 15, dueDate: "Month 5" },
+      { label: "Instalment 6", kind: "percentage", value: 15, dueDate: "Month 6" },
+    ],
+  },
+];
+
+// Rounding slack when checking that the stages add up.
+const AMOUNT_TOLERANCE = 1;
+const PERCENT_TOLERANCE = 0.01;
+
+export function scheduleFromTemplate(template: PaymentScheduleTemplate): PaymentSchedule {
+  return {
+    templateId: template.id,
+    name: template.name,
+    stages: template.stages.map((stage) => ({ ...stage })),
+  };
+}
+
+export const DEFAULT_PAYMENT_SCHEDULE = scheduleFromTemplate(DEFAULT_PAYMENT_SCHEDULE_TEMPLATES[0]);
+
+export function paymentRows(schedule: PaymentSchedule, total: number | null): PaymentRow[] {
+  return schedule.stages.map((stage) => {
+    const amount =
+      stage.kind === "fixed" ? stage.value : total != null ? (total * stage.value) / 100 : null;
+    const percentage =
+      stage.kind === "percentage" ? stage.value : total ? (stage.value / total) * 100 : null;
+    return {
+      stage: stage.label,
+      percentage,
+      amount,
+      ...(stage.dueDate ? { dueDate: stage.dueDate } : {}),
+    };
+  });
+}
+
+// Fixed stages come out as fractional percentages; two decimals is plenty.
+export function formatStagePercentage(percentage: number | null) {
+  return percentage != null ? `${round(percentage)}%` : "-";
+}
+
+function stagesProblem(stages: unknown): string | null {
+  if (!Array.isArray(stages) || !stages.length) {
+    return "Add at least one payment stage.";
+  }
+  for (const [index, stage] of (stages as Partial<PaymentStage>[]).entries()) {
+    const name = `Stage ${index + 1}`;
+    if (typeof stage?.label !== "string" || !stage.label.trim()) {
+      return `${name} needs a label.`;
+    }
+    if (stage.kind !== "percentage" && stage.kind !== "fixed") {
+      return `${name} must be a percentage or a fixed amount.`;
+    }
+    if (typeof stage.value !== "number" || !Number.isFinite(stage.value) || stage.value <= 0) {
+      return `"${stage.label}" needs an amount greater than zero.`;
+    }
+    if (stage.dueDate != null && typeof stage.dueDate !== "string") {
+      return `"${stage.label}" has an invalid due date.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a quote's schedule against its payable total after discount. Fixed
+ * stages can only be checked once the total is known; until then a schedule
+ * with fixed stages only needs its percentages to stay within 100%.
+ */
+export function validatePaymentSchedule(schedule: PaymentSchedule, total: number | null): string | null {
+  const problem = stagesProblem(schedule.stages);
+  if (problem) {
+    return problem;
+  }
+
+  const percent = schedule.stages
+    .filter((stage) => stage.kind === "percentage")
+    .reduce((sum, stage) => sum + stage.value, 0);
+  const fixed = schedule.stages
+    .filter((stage) => stage.kind === "fixed")
+    .reduce((sum, stage) => sum + stage.value, 0);
+
+  if (total == null) {
+    if (!fixed && Math.abs(percent - 100) > PERCENT_TOLERANCE) {
+      return `Payment stages add up to ${round(percent)}%, not 100%.`;
+    }
+    return percent > 100 + PERCENT_TOLERANCE ? `Payment stages add up to ${round(percent)}%, more than 100%.` : null;
+  }
+
+  const scheduled = (total * percent) / 100 + fixed;
+  // Percentages next to fixed stages rarely land on the exact rupee.
+  const allowed = Math.max(AMOUNT_TOLERANCE, (Math.abs(total) * PERCENT_TOLERANCE) / 100);
+  if (Math.abs(scheduled - total) > allowed) {
+    const share = total ? round((scheduled / total) * 100) : 0;
+    return `Payment stages add up to ${round(scheduled).toLocaleString("en-IN")} (${share}%) but the payable total is ${round(total).toLocaleString("en-IN")}.`;
+  }
+  return null;
+}
+
+// Templates are applied to quotes of any size, so only percentage-only
+// templates can be required to reach 100%.
+export function validatePaymentScheduleTemplates(templates: unknown): string | null {
+  if (!Array.isArray(templates) || !templates.length) {
+    return "Keep at least one payment schedule template.";
+  }
+
+  const ids = new Set<string>();
+  for (const template of templates as Partial<PaymentScheduleTemplate>[]) {
+    if (typeof template?.id !== "string" || !/^[a-z0-9-]{1,64}$/.test(template.id)) {
+      return "Template ids must be 1-64 lowercase letters, digits or dashes.";
+    }
+    if (ids.has(template.id)) {
+      return `Template id "${template.id}" is used more than once.`;
+    }
+    ids.add(template.id);
+    if (typeof template.name !== "string" || !template.name.trim()) {
+      return `Template "${template.id}" needs a name.`;
+    }
+    const problem = validatePaymentSchedule(
+      { templateId: template.id, name: template.name, stages: template.stages as PaymentStage[] },
+      null
+    );
+    if (problem) {
+      return `${template.name}: ${problem}`;
+    }
+  }
+  return null;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
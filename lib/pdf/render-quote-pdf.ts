@@ -0,0 +1,1040 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { jsPDF } from "jspdf";
+import {
+  computeQuoteTotals,
+  METADATA_FIELDS,
+  PROJECT_DETAIL_FIELDS,
+  removeBracketValues,
+  typeTotal,
+  type QuoteDocument,
+  type QuoteMetadata,
+} from "@/lib/quote";
+import { formatStagePercentage } from "@/lib/payment-schedule";
+import type { QuoteAcceptance } from "@/lib/acceptance";
+import type { AmountChange, QuoteDiff } from "@/lib/quote-diff";
+import { computeTaxBreakdown, placeOfSupplyNote } from "@/lib/tax";
+import {
+  BUILT_IN_POLICY_VERSION,
+  includedSections,
+  PAYMENT_SCHEDULE_SECTION_ID,
+  type PolicyBlock,
+  type PolicyVersion,
+} from "@/lib/quote-policies";
+import {
+  BRAND_FONTS,
+  brandFooterLines,
+  brandPolicy,
+  DEFAULT_BRANDS,
+  hexToRgb,
+  type BrandProfile,
+} from "@/lib/brand";
+
+type Rgb = [number, number, number];
+
+type TableCell = string | { text: string; span?: number; align?: "left" | "right"; bold?: boolean };
+
+type TableRow = {
+  cells: TableCell[];
+  fill?: Rgb;
+  textColor?: Rgb;
+  bold?: boolean;
+  uppercase?: boolean;
+  // Colours the first cell only, like the room name cells of the summary table.
+  leadFill?: Rgb;
+  leadTextColor?: Rgb;
+};
+
+type TableColumn = {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+};
+
+type PdfContext = {
+  pdf: jsPDF;
+  y: number;
+  font: "helvetica" | "times" | "courier";
+  primary: Rgb;
+  onPrimary: Rgb;
+  // Distance from the bottom edge to the footer rule; grows with the brand's
+  // footer lines.
+  footerHeight: number;
+};
+
+const PAGE_MARGIN = 14;
+const CONTENT_TOP = 28;
+const FOOTER_HEIGHT = 14;
+const FOOTER_LINE_HEIGHT = 3.2;
+const LINE_HEIGHT_FACTOR = 0.42;
+
+const COLORS = {
+  text: [24, 24, 27] as Rgb,
+  muted: [82, 82, 91] as Rgb,
+  faint: [113, 113, 122] as Rgb,
+  border: [228, 228, 231] as Rgb,
+  headerFill: [244, 244, 245] as Rgb,
+  softFill: [250, 250, 250] as Rgb,
+  blue: [30, 64, 175] as Rgb,
+  blueFill: [239, 246, 255] as Rgb,
+  blueBorder: [191, 219, 254] as Rgb,
+  green: [22, 101, 52] as Rgb,
+  greenFill: [236, 253, 245] as Rgb,
+  greenBorder: [167, 243, 208] as Rgb,
+};
+
+const numberFormat = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 2,
+});
+
+// The built-in PDF fonts only cover WinAnsi, so the rupee sign is spelled out.
+function pdfText(value: string) {
+  return value.replace(/₹\s?/g, "Rs. ");
+}
+
+function formatMoney(value?: number | null) {
+  return value != null && !Number.isNaN(value) ? `Rs. ${numberFormat.format(value)}` : "-";
+}
+
+function contentWidth(ctx: PdfContext) {
+  return ctx.pdf.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+}
+
+function contentBottom(ctx: PdfContext) {
+  return ctx.pdf.internal.pageSize.getHeight() - ctx.footerHeight - 4;
+}
+
+function lineHeight(fontSize: number) {
+  return fontSize * LINE_HEIGHT_FACTOR;
+}
+
+function setFont(ctx: PdfContext, size: number, style: "normal" | "bold" = "normal", color: Rgb = COLORS.text) {
+  ctx.pdf.setFont(ctx.font, style);
+  ctx.pdf.setFontSize(size);
+  ctx.pdf.setTextColor(...color);
+}
+
+function addPage(ctx: PdfContext) {
+  ctx.pdf.addPage();
+  ctx.y = CONTENT_TOP;
+}
+
+function ensureSpace(ctx: PdfContext, height: number) {
+  if (ctx.y + height > contentBottom(ctx) && ctx.y > CONTENT_TOP) {
+    addPage(ctx);
+  }
+}
+
+function writeText(
+  ctx: PdfContext,
+  text: string,
+  options: {
+    size?: number;
+    style?: "normal" | "bold";
+    color?: Rgb;
+    indent?: number;
+    width?: number;
+    align?: "left" | "center" | "right";
+    spacingAfter?: number;
+  } = {}
+) {
+  const size = options.size ?? 9.5;
+  const indent = options.indent ?? 0;
+  const width = options.width ?? contentWidth(ctx) - indent;
+  setFont(ctx, size, options.style, options.color);
+
+  const lines: string[] = ctx.pdf.splitTextToSize(pdfText(text), width);
+  const step = lineHeight(size);
+  for (const line of lines) {
+    ensureSpace(ctx, step);
+    const x =
+      options.align === "center"
+        ? PAGE_MARGIN + indent + width / 2
+        : options.align === "right"
+          ? PAGE_MARGIN + indent + width
+          : PAGE_MARGIN + indent;
+    ctx.pdf.text(line, x, ctx.y + step * 0.8, { align: options.align ?? "left" });
+    ctx.y += step;
+  }
+  ctx.y += options.spacingAfter ?? 1.5;
+}
+
+function writeSectionTitle(ctx: PdfContext, title: string, size = 12) {
+  ensureSpace(ctx, lineHeight(size) + 20);
+  ctx.y += 3;
+  writeText(ctx, title, { size, style: "bold", spacingAfter: 2 });
+}
+
+function drawRule(ctx: PdfContext, color: Rgb = COLORS.border) {
+  ctx.pdf.setDrawColor(...color);
+  ctx.pdf.setLineWidth(0.3);
+  ctx.pdf.line(PAGE_MARGIN, ctx.y, PAGE_MARGIN + contentWidth(ctx), ctx.y);
+}
+
+function cellText(cell: TableCell) {
+  return typeof cell === "string" ? cell : cell.text;
+}
+
+function drawTable(
+  ctx: PdfContext,
+  columns: TableColumn[],
+  rows: TableRow[],
+  options: { showHeader?: boolean; fontSize?: number } = {}
+) {
+  const fontSize = options.fontSize ?? 8.5;
+  const paddingX = 2;
+  const paddingY = 1.8;
+  const step = lineHeight(fontSize);
+  const totalWeight = columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = columns.map((column) => (column.width / totalWeight) * contentWidth(ctx));
+  const showHeader = options.showHeader ?? true;
+
+  const layoutRow = (cells: TableCell[], bold: boolean, uppercase: boolean) => {
+    setFont(ctx, fontSize, bold ? "bold" : "normal");
+    let columnIndex = 0;
+    return cells.map((cell) => {
+      const span = typeof cell === "string" ? 1 : cell.span ?? 1;
+      const x = PAGE_MARGIN + widths.slice(0, columnIndex).reduce((sum, w) => sum + w, 0);
+      const width = widths.slice(columnIndex, columnIndex + span).reduce((sum, w) => sum + w, 0);
+      const align =
+        (typeof cell === "string" ? undefined : cell.align) ?? columns[columnIndex]?.align ?? "left";
+      const cellBold = bold || (typeof cell !== "string" && cell.bold === true);
+      const raw = pdfText(cellText(cell));
+      setFont(ctx, fontSize, cellBold ? "bold" : "normal");
+      const lines: string[] = ctx.pdf.splitTextToSize(
+        uppercase ? raw.toUpperCase() : raw,
+        Math.max(width - paddingX * 2, 1)
+      );
+      const first = columnIndex === 0;
+      columnIndex += span;
+      return { x, width, align, lines, bold: cellBold, first };
+    });
+  };
+
+  const drawRow = (
+    laidOut: ReturnType<typeof layoutRow>,
+    style: { fill?: Rgb; textColor?: Rgb; leadFill?: Rgb; leadTextColor?: Rgb }
+  ) => {
+    const height = Math.max(...laidOut.map((cell) => cell.lines.length), 1) * step + paddingY * 2;
+    const tableWidth = widths.reduce((sum, w) => sum + w, 0);
+
+    if (style.fill) {
+      ctx.pdf.setFillColor(...style.fill);
+      ctx.pdf.rect(PAGE_MARGIN, ctx.y, tableWidth, height, "F");
+    }
+
+    laidOut.forEach((cell) => {
+      if (cell.first && style.leadFill) {
+        ctx.pdf.setFillColor(...style.leadFill);
+        ctx.pdf.rect(cell.x, ctx.y, cell.width, height, "F");
+      }
+      const color = cell.first && style.leadTextColor ? style.leadTextColor : style.textColor ?? COLORS.text;
+      setFont(ctx, fontSize, cell.bold ? "bold" : "normal", color);
+      cell.lines.forEach((line, index) => {
+        const textY = ctx.y + paddingY + step * index + step * 0.8;
+        if (cell.align === "right") {
+          ctx.pdf.text(line, cell.x + cell.width - paddingX, textY, { align: "right" });
+        } else {
+          ctx.pdf.text(line, cell.x + paddingX, textY);
+        }
+      });
+    });
+
+    ctx.pdf.setDrawColor(...COLORS.border);
+    ctx.pdf.setLineWidth(0.2);
+    ctx.pdf.line(PAGE_MARGIN, ctx.y + height, PAGE_MARGIN + tableWidth, ctx.y + height);
+    ctx.y += height;
+  };
+
+  const drawHeader = () => {
+    if (!showHeader) {
+      return;
+    }
+    const laidOut = layoutRow(
+      columns.map((column) => ({ text: column.header, align: column.align })),
+      true,
+      true
+    );
+    drawRow(laidOut, { fill: COLORS.headerFill, textColor: COLORS.muted });
+  };
+
+  const firstRowHeight = rows.length
+    ? Math.max(
+        ...layoutRow(rows[0].cells, rows[0].bold ?? false, rows[0].uppercase ?? false).map(
+          (cell) => cell.lines.length
+        ),
+        1
+      ) *
+        step +
+      paddingY * 2
+    : 0;
+  ensureSpace(ctx, firstRowHeight + (showHeader ? step + paddingY * 2 : 0));
+  drawHeader();
+
+  rows.forEach((row) => {
+    const laidOut = layoutRow(row.cells, row.bold ?? false, row.uppercase ?? false);
+    const height = Math.max(...laidOut.map((cell) => cell.lines.length), 1) * step + paddingY * 2;
+    if (ctx.y + height > contentBottom(ctx)) {
+      addPage(ctx);
+      drawHeader();
+    }
+    drawRow(laidOut, row);
+  });
+
+  ctx.y += 3;
+}
+
+function metaValue(meta: QuoteMetadata, field: keyof QuoteMetadata) {
+  const value = meta[field];
+  if (value == null || value === "") {
+    return "";
+  }
+  if (field === "discountAmount" && typeof value === "number") {
+    return formatMoney(value);
+  }
+  return String(value);
+}
+
+function renderHeaderBlock(ctx: PdfContext, meta: QuoteMetadata) {
+  writeText(ctx, "Quotation", { size: 22, style: "bold", spacingAfter: 3 });
+
+  const greetingY = ctx.y;
+  writeText(ctx, `Hi ${meta.customer || "Customer"} & Family,`, {
+    color: COLORS.muted,
+    width: contentWidth(ctx) * 0.6,
+    spacingAfter: 0,
+  });
+  const afterGreeting = ctx.y;
+  ctx.y = greetingY;
+  writeText(ctx, `Issued on: ${meta.quoteDate || "-"}`, {
+    color: COLORS.muted,
+    align: "right",
+    spacingAfter: 0,
+  });
+  ctx.y = Math.max(ctx.y, afterGreeting) + 1.5;
+
+  writeText(
+    ctx,
+    "Here is the quote that you requested. Please review and reach out to us for any questions.",
+    { color: COLORS.muted }
+  );
+  if (meta.quoteNumber) {
+    writeText(ctx, meta.quoteNumber, { size: 11, style: "bold", align: "right" });
+  }
+  ctx.y += 1;
+  drawRule(ctx);
+  ctx.y += 4;
+}
+
+function renderProjectDetails(ctx: PdfContext, meta: QuoteMetadata) {
+  writeSectionTitle(ctx, "Project Details");
+
+  const gap = 4;
+  const halfWidth = (contentWidth(ctx) - gap) / 2;
+
+  // Pair up the half-width fields; full-width fields get a row of their own.
+  const rows: Array<typeof PROJECT_DETAIL_FIELDS> = [];
+  PROJECT_DETAIL_FIELDS.forEach((config) => {
+    const current = rows[rows.length - 1];
+    if (!config.fullWidth && current && current.length === 1 && !current[0].fullWidth) {
+      current.push(config);
+    } else {
+      rows.push([config]);
+    }
+  });
+
+  rows.forEach((row) => {
+    ensureSpace(ctx, 16);
+    const rowStart = ctx.y;
+    let rowEnd = rowStart;
+
+    row.forEach(({ field, subtitleField, fullWidth }, index) => {
+      const label = METADATA_FIELDS.find((item) => item.field === field)?.label ?? field;
+      const indent = index === 0 ? 0 : halfWidth + gap;
+      const width = fullWidth ? contentWidth(ctx) : halfWidth;
+
+      ctx.y = rowStart;
+      writeText(ctx, label.toUpperCase(), {
+        size: 7,
+        style: "bold",
+        color: COLORS.faint,
+        indent,
+        width,
+        spacingAfter: 0.5,
+      });
+      writeText(ctx, metaValue(meta, field) || "-", {
+        size: 10,
+        style: "bold",
+        indent,
+        width,
+        spacingAfter: 0.5,
+      });
+      const subtitle = subtitleField ? metaValue(meta, subtitleField) : "";
+      if (subtitle) {
+        writeText(ctx, subtitle, { size: 7.5, color: COLORS.faint, indent, width, spacingAfter: 0 });
+      }
+      rowEnd = Math.max(rowEnd, ctx.y);
+    });
+
+    ctx.y = rowEnd + 3;
+  });
+
+  ctx.y += 1;
+}
+
+function renderSummary(ctx: PdfContext, document: QuoteDocument) {
+  const { summary, meta } = document;
+  const rows = summary?.rows ?? [];
+  const totals = computeQuoteTotals(summary, meta);
+  const hasSummaryTable =
+    rows.length > 0 ||
+    summary?.discount != null ||
+    summary?.subtotal != null ||
+    summary?.totalPayable != null;
+
+  if (hasSummaryTable) {
+    writeSectionTitle(ctx, "Room Summary");
+
+    const columns: TableColumn[] = [
+      { header: "Room", width: 2.2 },
+      { header: "Modules", width: 1.2, align: "right" },
+      { header: "Accessories", width: 1.2, align: "right" },
+      { header: "Appliances", width: 1.2, align: "right" },
+      { header: "Services", width: 1.2, align: "right" },
+      { header: "Furniture", width: 1.2, align: "right" },
+      { header: "Worktops", width: 1.2, align: "right" },
+      { header: "Total", width: 1.3, align: "right" },
+    ];
+
+    const tableRows: TableRow[] = rows.map((row) => ({
+      cells: [
+        { text: row.room.toUpperCase(), bold: true },
+        formatMoney(row.modules),
+        formatMoney(row.accessories),
+        formatMoney(row.appliances),
+        formatMoney(row.services),
+        formatMoney(row.furniture),
+        formatMoney(row.worktops),
+        { text: formatMoney(row.total), bold: true },
+      ],
+      leadFill: ctx.primary,
+      leadTextColor: ctx.onPrimary,
+    }));
+
+    if (rows.length > 0) {
+      const { totalsRow } = totals;
+      tableRows.push({
+        cells: [
+          "Total",
+          formatMoney(totalsRow.modules),
+          formatMoney(totalsRow.accessories),
+          formatMoney(totalsRow.appliances),
+          formatMoney(totalsRow.services),
+          formatMoney(totalsRow.furniture),
+          formatMoney(totalsRow.worktops),
+          formatMoney(totalsRow.total),
+        ],
+        fill: COLORS.headerFill,
+        bold: true,
+        uppercase: true,
+      });
+    }
+
+    if (totals.discount != null && totals.discount !== 0) {
+      tableRows.push({
+        cells: [
+          { text: "Discount", span: 7, align: "right" },
+          formatMoney(Math.abs(totals.discount)),
+        ],
+        fill: COLORS.blueFill,
+        textColor: COLORS.blue,
+        bold: true,
+        uppercase: true,
+      });
+    }
+
+    if (totals.totalAfterDiscount != null) {
+      tableRows.push({
+        cells: [{ text: "Total after discount", span: 7 }, formatMoney(totals.totalAfterDiscount)],
+        fill: COLORS.border,
+        bold: true,
+        uppercase: true,
+      });
+    }
+
+    drawTable(ctx, columns, tableRows);
+    writeText(ctx, "* All amounts include GST; see the tax breakdown below.", {
+      size: 7.5,
+      color: COLORS.faint,
+    });
+  }
+
+  const discount = totals.discount ?? 0;
+  const showDiscount = discount !== 0;
+  if (!showDiscount && totals.totalAfterDiscount == null) {
+    return;
+  }
+
+  const gap = 4;
+  const boxWidth = (contentWidth(ctx) - gap) / 2;
+  const boxHeight = 24;
+  ensureSpace(ctx, boxHeight + 4);
+  ctx.y += 2;
+  const top = ctx.y;
+
+  const drawCard = (
+    x: number,
+    title: string,
+    amount: string,
+    caption: string | null,
+    colors: { fill: Rgb; border: Rgb; text: Rgb }
+  ) => {
+    ctx.pdf.setFillColor(...colors.fill);
+    ctx.pdf.setDrawColor(...colors.border);
+    ctx.pdf.roundedRect(x, top, boxWidth, boxHeight, 3, 3, "FD");
+    setFont(ctx, 7.5, "bold", colors.text);
+    ctx.pdf.text(title, x + 5, top + 6.5);
+    setFont(ctx, 17, "bold", colors.text);
+    ctx.pdf.text(amount, x + 5, top + 15);
+    if (caption) {
+      setFont(ctx, 7.5, "normal", colors.text);
+      ctx.pdf.text(ctx.pdf.splitTextToSize(caption, boxWidth - 10)[0] ?? "", x + 5, top + 20.5);
+    }
+  };
+
+  let x = PAGE_MARGIN;
+  if (showDiscount) {
+    drawCard(
+      x,
+      "DISCOUNT APPLIED",
+      formatMoney(Math.abs(discount)),
+      totals.totalBeforeDiscount != null
+        ? `Subtracted from rooms total of ${formatMoney(totals.totalBeforeDiscount)}`
+        : null,
+      { fill: COLORS.blueFill, border: COLORS.blueBorder, text: COLORS.blue }
+    );
+    x += boxWidth + gap;
+  }
+  if (totals.totalAfterDiscount != null) {
+    drawCard(
+      x,
+      "TOTAL PAYABLE",
+      formatMoney(totals.totalAfterDiscount),
+      showDiscount ? `After applying discount of ${formatMoney(Math.abs(discount))}` : null,
+      { fill: COLORS.greenFill, border: COLORS.greenBorder, text: COLORS.green }
+    );
+  }
+
+  ctx.y = top + boxHeight + 4;
+}
+
+function renderTaxBreakdown(ctx: PdfContext, document: QuoteDocument, brand: BrandProfile) {
+  const breakdown = computeTaxBreakdown(document.summary, document.meta, brand.gstRates);
+  if (!breakdown) {
+    return;
+  }
+
+  ensureSpace(ctx, 30);
+  writeSectionTitle(ctx, "Tax Breakdown");
+
+  const columns: TableColumn[] = [
+    { header: "Category", width: 1.8 },
+    { header: "HSN/SAC", width: 1 },
+    { header: "Taxable Value", width: 1.5, align: "right" },
+    ...(breakdown.interState
+      ? [{ header: "IGST", width: 1.6, align: "right" as const }]
+      : [
+          { header: "CGST", width: 1.6, align: "right" as const },
+          { header: "SGST", width: 1.6, align: "right" as const },
+        ]),
+    { header: "Amount", width: 1.5, align: "right" },
+  ];
+
+  // Line rows show the rate next to each tax; the total row has none.
+  const taxCells = (tax: { cgst: number; sgst: number; igst: number }, rate?: number) => {
+    const at = (value: number) => (rate != null ? ` @ ${value}%` : "");
+    return breakdown.interState
+      ? [`${formatMoney(tax.igst)}${at(rate ?? 0)}`]
+      : [`${formatMoney(tax.cgst)}${at((rate ?? 0) / 2)}`, `${formatMoney(tax.sgst)}${at((rate ?? 0) / 2)}`];
+  };
+
+  const rows: TableRow[] = breakdown.lines.map((line) => ({
+    cells: [
+      line.label,
+      line.hsn || "-",
+      formatMoney(line.taxableValue),
+      ...taxCells(line, line.rate),
+      formatMoney(line.amount),
+    ],
+  }));
+  rows.push({
+    cells: [
+      { text: "Total", span: 2 },
+      formatMoney(breakdown.totals.taxableValue),
+      ...taxCells(breakdown.totals),
+      formatMoney(breakdown.totals.amount),
+    ],
+    fill: COLORS.headerFill,
+    bold: true,
+    uppercase: true,
+  });
+
+  drawTable(ctx, columns, rows);
+  writeText(ctx, placeOfSupplyNote(breakdown), { size: 7.5, color: COLORS.faint, spacingAfter: 3 });
+}
+
+function renderRooms(ctx: PdfContext, document: QuoteDocument) {
+  document.rooms.forEach((room) => {
+    if (!room.types.length) {
+      return;
+    }
+
+    ensureSpace(ctx, 40);
+    writeSectionTitle(ctx, room.name);
+    drawRule(ctx);
+    ctx.y += 3;
+
+    room.types.forEach((type) => {
+      ensureSpace(ctx, 24);
+      const titleY = ctx.y;
+      writeText(ctx, type.label, { size: 10.5, style: "bold", spacingAfter: 0.5 });
+      writeText(ctx, type.type.toUpperCase(), { size: 7, color: COLORS.faint, spacingAfter: 1.5 });
+      if (type.dimensionAggregate) {
+        const afterTitle = ctx.y;
+        ctx.y = titleY;
+        writeText(
+          ctx,
+          `Total width: ${numberFormat.format(type.dimensionAggregate)} (units as per sheet)`,
+          { size: 8.5, color: COLORS.muted, align: "right", spacingAfter: 0 }
+        );
+        ctx.y = afterTitle;
+      }
+
+      const materials = Object.entries(type.materials);
+      if (materials.length) {
+        writeText(ctx, "Materials", { size: 9, style: "bold", spacingAfter: 0.5 });
+        materials.forEach(([key, value]) => {
+          writeText(ctx, `${key}: ${removeBracketValues(value)}`, {
+            size: 8.5,
+            color: COLORS.muted,
+            indent: 2,
+            spacingAfter: 0.3,
+          });
+        });
+        ctx.y += 1.2;
+      }
+
+      const pricedTotal = typeTotal(type);
+      if (pricedTotal != null) {
+        writeText(ctx, `Pricing Summary - Total: ${formatMoney(pricedTotal)}`, {
+          size: 9,
+          style: "bold",
+        });
+      }
+
+      if (type.items.length) {
+        drawTable(
+          ctx,
+          [
+            { header: "Code", width: 1.2 },
+            { header: "Unit Name", width: 3.6 },
+            { header: "Dimension", width: 1.8 },
+            { header: "Price", width: 1.3, align: "right" },
+          ],
+          type.items.map((item) => ({
+            cells: [
+              { text: item.code || "-", bold: true },
+              item.description,
+              item.size || "-",
+              typeof item.price === "number" ? formatMoney(item.price) : "-",
+            ],
+          }))
+        );
+      }
+
+      ctx.y += 3;
+    });
+  });
+}
+
+function renderPolicyBlock(ctx: PdfContext, block: PolicyBlock) {
+  switch (block.kind) {
+    case "table":
+      drawTable(
+        ctx,
+        [
+          { header: "", width: 1.4 },
+          { header: "", width: 1 },
+        ],
+        block.rows.map((row) => ({ cells: [{ text: row.label, bold: true }, row.value] })),
+        { showHeader: false }
+      );
+      break;
+    case "list":
+      block.items.forEach((item, index) => {
+        const marker = block.numbered ? `${index + 1}.  ` : block.bulleted === false ? "" : "•  ";
+        writeText(ctx, `${marker}${item}`, {
+          size: 8.5,
+          color: COLORS.muted,
+          indent: block.bulleted === false ? 0 : 2,
+          spacingAfter: 0.8,
+        });
+      });
+      ctx.y += 1;
+      break;
+    case "paragraph":
+      writeText(ctx, block.text, { size: 8.5, color: block.muted ? COLORS.faint : COLORS.muted });
+      break;
+    case "subheading":
+      ensureSpace(ctx, 12);
+      writeText(ctx, block.text, { size: 9, style: "bold", spacingAfter: 0.8 });
+      break;
+    case "divider":
+      ctx.y += 1;
+      drawRule(ctx);
+      ctx.y += 2.5;
+      break;
+  }
+}
+
+function renderPolicies(ctx: PdfContext, document: QuoteDocument, policy: PolicyVersion) {
+  const totals = computeQuoteTotals(document.summary, document.meta);
+
+  ensureSpace(ctx, 40);
+  ctx.y += 4;
+  writeText(ctx, policy.heading.title, { size: 15, style: "bold", align: "center", spacingAfter: 1 });
+  writeText(ctx, policy.heading.subtitle, { size: 8.5, color: COLORS.muted, align: "center", spacingAfter: 4 });
+
+  includedSections(policy, document.meta?.terms).forEach((section) => {
+    writeSectionTitle(ctx, section.title, 11);
+    section.blocks.forEach((block) => renderPolicyBlock(ctx, block));
+
+    if (section.id === PAYMENT_SCHEDULE_SECTION_ID) {
+      // Only schedules with due dates get the extra column.
+      const hasDueDates = totals.paymentRows.some((row) => row.dueDate);
+      drawTable(
+        ctx,
+        [
+          { header: "Milestone", width: 2.5 },
+          ...(hasDueDates ? [{ header: "Due", width: 1.3 }] : []),
+          { header: "Percentage", width: 1 },
+          { header: "Amount", width: 1.3, align: "right" as const },
+        ],
+        [
+          ...totals.paymentRows.map((row) => ({
+            cells: [
+              { text: row.stage, bold: true },
+              ...(hasDueDates ? [row.dueDate ?? "-"] : []),
+              formatStagePercentage(row.percentage),
+              formatMoney(row.amount),
+            ],
+          })),
+          {
+            cells: ["Total", ...(hasDueDates ? [""] : []), "100%", formatMoney(totals.paymentTotal)],
+            fill: COLORS.softFill,
+            bold: true,
+          },
+        ]
+      );
+    }
+
+    section.notes?.forEach((note) => {
+      writeText(ctx, note, { size: 8.5, color: COLORS.muted });
+    });
+  });
+
+  writeSectionTitle(ctx, policy.disclaimer.title, 11);
+  writeText(ctx, policy.disclaimer.text, { size: 8.5, color: COLORS.muted });
+  writeText(ctx, `Terms version ${policy.version}`, { size: 7.5, color: COLORS.faint });
+}
+
+function formatChangeAmount(value: number | null) {
+  return value == null ? "-" : formatMoney(value);
+}
+
+function amountChangeRow(change: AmountChange): TableRow {
+  return {
+    cells: [
+      { text: change.label, bold: true },
+      formatChangeAmount(change.before),
+      formatChangeAmount(change.after),
+      change.before != null && change.after != null ? formatMoney(change.after - change.before) : "-",
+    ],
+  };
+}
+
+function renderChanges(ctx: PdfContext, changes: QuoteDiff) {
+  ensureSpace(ctx, 40);
+  writeSectionTitle(
+    ctx,
+    changes.fromRevision != null ? `Changes since revision ${changes.fromRevision}` : "Changes since last revision",
+    13
+  );
+  drawRule(ctx);
+  ctx.y += 3;
+
+  if (!changes.hasChanges) {
+    writeText(ctx, "No changes to rooms, prices or totals since the previous revision.", {
+      size: 8.5,
+      color: COLORS.muted,
+    });
+    return;
+  }
+
+  const amountColumns: TableColumn[] = [
+    { header: "", width: 2.4 },
+    { header: "Previous", width: 1.3, align: "right" },
+    { header: "Revised", width: 1.3, align: "right" },
+    { header: "Difference", width: 1.3, align: "right" },
+  ];
+
+  const amountChanges = [...changes.summaryRows, ...changes.totals];
+  if (amountChanges.length) {
+    writeText(ctx, "Summary", { size: 10, style: "bold", spacingAfter: 1 });
+    drawTable(ctx, amountColumns, amountChanges.map(amountChangeRow));
+  }
+
+  changes.rooms.forEach((room) => {
+    ensureSpace(ctx, 24);
+    const status = room.status === "added" ? " (new room)" : room.status === "removed" ? " (removed)" : "";
+    writeText(ctx, `${room.name}${status}`, { size: 10, style: "bold", spacingAfter: 1 });
+
+    const rows: TableRow[] = [
+      ...room.addedItems.map(({ type, item }) => ({
+        cells: [
+          "Added",
+          `${item.code ? `${item.code} - ` : ""}${item.description}`,
+          type,
+          "-",
+          formatChangeAmount(item.price ?? null),
+        ],
+        textColor: COLORS.green,
+      })),
+      ...room.removedItems.map(({ type, item }) => ({
+        cells: [
+          "Removed",
+          `${item.code ? `${item.code} - ` : ""}${item.description}`,
+          type,
+          formatChangeAmount(item.price ?? null),
+          "-",
+        ],
+        textColor: ctx.primary,
+      })),
+      ...room.priceChanges.map(({ type, item, before, after }) => ({
+        cells: [
+          "Price",
+          `${item.code ? `${item.code} - ` : ""}${item.description}`,
+          type,
+          formatChangeAmount(before),
+          formatChangeAmount(after),
+        ],
+      })),
+    ];
+
+    if (rows.length) {
+      drawTable(
+        ctx,
+        [
+          { header: "Change", width: 0.9 },
+          { header: "Item", width: 3.2 },
+          { header: "Type", width: 1 },
+          { header: "Previous", width: 1.2, align: "right" },
+          { header: "Revised", width: 1.2, align: "right" },
+        ],
+        rows
+      );
+    }
+  });
+}
+
+const acceptedAtFormat = new Intl.DateTimeFormat("en-IN", {
+  dateStyle: "long",
+  timeStyle: "long",
+  timeZone: "Asia/Kolkata",
+});
+
+// The last page of an accepted quote: who accepted it, when, from where, and
+// a fingerprint of the content they saw.
+function renderAcceptanceCertificate(ctx: PdfContext, document: QuoteDocument, acceptance: QuoteAcceptance) {
+  const meta = document.meta ?? {};
+  addPage(ctx);
+  writeText(ctx, "Acceptance Certificate", { size: 15, style: "bold", align: "center", spacingAfter: 1 });
+  writeText(ctx, "This quotation was accepted online by the customer.", {
+    size: 8.5,
+    color: COLORS.muted,
+    align: "center",
+    spacingAfter: 4,
+  });
+
+  drawTable(
+    ctx,
+    [
+      { header: "", width: 1.2 },
+      { header: "", width: 3.8 },
+    ],
+    [
+      ["Quotation", meta.quoteNumber || "-"],
+      ["Customer", meta.customer || "-"],
+      ["Total payable", formatMoney(computeQuoteTotals(document.summary, document.meta).totalAfterDiscount)],
+      ["Accepted by", acceptance.name],
+      ["Accepted on", acceptedAtFormat.format(new Date(acceptance.acceptedAt))],
+      ["IP address", acceptance.ip ?? "Not available"],
+      ["Browser", acceptance.userAgent ?? "Not available"],
+      ["Content SHA-256", acceptance.contentHash],
+    ].map(([label, value]) => ({ cells: [{ text: label, bold: true }, value] })),
+    { showHeader: false }
+  );
+
+  writeSectionTitle(ctx, "Signature", 11);
+  if (acceptance.signature.kind === "typed") {
+    ensureSpace(ctx, 16);
+    ctx.pdf.setFont("times", "italic");
+    ctx.pdf.setFontSize(24);
+    ctx.pdf.setTextColor(...COLORS.text);
+    ctx.pdf.text(pdfText(acceptance.signature.text), PAGE_MARGIN, ctx.y + 10);
+    ctx.y += 14;
+  } else {
+    try {
+      const properties = ctx.pdf.getImageProperties(acceptance.signature.image);
+      const width = 70;
+      const height = (properties.height / properties.width) * width;
+      ensureSpace(ctx, height + 2);
+      ctx.pdf.addImage(acceptance.signature.image, "PNG", PAGE_MARGIN, ctx.y, width, height);
+      ctx.y += height + 2;
+    } catch (error) {
+      console.warn("Signature image unreadable, printing the certificate without it:", error);
+      writeText(ctx, "(signature image could not be read)", { size: 8.5, color: COLORS.faint });
+    }
+  }
+  drawRule(ctx);
+  ctx.y += 2;
+  writeText(ctx, acceptance.name, { size: 8.5, color: COLORS.muted });
+}
+
+// Logos are read from public/ and decoded once per path. Keep them small:
+// public/redlogo.png is a 4501px master that takes seconds to decode, which
+// is why the HUB profile points at a trimmed 480px export of it.
+const cachedLogos = new Map<string, { data: Uint8Array; width: number; height: number } | null>();
+
+function loadLogo(pdf: jsPDF, logoPath: string) {
+  const cached = cachedLogos.get(logoPath);
+  if (cached !== undefined) {
+    return cached;
+  }
+  let logo: { data: Uint8Array; width: number; height: number } | null;
+  try {
+    const data = new Uint8Array(readFileSync(path.join(process.cwd(), "public", logoPath)));
+    const properties = pdf.getImageProperties(data);
+    logo = { data, width: properties.width, height: properties.height };
+  } catch (error) {
+    console.warn(`Quote logo ${logoPath} unavailable, rendering PDF without it:`, error);
+    logo = null;
+  }
+  cachedLogos.set(logoPath, logo);
+  return logo;
+}
+
+function footerHeight(lineCount: number) {
+  return Math.max(FOOTER_HEIGHT, 8 + lineCount * FOOTER_LINE_HEIGHT);
+}
+
+function renderPageChrome(ctx: PdfContext, meta: QuoteMetadata, brand: BrandProfile, brandLines: string[]) {
+  const { pdf } = ctx;
+  const pageCount = pdf.getNumberOfPages();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const logo = loadLogo(pdf, brand.logo);
+  const footerLabel = [meta.customer, meta.quoteNumber].filter(Boolean).join("  |  ");
+
+  for (let page = 1; page <= pageCount; page += 1) {
+    pdf.setPage(page);
+
+    if (logo) {
+      const logoHeight = 7;
+      const logoWidth = (logo.width / logo.height) * logoHeight;
+      const format = /\.jpe?g$/i.test(brand.logo) ? "JPEG" : "PNG";
+      pdf.addImage(logo.data, format, PAGE_MARGIN, 9, logoWidth, logoHeight, brand.logo, "FAST");
+    }
+    pdf.setFont(ctx.font, "normal");
+    pdf.setFontSize(8);
+    pdf.setTextColor(...COLORS.faint);
+    pdf.text(pdfText(meta.quoteNumber ? `Quotation ${meta.quoteNumber}` : "Quotation"), pageWidth - PAGE_MARGIN, 15, {
+      align: "right",
+    });
+    pdf.setDrawColor(...COLORS.border);
+    pdf.setLineWidth(0.3);
+    pdf.line(PAGE_MARGIN, 22, pageWidth - PAGE_MARGIN, 22);
+
+    const footerY = pageHeight - ctx.footerHeight + 4;
+    pdf.line(PAGE_MARGIN, footerY - 4, pageWidth - PAGE_MARGIN, footerY - 4);
+    if (footerLabel) {
+      pdf.text(pdfText(footerLabel), PAGE_MARGIN, footerY);
+    }
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, footerY, { align: "right" });
+
+    pdf.setFontSize(6.5);
+    brandLines.forEach((line, index) => {
+      pdf.text(line, PAGE_MARGIN, footerY + (index + 1) * FOOTER_LINE_HEIGHT);
+    });
+    pdf.setFontSize(8);
+  }
+}
+
+/**
+ * Lays out the quote as a vector PDF: real, selectable text with tables that
+ * repeat their header row across page breaks, plus a header and footer on
+ * every page. Passing `changes` appends a comparison with an earlier revision
+ * and `acceptance` a signed acceptance certificate; `brand` supplies the logo,
+ * colours, font and footer, defaulting to HUB.
+ */
+export function renderQuotePdf(
+  document: QuoteDocument,
+  options: {
+    changes?: QuoteDiff | null;
+    policy?: PolicyVersion;
+    brand?: BrandProfile;
+    acceptance?: QuoteAcceptance | null;
+  } = {}
+): ArrayBuffer {
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: "a4" });
+  const meta = document.meta ?? {};
+  const brand = options.brand ?? DEFAULT_BRANDS[0];
+
+  // Long footer text wraps rather than running off the page.
+  pdf.setFontSize(6.5);
+  const brandLines = brandFooterLines(brand).flatMap(
+    (line) => pdf.splitTextToSize(pdfText(line), pdf.internal.pageSize.getWidth() - PAGE_MARGIN * 2) as string[]
+  );
+  const ctx: PdfContext = {
+    pdf,
+    y: CONTENT_TOP,
+    font: BRAND_FONTS[brand.font].pdf,
+    primary: hexToRgb(brand.colors.primary),
+    onPrimary: hexToRgb(brand.colors.onPrimary),
+    footerHeight: footerHeight(brandLines.length),
+  };
+
+  pdf.setProperties({
+    title: meta.quoteNumber ? `Quotation ${meta.quoteNumber}` : "Quotation",
+    subject: meta.customer ? `Quotation for ${meta.customer}` : "Quotation",
+  });
+
+  if (document.meta) {
+    renderHeaderBlock(ctx, meta);
+    renderProjectDetails(ctx, meta);
+  }
+  renderSummary(ctx, document);
+  renderTaxBreakdown(ctx, document, brand);
+  renderRooms(ctx, document);
+  renderPolicies(ctx, document, brandPolicy(options.policy ?? BUILT_IN_POLICY_VERSION, brand));
+  if (options.changes) {
+    renderChanges(ctx, options.changes);
+  }
+  if (options.acceptance) {
+    renderAcceptanceCertificate(ctx, document, options.acceptance);
+  }
+  renderPageChrome(ctx, meta, brand, brandLines);
+
+  return pdf.output("arraybuffer");
+}
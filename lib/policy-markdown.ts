@@ -0,0 +1,126 @@
+import type { PolicyBlock } from "@/lib/quote-policies";
+
+// The policy editor shows each section's blocks as a small markdown dialect:
+//
+//   ### Subheading
+//   - bulleted list item
+//   1. numbered list item
+//   | Label | Value            (consecutive rows form one table)
+//   > muted paragraph
+//   ---                       (divider)
+//   A single line of text is a paragraph; several lines in a row without a
+//   blank line between them are a list without bullets.
+//
+// Blank lines separate blocks.
+
+function flushPlain(lines: string[], blocks: PolicyBlock[]) {
+  if (lines.length === 1) {
+    blocks.push({ kind: "paragraph", text: lines[0] });
+  } else if (lines.length > 1) {
+    blocks.push({ kind: "list", bulleted: false, items: [...lines] });
+  }
+  lines.length = 0;
+}
+
+export function markdownToBlocks(markdown: string): PolicyBlock[] {
+  const blocks: PolicyBlock[] = [];
+  const plain: string[] = [];
+  // The list or table the next line may extend; a blank line closes it.
+  let open: PolicyBlock | null = null;
+
+  markdown.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const previous = open;
+    open = null;
+
+    if (!line) {
+      flushPlain(plain, blocks);
+      return;
+    }
+    if (/^-{3,}$/.test(line)) {
+      flushPlain(plain, blocks);
+      blocks.push({ kind: "divider" });
+      return;
+    }
+    if (line.startsWith("### ")) {
+      flushPlain(plain, blocks);
+      blocks.push({ kind: "subheading", text: line.slice(4).trim() });
+      return;
+    }
+    if (line.startsWith("> ")) {
+      flushPlain(plain, blocks);
+      blocks.push({ kind: "paragraph", text: line.slice(2).trim(), muted: true });
+      return;
+    }
+    if (line.startsWith("- ")) {
+      flushPlain(plain, blocks);
+      const item = line.slice(2).trim();
+      if (previous?.kind === "list" && !previous.numbered) {
+        previous.items.push(item);
+        open = previous;
+      } else {
+        open = { kind: "list", items: [item] };
+        blocks.push(open);
+      }
+      return;
+    }
+    const numbered = /^\d+\.\s+(.+)$/.exec(line);
+    if (numbered) {
+      flushPlain(plain, blocks);
+      if (previous?.kind === "list" && previous.numbered) {
+        previous.items.push(numbered[1].trim());
+        open = previous;
+      } else {
+        open = { kind: "list", items: [numbered[1].trim()], numbered: true };
+        blocks.push(open);
+      }
+      return;
+    }
+    if (line.startsWith("|")) {
+      flushPlain(plain, blocks);
+      // Everything after the second pipe is the value, so values may contain pipes.
+      const cells = line.replace(/^\|/, "").replace(/\|$/, "");
+      const split = cells.indexOf("|");
+      const row = {
+        label: (split === -1 ? cells : cells.slice(0, split)).trim(),
+        value: split === -1 ? "" : cells.slice(split + 1).trim(),
+      };
+      if (previous?.kind === "table") {
+        previous.rows.push(row);
+        open = previous;
+      } else {
+        open = { kind: "table", rows: [row] };
+        blocks.push(open);
+      }
+      return;
+    }
+    plain.push(line);
+  });
+
+  flushPlain(plain, blocks);
+  return blocks;
+}
+
+export function blocksToMarkdown(blocks: PolicyBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.kind) {
+        case "table":
+          return block.rows.map((row) => `| ${row.label} | ${row.value} |`).join("\n");
+        case "list":
+          if (block.numbered) {
+            return block.items.map((item, index) => `${index + 1}. ${item}`).join("\n");
+          }
+          return block.bulleted === false
+            ? block.items.join("\n")
+            : block.items.map((item) => `- ${item}`).join("\n");
+        case "paragraph":
+          return block.muted ? `> ${block.text}` : block.text;
+        case "subheading":
+          return `### ${block.text}`;
+        case "divider":
+          return "---";
+      }
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import {
+  BUILT_IN_POLICY_VERSION,
+  type PolicyContent,
+  type PolicyVersion,
+  type PolicyVersionSummary,
+} from "@/lib/quote-policies";
+import type { QuoteMetadata } from "@/lib/quote";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Published terms are kept one file per version:
+//   <data dir>/policies/<version>.json
+//
+// Version 1 is the built-in content in lib/quote-policies.ts and is never
+// written to disk. Files are only ever added, so a quote can always be
+// re-rendered with the terms it was issued with.
+
+function policiesDir() {
+  return dataPath("policies");
+}
+
+function versionPath(version: number) {
+  return dataPath("policies", `${version}.json`);
+}
+
+async function storedVersions(): Promise<number[]> {
+  try {
+    const entries = await fs.readdir(policiesDir());
+    return entries
+      .map((entry) => /^(\d+)\.json$/.exec(entry)?.[1])
+      .filter((match): match is string => match != null)
+      .map(Number)
+      .sort((a, b) => a - b);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function summarize({ version, publishedAt, note }: PolicyVersion): PolicyVersionSummary {
+  return { version, publishedAt, ...(note ? { note } : {}) };
+}
+
+export async function getPolicyVersion(version: number): Promise<PolicyVersion | null> {
+  if (version === BUILT_IN_POLICY_VERSION.version) {
+    return BUILT_IN_POLICY_VERSION;
+  }
+  if (!Number.isInteger(version) || version < 1) {
+    return null;
+  }
+  return readJsonFile<PolicyVersion>(versionPath(version));
+}
+
+export async function getLatestPolicyVersion(): Promise<PolicyVersion> {
+  const versions = await storedVersions();
+  const latest = versions.length ? await getPolicyVersion(versions[versions.length - 1]) : null;
+  return latest ?? BUILT_IN_POLICY_VERSION;
+}
+
+// Newest first.
+export async function listPolicyVersions(): Promise<PolicyVersionSummary[]> {
+  const versions = await storedVersions();
+  const stored = await Promise.all(versions.map((version) => getPolicyVersion(version)));
+  return [BUILT_IN_POLICY_VERSION, ...stored]
+    .filter((policy): policy is PolicyVersion => policy != null)
+    .map(summarize)
+    .reverse();
+}
+
+// Callers validate with validatePolicyContent first.
+export async function publishPolicyVersion(content: PolicyContent, note?: string): Promise<PolicyVersion> {
+  const latest = await getLatestPolicyVersion();
+  const policy: PolicyVersion = {
+    version: latest.version + 1,
+    publishedAt: new Date().toISOString(),
+    ...(note?.trim() ? { note: note.trim() } : {}),
+    heading: content.heading,
+    sections: content.sections.map(({ id, title, blocks, notes }) => ({
+      id,
+      title: title.trim(),
+      blocks,
+      ...(notes?.length ? { notes } : {}),
+    })),
+    disclaimer: content.disclaimer,
+  };
+  await writeJsonFile(versionPath(policy.version), policy);
+  return policy;
+}
+
+// Quotes are saved with the terms version they were issued with. One saved
+// before the designer touched the terms gets the current version.
+export async function withTermsVersion(meta: QuoteMetadata | null): Promise<QuoteMetadata> {
+  if (meta?.terms) {
+    return meta;
+  }
+  const latest = await getLatestPolicyVersion();
+  return { ...(meta ?? {}), terms: { version: latest.version, excludedSectionIds: [] } };
+}
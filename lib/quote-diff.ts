@@ -0,0 +1,198 @@
+import {
+  computeQuoteTotals,
+  rowTotal,
+  type QuoteDetailItem,
+  type QuoteDocument,
+} from "@/lib/quote";
+
+export type ItemChange = {
+  type: string;
+  item: QuoteDetailItem;
+};
+
+export type PriceChange = {
+  type: string;
+  item: QuoteDetailItem;
+  before: number | null;
+  after: number | null;
+};
+
+export type RoomDiff = {
+  name: string;
+  status: "added" | "removed" | "changed";
+  addedItems: ItemChange[];
+  removedItems: ItemChange[];
+  priceChanges: PriceChange[];
+  totalBefore: number | null;
+  totalAfter: number | null;
+};
+
+export type AmountChange = {
+  label: string;
+  before: number | null;
+  after: number | null;
+};
+
+export type QuoteDiff = {
+  fromRevision: number | null;
+  toRevision: number | null;
+  rooms: RoomDiff[];
+  summaryRows: AmountChange[];
+  totals: AmountChange[];
+  hasChanges: boolean;
+};
+
+type Revisioned = QuoteDocument & { revision?: number };
+
+function normalizeKey(value: string) {
+  return value.trim().toLowerCase();
+}
+
+function itemKey(type: string, item: QuoteDetailItem) {
+  return [type, item.code, item.description, item.size].map(normalizeKey).join("|");
+}
+
+function sameAmount(a: number | null, b: number | null) {
+  if (a == null || b == null) {
+    return a == null && b == null;
+  }
+  return Math.abs(a - b) < 0.005;
+}
+
+function collectItems(document: QuoteDocument, roomName: string) {
+  const room = document.rooms.find((entry) => normalizeKey(entry.name) === normalizeKey(roomName));
+  const byKey = new Map<string, ItemChange[]>();
+  room?.types.forEach((type) => {
+    type.items.forEach((item) => {
+      const key = itemKey(type.type, item);
+      const matches = byKey.get(key) ?? [];
+      matches.push({ type: type.type, item });
+      byKey.set(key, matches);
+    });
+  });
+  return { room, byKey };
+}
+
+function summaryTotalFor(document: QuoteDocument, roomName: string) {
+  const row = document.summary?.rows.find(
+    (entry) => normalizeKey(entry.room) === normalizeKey(roomName)
+  );
+  return row ? rowTotal(row) : null;
+}
+
+function diffRoom(before: QuoteDocument, after: QuoteDocument, roomName: string): RoomDiff | null {
+  const previous = collectItems(before, roomName);
+  const next = collectItems(after, roomName);
+
+  const addedItems: ItemChange[] = [];
+  const removedItems: ItemChange[] = [];
+  const priceChanges: PriceChange[] = [];
+
+  // Items are matched by type, code, description and size; repeated lines pair
+  // up in order so a duplicated unit shows as one addition.
+  const keys = new Set([...previous.byKey.keys(), ...next.byKey.keys()]);
+  keys.forEach((key) => {
+    const oldItems = previous.byKey.get(key) ?? [];
+    const newItems = next.byKey.get(key) ?? [];
+    const paired = Math.min(oldItems.length, newItems.length);
+
+    for (let i = 0; i < paired; i += 1) {
+      const oldPrice = oldItems[i].item.price ?? null;
+      const newPrice = newItems[i].item.price ?? null;
+      if (!sameAmount(oldPrice, newPrice)) {
+        priceChanges.push({
+          type: newItems[i].type,
+          item: newItems[i].item,
+          before: oldPrice,
+          after: newPrice,
+        });
+      }
+    }
+    removedItems.push(...oldItems.slice(paired));
+    addedItems.push(...newItems.slice(paired));
+  });
+
+  const totalBefore = summaryTotalFor(before, roomName);
+  const totalAfter = summaryTotalFor(after, roomName);
+
+  const status = !previous.room && next.room ? "added" : previous.room && !next.room ? "removed" : "changed";
+  if (
+    status === "changed" &&
+    !addedItems.length &&
+    !removedItems.length &&
+    !priceChanges.length &&
+    sameAmount(totalBefore, totalAfter)
+  ) {
+    return null;
+  }
+
+  return {
+    name: next.room?.name ?? previous.room?.name ?? roomName,
+    status,
+    addedItems,
+    removedItems,
+    priceChanges,
+    totalBefore,
+    totalAfter,
+  };
+}
+
+/**
+ * Compares two revisions of a quote room by room: line items added or
+ * removed, item price changes, and the summary totals and discount.
+ */
+export function diffQuotes(before: Revisioned, after: Revisioned): QuoteDiff {
+  const roomNames: string[] = [];
+  const seen = new Set<string>();
+  [...before.rooms, ...after.rooms].forEach((room) => {
+    const key = normalizeKey(room.name);
+    if (!seen.has(key)) {
+      seen.add(key);
+      roomNames.push(room.name);
+    }
+  });
+
+  const rooms = roomNames
+    .map((name) => diffRoom(before, after, name))
+    .filter((room): room is RoomDiff => room != null);
+
+  const summaryRows: AmountChange[] = [];
+  const summaryKeys = new Map<string, string>();
+  [...(before.summary?.rows ?? []), ...(after.summary?.rows ?? [])].forEach((row) => {
+    if (!summaryKeys.has(normalizeKey(row.room))) {
+      summaryKeys.set(normalizeKey(row.room), row.room);
+    }
+  });
+  summaryKeys.forEach((label) => {
+    const previous = summaryTotalFor(before, label);
+    const next = summaryTotalFor(after, label);
+    if (!sameAmount(previous, next)) {
+      summaryRows.push({ label, before: previous, after: next });
+    }
+  });
+
+  const beforeTotals = computeQuoteTotals(before.summary, before.meta);
+  const afterTotals = computeQuoteTotals(after.summary, after.meta);
+  const totals: AmountChange[] = [
+    {
+      label: "Total before discount",
+      before: beforeTotals.totalBeforeDiscount,
+      after: afterTotals.totalBeforeDiscount,
+    },
+    { label: "Discount", before: beforeTotals.discount, after: afterTotals.discount },
+    {
+      label: "Total payable",
+      before: beforeTotals.totalAfterDiscount,
+      after: afterTotals.totalAfterDiscount,
+    },
+  ].filter((change) => !sameAmount(change.before, change.after));
+
+  return {
+    fromRevision: before.revision ?? null,
+    toRevision: after.revision ?? null,
+    rooms,
+    summaryRows,
+    totals,
+    hasChanges: rooms.length > 0 || summaryRows.length > 0 || totals.length > 0,
+  };
+}
@@ -0,0 +1,239 @@
+import {
+  computeQuoteTotals,
+  normalizeRoomName,
+  typeTotal,
+  type QuoteDetailItem,
+  type QuoteMetadata,
+  type QuoteRoom,
+  type QuoteRoomType,
+  type QuoteSummary,
+} from "@/lib/quote";
+
+// Edits the designer makes to line items in the preview. Every function
+// returns a new draft and leaves its input untouched, so React state can hold
+// the result directly.
+//
+// After every edit the totals are recomputed from the rooms: each room's
+// summary row (in its Modules column) moves by the change in what its types
+// add up to (see typeTotal in lib/quote.ts), the subtotal follows, the
+// discount keeps its percentage of the subtotal, and the payable total and the
+// payment milestones follow from those. Cabinet totals from the sq.ft sheets
+// are area based and are not edited here.
+
+export type QuoteDraft = {
+  rooms: QuoteRoom[];
+  summary: QuoteSummary | null;
+  // Carries the designer's discount override, which is rescaled with the rest.
+  meta: QuoteMetadata | null;
+};
+
+export type ItemLocation = {
+  room: string;
+  type: string;
+  index: number;
+};
+
+export type TypeLocation = Omit<ItemLocation, "index">;
+
+export type QuoteEdit = (draft: QuoteDraft) => QuoteDraft;
+
+function emptyType(type: string): QuoteRoomType {
+  return {
+    type,
+    label: type,
+    materials: {},
+    stats: { areaSqFt: null, costPerSqFt: null, total: null },
+    dimensionAggregate: null,
+    items: [],
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function roomTotals(rooms: QuoteRoom[]) {
+  const totals = new Map<string, number>();
+  rooms.forEach((room) => {
+    const key = normalizeRoomName(room.name);
+    const total = room.types.reduce((sum, type) => sum + (typeTotal(type) ?? 0), 0);
+    totals.set(key, (totals.get(key) ?? 0) + total);
+  });
+  return totals;
+}
+
+function shiftRows(summary: QuoteSummary, deltas: Map<string, number>) {
+  // Workbooks without per-room rows get a single "Total" row from the converter.
+  const singleTotalRow = summary.rows.length === 1 && /^total$/i.test(summary.rows[0].room.trim());
+  let unmatched = 0;
+  const rows = summary.rows.map((row) => ({ ...row }));
+  deltas.forEach((delta, key) => {
+    const row = singleTotalRow ? rows[0] : rows.find((candidate) => normalizeRoomName(candidate.room) === key);
+    if (!row) {
+      unmatched += delta;
+      return;
+    }
+    row.modules += delta;
+    if (row.total != null) {
+      row.total += delta;
+    }
+  });
+  return { rows, unmatched };
+}
+
+/**
+ * Rebuilds the summary of a draft whose rooms were edited. The change in each
+ * room's total is applied to its summary row and to the subtotal; a room
+ * without a row still moves the subtotal. The discount, whether read from the
+ * workbook or set by the designer, is scaled so it stays the same percentage
+ * of the new subtotal.
+ */
+function reprice(draft: QuoteDraft, rooms: QuoteRoom[]): QuoteDraft {
+  const { summary, meta } = draft;
+  const before = roomTotals(draft.rooms);
+  const after = roomTotals(rooms);
+  const deltas = new Map<string, number>();
+  new Set([...before.keys(), ...after.keys()]).forEach((key) => {
+    const delta = (after.get(key) ?? 0) - (before.get(key) ?? 0);
+    if (delta !== 0) {
+      deltas.set(key, delta);
+    }
+  });
+  if (!summary || deltas.size === 0) {
+    return { rooms, summary, meta };
+  }
+
+  const previous = computeQuoteTotals(summary, meta);
+  const { rows, unmatched } = shiftRows(summary, deltas);
+  const totalDelta = Array.from(deltas.values()).reduce((sum, delta) => sum + delta, 0);
+  const subtotal = summary.subtotal != null ? summary.subtotal + totalDelta : undefined;
+  const next = computeQuoteTotals({ ...summary, rows, subtotal }, meta);
+  // Without a subtotal the rows are the subtotal; a room missing from them still counts.
+  const newBase = (next.totalBeforeDiscount ?? 0) + (summary.subtotal == null ? unmatched : 0);
+  const scale =
+    previous.totalBeforeDiscount && newBase > 0 ? newBase / previous.totalBeforeDiscount : null;
+  const rescale = (discount: number | undefined) =>
+    discount != null && scale != null ? round(discount * scale) : discount;
+
+  const discount = rescale(summary.discount);
+  const discountOverride = rescale(meta?.discountAmount);
+  const discountDelta = (discountOverride ?? discount ?? 0) - (previous.discount ?? 0);
+  return {
+    rooms,
+    summary: {
+      ...summary,
+      rows,
+      subtotal,
+      discount,
+      totalPayable:
+        summary.totalPayable != null ? Math.max(summary.totalPayable + totalDelta - discountDelta, 0) : undefined,
+    },
+    meta: meta && discountOverride !== meta.discountAmount ? { ...meta, discountAmount: discountOverride } : meta,
+  };
+}
+
+function mapType(
+  rooms: QuoteRoom[],
+  location: TypeLocation,
+  update: (type: QuoteRoomType) => QuoteRoomType | null
+) {
+  return rooms.map((room) => {
+    if (room.name !== location.room) {
+      return room;
+    }
+    const types = room.types.flatMap((type) => {
+      if (type.type !== location.type) {
+        return [type];
+      }
+      const next = update(type);
+      return next ? [next] : [];
+    });
+    return { ...room, types };
+  });
+}
+
+function findItem(draft: QuoteDraft, location: ItemLocation) {
+  return draft.rooms
+    .find((room) => room.name === location.room)
+    ?.types.find((type) => type.type === location.type)?.items[location.index];
+}
+
+// A type that only existed to hold items goes away with its last item.
+function dropIfEmpty(type: QuoteRoomType) {
+  const hasDetails = Object.keys(type.materials).length > 0 || type.stats.total != null;
+  return type.items.length || hasDetails ? type : null;
+}
+
+export function updateItem(location: ItemLocation, changes: Partial<QuoteDetailItem>): QuoteEdit {
+  return (draft) => {
+    const current = findItem(draft, location);
+    if (!current) {
+      return draft;
+    }
+    const next = { ...current, ...changes };
+    return reprice(
+      draft,
+      mapType(draft.rooms, location, (type) => ({
+        ...type,
+        items: type.items.map((item, index) => (index === location.index ? next : item)),
+      }))
+    );
+  };
+}
+
+export function addItem(location: TypeLocation, item?: Partial<QuoteDetailItem>): QuoteEdit {
+  return (draft) => {
+    const added: QuoteDetailItem = { code: "", description: "", size: "", ...item };
+    return reprice(
+      draft,
+      mapType(draft.rooms, location, (type) => ({ ...type, items: [...type.items, added] }))
+    );
+  };
+}
+
+export function deleteItem(location: ItemLocation): QuoteEdit {
+  return (draft) => {
+    if (!findItem(draft, location)) {
+      return draft;
+    }
+    return reprice(
+      draft,
+      mapType(draft.rooms, location, (type) =>
+        dropIfEmpty({ ...type, items: type.items.filter((_item, index) => index !== location.index) })
+      )
+    );
+  };
+}
+
+/**
+ * Moves an item to another type and/or room, creating the type in the target
+ * room when it has none yet. The price moves with it between summary rows.
+ */
+export function moveItem(location: ItemLocation, target: TypeLocation): QuoteEdit {
+  return (draft) => {
+    const current = findItem(draft, location);
+    const targetRoom = draft.rooms.find((room) => room.name === target.room);
+    if (!current || !targetRoom || (location.room === target.room && location.type === target.type)) {
+      return draft;
+    }
+
+    let rooms = mapType(draft.rooms, location, (type) =>
+      dropIfEmpty({ ...type, items: type.items.filter((_item, index) => index !== location.index) })
+    );
+    rooms = rooms.map((room) => {
+      if (room.name !== target.room) {
+        return room;
+      }
+      const types = room.types.some((type) => type.type === target.type)
+        ? room.types
+        : [...room.types, emptyType(target.type)].sort((a, b) => a.type.localeCompare(b.type));
+      return {
+        ...room,
+        types: types.map((type) =>
+          type.type === target.type ? { ...type, items: [...type.items, current] } : type
+        ),
+      };
+    });
+    return reprice(draft, rooms);
+  };
+}
@@ -0,0 +1,75 @@
+import { findBrand, type BrandProfile } from "@/lib/brand";
+import { getBrandProfiles } from "@/lib/brand-store";
+import { renderQuotePdf } from "@/lib/pdf/render-quote-pdf";
+import { getLatestPolicyVersion, getPolicyVersion, withTermsVersion } from "@/lib/policy-store";
+import type { QuoteMetadata } from "@/lib/quote";
+import type { PolicyVersion } from "@/lib/quote-policies";
+import type { StoredQuote } from "@/lib/quote-store";
+import type { WorkbookConversion } from "@/lib/workbook-conversion";
+
+export type PdfBranding = { policy: PolicyVersion; brand: BrandProfile };
+
+/**
+ * Loads the terms version and brand a quote renders with. Quotes keep the
+ * terms they were issued with; an unknown version or brand is an error rather
+ * than a silent fallback.
+ */
+export async function resolvePdfBranding(meta: QuoteMetadata | null): Promise<PdfBranding | { error: string }> {
+  const termsVersion = meta?.terms?.version;
+  const policy =
+    termsVersion != null ? await getPolicyVersion(termsVersion) : await getLatestPolicyVersion();
+  if (!policy) {
+    return { error: `Terms version ${termsVersion} does not exist.` };
+  }
+
+  const { brands } = await getBrandProfiles();
+  const brandId = meta?.brandId;
+  if (brandId && !brands.some((brand) => brand.id === brandId)) {
+    return { error: `Brand "${brandId}" does not exist.` };
+  }
+  return { policy, brand: findBrand(brands, brandId) };
+}
+
+// Renders a saved quote as stored, with its acceptance certificate if any.
+export async function renderStoredQuotePdf(quote: StoredQuote) {
+  const branding = await resolvePdfBranding(quote.meta);
+  if ("error" in branding) {
+    throw new Error(branding.error);
+  }
+  const pdf = renderQuotePdf(
+    { rooms: quote.rooms, meta: quote.meta, summary: quote.summary },
+    { ...branding, acceptance: quote.acceptance ?? null }
+  );
+  return { pdf, brand: branding.brand };
+}
+
+/**
+ * Renders a freshly converted workbook the way its first preview looks: a
+ * draft whose workbook terms print next to the standard ones.
+ */
+export async function renderConversionPdf(
+  conversion: WorkbookConversion,
+  brandId: string | null
+): Promise<{ pdf: ArrayBuffer; meta: QuoteMetadata } | { error: string }> {
+  const meta = await withTermsVersion({
+    ...(conversion.meta as QuoteMetadata),
+    quoteStatus: "Draft",
+    ...(brandId ? { brandId } : {}),
+    ...(conversion.terms.length
+      ? {
+          terms: {
+            version: (await getLatestPolicyVersion()).version,
+            excludedSectionIds: [],
+            workbookSections: conversion.terms,
+            source: "merged" as const,
+          },
+        }
+      : {}),
+  });
+  const branding = await resolvePdfBranding(meta);
+  if ("error" in branding) {
+    return branding;
+  }
+  const pdf = renderQuotePdf({ rooms: conversion.rooms, meta, summary: conversion.summary }, branding);
+  return { pdf, meta };
+}
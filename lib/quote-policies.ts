@@ -0,0 +1,395 @@
+// Standard policy and material content printed after the room breakdown.
+// Both the on-screen preview and the server-rendered PDF render the same
+// version of it so the two outputs never drift apart.
+
+import type { PolicyBlock, PolicySection } from "@/lib/quote-schema";
+
+// Workbook terms come back from /api/convert, so their shapes live with its schema.
+export type { PolicyBlock, PolicySection } from "@/lib/quote-schema";
+
+// The payment schedule table is computed per quote; this section only carries
+// its surrounding notes and marks where the table goes.
+export const PAYMENT_SCHEDULE_SECTION_ID = "payment-schedule";
+
+export const POLICIES_HEADING = {
+  title: "Project Policies & Materials",
+  subtitle: "Specifications, materials, and policies governing design, installation, and service.",
+};
+
+export const POLICY_SECTIONS: PolicySection[] = [
+  {
+    id: "core-materials",
+    title: "Core Materials",
+    blocks: [
+      {
+        kind: "table",
+        rows: [
+          {
+            label: "Core Materials (Kitchen base unit, Bathroom Vanity Carcass, etc.)",
+            value: "Century BWP (IS-710 Grade)",
+          },
+          {
+            label: "Dry Areas (Wardrobe & Lofts, TV units,etc)",
+            value: "Century Sainik MR (ISI-303)",
+          },
+        ],
+      },
+    ],
+    notes: [
+      "ALL MODULES CAN BE CUSTOMIZED AS PER REQUIREMENT / ACTUAL SIZE",
+      "Note: Plywood is not suggested for shutters, as they bend over time. HDHMR Pro is a better alternative & recommended.",
+    ],
+  },
+  {
+    id: "material-thickness",
+    title: "Material Thickness",
+    blocks: [
+      {
+        kind: "table",
+        rows: [
+          { label: "Front Shutters, Doors, Exterior Frame", value: "18mm (Including laminate)" },
+          { label: "Back panels & below drawer panel", value: "8mm (Including Laminate)" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "core-material-brands",
+    title: "Core Material Brands",
+    blocks: [
+      {
+        kind: "table",
+        rows: [
+          { label: "BWP (Boiling water proof)", value: "Century Club Prime" },
+          { label: "MR (Moisture Resistance)", value: "Century Sainik" },
+          { label: "HDHMR Pro", value: "Action Tesa" },
+          { label: "MDF", value: "Action Tesa / Green Panel" },
+          { label: "Edge Banding (Outside)", value: "Rehau (2mm Exterior)" },
+          { label: "Edge Banding (Inside)", value: "Rehau (0.8mm Exterior)" },
+        ],
+      },
+    ],
+    notes: ["We recommend checking physical samples of all finish options at our experience centers."],
+  },
+  {
+    id: "finish-options",
+    title: "Finish Options",
+    blocks: [
+      {
+        kind: "list",
+        bulleted: false,
+        items: [
+          "Outside Laminates: 1 mm thickness, choose from 200+ options. Prices vary by laminate range.",
+          "Brand Options: Laminates sourced from Merino, Greenlam, Royale Touche, Dorby. Edge bands are pre-matched where available.",
+          "Additional laminate options may incur higher pricing and timelines due to availability and optimization.",
+          "Other finishes such as Veneer/Membrane/Acrylic/Duco/PU available at extra cost.",
+          "Inside Laminates: 0.72 mm white by default. Choose from 30+ options (price varies with selection).",
+        ],
+      },
+    ],
+  },
+  {
+    id: "adhesive-accessories",
+    title: "Adhesive & Accessories",
+    blocks: [
+      { kind: "subheading", text: "Adhesive" },
+      { kind: "paragraph", text: "Brand: Fevicol" },
+      { kind: "divider" },
+      { kind: "subheading", text: "Accessories Included" },
+      {
+        kind: "list",
+        items: [
+          "Shutter Hinges: Hettich, Ebco, Häfele",
+          "Drawer Channels: Hettich, Ebco, Häfele",
+          "Soft-close options available at extra cost",
+          "Glass & Mirror: Saint Gobain / Modi Guard (additional charges)",
+          "Hettich is default; other brands available with price variance",
+        ],
+      },
+    ],
+  },
+  {
+    id: "design-information",
+    title: "Design Information",
+    blocks: [
+      {
+        kind: "list",
+        items: [
+          "Manufacturing Type: Fully modular by default; customizable during design phase.",
+          "Wardrobe internal design includes 1 drawer & two shelves by default; final cost as per selection.",
+          "70+ optimized wardrobe internal presets available.",
+          "Custom non-optimized designs possible with additional timeline and pricing.",
+          "Mirrors chargeable if required.",
+          "Detachable modular kitchen skirting provided based on site conditions (wooden skirting by default).",
+          "All dimensions can be customized; new designs may require extra timeline.",
+          "Manual works (strip laminate designs, etc.) charged extra.",
+        ],
+      },
+    ],
+  },
+  {
+    id: "site-usage",
+    title: "Site Usage & Terms",
+    blocks: [
+      { kind: "subheading", text: "Flat Usage" },
+      {
+        kind: "paragraph",
+        text: "Workers require electrical & water connections and one bathroom during the project schedule.",
+      },
+      { kind: "subheading", text: "Design Sign-off Terms" },
+      {
+        kind: "list",
+        items: [
+          "Laminate colors may vary from renders; check samples before finalizing.",
+          "Wood grain laminates: review full sheet if required before production.",
+          "Closest matching Rehau edge banding used; customization not available.",
+          "No design changes permitted after sign-off & material procurement.",
+        ],
+      },
+      { kind: "subheading", text: "Cleaning" },
+      {
+        kind: "paragraph",
+        text: "One-time professional cleaning (furniture, bathrooms, debris removal) provided at project end. Interim cleaning for occasions such as Pooja is chargeable.",
+      },
+      { kind: "subheading", text: "Final Coat of Paint" },
+      {
+        kind: "list",
+        items: [
+          "Recommended after interior completion to address installation marks.",
+          "Cost excluded unless specified in quote.",
+          "False ceiling painting included if opted.",
+        ],
+      },
+    ],
+  },
+  {
+    id: "post-handover-service",
+    title: "Post Handover Service",
+    blocks: [
+      {
+        kind: "list",
+        items: [
+          "Raise issues via {{email}} after handover.",
+          "Two free service visits within 12 months for routine maintenance & alignments.",
+          "Post-free period visits charged at ₹499 (alignment only; replacements extra).",
+          "Warranty replacements covered without service fee; non-warranty replacements chargeable in addition to the service fee.",
+        ],
+      },
+    ],
+  },
+  {
+    id: "warranty",
+    title: "Warranty",
+    blocks: [
+      {
+        kind: "list",
+        items: [
+          "Modular units: 10-year product warranty against manufacturing defects.",
+          "Hardware, accessories & appliances: as per manufacturer warranty.",
+          "Mirrors & glass excluded post handover.",
+          "Warranty void for third-party components, force majeure, negligence, water damage, misuse, accidents, or tampering.",
+          "Does not cover solid wood furniture, civil works, electrical fittings, paint/polish, or non-branded accessories.",
+          "{{brand}} not liable for loss or damage from force majeure events.",
+        ],
+      },
+    ],
+  },
+  {
+    id: PAYMENT_SCHEDULE_SECTION_ID,
+    title: "Payment Schedule",
+    blocks: [],
+    notes: [
+      "Works like electrical, plumbing, painting, countertops, tiling, false ceiling, etc., are considered under civil work.",
+      "Non-modular products include appliances, fixtures, lighting, decor items, wallpapers, wooden flooring, blinds, curtains, readymade furniture, etc.",
+      "* NEFT/IMPS accepted. Card/NetBanking attracts 2% convenience fee (waived for first 10% tranche).",
+    ],
+  },
+  {
+    id: "cancellation",
+    title: "Cancellation & Scope Change",
+    blocks: [
+      {
+        kind: "list",
+        items: [
+          "Booking: 100% design advance refundable if {{brand}} can't match a valid competitor quote within 24 hours.",
+          "Design Stage: No refunds.",
+          "Production Stage: No refunds after materials are ordered.",
+          "Refunds (if applicable) processed post execution of refund deed within 21 working days after finance confirmation.",
+          "Descoping > ₹1 lakh during design incurs charges via discount reduction; no descoping post production or during installation.",
+        ],
+      },
+    ],
+  },
+  {
+    id: "delivery-installation",
+    title: "Delivery & Installation",
+    blocks: [
+      {
+        kind: "paragraph",
+        text: "Delivery and installation occur on/before the timeline communicated via email, at the provided address.",
+      },
+      {
+        kind: "paragraph",
+        text: "Delivery date calculated post the following \"All-Set-Go\" conditions:",
+      },
+      {
+        kind: "list",
+        items: [
+          "Both parties sign off final designs & specifications.",
+          "Site readiness checklist met; additional unloading charges may apply if no lift is available.",
+          "All milestone payments received and acknowledged by {{brand}}.",
+          "Customer hands over site meeting all contractual conditions.",
+          "Customer agrees not to solicit vendors outside {{brand}}'s approved scope without written consent.",
+        ],
+      },
+      {
+        kind: "paragraph",
+        muted: true,
+        text: "* Disclaiming of Liability: {{brand}} is not liable for products/services from non-approved vendors or where approved vendors act outside assigned scope. Any third-party arrangements are at the customer's risk and lie outside {{brand}}'s warranty.",
+      },
+    ],
+  },
+];
+
+export const QUOTE_DISCLAIMER = {
+  title: "Disclaimer of Liability",
+  text: "{{brand}} shall not be liable in any manner for any products or services provided by vendors, contractors, or agencies who are referred to the customer but are not formally registered as approved vendors with {{brand}}, or where approved vendors act outside their allocated scope. All quotations, negotiations, payments, commitments, or arrangements with such third parties are at the customer's own risk. {{brand}}'s warranty and service obligations do not extend to such products or services, and no statement or referral shall be construed as binding on {{brand}}.",
+};
+
+// Everything above is version 1 of the terms. Admins publish later versions
+// from /settings/policies; published versions never change, and each quote
+// records the version it was issued with.
+export type PolicyContent = {
+  heading: { title: string; subtitle: string };
+  sections: PolicySection[];
+  disclaimer: { title: string; text: string };
+};
+
+export type PolicyVersion = PolicyContent & {
+  version: number;
+  // Null for the built-in version.
+  publishedAt: string | null;
+  note?: string;
+};
+
+export type PolicyVersionSummary = Pick<PolicyVersion, "version" | "publishedAt" | "note">;
+
+// Which terms a quote prints when its workbook has a terms sheet of its own:
+// the standard sections, the workbook's, or both (workbook clauses under a
+// heading the standard terms also use are added to that section).
+export type TermsSource = "standard" | "workbook" | "merged";
+
+// Stored in quote metadata: the terms version and the sections left out of
+// this quote. Quotes without it use the latest version with every section.
+export type QuoteTerms = {
+  version: number;
+  excludedSectionIds: string[];
+  workbookSections?: PolicySection[];
+  source?: TermsSource;
+};
+
+export const BUILT_IN_POLICY_VERSION: PolicyVersion = {
+  version: 1,
+  publishedAt: null,
+  heading: POLICIES_HEADING,
+  sections: POLICY_SECTIONS,
+  disclaimer: QUOTE_DISCLAIMER,
+};
+
+function sectionKey(title: string) {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Every section the quote could print, before the designer leaves any out.
+export function availableSections(policy: PolicyContent, terms: QuoteTerms | null | undefined) {
+  const workbook = terms?.workbookSections ?? [];
+  const source = workbook.length ? (terms?.source ?? "standard") : "standard";
+
+  if (source === "workbook") {
+    // The payment schedule table is printed inside its section, so it stays.
+    return [...workbook, ...policy.sections.filter((section) => section.id === PAYMENT_SCHEDULE_SECTION_ID)];
+  }
+  if (source === "merged") {
+    const byTitle = new Map(workbook.map((section) => [sectionKey(section.title), section]));
+    const merged = policy.sections.map((section) => {
+      const extra = byTitle.get(sectionKey(section.title));
+      byTitle.delete(sectionKey(section.title));
+      return extra ? { ...section, blocks: [...section.blocks, ...extra.blocks] } : section;
+    });
+    return [...merged, ...byTitle.values()];
+  }
+  return policy.sections;
+}
+
+export function includedSections(policy: PolicyContent, terms: QuoteTerms | null | undefined) {
+  const excluded = new Set(terms?.excludedSectionIds ?? []);
+  return availableSections(policy, terms).filter((section) => !excluded.has(section.id));
+}
+
+const BLOCK_KINDS = new Set<PolicyBlock["kind"]>(["table", "list", "paragraph", "subheading", "divider"]);
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+function blockProblem(block: Partial<PolicyBlock> | null): string | null {
+  if (!block || !BLOCK_KINDS.has(block.kind as PolicyBlock["kind"])) {
+    return "has a block of unknown kind";
+  }
+  switch (block.kind) {
+    case "table":
+      return Array.isArray(block.rows) &&
+        block.rows.every((row) => typeof row?.label === "string" && typeof row?.value === "string")
+        ? null
+        : "has a table row without a label and value";
+    case "list":
+      return isStringArray(block.items) && block.items.length ? null : "has an empty list";
+    case "paragraph":
+    case "subheading":
+      return typeof block.text === "string" && block.text.trim() ? null : "has an empty line of text";
+    default:
+      return null;
+  }
+}
+
+export function validatePolicyContent(content: Partial<PolicyContent> | null): string | null {
+  if (typeof content?.heading?.title !== "string" || typeof content.heading.subtitle !== "string") {
+    return "The policies heading needs a title and subtitle.";
+  }
+  if (typeof content.disclaimer?.title !== "string" || typeof content.disclaimer.text !== "string") {
+    return "The disclaimer needs a title and text.";
+  }
+  if (!Array.isArray(content.sections) || !content.sections.length) {
+    return "Keep at least one policy section.";
+  }
+
+  const ids = new Set<string>();
+  for (const section of content.sections as Array<Partial<PolicySection> | null>) {
+    if (typeof section?.id !== "string" || !/^[a-z0-9-]{1,64}$/.test(section.id)) {
+      return "Section ids must be 1-64 lowercase letters, digits or dashes.";
+    }
+    if (ids.has(section.id)) {
+      return `Section id "${section.id}" is used more than once.`;
+    }
+    ids.add(section.id);
+    if (typeof section.title !== "string" || !section.title.trim()) {
+      return `Section "${section.id}" needs a title.`;
+    }
+    if (!Array.isArray(section.blocks)) {
+      return `Section "${section.title}" has no content.`;
+    }
+    for (const block of section.blocks) {
+      const problem = blockProblem(block);
+      if (problem) {
+        return `Section "${section.title}" ${problem}.`;
+      }
+    }
+    if (section.notes != null && !isStringArray(section.notes)) {
+      return `Section "${section.title}" has invalid notes.`;
+    }
+  }
+  if (!ids.has(PAYMENT_SCHEDULE_SECTION_ID)) {
+    return `Keep the "${PAYMENT_SCHEDULE_SECTION_ID}" section; the payment schedule table is printed in it.`;
+  }
+  return null;
+}
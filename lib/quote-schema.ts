@@ -0,0 +1,279 @@
+import { z } from "zod";
+
+// The contract of /api/convert. The quote types in lib/quote.ts and
+// lib/quote-policies.ts are inferred from these schemas, the typed client in
+// lib/convert-client.ts checks responses against them, and /api/schema
+// publishes them as an OpenAPI document for integrators.
+//
+// Every /api/convert response is wrapped in an envelope carrying
+// `apiVersion`. The version goes up when a field is removed or changes
+// meaning; new optional fields keep the version.
+
+export const CONVERT_API_VERSION = 1;
+
+// Schemas registered here are published under components/schemas by their id.
+export const convertApiRegistry = z.registry<{ id: string; description?: string }>();
+
+export const quoteDetailItemSchema = z
+  .object({
+    code: z.string(),
+    description: z.string(),
+    size: z.string(),
+    price: z.number().optional(),
+  })
+  .register(convertApiRegistry, { id: "QuoteDetailItem", description: "One line item of a room." });
+
+export const quoteRoomTypeSchema = z
+  .object({
+    type: z.string(),
+    label: z.string(),
+    materials: z.record(z.string(), z.string()),
+    stats: z.object({
+      areaSqFt: z.number().nullable(),
+      costPerSqFt: z.number().nullable(),
+      total: z.number().nullable(),
+    }),
+    dimensionAggregate: z.number().nullable(),
+    items: z.array(quoteDetailItemSchema),
+  })
+  .register(convertApiRegistry, {
+    id: "QuoteRoomType",
+    description: "A category within a room, such as base units, with its materials, cabinet stats and items.",
+  });
+
+export const quoteRoomSchema = z
+  .object({
+    name: z.string(),
+    types: z.array(quoteRoomTypeSchema),
+  })
+  .register(convertApiRegistry, { id: "QuoteRoom" });
+
+export const roomSummaryRowSchema = z
+  .object({
+    room: z.string(),
+    modules: z.number(),
+    accessories: z.number(),
+    appliances: z.number(),
+    services: z.number(),
+    furniture: z.number(),
+    worktops: z.number(),
+    total: z.number().optional(),
+  })
+  .register(convertApiRegistry, { id: "RoomSummaryRow", description: "One room's row of the summary sheet." });
+
+export const quoteSummarySchema = z
+  .object({
+    rows: z.array(roomSummaryRowSchema),
+    subtotal: z.number().optional(),
+    totalPayable: z.number().optional(),
+    discount: z.number().optional(),
+  })
+  .register(convertApiRegistry, { id: "QuoteSummary", description: "The workbook's summary sheet." });
+
+export const workbookMetadataSchema = z
+  .object({
+    reference: z.string().optional(),
+    customer: z.string().optional(),
+    designerName: z.string().optional(),
+    designerEmail: z.string().optional(),
+    designerPhone: z.string().optional(),
+    quoteDate: z.string().optional(),
+    quoteValidTill: z.string().optional(),
+    priceVersion: z.string().optional(),
+    propertyName: z.string().optional(),
+    totalBuiltUpArea: z.string().optional(),
+    propertyConfig: z.string().optional(),
+    quoteStatus: z.string().optional(),
+    address: z.string().optional(),
+    quoteNumber: z.string().optional(),
+    totalProjectCost: z.number().optional(),
+  })
+  .register(convertApiRegistry, {
+    id: "WorkbookMetadata",
+    description: "Header fields read from the workbook. Fields the workbook does not have are left out.",
+  });
+
+export const parseDiagnosticSchema = z
+  .object({
+    sheet: z.string().nullable(),
+    row: z.number().int().nullable(),
+    severity: z.enum(["error", "warning", "info"]),
+    reason: z.string(),
+    values: z.array(z.string()),
+  })
+  .register(convertApiRegistry, {
+    id: "ParseDiagnostic",
+    description: "A row that was skipped or could not be matched. `row` is the 1-based worksheet row.",
+  });
+
+export const policyBlockSchema = z
+  .discriminatedUnion("kind", [
+    z.object({ kind: z.literal("table"), rows: z.array(z.object({ label: z.string(), value: z.string() })) }),
+    z.object({
+      kind: z.literal("list"),
+      items: z.array(z.string()),
+      bulleted: z.boolean().optional(),
+      numbered: z.boolean().optional(),
+    }),
+    z.object({ kind: z.literal("paragraph"), text: z.string(), muted: z.boolean().optional() }),
+    z.object({ kind: z.literal("subheading"), text: z.string() }),
+    z.object({ kind: z.literal("divider") }),
+  ])
+  .register(convertApiRegistry, { id: "PolicyBlock" });
+
+export const policySectionSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    blocks: z.array(policyBlockSchema),
+    notes: z.array(z.string()).optional(),
+  })
+  .register(convertApiRegistry, { id: "PolicySection", description: "A section of the quote's terms." });
+
+export const convertResultSchema = z
+  .object({
+    rooms: z.array(quoteRoomSchema),
+    meta: workbookMetadataSchema,
+    summary: quoteSummarySchema.nullable(),
+    profile: z.object({
+      id: z.string(),
+      name: z.string(),
+      // Whether the layout was detected rather than requested.
+      detected: z.boolean(),
+    }),
+    terms: z.array(policySectionSchema),
+    diagnostics: z.array(parseDiagnosticSchema),
+  })
+  .register(convertApiRegistry, { id: "ConvertResult", description: "A converted workbook." });
+
+export const convertSuccessSchema = z
+  .object({
+    apiVersion: z.literal(CONVERT_API_VERSION),
+    ok: z.literal(true),
+    data: convertResultSchema,
+  })
+  .register(convertApiRegistry, { id: "ConvertSuccess" });
+
+export const convertFailureSchema = z
+  .object({
+    apiVersion: z.literal(CONVERT_API_VERSION),
+    ok: z.literal(false),
+    error: z.string(),
+    // The parse report so far, when the workbook was read but had nothing to quote.
+    diagnostics: z.array(parseDiagnosticSchema).optional(),
+  })
+  .register(convertApiRegistry, { id: "ConvertFailure" });
+
+export const convertResponseSchema = z
+  .discriminatedUnion("ok", [convertSuccessSchema, convertFailureSchema])
+  .register(convertApiRegistry, { id: "ConvertResponse" });
+
+export type QuoteDetailItem = z.infer<typeof quoteDetailItemSchema>;
+export type QuoteRoomType = z.infer<typeof quoteRoomTypeSchema>;
+export type QuoteRoom = z.infer<typeof quoteRoomSchema>;
+export type RoomSummaryRow = z.infer<typeof roomSummaryRowSchema>;
+export type QuoteSummary = z.infer<typeof quoteSummarySchema>;
+export type WorkbookMetadata = z.infer<typeof workbookMetadataSchema>;
+export type ParseDiagnostic = z.infer<typeof parseDiagnosticSchema>;
+export type PolicyBlock = z.infer<typeof policyBlockSchema>;
+export type PolicySection = z.infer<typeof policySectionSchema>;
+export type ConvertResult = z.infer<typeof convertResultSchema>;
+export type ConvertSuccess = z.infer<typeof convertSuccessSchema>;
+export type ConvertFailure = z.infer<typeof convertFailureSchema>;
+export type ConvertResponse = z.infer<typeof convertResponseSchema>;
+
+export function convertSuccess(data: ConvertResult): ConvertSuccess {
+  return { apiVersion: CONVERT_API_VERSION, ok: true, data };
+}
+
+export function convertFailure(error: string, diagnostics?: ParseDiagnostic[]): ConvertFailure {
+  return { apiVersion: CONVERT_API_VERSION, ok: false, error, ...(diagnostics ? { diagnostics } : {}) };
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/ConvertFailure" } } },
+});
+
+/**
+ * The OpenAPI 3.1 document served at /api/schema. Its component schemas are
+ * JSON Schema (draft 2020-12) generated from the schemas above.
+ */
+export function convertApiDocument() {
+  const { schemas } = z.toJSONSchema(convertApiRegistry, {
+    uri: (id) => `#/components/schemas/${id}`,
+    metadata: convertApiRegistry,
+    // Parsing drops unknown fields rather than rejecting them, so the
+    // published schemas allow them too and new optional fields stay compatible.
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.additionalProperties === false) {
+        delete jsonSchema.additionalProperties;
+      }
+    },
+  });
+  // Components sit inside the document, so they need no dialect or id of their own.
+  const components = Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const component = { ...schema };
+      delete component.$schema;
+      delete component.$id;
+      delete component.id;
+      return [id, component];
+    })
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Quote conversion API",
+      version: String(CONVERT_API_VERSION),
+      description:
+        "Converts a quotation workbook into rooms, header fields, summary financials, terms and a parse report. Requests need a signed-in session.",
+    },
+    paths: {
+      "/api/convert": {
+        post: {
+          operationId: "convertWorkbook",
+          summary: "Convert a workbook",
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    file: {
+                      type: "string",
+                      contentMediaType: "application/octet-stream",
+                      description: "An .xlsx, .xls, .xlsm or .ods workbook, or a ZIP of one CSV per sheet, of up to 4 MB.",
+                    },
+                    uploadId: {
+                      type: "string",
+                      description: "A workbook uploaded through /api/upload-chunk, instead of `file`.",
+                    },
+                    profile: {
+                      type: "string",
+                      default: "auto",
+                      description: 'A parsing profile id, or "auto" to detect the layout.',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "The converted workbook.",
+              content: { "application/json": { schema: { $ref: "#/components/schemas/ConvertSuccess" } } },
+            },
+            "400": errorResponse("The upload is missing or unreadable, or nothing in it could be quoted."),
+            "401": { description: "Not signed in." },
+            "413": errorResponse("The file is too large to send directly; upload it in chunks."),
+            "500": errorResponse("The workbook could not be processed."),
+          },
+        },
+      },
+    },
+    components: { schemas: components },
+  };
+}
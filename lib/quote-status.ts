@@ -0,0 +1,97 @@
+import { computeQuoteTotals, type QuoteDocument, type QuoteMetadata } from "@/lib/quote";
+
+// The workflow a saved quote moves through. The status is kept in
+// `QuoteMetadata.quoteStatus` and only changes through these transitions.
+
+export const QUOTE_STATUSES = [
+  "Draft",
+  "Pending Approval",
+  "Approved",
+  "Sent",
+  "Accepted",
+  "Rejected",
+  "Expired",
+] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+// Accepted is reached only through the customer's share link.
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  Draft: ["Pending Approval", "Sent"],
+  "Pending Approval": ["Approved", "Draft"],
+  Approved: ["Sent", "Draft"],
+  Sent: ["Accepted", "Rejected", "Expired", "Draft"],
+  Accepted: [],
+  Rejected: ["Draft"],
+  Expired: ["Draft"],
+};
+
+// A manager's sign-off on the discount as it stood when they approved it.
+export type QuoteApproval = {
+  approvedBy: string;
+  approvedAt: string;
+  discountPercent: number;
+};
+
+export type ApprovalSettings = {
+  // Discounts above this share of the subtotal need a manager's approval.
+  discountThresholdPercent: number;
+  updatedAt: string | null;
+};
+
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  discountThresholdPercent: 10,
+  updatedAt: null,
+};
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+// Workbooks carry free-text statuses; anything outside the workflow is a draft.
+export function quoteStatusOf(meta: QuoteMetadata | null | undefined): QuoteStatus {
+  const value = meta?.quoteStatus?.trim().toLowerCase();
+  return QUOTE_STATUSES.find((status) => status.toLowerCase() === value) ?? "Draft";
+}
+
+export function canTransition(from: QuoteStatus, to: QuoteStatus) {
+  return QUOTE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// The discount as a percentage of the subtotal, rounded to two decimals.
+export function discountPercent({ meta, summary }: Pick<QuoteDocument, "meta" | "summary">) {
+  const { totalBeforeDiscount, discount } = computeQuoteTotals(summary, meta);
+  if (!totalBeforeDiscount || !discount) {
+    return 0;
+  }
+  return Math.round((discount / totalBeforeDiscount) * 10000) / 100;
+}
+
+/**
+ * Explains why the quote still needs a manager's approval, or returns null
+ * when its discount is within the threshold or covered by `approval`.
+ */
+export function approvalProblem(
+  document: Pick<QuoteDocument, "meta" | "summary">,
+  approval: QuoteApproval | null | undefined,
+  settings: ApprovalSettings
+): string | null {
+  const percent = discountPercent(document);
+  if (percent <= settings.discountThresholdPercent) {
+    return null;
+  }
+  if (approval && approval.discountPercent >= percent) {
+    return null;
+  }
+  return approval
+    ? `The discount was raised to ${percent}% after a manager approved ${approval.discountPercent}%. It needs approval again.`
+    : `The discount of ${percent}% is above the ${settings.discountThresholdPercent}% limit and needs a manager's approval.`;
+}
+
+export function validateApprovalSettings(value: unknown): string | null {
+  const threshold = (value as Partial<ApprovalSettings> | null)?.discountThresholdPercent;
+  if (typeof threshold !== "number" || Number.isNaN(threshold) || threshold < 0 || threshold > 100) {
+    return "discountThresholdPercent must be a number between 0 and 100.";
+  }
+  return null;
+}
@@ -0,0 +1,433 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import {
+  computeQuoteTotals,
+  paymentScheduleProblem,
+  type QuoteMetadata,
+  type QuoteRoom,
+  type QuoteSummary,
+} from "@/lib/quote";
+import type { QuoteAcceptance } from "@/lib/acceptance";
+import type { QuoteOwner } from "@/lib/auth";
+import { getApprovalSettings } from "@/lib/approval-settings-store";
+import {
+  approvalProblem,
+  canTransition,
+  discountPercent,
+  quoteStatusOf,
+  type QuoteApproval,
+  type QuoteStatus,
+} from "@/lib/quote-status";
+import type { ShareViews } from "@/lib/share-store";
+import { dataPath, isSafeId, listDirectories, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Quotes are kept one directory per quote:
+//   <data dir>/quotes/<id>/quote.json  - parsed rooms, metadata, summary and edits
+//   <data dir>/quotes/<id>/workbook    - the workbook the quote was converted from
+//
+// Every saved conversion is its own quote; conversions sharing a quoteNumber
+// are numbered revisions of one another.
+//
+// A quote's status follows the workflow in lib/quote-status.ts. Saving never
+// changes it; use setQuoteStatus, markQuoteShared or acceptQuote.
+
+export type SourceWorkbook = {
+  fileName: string;
+  size: number;
+  contentType: string;
+};
+
+export type StoredQuote = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  revision: number;
+  pdfFilename: string;
+  rooms: QuoteRoom[];
+  meta: QuoteMetadata | null;
+  summary: QuoteSummary | null;
+  sourceWorkbook: SourceWorkbook | null;
+  // Who saved it; absent on quotes saved before user accounts.
+  owner?: QuoteOwner | null;
+  // Set once the customer accepts; the revision can no longer be changed.
+  acceptance?: QuoteAcceptance | null;
+  // The latest manager approval of the discount, if one was needed.
+  approval?: QuoteApproval | null;
+};
+
+export type QuoteListEntry = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  revision: number;
+  quoteNumber?: string;
+  customer?: string;
+  propertyName?: string;
+  totalPayable: number | null;
+  hasWorkbook: boolean;
+  owner: QuoteOwner | null;
+  status: QuoteStatus;
+  accepted: boolean;
+  // Customer views across the quote's share links; null if it was never shared.
+  shareViews?: ShareViews | null;
+};
+
+export type QuoteRevisionEntry = {
+  id: string;
+  revision: number;
+  createdAt: string;
+  priceVersion?: string;
+  totalPayable: number | null;
+};
+
+export type QuoteInput = {
+  pdfFilename?: string;
+  rooms: QuoteRoom[];
+  meta: QuoteMetadata | null;
+  summary: QuoteSummary | null;
+};
+
+export type WorkbookUpload = SourceWorkbook & { data: Buffer };
+
+// Raised when changing a revision the customer has accepted. Changes belong
+// in a new revision instead.
+export class QuoteLockedError extends Error {
+  constructor(message = "This revision was accepted by the customer and can no longer be changed.") {
+    super(message);
+    this.name = "QuoteLockedError";
+  }
+}
+
+// Raised when a status change is not allowed from the quote's current status,
+// or when its discount still needs a manager's approval.
+export class QuoteStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteStatusError";
+  }
+}
+
+// Raised when a saved quote's payment schedule does not add up to its
+// payable total.
+export class PaymentScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentScheduleError";
+  }
+}
+
+function quoteDir(id: string) {
+  return dataPath("quotes", id);
+}
+
+function quoteFile(id: string) {
+  return dataPath("quotes", id, "quote.json");
+}
+
+function workbookFile(id: string) {
+  return dataPath("quotes", id, "workbook");
+}
+
+function toListEntry(quote: StoredQuote): QuoteListEntry {
+  return {
+    id: quote.id,
+    createdAt: quote.createdAt,
+    updatedAt: quote.updatedAt,
+    revision: quote.revision,
+    quoteNumber: quote.meta?.quoteNumber,
+    customer: quote.meta?.customer,
+    propertyName: quote.meta?.propertyName,
+    totalPayable: computeQuoteTotals(quote.summary, quote.meta).totalAfterDiscount,
+    hasWorkbook: quote.sourceWorkbook != null,
+    owner: quote.owner ?? null,
+    status: quoteStatusOf(quote.meta),
+    accepted: quote.acceptance != null,
+  };
+}
+
+export function toRevisionEntry(quote: StoredQuote): QuoteRevisionEntry {
+  return {
+    id: quote.id,
+    revision: quote.revision,
+    createdAt: quote.createdAt,
+    priceVersion: quote.meta?.priceVersion,
+    totalPayable: computeQuoteTotals(quote.summary, quote.meta).totalAfterDiscount,
+  };
+}
+
+function withStatus(meta: QuoteMetadata | null, status: QuoteStatus): QuoteMetadata {
+  return { ...(meta ?? {}), quoteStatus: status };
+}
+
+function normalizeQuoteNumber(quoteNumber?: string | null) {
+  return quoteNumber?.trim().toUpperCase() ?? "";
+}
+
+async function loadAllQuotes() {
+  const ids = await listDirectories(dataPath("quotes"));
+  const quotes = await Promise.all(ids.filter(isSafeId).map((id) => getQuote(id)));
+  return quotes.filter((quote): quote is StoredQuote => quote != null);
+}
+
+// How many saved quotes, every revision included, name each brand id.
+export async function brandUsage(): Promise<Map<string, number>> {
+  const usage = new Map<string, number>();
+  (await loadAllQuotes()).forEach((quote) => {
+    const brandId = quote.meta?.brandId;
+    if (brandId) {
+      usage.set(brandId, (usage.get(brandId) ?? 0) + 1);
+    }
+  });
+  return usage;
+}
+
+export async function listQuotes(): Promise<QuoteListEntry[]> {
+  const quotes = await loadAllQuotes();
+  return quotes.map(toListEntry).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getQuote(id: string) {
+  if (!isSafeId(id)) {
+    return null;
+  }
+  const quote = await readJsonFile<StoredQuote>(quoteFile(id));
+  // Quotes saved before revisions existed count as the first revision.
+  return quote ? { ...quote, revision: quote.revision ?? 1 } : null;
+}
+
+/**
+ * Returns every saved revision of a quote number, oldest first. Quotes
+ * without a quote number have no siblings.
+ */
+export async function listRevisions(quoteNumber?: string | null) {
+  const key = normalizeQuoteNumber(quoteNumber);
+  if (!key) {
+    return [];
+  }
+  const quotes = await loadAllQuotes();
+  return quotes
+    .filter((quote) => normalizeQuoteNumber(quote.meta?.quoteNumber) === key)
+    .sort((a, b) => a.revision - b.revision || a.createdAt.localeCompare(b.createdAt));
+}
+
+// The revision listed immediately before this one, if any.
+export async function getPreviousRevision(quote: StoredQuote) {
+  const revisions = await listRevisions(quote.meta?.quoteNumber);
+  const earlier = revisions.filter((entry) => entry.revision < quote.revision);
+  return earlier.length ? earlier[earlier.length - 1] : null;
+}
+
+export async function createQuote(
+  input: QuoteInput,
+  workbook?: WorkbookUpload | null,
+  owner: QuoteOwner | null = null
+) {
+  const scheduleProblem = paymentScheduleProblem(input.summary, input.meta);
+  if (scheduleProblem) {
+    throw new PaymentScheduleError(scheduleProblem);
+  }
+  const now = new Date().toISOString();
+  const revisions = await listRevisions(input.meta?.quoteNumber);
+  const quote: StoredQuote = {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    revision: revisions.reduce((latest, entry) => Math.max(latest, entry.revision), 0) + 1,
+    pdfFilename: input.pdfFilename || "design_summary.pdf",
+    rooms: input.rooms,
+    // New revisions start over, whatever status the workbook or the revision
+    // they were edited from had.
+    meta: withStatus(input.meta, "Draft"),
+    summary: input.summary,
+    sourceWorkbook: null,
+    owner,
+    approval: null,
+  };
+
+  if (workbook) {
+    await fs.mkdir(quoteDir(quote.id), { recursive: true });
+    await fs.writeFile(workbookFile(quote.id), workbook.data);
+    quote.sourceWorkbook = {
+      fileName: workbook.fileName,
+      size: workbook.size,
+      contentType: workbook.contentType,
+    };
+  }
+
+  await writeJsonFile(quoteFile(quote.id), quote);
+  return quote;
+}
+
+export async function updateQuote(id: string, changes: Partial<QuoteInput>) {
+  const existing = await getQuote(id);
+  if (!existing) {
+    return null;
+  }
+  if (existing.acceptance) {
+    throw new QuoteLockedError();
+  }
+
+  const status = quoteStatusOf(existing.meta);
+  const updated: StoredQuote = {
+    ...existing,
+    pdfFilename: changes.pdfFilename ?? existing.pdfFilename,
+    rooms: changes.rooms ?? existing.rooms,
+    meta: withStatus(changes.meta !== undefined ? changes.meta : existing.meta, status),
+    summary: changes.summary !== undefined ? changes.summary : existing.summary,
+    updatedAt: new Date().toISOString(),
+  };
+  const scheduleProblem = paymentScheduleProblem(updated.summary, updated.meta);
+  if (scheduleProblem) {
+    throw new PaymentScheduleError(scheduleProblem);
+  }
+  // Raising the discount beyond what a manager approved takes the quote back
+  // to draft until it is approved again.
+  if (
+    (status === "Approved" || status === "Sent") &&
+    approvalProblem(updated, existing.approval, await getApprovalSettings())
+  ) {
+    updated.meta = withStatus(updated.meta, "Draft");
+  }
+
+  await writeJsonFile(quoteFile(id), updated);
+  return updated;
+}
+
+export async function deleteQuote(id: string) {
+  const quote = await getQuote(id);
+  if (!quote) {
+    return false;
+  }
+  if (quote.acceptance) {
+    throw new QuoteLockedError("This revision was accepted by the customer and is kept as the record of it.");
+  }
+  await fs.rm(quoteDir(id), { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Moves a quote to another status. Approving records `approvedBy` against the
+ * current discount, and sending checks that the discount is approved where it
+ * needs to be. Throws QuoteStatusError when the change is not allowed.
+ */
+export async function setQuoteStatus(id: string, to: QuoteStatus, approvedBy: string | null = null) {
+  const existing = await getQuote(id);
+  if (!existing) {
+    return null;
+  }
+  if (existing.acceptance) {
+    throw new QuoteLockedError();
+  }
+  if (to === "Accepted") {
+    throw new QuoteStatusError("Quotes are accepted by the customer through their share link.");
+  }
+  const from = quoteStatusOf(existing.meta);
+  if (!canTransition(from, to)) {
+    throw new QuoteStatusError(`A quote cannot move from ${from} to ${to}.`);
+  }
+
+  const now = new Date().toISOString();
+  let approval = existing.approval ?? null;
+  if (to === "Approved") {
+    if (!approvedBy) {
+      throw new QuoteStatusError("Approving a quote needs the approving manager's name.");
+    }
+    approval = { approvedBy, approvedAt: now, discountPercent: discountPercent(existing) };
+  }
+  if (to === "Sent") {
+    const problem = approvalProblem(existing, approval, await getApprovalSettings());
+    if (problem) {
+      throw new QuoteStatusError(problem);
+    }
+  }
+
+  const updated: StoredQuote = { ...existing, meta: withStatus(existing.meta, to), approval, updatedAt: now };
+  await writeJsonFile(quoteFile(id), updated);
+  return updated;
+}
+
+/**
+ * Called when a share link is created: a draft or approved quote becomes Sent,
+ * and a sent or accepted one can be shared again. Throws QuoteStatusError for
+ * any other status, as setQuoteStatus would, and while its discount still
+ * needs approval or its payment schedule does not add up.
+ */
+export async function markQuoteShared(id: string) {
+  const existing = await getQuote(id);
+  if (!existing) {
+    return null;
+  }
+  const status = quoteStatusOf(existing.meta);
+  const reshared = status === "Sent" || status === "Accepted";
+  if (!reshared && !canTransition(status, "Sent")) {
+    throw new QuoteStatusError(`A quote cannot move from ${status} to Sent.`);
+  }
+  const problem =
+    approvalProblem(existing, existing.approval, await getApprovalSettings()) ??
+    paymentScheduleProblem(existing.summary, existing.meta);
+  if (problem) {
+    throw new QuoteStatusError(problem);
+  }
+  if (reshared) {
+    return existing;
+  }
+  const updated: StoredQuote = {
+    ...existing,
+    meta: withStatus(existing.meta, "Sent"),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJsonFile(quoteFile(id), updated);
+  return updated;
+}
+
+/**
+ * Records the customer's acceptance and marks the quote Accepted. Throws
+ * QuoteLockedError if it was already accepted, and QuoteStatusError unless
+ * the quote is Sent with its discount approved and a payment schedule that
+ * adds up.
+ */
+export async function acceptQuote(id: string, acceptance: QuoteAcceptance) {
+  const existing = await getQuote(id);
+  if (!existing) {
+    return null;
+  }
+  if (existing.acceptance) {
+    throw new QuoteLockedError("This quote has already been accepted.");
+  }
+  if (
+    quoteStatusOf(existing.meta) !== "Sent" ||
+    approvalProblem(existing, existing.approval, await getApprovalSettings()) ||
+    paymentScheduleProblem(existing.summary, existing.meta)
+  ) {
+    throw new QuoteStatusError("This quote is not open for acceptance. Please contact your designer.");
+  }
+
+  const accepted: StoredQuote = {
+    ...existing,
+    meta: { ...(existing.meta ?? {}), quoteStatus: "Accepted" },
+    acceptance,
+    updatedAt: acceptance.acceptedAt,
+  };
+  await writeJsonFile(quoteFile(id), accepted);
+  return accepted;
+}
+
+// The signed PDF is published after the acceptance itself is recorded.
+export async function setAcceptancePdfKey(id: string, pdfKey: string) {
+  const quote = await getQuote(id);
+  if (!quote?.acceptance) {
+    return null;
+  }
+  const updated: StoredQuote = { ...quote, acceptance: { ...quote.acceptance, pdfKey } };
+  await writeJsonFile(quoteFile(id), updated);
+  return updated;
+}
+
+export async function readQuoteWorkbook(id: string) {
+  const quote = await getQuote(id);
+  if (!quote?.sourceWorkbook) {
+    return null;
+  }
+  const data = await fs.readFile(workbookFile(id));
+  return { ...quote.sourceWorkbook, data };
+}
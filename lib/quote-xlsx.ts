@@ -0,0 +1,182 @@
+import { utils, write, type WorkSheet } from "xlsx";
+import {
+  computeQuoteTotals,
+  METADATA_FIELDS,
+  rowTotal,
+  type QuoteDocument,
+  type QuoteRoom,
+  type RoomSummaryRow,
+} from "@/lib/quote";
+import { computeTaxBreakdown, placeOfSupplyNote, type GstRateOverrides } from "@/lib/tax";
+
+// Writes a quote as edited in the preview into a plain workbook for the
+// accounts team's ERP import. Every workbook has the same layout whatever the
+// source looked like:
+//   Summary          - header fields, the room financial table, totals and GST
+//   <room>           - one sheet per room with its cabinet stats and items
+//   Payment Schedule - the milestones of the payable total
+// Amounts are numbers formatted with two decimals, never text.
+
+type Cell = string | number | null;
+
+const AMOUNT_FORMAT = "#,##0.00";
+const PERCENTAGE_FORMAT = "0.00";
+
+const SUMMARY_COLUMNS: Array<{ key: Exclude<keyof RoomSummaryRow, "room" | "total">; label: string }> = [
+  { key: "modules", label: "Modules" },
+  { key: "accessories", label: "Accessories" },
+  { key: "appliances", label: "Appliances" },
+  { key: "services", label: "Services" },
+  { key: "furniture", label: "Furniture" },
+  { key: "worktops", label: "Worktops" },
+];
+
+// Names the fixed sheets use, plus "History", which Excel reserves.
+const RESERVED_SHEET_NAMES = ["summary", "payment schedule", "history"];
+
+// Excel also refuses names that start or end with an apostrophe, so those are
+// stripped before and after truncating to its 31 characters.
+function sheetName(name: string, used: Set<string>) {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, " ").replace(/\s+/g, " ").replace(/^['\s]+|['\s]+$/g, "");
+  const base = cleaned.slice(0, 31).replace(/['\s]+$/, "") || "Room";
+  let candidate = base;
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix += 1) {
+    const tag = ` (${suffix})`;
+    candidate = `${base.slice(0, 31 - tag.length)}${tag}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Gives the numbers in the listed columns of rows [fromRow, toRow] a number format.
+function formatNumbers(sheet: WorkSheet, columns: number[], fromRow: number, toRow: number, format = AMOUNT_FORMAT) {
+  for (let row = fromRow; row <= toRow; row += 1) {
+    for (const column of columns) {
+      const cell = sheet[utils.encode_cell({ r: row, c: column })];
+      if (cell?.t === "n") {
+        cell.z = format;
+      }
+    }
+  }
+}
+
+function toSheet(rows: Cell[][], widths: number[]) {
+  const sheet = utils.aoa_to_sheet(rows);
+  sheet["!cols"] = widths.map((wch) => ({ wch }));
+  return sheet;
+}
+
+function summarySheet(document: QuoteDocument, gstRates?: GstRateOverrides) {
+  const meta = document.meta ?? {};
+  const totals = computeQuoteTotals(document.summary, document.meta);
+  const rows: Cell[][] = [];
+  const amountRanges: Array<[number[], number, number]> = [];
+
+  for (const { field, label } of METADATA_FIELDS) {
+    const value = meta[field];
+    if (field !== "discountAmount" && (typeof value === "string" || typeof value === "number") && value !== "") {
+      rows.push([label, value]);
+    }
+  }
+  if (meta.quoteStatus) {
+    rows.push(["Status", meta.quoteStatus]);
+  }
+  if (meta.priceVersion) {
+    rows.push(["Price Version", meta.priceVersion]);
+  }
+  rows.push([]);
+
+  const tableStart = rows.length;
+  rows.push(["Room", ...SUMMARY_COLUMNS.map(({ label }) => label), "Total"]);
+  for (const row of document.summary?.rows ?? []) {
+    rows.push([row.room, ...SUMMARY_COLUMNS.map(({ key }) => row[key] ?? 0), rowTotal(row)]);
+  }
+  if (document.summary?.rows.length) {
+    rows.push(["Total", ...SUMMARY_COLUMNS.map(({ key }) => totals.totalsRow[key]), totals.totalsRow.total]);
+  }
+  const amountColumns = SUMMARY_COLUMNS.map((_, index) => index + 1).concat(SUMMARY_COLUMNS.length + 1);
+  amountRanges.push([amountColumns, tableStart + 1, rows.length - 1]);
+  rows.push([]);
+
+  const totalsStart = rows.length;
+  rows.push(["Subtotal", totals.totalBeforeDiscount]);
+  rows.push(["Discount", totals.discount]);
+  rows.push(["Total Payable", totals.totalAfterDiscount]);
+  amountRanges.push([[1], totalsStart, rows.length - 1]);
+
+  const tax = computeTaxBreakdown(document.summary, document.meta, gstRates);
+  if (tax) {
+    rows.push([]);
+    rows.push(["GST", placeOfSupplyNote(tax)]);
+    const taxStart = rows.length;
+    rows.push(["Category", "HSN/SAC", "Rate (%)", "Amount", "Taxable Value", "CGST", "SGST", "IGST"]);
+    for (const line of tax.lines) {
+      rows.push([line.label, line.hsn, line.rate, line.amount, line.taxableValue, line.cgst, line.sgst, line.igst]);
+    }
+    rows.push([
+      "Total",
+      null,
+      null,
+      tax.totals.amount,
+      tax.totals.taxableValue,
+      tax.totals.cgst,
+      tax.totals.sgst,
+      tax.totals.igst,
+    ]);
+    amountRanges.push([[3, 4, 5, 6, 7], taxStart + 1, rows.length - 1]);
+  }
+
+  const sheet = toSheet(rows, [24, 14, 14, 14, 14, 14, 14, 14]);
+  for (const [columns, from, to] of amountRanges) {
+    formatNumbers(sheet, columns, from, to);
+  }
+  return sheet;
+}
+
+function roomSheet(room: QuoteRoom) {
+  const rows: Cell[][] = [[room.name], [], ["Category", "Area (sq ft)", "Cost per sq ft", "Total"]];
+  for (const type of room.types) {
+    rows.push([type.label, type.stats.areaSqFt, type.stats.costPerSqFt, type.stats.total]);
+  }
+  const statsEnd = rows.length - 1;
+  rows.push([]);
+
+  const itemsStart = rows.length;
+  rows.push(["Category", "Code", "Description", "Size", "Price"]);
+  for (const type of room.types) {
+    for (const item of type.items) {
+      rows.push([type.label, item.code, item.description, item.size, item.price ?? null]);
+    }
+  }
+
+  const sheet = toSheet(rows, [24, 14, 48, 16, 14]);
+  formatNumbers(sheet, [1, 2, 3], 3, statsEnd);
+  formatNumbers(sheet, [4], itemsStart + 1, rows.length - 1);
+  return sheet;
+}
+
+function paymentScheduleSheet(document: QuoteDocument) {
+  const { paymentRows, paymentTotal } = computeQuoteTotals(document.summary, document.meta);
+  const rows: Cell[][] = [["Stage", "Percentage (%)", "Amount", "Due Date"]];
+  for (const row of paymentRows) {
+    rows.push([row.stage, row.percentage, row.amount, row.dueDate ?? null]);
+  }
+  rows.push(["Total", null, paymentTotal, null]);
+
+  const sheet = toSheet(rows, [40, 12, 16, 16]);
+  formatNumbers(sheet, [1], 1, rows.length - 1, PERCENTAGE_FORMAT);
+  formatNumbers(sheet, [2], 1, rows.length - 1);
+  return sheet;
+}
+
+/** Builds the export workbook as .xlsx bytes, with GST at the quote brand's rates. */
+export function buildQuoteWorkbook(document: QuoteDocument, gstRates?: GstRateOverrides): ArrayBuffer {
+  const workbook = utils.book_new();
+  const used = new Set(RESERVED_SHEET_NAMES);
+  utils.book_append_sheet(workbook, summarySheet(document, gstRates), "Summary");
+  for (const room of document.rooms) {
+    utils.book_append_sheet(workbook, roomSheet(room), sheetName(room.name, used));
+  }
+  utils.book_append_sheet(workbook, paymentScheduleSheet(document), "Payment Schedule");
+  return write(workbook, { type: "array", bookType: "xlsx", compression: true }) as ArrayBuffer;
+}
@@ -0,0 +1,235 @@
+import {
+  DEFAULT_PAYMENT_SCHEDULE,
+  paymentRows,
+  validatePaymentSchedule,
+  type PaymentRow,
+  type PaymentSchedule,
+} from "@/lib/payment-schedule";
+import type { QuoteTerms } from "@/lib/quote-policies";
+import type {
+  QuoteRoom,
+  QuoteRoomType,
+  QuoteSummary,
+  RoomSummaryRow,
+  WorkbookMetadata,
+} from "@/lib/quote-schema";
+
+// Shapes of a converted quote as the preview and the PDF renderer consume it.
+// The converted parts are inferred from the /api/convert schemas in
+// lib/quote-schema.ts; QuoteMetadata adds the header fields the designer can
+// edit in the preview.
+
+export type {
+  ParseDiagnostic,
+  QuoteDetailItem,
+  QuoteRoom,
+  QuoteRoomType,
+  QuoteSummary,
+  RoomSummaryRow,
+  WorkbookMetadata,
+} from "@/lib/quote-schema";
+
+export type QuoteMetadata = WorkbookMetadata & {
+  discountAmount?: number;
+  // Absent on quotes converted before schedules were editable; they use the
+  // standard schedule.
+  paymentSchedule?: PaymentSchedule;
+  terms?: QuoteTerms;
+  // Id of a brand profile from lib/brand-store.ts; the first profile when absent.
+  brandId?: string;
+};
+
+export type QuoteDocument = {
+  rooms: QuoteRoom[];
+  meta: QuoteMetadata | null;
+  summary: QuoteSummary | null;
+};
+
+export const METADATA_FIELDS: Array<{
+  field: keyof QuoteMetadata;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean;
+  fullWidth?: boolean;
+}> = [
+  { field: "quoteNumber", label: "Quote Number" },
+  { field: "quoteDate", label: "Quote Date" },
+  { field: "customer", label: "Customer Name" },
+  { field: "propertyName", label: "Property Name" },
+  { field: "totalBuiltUpArea", label: "Total Built-up Area" },
+  { field: "propertyConfig", label: "Property Config" },
+  { field: "designerName", label: "Design Expert" },
+  { field: "designerEmail", label: "Designer Email" },
+  { field: "designerPhone", label: "Designer Phone" },
+  { field: "quoteValidTill", label: "Quote Valid Till" },
+  { field: "discountAmount", label: "Discount Amount (₹)" },
+  { field: "address", label: "Address", multiline: true, fullWidth: true },
+];
+
+// Fields shown in the "Project Details" grid of the quote, in display order.
+export const PROJECT_DETAIL_FIELDS: Array<{
+  field: keyof QuoteMetadata;
+  subtitleField?: keyof QuoteMetadata;
+  fullWidth?: boolean;
+  multiline?: boolean;
+}> = [
+  { field: "propertyName" },
+  { field: "totalBuiltUpArea" },
+  { field: "propertyConfig" },
+  { field: "designerName", subtitleField: "designerEmail" },
+  { field: "quoteValidTill" },
+  { field: "quoteStatus" },
+  { field: "discountAmount" },
+  { field: "address", fullWidth: true, multiline: true },
+];
+
+export type SummaryTotals = {
+  modules: number;
+  accessories: number;
+  appliances: number;
+  services: number;
+  furniture: number;
+  worktops: number;
+  total: number;
+};
+
+export type QuoteTotals = {
+  totalsRow: SummaryTotals;
+  totalBeforeDiscount: number | null;
+  discount: number | null;
+  totalAfterDiscount: number | null;
+  paymentSchedule: PaymentSchedule;
+  paymentRows: PaymentRow[];
+  paymentTotal: number | null;
+};
+
+export function rowTotal(row: RoomSummaryRow) {
+  return (
+    row.total ??
+    (row.modules ?? 0) +
+      (row.accessories ?? 0) +
+      (row.appliances ?? 0) +
+      (row.services ?? 0) +
+      (row.furniture ?? 0) +
+      (row.worktops ?? 0)
+  );
+}
+
+// Summary rows and room sheets spell room names with varying case and spacing.
+export function normalizeRoomName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function itemsTotal(type: QuoteRoomType) {
+  return type.items.reduce((sum, item) => sum + (item.price ?? 0), 0);
+}
+
+/**
+ * A type's total as the quote shows it: the cabinet total from the sq.ft sheet
+ * plus the prices of its line items. It is derived rather than stored so that
+ * item edits are always reflected; null when the type has neither.
+ */
+export function typeTotal(type: QuoteRoomType) {
+  const priced = type.stats.total != null || type.items.some((item) => item.price != null);
+  return priced ? (type.stats.total ?? 0) + itemsTotal(type) : null;
+}
+
+/**
+ * Derives the room totals, discount, payable amount and payment milestones
+ * shown on the quote. The designer's discount override in `meta` wins over the
+ * discount read from the workbook.
+ */
+export function computeQuoteTotals(
+  summary: QuoteSummary | null,
+  meta: QuoteMetadata | null
+): QuoteTotals {
+  const rows = summary?.rows ?? [];
+  const subtotalValue = summary?.subtotal ?? null;
+  const totalPayableValue = summary?.totalPayable ?? null;
+
+  const discountAmountValue =
+    typeof meta?.discountAmount === "number" && !Number.isNaN(meta.discountAmount)
+      ? meta.discountAmount
+      : null;
+
+  const totalsRow = rows.reduce<SummaryTotals>(
+    (acc, row) => {
+      acc.modules += row.modules ?? 0;
+      acc.accessories += row.accessories ?? 0;
+      acc.appliances += row.appliances ?? 0;
+      acc.services += row.services ?? 0;
+      acc.furniture += row.furniture ?? 0;
+      acc.worktops += row.worktops ?? 0;
+      acc.total += rowTotal(row);
+      return acc;
+    },
+    {
+      modules: 0,
+      accessories: 0,
+      appliances: 0,
+      services: 0,
+      furniture: 0,
+      worktops: 0,
+      total: 0,
+    }
+  );
+
+  const totalBeforeDiscount = subtotalValue ?? (rows.length > 0 ? totalsRow.total : null);
+  const discount = discountAmountValue ?? summary?.discount ?? null;
+
+  const totalAfterDiscount =
+    totalPayableValue != null
+      ? totalPayableValue
+      : totalBeforeDiscount != null
+        ? Math.max(totalBeforeDiscount - (discount ?? 0), 0)
+        : null;
+
+  const paymentSchedule = meta?.paymentSchedule ?? DEFAULT_PAYMENT_SCHEDULE;
+
+  return {
+    totalsRow,
+    totalBeforeDiscount,
+    discount,
+    totalAfterDiscount,
+    paymentSchedule,
+    paymentRows: paymentRows(paymentSchedule, totalAfterDiscount),
+    paymentTotal: totalAfterDiscount,
+  };
+}
+
+/**
+ * Why the quote's own payment schedule does not add up to its payable total,
+ * or null when it does. Quotes on the standard schedule have nothing to check.
+ */
+export function paymentScheduleProblem(summary: QuoteSummary | null, meta: QuoteMetadata | null) {
+  if (!meta?.paymentSchedule) {
+    return null;
+  }
+  return validatePaymentSchedule(meta.paymentSchedule, computeQuoteTotals(summary, meta).totalAfterDiscount);
+}
+
+// Removes bracketed notes such as "(IS-710)" from material descriptions.
+export function removeBracketValues(text: string) {
+  return text.replace(/\s*\([^)]*\)/g, "").trim();
+}
+
+// The PDF is named after the uploaded workbook.
+export function toPdfFilename(original: string) {
+  const base = original.replace(/\.[^/.]+$/, "").replace(/[^a-z0-9-_]+/gi, "_");
+  return `${base || "design_summary"}.pdf`;
+}
+
+// PDF names for several workbooks at once. Workbooks that would share a name,
+// such as a/q.xlsx and b/q.xlsx or q.xlsx and q.ods, get numbered ones.
+export function uniquePdfFilenames(fileNames: string[]) {
+  const used = new Set<string>();
+  return fileNames.map((fileName) => {
+    const base = toPdfFilename(fileName).replace(/\.pdf$/, "");
+    let candidate = `${base}.pdf`;
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix += 1) {
+      candidate = `${base}_${suffix}.pdf`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
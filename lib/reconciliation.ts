@@ -0,0 +1,128 @@
+import { normalizeRoomName, rowTotal, type QuoteRoom, type QuoteSummary } from "@/lib/quote";
+
+// Cross-checks the Summary sheet against the room sheets: each summary row's
+// total should equal the room's cabinet type totals plus its item prices.
+// Runs in the browser for the preview badges and again in /api/upload-s3
+// before a PDF is published.
+
+export type ReconciliationTolerance = {
+  // Differences up to the larger of these are treated as rounding.
+  amount: number;
+  percent: number;
+};
+
+export type RoomReconciliation = {
+  room: string;
+  // Null when the room only appears on one side.
+  summaryTotal: number | null;
+  detailTotal: number | null;
+  typeTotal: number;
+  itemTotal: number;
+  difference: number;
+  status: "ok" | "mismatch";
+};
+
+export type ReconciliationResult = {
+  tolerance: ReconciliationTolerance;
+  rooms: RoomReconciliation[];
+  mismatches: number;
+};
+
+const DEFAULT_TOLERANCE: ReconciliationTolerance = { amount: 1, percent: 0 };
+
+/**
+ * Reads NEXT_PUBLIC_RECONCILIATION_TOLERANCE, a comma-separated list of an
+ * absolute amount and/or a percentage of the summary total, e.g. "100" or
+ * "100,0.5%". It is a public variable so the browser and server agree.
+ */
+export function reconciliationTolerance(
+  raw = process.env.NEXT_PUBLIC_RECONCILIATION_TOLERANCE
+): ReconciliationTolerance {
+  const tolerance = { ...DEFAULT_TOLERANCE };
+  (raw ?? "").split(",").forEach((part) => {
+    const value = part.trim();
+    const numeric = parseFloat(value.replace(/%$/, ""));
+    if (!value || Number.isNaN(numeric) || numeric < 0) {
+      return;
+    }
+    if (value.endsWith("%")) {
+      tolerance.percent = numeric;
+    } else {
+      tolerance.amount = numeric;
+    }
+  });
+  return tolerance;
+}
+
+function allowedDifference(summaryTotal: number, tolerance: ReconciliationTolerance) {
+  return Math.max(tolerance.amount, (Math.abs(summaryTotal) * tolerance.percent) / 100);
+}
+
+export function reconcileQuote(
+  rooms: QuoteRoom[],
+  summary: QuoteSummary | null,
+  tolerance: ReconciliationTolerance = reconciliationTolerance()
+): ReconciliationResult {
+  // The converter adds a lone "Total" row when the sheet only had a subtotal;
+  // that says nothing about individual rooms.
+  const summaryRows = (summary?.rows ?? []).filter((row) => !/^total$/i.test(row.room.trim()));
+  if (!summaryRows.length) {
+    return { tolerance, rooms: [], mismatches: 0 };
+  }
+
+  const summaryTotals = new Map<string, { room: string; total: number }>();
+  summaryRows.forEach((row) => {
+    const key = normalizeRoomName(row.room);
+    const existing = summaryTotals.get(key);
+    summaryTotals.set(key, { room: row.room, total: (existing?.total ?? 0) + rowTotal(row) });
+  });
+
+  const results: RoomReconciliation[] = [];
+  const matched = new Set<string>();
+
+  rooms.forEach((room) => {
+    const typeTotal = room.types.reduce((sum, type) => sum + (type.stats.total ?? 0), 0);
+    const itemTotal = room.types.reduce(
+      (sum, type) => sum + type.items.reduce((itemSum, item) => itemSum + (item.price ?? 0), 0),
+      0
+    );
+    const key = normalizeRoomName(room.name);
+    const summaryTotal = summaryTotals.get(key)?.total ?? null;
+    if (summaryTotal != null) {
+      matched.add(key);
+    }
+    const detailTotal = typeTotal + itemTotal;
+    const difference = detailTotal - (summaryTotal ?? 0);
+    results.push({
+      room: room.name,
+      summaryTotal,
+      detailTotal,
+      typeTotal,
+      itemTotal,
+      difference,
+      status:
+        Math.abs(difference) > allowedDifference(summaryTotal ?? 0, tolerance) ? "mismatch" : "ok",
+    });
+  });
+
+  summaryTotals.forEach(({ room, total }, key) => {
+    if (matched.has(key)) {
+      return;
+    }
+    results.push({
+      room,
+      summaryTotal: total,
+      detailTotal: null,
+      typeTotal: 0,
+      itemTotal: 0,
+      difference: -total,
+      status: Math.abs(total) > allowedDifference(total, tolerance) ? "mismatch" : "ok",
+    });
+  });
+
+  return {
+    tolerance,
+    rooms: results,
+    mismatches: results.filter((result) => result.status === "mismatch").length,
+  };
+}
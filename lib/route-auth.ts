@@ -0,0 +1,75 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { canAccessQuote, SESSION_COOKIE, type User, type UserRole } from "@/lib/auth";
+import { getBatchJob, type BatchJob } from "@/lib/batch-store";
+import { getQuote, type StoredQuote } from "@/lib/quote-store";
+import { getSessionUser, SESSION_MAX_AGE_SECONDS } from "@/lib/session-store";
+
+// Guards for route handlers. Each returns either what the handler needs or
+// the error response to send back:
+//
+//   const auth = await requireUser("admin");
+//   if (auth.response) return auth.response;
+
+type Guarded<T> = (T & { response?: never }) | { response: NextResponse };
+
+export async function currentUser(): Promise<User | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
+
+// With no roles given, any signed-in user passes.
+export async function requireUser(...roles: UserRole[]): Promise<Guarded<{ user: User }>> {
+  const user = await currentUser();
+  if (!user) {
+    return { response: NextResponse.json({ error: "Sign in to continue" }, { status: 401 }) };
+  }
+  if (roles.length && !roles.includes(user.role)) {
+    return {
+      response: NextResponse.json({ error: "You do not have permission to do this" }, { status: 403 }),
+    };
+  }
+  return { user };
+}
+
+// Quotes the user may not see are reported as missing.
+export async function requireQuote(id: string): Promise<Guarded<{ user: User; quote: StoredQuote }>> {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth;
+  }
+  const quote = await getQuote(id);
+  if (!quote || !canAccessQuote(auth.user, quote.owner)) {
+    return { response: NextResponse.json({ error: "Quote not found" }, { status: 404 }) };
+  }
+  return { user: auth.user, quote };
+}
+
+// Batch jobs are visible to the user who started them and to admins.
+export async function requireBatchJob(id: string): Promise<Guarded<{ user: User; job: BatchJob }>> {
+  const auth = await requireUser();
+  if (auth.response) {
+    return auth;
+  }
+  const job = await getBatchJob(id);
+  if (!job || (job.createdBy.id !== auth.user.id && auth.user.role !== "admin")) {
+    return { response: NextResponse.json({ error: "Batch job not found" }, { status: 404 }) };
+  }
+  return { user: auth.user, job };
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+// Only paths on this site are followed after signing in.
+export function safeRedirectPath(value: unknown) {
+  return typeof value === "string" && /^\/(?![/\\])/.test(value) ? value : "/";
+}
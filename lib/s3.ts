@@ -0,0 +1,48 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Validate environment variables
+export const getS3Client = () => {
+  const region = process.env.AWS_REGION || "us-east-1";
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error("AWS credentials not configured. Please set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables");
+  }
+
+  return new S3Client({
+    region,
+    credentials: {
+      accessKeyId,
+      secretAccessKey,
+    },
+  });
+};
+
+// Published PDFs are named <brand prefix>/<file name>_<timestamp>.pdf.
+export function quotePdfKey(prefix: string, fileName: string | null) {
+  const sanitizedFileName = fileName ? fileName.replace(/[^a-zA-Z0-9.-]/g, "_") : "quote";
+  return `${prefix}/${sanitizedFileName}_${Date.now()}.pdf`;
+}
+
+// Signed URLs are valid for 7 days, the longest S3 allows.
+export const SIGNED_URL_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Uploads a PDF and returns a signed URL for it. Throws when the bucket or
+ * credentials are not configured.
+ */
+export async function uploadPdf(key: string, body: Uint8Array) {
+  const bucketName = process.env.AWS_S3_BUCKET_NAME;
+  if (!bucketName) {
+    throw new Error("S3 bucket name not configured");
+  }
+  const s3Client = getS3Client();
+  await s3Client.send(
+    new PutObjectCommand({ Bucket: bucketName, Key: key, Body: body, ContentType: "application/pdf" })
+  );
+  return getSignedUrl(s3Client, new GetObjectCommand({ Bucket: bucketName, Key: key }), {
+    expiresIn: SIGNED_URL_EXPIRY_SECONDS,
+  });
+}
@@ -0,0 +1,54 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import type { User } from "@/lib/auth";
+import { dataPath, isSafeId, readJsonFile, writeJsonFile } from "@/lib/storage";
+import { getUser } from "@/lib/user-store";
+
+// Sign-in sessions are kept one file per token:
+//   <data dir>/sessions/<token>.json
+//
+// The token is the value of the SESSION_COOKIE cookie. Deleting a user ends their
+// sessions on the next request because the user no longer resolves.
+
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+type StoredSession = {
+  token: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+function sessionFile(token: string) {
+  return dataPath("sessions", `${token}.json`);
+}
+
+export async function createSession(userId: string) {
+  const now = new Date();
+  const session: StoredSession = {
+    token: randomBytes(32).toString("base64url"),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+  };
+  await writeJsonFile(sessionFile(session.token), session);
+  return session.token;
+}
+
+// The signed-in user for a session token, or null once it has expired.
+export async function getSessionUser(token: string): Promise<User | null> {
+  if (!isSafeId(token)) {
+    return null;
+  }
+  const session = await readJsonFile<StoredSession>(sessionFile(token));
+  if (!session || session.expiresAt <= new Date().toISOString()) {
+    return null;
+  }
+  return getUser(session.userId);
+}
+
+export async function deleteSession(token: string) {
+  if (isSafeId(token)) {
+    await fs.rm(sessionFile(token), { force: true });
+  }
+}
@@ -0,0 +1,235 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import { dataPath, isSafeId, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Customer share links are kept one file per token:
+//   <data dir>/shares/<token>.json
+//
+// A link opens the saved quote it was created for at /q/<token>. Links are
+// revoked rather than deleted so the designer keeps seeing their view counts.
+
+export const MAX_PIN_ATTEMPTS = 5;
+
+export function shareCookieName(token: string) {
+  return `quote_share_${token}`;
+}
+
+export type ShareViews = {
+  count: number;
+  firstViewedAt: string | null;
+  lastViewedAt: string | null;
+};
+
+type StoredShareLink = {
+  token: string;
+  quoteId: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  pin: { salt: string; hash: string } | null;
+  failedPinAttempts: number;
+  // Handed to the customer's browser as a cookie once the PIN is entered.
+  accessKey: string;
+  views: ShareViews;
+};
+
+// What the designer sees; the PIN and access key never leave the server.
+export type ShareLink = {
+  token: string;
+  quoteId: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  hasPin: boolean;
+  locked: boolean;
+  views: ShareViews;
+};
+
+export type ShareAccess =
+  | { state: "missing" }
+  | { state: "revoked" }
+  | { state: "expired" }
+  | { state: "locked" }
+  | { state: "pin-required" }
+  | { state: "granted"; quoteId: string };
+
+function sharesDir() {
+  return dataPath("shares");
+}
+
+function shareFile(token: string) {
+  return dataPath("shares", `${token}.json`);
+}
+
+function hashPin(pin: string, salt: string) {
+  return scryptSync(pin, salt, 32).toString("hex");
+}
+
+function toShareLink(share: StoredShareLink): ShareLink {
+  return {
+    token: share.token,
+    quoteId: share.quoteId,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+    hasPin: share.pin != null,
+    locked: share.failedPinAttempts >= MAX_PIN_ATTEMPTS,
+    views: share.views,
+  };
+}
+
+async function readShare(token: string) {
+  return isSafeId(token) ? readJsonFile<StoredShareLink>(shareFile(token)) : null;
+}
+
+export function validateSharePin(pin: unknown): string | null {
+  if (pin == null || pin === "") {
+    return null;
+  }
+  return typeof pin === "string" && /^\d{4,8}$/.test(pin) ? null : "The PIN must be 4 to 8 digits.";
+}
+
+// Callers validate the PIN with validateSharePin first.
+export async function createShareLink(
+  quoteId: string,
+  options: { expiresInDays?: number | null; pin?: string | null } = {}
+): Promise<ShareLink> {
+  const now = new Date();
+  const salt = randomBytes(16).toString("hex");
+  const share: StoredShareLink = {
+    token: randomBytes(24).toString("base64url"),
+    quoteId,
+    createdAt: now.toISOString(),
+    expiresAt: options.expiresInDays
+      ? new Date(now.getTime() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    revokedAt: null,
+    pin: options.pin ? { salt, hash: hashPin(options.pin, salt) } : null,
+    failedPinAttempts: 0,
+    accessKey: randomBytes(24).toString("base64url"),
+    views: { count: 0, firstViewedAt: null, lastViewedAt: null },
+  };
+  await writeJsonFile(shareFile(share.token), share);
+  return toShareLink(share);
+}
+
+async function loadAllShares() {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(sharesDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  const shares = await Promise.all(
+    entries.filter((entry) => entry.endsWith(".json")).map((entry) => readShare(entry.slice(0, -5)))
+  );
+  return shares.filter((share): share is StoredShareLink => share != null);
+}
+
+// Newest first.
+export async function listShareLinks(quoteId: string): Promise<ShareLink[]> {
+  const shares = await loadAllShares();
+  return shares
+    .filter((share) => share.quoteId === quoteId)
+    .map(toShareLink)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Views across all of a quote's links, revoked ones included.
+export async function shareViewsByQuote(): Promise<Map<string, ShareViews>> {
+  const totals = new Map<string, ShareViews>();
+  for (const { quoteId, views } of await loadAllShares()) {
+    const total = totals.get(quoteId) ?? { count: 0, firstViewedAt: null, lastViewedAt: null };
+    totals.set(quoteId, {
+      count: total.count + views.count,
+      firstViewedAt: [total.firstViewedAt, views.firstViewedAt].filter(Boolean).sort()[0] ?? null,
+      lastViewedAt: [total.lastViewedAt, views.lastViewedAt].filter(Boolean).sort().reverse()[0] ?? null,
+    });
+  }
+  return totals;
+}
+
+// `revoked` is false when the link had already been revoked; it keeps its
+// earlier revocation time.
+export async function revokeShareLink(
+  quoteId: string,
+  token: string
+): Promise<{ link: ShareLink; revoked: boolean } | null> {
+  const share = await readShare(token);
+  if (!share || share.quoteId !== quoteId) {
+    return null;
+  }
+  const revoked = !share.revokedAt;
+  if (revoked) {
+    share.revokedAt = new Date().toISOString();
+    await writeJsonFile(shareFile(token), share);
+  }
+  return { link: toShareLink(share), revoked };
+}
+
+/**
+ * Decides whether a visitor may see the quote behind a token. `accessKey` is
+ * the cookie set by unlockShareLink, if the visitor has one.
+ */
+export async function checkShareAccess(token: string, accessKey?: string | null): Promise<ShareAccess> {
+  const share = await readShare(token);
+  if (!share) {
+    return { state: "missing" };
+  }
+  if (share.revokedAt) {
+    return { state: "revoked" };
+  }
+  if (share.expiresAt && share.expiresAt <= new Date().toISOString()) {
+    return { state: "expired" };
+  }
+  if (share.pin) {
+    if (share.failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+      return { state: "locked" };
+    }
+    if (accessKey !== share.accessKey) {
+      return { state: "pin-required" };
+    }
+  }
+  return { state: "granted", quoteId: share.quoteId };
+}
+
+/**
+ * Checks a PIN typed by the customer. Returns the access key to store in
+ * their browser, or null when the PIN is wrong; wrong PINs count towards
+ * locking the link.
+ */
+export async function unlockShareLink(token: string, pin: string): Promise<string | null> {
+  const share = await readShare(token);
+  if (!share?.pin || share.failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+    return null;
+  }
+  const expected = Buffer.from(share.pin.hash, "hex");
+  const actual = Buffer.from(hashPin(pin, share.pin.salt), "hex");
+  if (timingSafeEqual(expected, actual)) {
+    if (share.failedPinAttempts) {
+      share.failedPinAttempts = 0;
+      await writeJsonFile(shareFile(token), share);
+    }
+    return share.accessKey;
+  }
+  share.failedPinAttempts += 1;
+  await writeJsonFile(shareFile(token), share);
+  return null;
+}
+
+export async function recordShareView(token: string) {
+  const share = await readShare(token);
+  if (!share) {
+    return;
+  }
+  const now = new Date().toISOString();
+  share.views = {
+    count: share.views.count + 1,
+    firstViewedAt: share.views.firstViewedAt ?? now,
+    lastViewedAt: now,
+  };
+  await writeJsonFile(shareFile(token), share);
+}
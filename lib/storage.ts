@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Root directory for everything the app persists locally (saved quotes,
+// settings). Point QUOTE_DATA_DIR at a mounted volume in production; on
+// serverless hosts the working directory is read-only.
+export function getDataDir() {
+  return process.env.QUOTE_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export function dataPath(...segments: string[]) {
+  return path.join(getDataDir(), ...segments);
+}
+
+// Ids come from URLs, so only allow characters that cannot escape a directory.
+export function isSafeId(id: string) {
+  return /^[a-zA-Z0-9_-]{1,128}$/.test(id);
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Writes to a temporary file first so a crash never leaves half-written JSON.
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tempPath, filePath);
+}
+
+export async function listDirectories(dirPath: string) {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
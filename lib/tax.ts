@@ -0,0 +1,201 @@
+import {
+  computeQuoteTotals,
+  type QuoteMetadata,
+  type QuoteSummary,
+  type RoomSummaryRow,
+} from "@/lib/quote";
+
+// Quoted amounts are GST inclusive. This module works backwards from them to
+// the taxable value and tax of each summary category, after the discount, and
+// splits the tax into CGST + SGST for supplies within the supplier's state or
+// IGST for supplies to another state.
+
+export type TaxCategory = Exclude<keyof RoomSummaryRow, "room" | "total">;
+
+export type GstRate = {
+  label: string;
+  // HSN for goods, SAC for services.
+  hsn: string;
+  rate: number;
+};
+
+// Per-category rates in percent that replace the standard ones below. A brand
+// sets these when its supplies are classified differently (see lib/brand.ts).
+export type GstRateOverrides = Partial<Record<TaxCategory, number>>;
+
+export const GST_RATES: Record<TaxCategory, GstRate> = {
+  modules: { label: "Modules", hsn: "9403", rate: 18 },
+  accessories: { label: "Accessories", hsn: "8302", rate: 18 },
+  appliances: { label: "Appliances", hsn: "8516", rate: 18 },
+  services: { label: "Services", hsn: "9954", rate: 18 },
+  furniture: { label: "Furniture", hsn: "9403", rate: 18 },
+  worktops: { label: "Worktops", hsn: "6802", rate: 18 },
+};
+
+// Amounts in the rows' Total column that no category column accounts for.
+const OTHER_RATE: GstRate = { label: "Other", hsn: "", rate: 18 };
+
+export type TaxLine = GstRate & {
+  category: TaxCategory | "other";
+  // GST-inclusive amount after the discount.
+  amount: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+
+export type TaxBreakdown = {
+  supplierState: string;
+  // Null when no state could be read from the address.
+  placeOfSupply: string | null;
+  interState: boolean;
+  lines: TaxLine[];
+  totals: Omit<TaxLine, keyof GstRate | "category">;
+};
+
+const STATES: Array<{ name: string; aliases: string[] }> = [
+  { name: "Andhra Pradesh", aliases: ["andhra pradesh", "visakhapatnam", "vijayawada"] },
+  { name: "Arunachal Pradesh", aliases: ["arunachal"] },
+  { name: "Assam", aliases: ["assam", "guwahati"] },
+  { name: "Bihar", aliases: ["bihar", "patna"] },
+  { name: "Chhattisgarh", aliases: ["chhattisgarh", "raipur"] },
+  { name: "Goa", aliases: ["goa"] },
+  { name: "Gujarat", aliases: ["gujarat", "ahmedabad", "surat", "vadodara"] },
+  { name: "Haryana", aliases: ["haryana", "gurugram", "gurgaon", "faridabad"] },
+  { name: "Himachal Pradesh", aliases: ["himachal", "shimla"] },
+  { name: "Jharkhand", aliases: ["jharkhand", "ranchi"] },
+  { name: "Karnataka", aliases: ["karnataka", "bengaluru", "bangalore", "mysuru", "mysore"] },
+  { name: "Kerala", aliases: ["kerala", "kochi", "cochin", "thiruvananthapuram"] },
+  { name: "Madhya Pradesh", aliases: ["madhya pradesh", "bhopal", "indore"] },
+  { name: "Maharashtra", aliases: ["maharashtra", "mumbai", "pune", "nagpur", "thane"] },
+  { name: "Manipur", aliases: ["manipur"] },
+  { name: "Meghalaya", aliases: ["meghalaya"] },
+  { name: "Mizoram", aliases: ["mizoram"] },
+  { name: "Nagaland", aliases: ["nagaland"] },
+  { name: "Odisha", aliases: ["odisha", "orissa", "bhubaneswar"] },
+  { name: "Punjab", aliases: ["punjab", "ludhiana", "amritsar"] },
+  { name: "Rajasthan", aliases: ["rajasthan", "jaipur"] },
+  { name: "Sikkim", aliases: ["sikkim"] },
+  { name: "Tamil Nadu", aliases: ["tamil nadu", "tamilnadu", "chennai", "coimbatore"] },
+  { name: "Telangana", aliases: ["telangana", "hyderabad", "secunderabad"] },
+  { name: "Tripura", aliases: ["tripura"] },
+  { name: "Uttar Pradesh", aliases: ["uttar pradesh", "noida", "lucknow", "ghaziabad"] },
+  { name: "Uttarakhand", aliases: ["uttarakhand", "dehradun"] },
+  { name: "West Bengal", aliases: ["west bengal", "kolkata", "calcutta"] },
+  { name: "Andaman and Nicobar Islands", aliases: ["andaman"] },
+  { name: "Chandigarh", aliases: ["chandigarh"] },
+  { name: "Dadra and Nagar Haveli and Daman and Diu", aliases: ["dadra", "daman"] },
+  { name: "Delhi", aliases: ["delhi"] },
+  { name: "Jammu and Kashmir", aliases: ["jammu", "kashmir", "srinagar"] },
+  { name: "Ladakh", aliases: ["ladakh", "leh"] },
+  { name: "Lakshadweep", aliases: ["lakshadweep"] },
+  { name: "Puducherry", aliases: ["puducherry", "pondicherry"] },
+];
+
+// The state we invoice from; set NEXT_PUBLIC_GST_SUPPLIER_STATE to change it.
+export function supplierState(raw = process.env.NEXT_PUBLIC_GST_SUPPLIER_STATE) {
+  return (raw && findState(raw)) || "Karnataka";
+}
+
+/**
+ * Finds the state named in an address. State names win over city names, and
+ * later mentions win over earlier ones since addresses end with the state.
+ */
+export function findState(address: string | undefined | null): string | null {
+  const text = (address ?? "").toLowerCase();
+  if (!text.trim()) {
+    return null;
+  }
+  let best: { name: string; position: number; isState: boolean } | null = null;
+  for (const { name, aliases } of STATES) {
+    for (const [index, alias] of aliases.entries()) {
+      const match = new RegExp(`\\b${alias}\\b`).exec(text);
+      if (!match) {
+        continue;
+      }
+      const candidate = { name, position: match.index, isState: index === 0 };
+      if (
+        !best ||
+        (candidate.isState && !best.isState) ||
+        (candidate.isState === best.isState && candidate.position > best.position)
+      ) {
+        best = candidate;
+      }
+    }
+  }
+  return best?.name ?? null;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function computeTaxBreakdown(
+  summary: QuoteSummary | null,
+  meta: QuoteMetadata | null,
+  rates: GstRateOverrides = {}
+): TaxBreakdown | null {
+  const { totalsRow, totalBeforeDiscount, totalAfterDiscount } = computeQuoteTotals(summary, meta);
+  if (!totalBeforeDiscount || totalAfterDiscount == null) {
+    return null;
+  }
+
+  // The discount is spread over the categories in proportion to their amounts.
+  const scale = totalAfterDiscount / totalBeforeDiscount;
+  const categories = Object.keys(GST_RATES) as TaxCategory[];
+  const categorised = categories.reduce((sum, category) => sum + totalsRow[category], 0);
+  const amounts: Array<[TaxLine["category"], GstRate, number]> = categories.map((category) => [
+    category,
+    { ...GST_RATES[category], rate: rates[category] ?? GST_RATES[category].rate },
+    totalsRow[category],
+  ]);
+  const uncategorised = totalBeforeDiscount - categorised;
+  if (uncategorised > 0.5) {
+    amounts.push(["other", OTHER_RATE, uncategorised]);
+  }
+
+  const supplier = supplierState();
+  const placeOfSupply = findState(meta?.address);
+  const interState = placeOfSupply != null && placeOfSupply !== supplier;
+
+  const lines = amounts
+    .filter(([, , amount]) => amount !== 0)
+    .map(([category, gst, amount]): TaxLine => {
+      const inclusive = round(amount * scale);
+      const taxableValue = round(inclusive / (1 + gst.rate / 100));
+      const tax = round(inclusive - taxableValue);
+      const cgst = interState ? 0 : round(tax / 2);
+      return {
+        category,
+        ...gst,
+        amount: inclusive,
+        taxableValue,
+        cgst,
+        sgst: interState ? 0 : round(tax - cgst),
+        igst: interState ? tax : 0,
+      };
+    });
+
+  const totals = lines.reduce(
+    (acc, line) => ({
+      amount: round(acc.amount + line.amount),
+      taxableValue: round(acc.taxableValue + line.taxableValue),
+      cgst: round(acc.cgst + line.cgst),
+      sgst: round(acc.sgst + line.sgst),
+      igst: round(acc.igst + line.igst),
+    }),
+    { amount: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 }
+  );
+
+  return { supplierState: supplier, placeOfSupply, interState, lines, totals };
+}
+
+export function placeOfSupplyNote(breakdown: TaxBreakdown) {
+  if (!breakdown.placeOfSupply) {
+    return `Place of supply not found in the address; taxed as a supply within ${breakdown.supplierState}. Amounts are after discount.`;
+  }
+  return breakdown.interState
+    ? `Place of supply: ${breakdown.placeOfSupply}. Inter-state supply from ${breakdown.supplierState}, so IGST applies. Amounts are after discount.`
+    : `Place of supply: ${breakdown.placeOfSupply}. Supply within the state, so the tax is split into CGST and SGST. Amounts are after discount.`;
+}
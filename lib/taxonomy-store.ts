@@ -0,0 +1,47 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+import {
+  compileTaxonomy,
+  DEFAULT_TAXONOMY,
+  type CompiledTaxonomy,
+  type Taxonomy,
+  type TaxonomyCategory,
+} from "@/lib/taxonomy";
+
+// The edited taxonomy lives in <data dir>/taxonomy.json. Until someone saves
+// one, the built-in defaults apply.
+
+function taxonomyPath() {
+  return dataPath("taxonomy.json");
+}
+
+export async function getTaxonomy(): Promise<Taxonomy> {
+  const stored = await readJsonFile<Taxonomy>(taxonomyPath());
+  return stored ?? { categories: DEFAULT_TAXONOMY, updatedAt: null };
+}
+
+export async function loadCompiledTaxonomy(): Promise<CompiledTaxonomy> {
+  return compileTaxonomy((await getTaxonomy()).categories);
+}
+
+// Callers validate with validateTaxonomy first.
+export async function saveTaxonomy(categories: TaxonomyCategory[]): Promise<Taxonomy> {
+  const taxonomy: Taxonomy = {
+    categories: categories.map(({ id, name, synonyms, patterns, priority, parentId }) => ({
+      id,
+      name: name.trim(),
+      synonyms: synonyms.map((synonym) => synonym.trim()).filter(Boolean),
+      patterns: patterns.map((pattern) => pattern.trim()).filter(Boolean),
+      priority,
+      parentId: parentId || null,
+    })),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJsonFile(taxonomyPath(), taxonomy);
+  return taxonomy;
+}
+
+export async function resetTaxonomy(): Promise<Taxonomy> {
+  const taxonomy: Taxonomy = { categories: DEFAULT_TAXONOMY, updatedAt: new Date().toISOString() };
+  await writeJsonFile(taxonomyPath(), taxonomy);
+  return taxonomy;
+}
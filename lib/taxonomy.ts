@@ -0,0 +1,181 @@
+// The item taxonomy decides which category a cabinet type name or item
+// description belongs to. It replaces the substring rules that used to live in
+// the convert route and is editable from /settings/taxonomy.
+//
+// A category matches when the text contains one of its synonyms or matches one
+// of its patterns (regular expression sources); both ignore case. Categories
+// are tried from the highest priority down; at equal priority a sub-category
+// is tried before its parent, then list order decides.
+
+export type TaxonomyCategory = {
+  id: string;
+  name: string;
+  synonyms: string[];
+  patterns: string[];
+  priority: number;
+  parentId: string | null;
+};
+
+export type Taxonomy = {
+  categories: TaxonomyCategory[];
+  updatedAt: string | null;
+};
+
+export type CompiledTaxonomy = Array<{
+  category: TaxonomyCategory;
+  synonyms: string[];
+  patterns: RegExp[];
+}>;
+
+// Detail items that match no category are kept under this name.
+export const UNCATEGORISED = "Uncategorised";
+
+function category(
+  id: string,
+  name: string,
+  priority: number,
+  synonyms: string[],
+  patterns: string[] = []
+): TaxonomyCategory {
+  return { id, name, synonyms, patterns, priority, parentId: null };
+}
+
+export const DEFAULT_TAXONOMY: TaxonomyCategory[] = [
+  category("base-cabinets", "Base Cabinets", 100, ["base"]),
+  category("wall-cabinets", "Wall Cabinets", 90, ["wall"]),
+  category("tall-cabinets", "Tall Cabinets", 80, ["tall"]),
+  category("suspended-cabinets", "Suspended Cabinets", 70, ["suspended"]),
+  category("open-shelf-panels", "Open Shelf & Panels", 60, ["shelf", "panel"]),
+  category("skirting", "Skirting", 50, ["skirt"]),
+  category("lofts", "Lofts", 40, ["loft"]),
+  category("pooja-units", "Pooja Units", 30, ["pooja"]),
+  category("fillers", "Fillers", 20, ["filler"]),
+  category("sliding-wardrobes", "Sliding Wardrobes", 15, ["sliding wardrobe"], ["wardrobe.*sliding"]),
+  category("hinged-wardrobes", "Hinged Wardrobes", 10, ["wardrobe"]),
+  category("tv-units", "TV Units", 5, ["tv unit", "entertainment unit"], ["\\btv\\b"]),
+  category("crockery-units", "Crockery Units", 5, ["crockery"]),
+  category("study-tables", "Study Tables", 5, ["study table", "study unit"]),
+  category("vanities", "Vanities", 5, ["vanity", "vanities"]),
+];
+
+export function compileTaxonomy(categories: TaxonomyCategory[]): CompiledTaxonomy {
+  const depth = (entry: TaxonomyCategory) => {
+    let level = 0;
+    const seen = new Set<string>();
+    let parentId = entry.parentId;
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      level += 1;
+      parentId = categories.find((candidate) => candidate.id === parentId)?.parentId ?? null;
+    }
+    return level;
+  };
+
+  return categories
+    .map((entry, index) => ({ entry, index, depth: depth(entry) }))
+    .sort((a, b) => b.entry.priority - a.entry.priority || b.depth - a.depth || a.index - b.index)
+    .map(({ entry }) => ({
+      category: entry,
+      synonyms: entry.synonyms.map((synonym) => synonym.trim().toLowerCase()).filter(Boolean),
+      patterns: entry.patterns.filter((pattern) => pattern.trim()).map((pattern) => new RegExp(pattern, "i")),
+    }));
+}
+
+export function findCategory(taxonomy: CompiledTaxonomy, text: string) {
+  const lower = text.trim().toLowerCase();
+  if (!lower) {
+    return null;
+  }
+  const match = taxonomy.find(
+    ({ synonyms, patterns }) =>
+      synonyms.some((synonym) => lower.includes(synonym)) ||
+      patterns.some((pattern) => pattern.test(text))
+  );
+  return match?.category ?? null;
+}
+
+// Section titles and cabinet types keep their own wording when nothing matches.
+export function normalizeTypeName(taxonomy: CompiledTaxonomy, input: string) {
+  return findCategory(taxonomy, input)?.name ?? input.trim();
+}
+
+export function classifyItem(taxonomy: CompiledTaxonomy, description: string) {
+  return findCategory(taxonomy, description)?.name ?? UNCATEGORISED;
+}
+
+/**
+ * Returns a message describing the first problem with an edited taxonomy, or
+ * null when it can be saved.
+ */
+export function validateTaxonomy(categories: unknown): string | null {
+  if (!Array.isArray(categories)) {
+    return "categories must be an array";
+  }
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const [index, entry] of (categories as Partial<TaxonomyCategory>[]).entries()) {
+    const label = `Category ${index + 1}`;
+    if (!entry || typeof entry !== "object") {
+      return `${label} is not an object`;
+    }
+    if (typeof entry.id !== "string" || !/^[a-z0-9-]{1,64}$/.test(entry.id)) {
+      return `${label} needs an id of lowercase letters, digits and dashes`;
+    }
+    if (typeof entry.name !== "string" || !entry.name.trim()) {
+      return `${label} needs a name`;
+    }
+    if (entry.name.trim().toLowerCase() === UNCATEGORISED.toLowerCase()) {
+      return `"${UNCATEGORISED}" is reserved for items that match no category`;
+    }
+    if (ids.has(entry.id)) {
+      return `Duplicate category id "${entry.id}"`;
+    }
+    if (names.has(entry.name.trim().toLowerCase())) {
+      return `Duplicate category name "${entry.name}"`;
+    }
+    ids.add(entry.id);
+    names.add(entry.name.trim().toLowerCase());
+
+    if (!Array.isArray(entry.synonyms) || entry.synonyms.some((synonym) => typeof synonym !== "string")) {
+      return `${entry.name}: synonyms must be a list of text`;
+    }
+    if (!Array.isArray(entry.patterns) || entry.patterns.some((pattern) => typeof pattern !== "string")) {
+      return `${entry.name}: patterns must be a list of text`;
+    }
+    for (const pattern of entry.patterns) {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        return `${entry.name}: "${pattern}" is not a valid regular expression`;
+      }
+    }
+    if (!entry.synonyms.some((synonym) => synonym.trim()) && !entry.patterns.some((pattern) => pattern.trim())) {
+      return `${entry.name} needs at least one synonym or pattern`;
+    }
+    if (typeof entry.priority !== "number" || !Number.isFinite(entry.priority)) {
+      return `${entry.name}: priority must be a number`;
+    }
+  }
+
+  const byId = new Map((categories as TaxonomyCategory[]).map((entry) => [entry.id, entry]));
+  for (const entry of categories as TaxonomyCategory[]) {
+    if (entry.parentId == null) {
+      continue;
+    }
+    if (!byId.has(entry.parentId)) {
+      return `${entry.name}: parent "${entry.parentId}" does not exist`;
+    }
+    const seen = new Set([entry.id]);
+    let parentId: string | null = entry.parentId;
+    while (parentId) {
+      if (seen.has(parentId)) {
+        return `${entry.name}: parent categories form a loop`;
+      }
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,163 @@
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import type { User, UserRole } from "@/lib/auth";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/storage";
+
+// Local accounts live in <data dir>/users.json with scrypt password hashes.
+// The first account is created from the sign-in page and is always an admin.
+
+type StoredUser = User & {
+  password: { salt: string; hash: string };
+  createdAt: string;
+  updatedAt: string;
+};
+
+type StoredUsers = {
+  users: StoredUser[];
+};
+
+export type NewUser = {
+  username: string;
+  name: string;
+  role: UserRole;
+  team?: string | null;
+  password: string;
+};
+
+export type UserChanges = Partial<NewUser>;
+
+// Raised when a change would leave nobody able to manage accounts.
+export class LastAdminError extends Error {
+  constructor(message = "At least one admin account must remain.") {
+    super(message);
+    this.name = "LastAdminError";
+  }
+}
+
+export class DuplicateUsernameError extends Error {
+  constructor(username: string) {
+    super(`The username "${username}" is already taken.`);
+    this.name = "DuplicateUsernameError";
+  }
+}
+
+function usersPath() {
+  return dataPath("users.json");
+}
+
+function hashPassword(password: string, salt: string) {
+  return scryptSync(password, salt, 64).toString("hex");
+}
+
+function toUser({ id, username, name, role, team }: StoredUser): User {
+  return { id, username, name, role, team };
+}
+
+async function loadUsers() {
+  const stored = await readJsonFile<StoredUsers>(usersPath());
+  return stored?.users ?? [];
+}
+
+async function saveUsers(users: StoredUser[]) {
+  await writeJsonFile(usersPath(), { users } satisfies StoredUsers);
+}
+
+function normalizeTeam(team: string | null | undefined) {
+  return team?.trim() || null;
+}
+
+export async function hasUsers() {
+  return (await loadUsers()).length > 0;
+}
+
+// Sorted by name.
+export async function listUsers(): Promise<User[]> {
+  const users = await loadUsers();
+  return users.map(toUser).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  const user = (await loadUsers()).find((entry) => entry.id === id);
+  return user ? toUser(user) : null;
+}
+
+// Returns the user when the username and password match, or null.
+export async function verifyUserPassword(username: string, password: string): Promise<User | null> {
+  const user = (await loadUsers()).find((entry) => entry.username === username.trim().toLowerCase());
+  if (!user) {
+    return null;
+  }
+  const expected = Buffer.from(user.password.hash, "hex");
+  const actual = Buffer.from(hashPassword(password, user.password.salt), "hex");
+  return timingSafeEqual(expected, actual) ? toUser(user) : null;
+}
+
+// Callers validate with validateUserInput first.
+export async function createUser(input: NewUser): Promise<User> {
+  const users = await loadUsers();
+  if (users.some((entry) => entry.username === input.username)) {
+    throw new DuplicateUsernameError(input.username);
+  }
+  const now = new Date().toISOString();
+  const salt = randomBytes(16).toString("hex");
+  const user: StoredUser = {
+    id: randomUUID(),
+    username: input.username,
+    name: input.name.trim(),
+    role: input.role,
+    team: normalizeTeam(input.team),
+    password: { salt, hash: hashPassword(input.password, salt) },
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveUsers([...users, user]);
+  return toUser(user);
+}
+
+export async function updateUser(id: string, changes: UserChanges): Promise<User | null> {
+  const users = await loadUsers();
+  const existing = users.find((entry) => entry.id === id);
+  if (!existing) {
+    return null;
+  }
+  if (
+    changes.username !== undefined &&
+    changes.username !== existing.username &&
+    users.some((entry) => entry.username === changes.username)
+  ) {
+    throw new DuplicateUsernameError(changes.username);
+  }
+  if (
+    existing.role === "admin" &&
+    changes.role !== undefined &&
+    changes.role !== "admin" &&
+    !users.some((entry) => entry.id !== id && entry.role === "admin")
+  ) {
+    throw new LastAdminError();
+  }
+
+  const salt = randomBytes(16).toString("hex");
+  const updated: StoredUser = {
+    ...existing,
+    username: changes.username ?? existing.username,
+    name: changes.name?.trim() ?? existing.name,
+    role: changes.role ?? existing.role,
+    team: changes.team !== undefined ? normalizeTeam(changes.team) : existing.team,
+    password: changes.password ? { salt, hash: hashPassword(changes.password, salt) } : existing.password,
+    updatedAt: new Date().toISOString(),
+  };
+  await saveUsers(users.map((entry) => (entry.id === id ? updated : entry)));
+  return toUser(updated);
+}
+
+export async function deleteUser(id: string) {
+  const users = await loadUsers();
+  const existing = users.find((entry) => entry.id === id);
+  if (!existing) {
+    return false;
+  }
+  if (existing.role === "admin" && !users.some((entry) => entry.id !== id && entry.role === "admin")) {
+    throw new LastAdminError();
+  }
+  await saveUsers(users.filter((entry) => entry.id !== id));
+  return true;
+}
@@ -0,0 +1,1185 @@
+import { read, utils, type WorkSheet } from "xlsx";
+import {
+  detectProfile,
+  loadParsingProfiles,
+  type CompiledProfile,
+  type SummaryColumn,
+} from "@/lib/parsing-profiles";
+import type {
+  ParseDiagnostic,
+  QuoteDetailItem,
+  QuoteRoom,
+  QuoteSummary,
+  RoomSummaryRow,
+  WorkbookMetadata,
+} from "@/lib/quote";
+import type { PolicyBlock, PolicySection } from "@/lib/quote-policies";
+import {
+  classifyItem,
+  normalizeTypeName,
+  UNCATEGORISED,
+  type CompiledTaxonomy,
+} from "@/lib/taxonomy";
+import { loadCompiledTaxonomy } from "@/lib/taxonomy-store";
+import { readWorkbookFile, WorkbookFileError } from "@/lib/workbook-files";
+
+// Reads a quotation workbook into rooms, metadata, summary financials and
+// terms. Used by /api/convert for single uploads and by batch jobs.
+
+type MaterialsInfo = {
+  label: string;
+  fields: Record<string, string>;
+};
+
+type CabinetStats = {
+  area?: number;
+  costPerSqFt?: number;
+  total?: number;
+};
+
+type RoomAggregation = {
+  name: string;
+  materials: Map<string, MaterialsInfo>;
+  stats: Map<string, CabinetStats>;
+  items: Map<string, QuoteDetailItem[]>;
+  widthTotals: Map<string, number>;
+};
+
+function firstNumeric(...values: Array<number | undefined>) {
+  for (const value of values) {
+    if (typeof value === "number" && !Number.isNaN(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+type SheetRows = {
+  rows: (string | number)[][];
+  // 1-based worksheet row of each entry in `rows`, for diagnostics.
+  rowNumbers: number[];
+};
+
+type SummaryHeaderIndices = {
+  room: number;
+  total: number;
+} & Partial<Record<SummaryColumn, number>>;
+
+export type WorkbookConversion = {
+  rooms: QuoteRoom[];
+  meta: WorkbookMetadata;
+  summary: QuoteSummary | null;
+  profile: CompiledProfile;
+  terms: PolicySection[];
+  diagnostics: ParseDiagnostic[];
+};
+
+// A workbook that cannot be converted. `status` is 400 for a problem with the
+// file or the requested profile and 500 for a failure while processing it.
+export type WorkbookConversionFailure = {
+  error: string;
+  status: 400 | 500;
+  diagnostics?: ParseDiagnostic[];
+};
+
+/**
+ * Runs the conversion pipeline on one workbook. "auto" picks whichever
+ * profile recognises the most of the workbook.
+ */
+export async function convertWorkbook(
+  buffer: ArrayBuffer | Uint8Array,
+  requestedProfile = "auto"
+): Promise<WorkbookConversion | WorkbookConversionFailure> {
+  let workbook;
+  try {
+    workbook = readWorkbookFile(buffer);
+  } catch (error) {
+    if (error instanceof WorkbookFileError) {
+      return { error: error.message, status: 400 };
+    }
+    console.error("Error parsing Excel file:", error);
+    return { error: "Failed to parse Excel file. Please ensure the file is not corrupted.", status: 400 };
+  }
+
+  if (!workbook.SheetNames.length) {
+    return { error: "No sheets found in uploaded workbook", status: 400 };
+  }
+
+  const profiles = await loadParsingProfiles();
+  let profile: CompiledProfile;
+  if (requestedProfile === "auto") {
+    profile = detectProfile(workbook, profiles).profile;
+  } else {
+    const selected = profiles.find((candidate) => candidate.id === requestedProfile);
+    if (!selected) {
+      return { error: `Unknown parsing profile "${requestedProfile}"`, status: 400 };
+    }
+    profile = selected;
+  }
+
+  let financials, rooms, meta, payload, terms;
+  const diagnostics: ParseDiagnostic[] = [];
+  try {
+    const taxonomy = await loadCompiledTaxonomy();
+    const summaryResult = parseSummarySheet(workbook, profile, taxonomy, diagnostics);
+    financials = summaryResult.financials;
+    rooms = aggregateRooms(workbook, summaryResult.materialsByRoom, profile, taxonomy, diagnostics);
+
+    if (!rooms.length) {
+      return { error: "No recognizable cabinet data found in workbook", status: 400, diagnostics };
+    }
+
+    meta = extractMetadata(workbook, profile);
+    payload = formatRooms(rooms);
+    terms = parseTermsSheets(workbook, profile, diagnostics);
+  } catch (error) {
+    console.error("Error processing workbook:", error);
+    return { error: "Error processing workbook data. Please check the file format.", status: 500 };
+  }
+
+  const calculatedTotal = payload.reduce((roomSum, room) => {
+    return roomSum + room.types.reduce((typeSum, type) => typeSum + (type.stats.total ?? 0), 0);
+  }, 0);
+
+  const summary = finalizeFinancials(financials);
+  const preferredTotal =
+    summary?.totalPayable != null && !Number.isNaN(summary.totalPayable) ? summary.totalPayable : calculatedTotal;
+
+  if (preferredTotal > 0 && meta.totalProjectCost == null) {
+    meta.totalProjectCost = Number(preferredTotal.toFixed(2));
+  }
+
+  return { rooms: payload, meta, summary, profile, terms, diagnostics };
+}
+
+function parseSummarySheet(
+  workbook: ReturnType<typeof read>,
+  profile: CompiledProfile,
+  taxonomy: CompiledTaxonomy,
+  diagnostics: ParseDiagnostic[]
+) {
+  const summarySheetName = workbook.SheetNames.find((name) =>
+    matchesAny(name, profile.sheets.summary)
+  );
+  const sheet = summarySheetName ? workbook.Sheets[summarySheetName] : undefined;
+  const materialsByRoom = new Map<string, Map<string, MaterialsInfo>>();
+  const financials: QuoteSummary = { rows: [] };
+
+  if (!summarySheetName || !sheet) {
+    diagnostics.push(
+      diagnostic(null, null, "warning", "No summary sheet found; room totals and discount were not read")
+    );
+    return { materialsByRoom, financials: null };
+  }
+
+  const { rows, rowNumbers } = readSheetRows(sheet);
+
+  let currentRoom: string | null = null;
+  let headerIndices: SummaryHeaderIndices | null = null;
+
+  for (const [rowIndex, row] of rows.entries()) {
+    const values = row.map((value) => (value ?? ""));
+    const rowNumber = rowNumbers[rowIndex];
+ 
+    const roomCandidate = values.find(
+      (value): value is string => typeof value === "string" && isRoomName(value, profile)
+    );
+    if (roomCandidate) {
+      currentRoom = roomCandidate.trim();
+      if (!materialsByRoom.has(currentRoom)) {
+        materialsByRoom.set(currentRoom, new Map());
+      }
+    }
+
+    let materialCell: string | undefined;
+    if (currentRoom) {
+      materialCell = values.find(
+        (value): value is string =>
+          typeof value === "string" &&
+          profile.summary.materialMarkers.some((marker) => value.includes(marker))
+      );
+
+      if (materialCell) {
+        const parsedMaterials = parseMaterialsBlock(materialCell, taxonomy);
+        const roomMaterials = materialsByRoom.get(currentRoom)!;
+
+        parsedMaterials.forEach((materials, key) => {
+          if (!roomMaterials.has(key)) {
+            roomMaterials.set(key, materials);
+          }
+        });
+      }
+    }
+
+    if (!headerIndices) {
+      const headerCells = values.map((value) => (typeof value === "string" ? value : ""));
+      const roomIndex = findColumn(headerCells, profile.summary.roomHeader);
+      const totalIndex = findColumn(headerCells, profile.summary.totalHeader);
+      if (roomIndex !== -1 && totalIndex !== -1) {
+        const indexMap: SummaryHeaderIndices = { room: roomIndex, total: totalIndex };
+        // Each header cell feeds at most one column.
+        const claimed = new Set<number>();
+        (Object.keys(profile.summary.columns) as SummaryColumn[]).forEach((column) => {
+          const index = findColumn(headerCells, profile.summary.columns[column], claimed);
+          if (index !== -1) {
+            indexMap[column] = index;
+            claimed.add(index);
+          } else {
+            diagnostics.push(
+              diagnostic(
+                summarySheetName,
+                rowNumber,
+                "warning",
+                `No ${profile.summary.columns[column].join(" / ")} column; ${column} amounts were not read`,
+                values
+              )
+            );
+          }
+        });
+        headerIndices = indexMap;
+      }
+      continue;
+    }
+
+    const indices = headerIndices;
+    const primaryLabel = values[indices.room];
+    let labelCell = typeof primaryLabel === "string" ? primaryLabel.trim() : "";
+    if (!labelCell) {
+      const fallback = values.find((value, index) => {
+        if (index === indices.total) {
+          return false;
+        }
+        return typeof value === "string" && value.trim().length > 0;
+      });
+      if (typeof fallback === "string") {
+        labelCell = fallback.trim();
+      }
+    }
+    const totalValue = toNumber(values[indices.total] as string | number | undefined);
+    const modulesValue =
+      indices.modules != null
+        ? toNumber(values[indices.modules] as string | number | undefined)
+        : undefined;
+    const accessoriesValue =
+      indices.accessories != null
+        ? toNumber(values[indices.accessories] as string | number | undefined)
+        : undefined;
+    const appliancesValue =
+      indices.appliances != null
+        ? toNumber(values[indices.appliances] as string | number | undefined)
+        : undefined;
+    const servicesValue =
+      indices.services != null
+        ? toNumber(values[indices.services] as string | number | undefined)
+        : undefined;
+    const furnitureValue =
+      indices.furniture != null
+        ? toNumber(values[indices.furniture] as string | number | undefined)
+        : undefined;
+    const worktopsValue =
+      indices.worktops != null
+        ? toNumber(values[indices.worktops] as string | number | undefined)
+        : undefined;
+ 
+    const rowNumericCandidates = values.map((value) =>
+      toNumber(value as string | number | undefined)
+    );
+
+    const hasNumericalData = [
+      modulesValue,
+      accessoriesValue,
+      appliancesValue,
+      servicesValue,
+      furnitureValue,
+      worktopsValue,
+      totalValue,
+      ...rowNumericCandidates,
+    ].some((value) => typeof value === "number");
+ 
+    if (!labelCell && hasNumericalData) {
+      diagnostics.push(
+        diagnostic(summarySheetName, rowNumber, "error", "Row has amounts but no room label; skipped", values)
+      );
+      continue;
+    }
+
+    if (!hasNumericalData) {
+      // Material blocks are read above; anything else here carries no amounts.
+      if (!materialCell) {
+        diagnostics.push(
+          diagnostic(summarySheetName, rowNumber, "info", "Row has no amounts; skipped", values)
+        );
+      }
+      continue;
+    }
+ 
+    const normalizedLabel = labelCell.trim().toLowerCase();
+ 
+    if (normalizedLabel === "total") {
+      const subtotalNumeric = firstNumeric(
+        totalValue,
+        modulesValue,
+        accessoriesValue,
+        appliancesValue,
+        servicesValue,
+        furnitureValue,
+        worktopsValue,
+        ...rowNumericCandidates
+      );
+      if (typeof subtotalNumeric === "number" && financials.subtotal == null) {
+        financials.subtotal = subtotalNumeric;
+      }
+      continue;
+    }
+
+    if (/^sub\s*total$/i.test(labelCell)) {
+      const subtotalNumeric = firstNumeric(
+        totalValue,
+        modulesValue,
+        accessoriesValue,
+        appliancesValue,
+        servicesValue,
+        furnitureValue,
+        worktopsValue
+      );
+      if (typeof subtotalNumeric === "number") {
+        financials.subtotal = subtotalNumeric;
+      }
+      continue;
+    }
+
+    if (/discount/i.test(labelCell)) {
+      const discountNumeric = firstNumeric(
+        totalValue,
+        modulesValue,
+        accessoriesValue,
+        appliancesValue,
+        servicesValue,
+        furnitureValue,
+        worktopsValue,
+        ...rowNumericCandidates
+      );
+      if (typeof discountNumeric === "number") {
+        financials.discount = discountNumeric;
+      }
+      continue;
+    }
+
+    if (/total/i.test(labelCell) && /payable|after/i.test(labelCell)) {
+      const payableNumeric = firstNumeric(
+        totalValue,
+        modulesValue,
+        accessoriesValue,
+        appliancesValue,
+        servicesValue,
+        furnitureValue,
+        worktopsValue
+      );
+      if (typeof payableNumeric === "number") {
+        financials.totalPayable = payableNumeric;
+      }
+      continue;
+    }
+
+    const summaryRow: RoomSummaryRow = {
+      room: labelCell,
+      modules: modulesValue ?? 0,
+      accessories: accessoriesValue ?? 0,
+      appliances: appliancesValue ?? 0,
+      services: servicesValue ?? 0,
+      furniture: furnitureValue ?? 0,
+      worktops: worktopsValue ?? 0,
+    };
+
+    if (typeof totalValue === "number") {
+      summaryRow.total = totalValue;
+    } else {
+      const derivedTotal =
+        summaryRow.modules +
+        summaryRow.accessories +
+        summaryRow.appliances +
+        summaryRow.services +
+        summaryRow.furniture +
+        summaryRow.worktops;
+      if (derivedTotal > 0) {
+        summaryRow.total = derivedTotal;
+      }
+    }
+
+    financials.rows.push(summaryRow);
+  }
+
+  if (!headerIndices) {
+    diagnostics.push(
+      diagnostic(
+        summarySheetName,
+        null,
+        "warning",
+        `No header row with ${profile.summary.roomHeader.join(" / ")} and ${profile.summary.totalHeader.join(" / ")} columns; room totals were not read`
+      )
+    );
+  }
+
+  return {
+    materialsByRoom,
+    financials:
+      financials.rows.length ||
+      financials.discount != null ||
+      financials.subtotal != null ||
+      financials.totalPayable != null
+        ? financials
+        : { rows: [] },
+  };
+}
+
+function finalizeFinancials(financials: QuoteSummary | null) {
+  if (!financials) {
+    return null;
+  }
+
+  if (financials.subtotal != null) {
+    if (financials.rows.length === 0) {
+      financials.rows.push({
+        room: "Total",
+        modules: financials.subtotal,
+        accessories: 0,
+        appliances: 0,
+        services: 0,
+        furniture: 0,
+        worktops: 0,
+        total: financials.subtotal,
+      });
+    }
+  }
+
+  if (
+    financials.discount == null &&
+    financials.subtotal != null &&
+    financials.totalPayable != null
+  ) {
+    const derivedDiscount = financials.subtotal - financials.totalPayable;
+    if (Math.abs(derivedDiscount) > 0.001) {
+      financials.discount = derivedDiscount;
+    }
+  }
+
+  return financials;
+}
+
+function aggregateRooms(
+  workbook: ReturnType<typeof read>,
+  materialsByRoom: Map<string, Map<string, MaterialsInfo>>,
+  profile: CompiledProfile,
+  taxonomy: CompiledTaxonomy,
+  diagnostics: ParseDiagnostic[]
+) {
+  const roomMap = new Map<string, RoomAggregation>();
+
+  workbook.SheetNames.forEach((sheetName) => {
+    // Terms sheets are read by parseTermsSheets.
+    if (matchesAny(sheetName, profile.sheets.summary) || matchesAny(sheetName, profile.sheets.terms)) {
+      return;
+    }
+    if (matchesAny(sheetName, profile.sheets.ignore)) {
+      diagnostics.push(diagnostic(sheetName, null, "info", `Sheet is ignored by the ${profile.name} layout`));
+      return;
+    }
+
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      return;
+    }
+
+    const sheetRows = readSheetRows(sheet);
+    const { rows } = sheetRows;
+
+    if (!rows.length) {
+      diagnostics.push(diagnostic(sheetName, null, "info", "Sheet is empty"));
+      return;
+    }
+
+    let roomName = detectRoomName(rows, profile);
+    if (!roomName) {
+      diagnostics.push(
+        diagnostic(sheetName, null, "warning", "No room name found on the sheet; using the sheet name")
+      );
+      roomName = sheetName;
+    }
+    let room = roomMap.get(roomName);
+
+    if (!room) {
+      room = {
+        name: roomName,
+        materials: new Map(),
+        stats: new Map(),
+        items: new Map(),
+        widthTotals: new Map(),
+      };
+      const summaryForRoom = materialsByRoom.get(roomName);
+      if (summaryForRoom) {
+        summaryForRoom.forEach((value, key) => room!.materials.set(key, value));
+      }
+      roomMap.set(roomName, room);
+    }
+
+    if (matchesAny(sheetName, profile.sheets.cabinetStats)) {
+      parseCabinetStats(sheetName, sheetRows, room, profile, taxonomy, diagnostics);
+    } else if (matchesAny(sheetName, profile.sheets.detailItems)) {
+      parseDetailItems(sheetName, sheetRows, room, profile, taxonomy, diagnostics);
+    } else {
+      diagnostics.push(
+        diagnostic(
+          sheetName,
+          null,
+          "info",
+          `Sheet not recognised by the ${profile.name} layout; only material notes were read from it`
+        )
+      );
+      if (!room.materials.size) {
+        // Use any materials mentioned directly in the sheet if summary is missing
+        rows.forEach((row) => {
+          row.forEach((cell) => {
+            const text = typeof cell === "number" ? cell.toString() : String(cell || "");
+            if (text.includes("Carcass:")) {
+              const parsed = parseMaterialsBlock(text, taxonomy);
+              parsed.forEach((value, key) => {
+                if (!room!.materials.has(key)) {
+                  room!.materials.set(key, value);
+                }
+              });
+            }
+          });
+        });
+      }
+    }
+  });
+
+  return Array.from(roomMap.values());
+}
+
+function parseCabinetStats(
+  sheetName: string,
+  { rows, rowNumbers }: SheetRows,
+  room: RoomAggregation,
+  profile: CompiledProfile,
+  taxonomy: CompiledTaxonomy,
+  diagnostics: ParseDiagnostic[]
+) {
+  const { typeHeader, columns, stopRows } = profile.cabinetStats;
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => includesAny(String(cell), typeHeader))
+  );
+
+  if (headerIndex === -1) {
+    diagnostics.push(
+      diagnostic(sheetName, null, "warning", `No ${typeHeader.join(" / ")} header row; sheet skipped`)
+    );
+    return;
+  }
+
+  const headerRow = rows[headerIndex].map((value) =>
+    typeof value === "number" ? value.toString() : String(value || "")
+  );
+
+  const typeIndex = findColumn(headerRow, typeHeader);
+  const areaIndex = findColumn(headerRow, columns.area);
+  const costIndex = findColumn(headerRow, columns.costPerSqFt);
+  const totalIndex = findColumn(headerRow, columns.total);
+  reportMissingColumns(sheetName, rowNumbers[headerIndex], headerRow, diagnostics, [
+    [columns.area, areaIndex],
+    [columns.costPerSqFt, costIndex],
+    [columns.total, totalIndex],
+  ]);
+
+  for (let i = headerIndex + 1; i < rows.length; i += 1) {
+    const row = rows[i].map((value) =>
+      typeof value === "number" ? value.toString() : String(value || "")
+    );
+
+    const typeName = row[typeIndex]?.trim();
+    if (!typeName) {
+      const hasTotal = totalIndex !== -1 && toNumber(row[totalIndex]) != null;
+      diagnostics.push(
+        diagnostic(
+          sheetName,
+          rowNumbers[i],
+          hasTotal ? "error" : "warning",
+          "Row has no cabinet type; skipped",
+          row
+        )
+      );
+      continue;
+    }
+
+    if (matchesAny(typeName, stopRows)) {
+      const remaining = rows.length - i - 1;
+      if (remaining > 0) {
+        diagnostics.push(
+          diagnostic(
+            sheetName,
+            rowNumbers[i],
+            "info",
+            `Cabinet table ends at "${typeName}"; ${remaining} row${remaining === 1 ? "" : "s"} below it not read`,
+            row
+          )
+        );
+      }
+      break;
+    }
+
+    const normalized = normalizeTypeName(taxonomy, typeName);
+    const stats: CabinetStats = {};
+
+    if (areaIndex !== -1) {
+      stats.area = toNumber(row[areaIndex]);
+    }
+    if (costIndex !== -1) {
+      stats.costPerSqFt = toNumber(row[costIndex]);
+    }
+    if (totalIndex !== -1) {
+      stats.total = toNumber(row[totalIndex]);
+    }
+
+    room.stats.set(normalized, {
+      ...(room.stats.get(normalized) || {}),
+      ...stats,
+    });
+
+    if (!room.materials.has(normalized)) {
+      room.materials.set(normalized, {
+        label: typeName,
+        fields: {},
+      });
+    }
+  }
+}
+
+function parseDetailItems(
+  sheetName: string,
+  { rows, rowNumbers }: SheetRows,
+  room: RoomAggregation,
+  profile: CompiledProfile,
+  taxonomy: CompiledTaxonomy,
+  diagnostics: ParseDiagnostic[]
+) {
+  const { descriptionHeader, columns, skipRows } = profile.detailItems;
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => includesAny(String(cell), descriptionHeader))
+  );
+
+  if (headerIndex === -1) {
+    diagnostics.push(
+      diagnostic(sheetName, null, "warning", `No ${descriptionHeader.join(" / ")} header row; sheet skipped`)
+    );
+    return;
+  }
+
+  const headerRow = rows[headerIndex].map((value) =>
+    typeof value === "number" ? value.toString() : String(value || "")
+  );
+
+  const slIndex = findColumn(headerRow, columns.sl);
+  const codeIndex = findColumn(headerRow, columns.code);
+  const descriptionIndex = findColumn(headerRow, descriptionHeader);
+  const sizeIndex = findColumn(headerRow, columns.size);
+  const priceIndex = findColumn(headerRow, columns.price);
+  reportMissingColumns(sheetName, rowNumbers[headerIndex], headerRow, diagnostics, [
+    [columns.sl, slIndex],
+    [columns.code, codeIndex],
+    [columns.size, sizeIndex],
+    [columns.price, priceIndex],
+  ]);
+
+  for (let i = headerIndex + 1; i < rows.length; i += 1) {
+    const row = rows[i].map((value) =>
+      typeof value === "number" ? value.toString() : String(value || "")
+    );
+
+    const slValue = row[slIndex]?.trim();
+    const code = row[codeIndex]?.trim();
+    const description = row[descriptionIndex]?.trim();
+    const price = priceIndex !== -1 ? toNumber(row[priceIndex]) : undefined;
+    const severity = price != null ? "error" : "warning";
+
+    if (!slValue || !description) {
+      diagnostics.push(
+        diagnostic(
+          sheetName,
+          rowNumbers[i],
+          severity,
+          description ? "Row has no serial number; skipped" : "Row has no description; skipped",
+          row
+        )
+      );
+      continue;
+    }
+
+    // Skip subtotal rows
+    if (matchesAny(description, skipRows)) {
+      diagnostics.push(diagnostic(sheetName, rowNumbers[i], "info", "Subtotal row skipped", row));
+      continue;
+    }
+
+    const type = classifyItem(taxonomy, description);
+    if (type === UNCATEGORISED) {
+      diagnostics.push(
+        diagnostic(
+          sheetName,
+          rowNumbers[i],
+          "warning",
+          `Description matches no taxonomy category; kept under ${UNCATEGORISED}`,
+          row
+        )
+      );
+    }
+
+    const size = sizeIndex !== -1 ? row[sizeIndex]?.trim() : "";
+
+    if (!room.items.has(type)) {
+      room.items.set(type, []);
+    }
+
+    room.items.get(type)!.push({
+      code: code || "",
+      description,
+      size,
+      price,
+    });
+
+    if (size) {
+      const current = room.widthTotals.get(type) || 0;
+      room.widthTotals.set(type, current + extractWidth(size));
+    }
+
+    if (!room.materials.has(type)) {
+      room.materials.set(type, {
+        label: type,
+        fields: {},
+      });
+    }
+  }
+}
+
+const NUMBERED_CLAUSE = /^(?:\(?\d{1,3}(?:\.\d{1,3})*[.)]|\(?[a-z]\)|\(?[ivx]{1,4}\))\s+(.+)$/i;
+const BULLETED_CLAUSE = /^(?:[•·▪►]\s*|[-*–]\s+)(.+)$/;
+// A clause number in a column of its own, e.g. "1." | "Warranty covers ...".
+const CLAUSE_NUMBER_CELL = /^\(?(?:\d{1,3}(?:\.\d{1,3})*|[a-z]|[ivx]{1,4})[.)]?$/i;
+
+// Short lines without closing punctuation, lines ending in a colon and lines
+// in capitals are clause headings.
+function isClauseHeading(text: string) {
+  const words = text.split(/\s+/).length;
+  if (text.length > 80) {
+    return false;
+  }
+  if (/:$/.test(text)) {
+    return words <= 8;
+  }
+  if (/[a-z]/i.test(text) && text === text.toUpperCase()) {
+    return true;
+  }
+  return words <= 6 && !/[.;,!?)]$/.test(text);
+}
+
+/**
+ * Reads the workbook's own terms sheet into sections of clauses: headings
+ * start a section, numbered and bulleted lines become lists and other lines
+ * paragraphs. Clauses before the first heading go under the sheet name.
+ */
+function parseTermsSheets(
+  workbook: ReturnType<typeof read>,
+  profile: CompiledProfile,
+  diagnostics: ParseDiagnostic[]
+): PolicySection[] {
+  const sections: PolicySection[] = [];
+
+  const startSection = (title: string) => {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 48);
+    let id = `workbook-${slug || sections.length + 1}`;
+    for (let suffix = 2; sections.some((section) => section.id === id); suffix += 1) {
+      id = `workbook-${slug || sections.length + 1}-${suffix}`;
+    }
+    const section: PolicySection = { id, title: title.replace(/:$/, "").trim(), blocks: [] };
+    sections.push(section);
+    return section;
+  };
+
+  workbook.SheetNames.forEach((sheetName) => {
+    if (!matchesAny(sheetName, profile.sheets.terms)) {
+      return;
+    }
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      return;
+    }
+
+    const { rows, rowNumbers } = readSheetRows(sheet);
+    const sectionsBefore = sections.length;
+    let current: PolicySection | null = null;
+    let clauses = 0;
+
+    const addListItem = (item: string, numbered: boolean) => {
+      const section = current ?? (current = startSection(sheetName));
+      const last = section.blocks[section.blocks.length - 1];
+      if (last?.kind === "list" && Boolean(last.numbered) === numbered) {
+        last.items.push(item);
+        return;
+      }
+      const list: PolicyBlock = { kind: "list", items: [item] };
+      section.blocks.push(numbered ? { ...list, numbered: true } : list);
+    };
+
+    rows.forEach((row, index) => {
+      const cells = row.map((cell) => String(cell ?? "").replace(/\s+/g, " ").trim()).filter(Boolean);
+      if (!cells.length) {
+        return;
+      }
+
+      if (cells.length > 1 && CLAUSE_NUMBER_CELL.test(cells[0])) {
+        addListItem(cells.slice(1).join(" "), true);
+        clauses += 1;
+        return;
+      }
+
+      const text = cells.join(" ");
+      const numbered = NUMBERED_CLAUSE.exec(text);
+      if (numbered) {
+        addListItem(numbered[1].trim(), true);
+        clauses += 1;
+        return;
+      }
+      const bulleted = BULLETED_CLAUSE.exec(text);
+      if (bulleted) {
+        addListItem(bulleted[1].trim(), false);
+        clauses += 1;
+        return;
+      }
+
+      if (index === 0 && matchesAny(text, profile.sheets.terms)) {
+        diagnostics.push(diagnostic(sheetName, rowNumbers[index], "info", "Sheet title skipped", row));
+        return;
+      }
+      if (isClauseHeading(text)) {
+        if (current && !current.blocks.length) {
+          // Two headings in a row: the second is a subheading of the first.
+          current.blocks.push({ kind: "subheading", text: text.replace(/:$/, "").trim() });
+          return;
+        }
+        current = startSection(text);
+        return;
+      }
+
+      (current ?? (current = startSection(sheetName))).blocks.push({ kind: "paragraph", text });
+      clauses += 1;
+    });
+
+    if (!clauses) {
+      diagnostics.push(diagnostic(sheetName, null, "warning", "Terms sheet has no clauses"));
+      sections.splice(sectionsBefore);
+      return;
+    }
+    diagnostics.push(
+      diagnostic(
+        sheetName,
+        null,
+        "info",
+        `Read ${clauses} clause${clauses === 1 ? "" : "s"} in ${sections.length - sectionsBefore} section${
+          sections.length - sectionsBefore === 1 ? "" : "s"
+        } from the terms sheet`
+      )
+    );
+  });
+
+  // Headings with no clauses under them are dropped.
+  return sections.filter((section) => section.blocks.some((block) => block.kind !== "subheading"));
+}
+
+function parseMaterialsBlock(text: string, taxonomy: CompiledTaxonomy) {
+  const sections = text
+    .split(/\n\s*\n/)
+    .map((section) => section.trim())
+    .filter(Boolean);
+
+  const map = new Map<string, MaterialsInfo>();
+
+  sections.forEach((section) => {
+    const lines = section
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    if (!lines.length) {
+      return;
+    }
+
+    const titleLine = lines[0].replace(/:$/, "").trim();
+    if (!titleLine) {
+      return;
+    }
+
+    const normalized = normalizeTypeName(taxonomy, titleLine);
+    const fields: Record<string, string> = {};
+
+    for (let i = 1; i < lines.length; i += 1) {
+      const line = lines[i];
+      const [rawKey, ...rest] = line.split(":");
+      if (!rawKey || !rest.length) {
+        continue;
+      }
+      const key = rawKey.trim();
+      const value = rest.join(":").trim();
+      if (key && value) {
+        fields[key] = value;
+      }
+    }
+
+    map.set(normalized, {
+      label: titleLine,
+      fields,
+    });
+  });
+
+  return map;
+}
+
+function formatRooms(rooms: RoomAggregation[]): QuoteRoom[] {
+  return rooms.map((room) => {
+    const typeKeys = new Set<string>();
+    room.materials.forEach((_value, key) => typeKeys.add(key));
+    room.stats.forEach((_value, key) => typeKeys.add(key));
+    room.items.forEach((_value, key) => typeKeys.add(key));
+
+    const types = Array.from(typeKeys)
+      .sort((a, b) => a.localeCompare(b))
+      .map((type) => {
+        const materialInfo = room.materials.get(type);
+        const stats = room.stats.get(type) || {};
+        const items = room.items.get(type) || [];
+        const dimensionAggregate = room.widthTotals.get(type) || null;
+
+        return {
+          type,
+          label: materialInfo?.label ?? type,
+          materials: materialInfo?.fields ?? {},
+          stats: {
+            areaSqFt: stats.area ?? null,
+            costPerSqFt: stats.costPerSqFt ?? null,
+            total: stats.total ?? null,
+          },
+          dimensionAggregate,
+          items: items.map((item) => ({
+            ...item,
+            price: typeof item.price === "number" ? item.price : undefined,
+          })),
+        };
+      });
+
+    return {
+      name: room.name,
+      types,
+    };
+  });
+}
+
+function toNumber(value: string | number | undefined) {
+  if (typeof value === "number") {
+    return Number.isNaN(value) ? undefined : value;
+  }
+  if (!value) {
+    return undefined;
+  }
+  const sanitized = value.replace(/[^0-9.+-]/g, "");
+  const numeric = parseFloat(sanitized);
+  return Number.isNaN(numeric) ? undefined : numeric;
+}
+
+function extractWidth(size: string) {
+  const widthMatch = size.match(/([0-9]+(?:\.[0-9]+)?)\s*[wW]/);
+  if (widthMatch) {
+    return parseFloat(widthMatch[1]);
+  }
+  const firstNumber = size.match(/([0-9]+(?:\.[0-9]+)?)/);
+  if (firstNumber) {
+    return parseFloat(firstNumber[1]);
+  }
+  return 0;
+}
+
+function detectRoomName(rows: (string | number)[][], profile: CompiledProfile) {
+  for (const row of rows) {
+    for (const cell of row) {
+      const text = typeof cell === "number" ? cell.toString() : String(cell || "");
+      if (isRoomName(text, profile)) {
+        return text.trim();
+      }
+    }
+  }
+  return null;
+}
+
+function isRoomName(text: string, profile: CompiledProfile) {
+  if (!text) {
+    return false;
+  }
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return false;
+  }
+  return profile.roomName.test(trimmed);
+}
+
+function matchesAny(value: string, patterns: RegExp[]) {
+  return patterns.some((pattern) => pattern.test(value));
+}
+
+function includesAny(value: string, keywords: string[]) {
+  const upper = value.toUpperCase();
+  return keywords.some((keyword) => upper.includes(keyword.toUpperCase()));
+}
+
+// Index of the first header cell containing an alias, trying aliases in order.
+function findColumn(headerRow: string[], aliases: string[], skip?: Set<number>) {
+  for (const alias of aliases) {
+    const index = headerRow.findIndex(
+      (value, position) => !skip?.has(position) && includesAny(value, [alias])
+    );
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+// Non-blank rows of a sheet with their 1-based worksheet row numbers, which
+// sheet_to_json loses when it drops blank rows itself.
+function readSheetRows(sheet: WorkSheet): SheetRows {
+  const firstRow = sheet["!ref"] ? utils.decode_range(sheet["!ref"]).s.r : 0;
+  const rows: (string | number)[][] = [];
+  const rowNumbers: number[] = [];
+  utils
+    .sheet_to_json<(string | number)[]>(sheet, {
+      header: 1,
+      defval: "",
+      raw: false,
+      blankrows: true,
+    })
+    .forEach((row, index) => {
+      if (row.some((cell) => cell !== "" && cell != null)) {
+        rows.push(row);
+        rowNumbers.push(firstRow + index + 1);
+      }
+    });
+  return { rows, rowNumbers };
+}
+
+function diagnostic(
+  sheet: string | null,
+  row: number | null,
+  severity: ParseDiagnostic["severity"],
+  reason: string,
+  values: (string | number)[] = []
+): ParseDiagnostic {
+  const cells = values.map((value) => (value == null ? "" : String(value)));
+  while (cells.length && !cells[cells.length - 1].trim()) {
+    cells.pop();
+  }
+  return { sheet, row, severity, reason, values: cells };
+}
+
+function reportMissingColumns(
+  sheetName: string,
+  headerRowNumber: number,
+  headerRow: string[],
+  diagnostics: ParseDiagnostic[],
+  columns: Array<[aliases: string[], index: number]>
+) {
+  columns.forEach(([aliases, index]) => {
+    if (index === -1) {
+      diagnostics.push(
+        diagnostic(sheetName, headerRowNumber, "warning", `No ${aliases.join(" / ")} column in header`, headerRow)
+      );
+    }
+  });
+}
+
+function extractMetadata(workbook: ReturnType<typeof read>, profile: CompiledProfile): WorkbookMetadata {
+  const meta: WorkbookMetadata = {};
+
+  const processRows = (rows: (string | number)[][]) => {
+    rows.forEach((row) => {
+      const values = row.map((value) =>
+        typeof value === "number" ? value.toString() : String(value || "")
+      );
+
+      const findValue = (pattern: RegExp) => {
+        const index = values.findIndex((value) => pattern.test(value));
+        if (index === -1) {
+          return undefined;
+        }
+        for (let i = index + 1; i < values.length; i += 1) {
+          const candidate = values[i]?.trim();
+          if (candidate) {
+            return candidate;
+          }
+        }
+        return undefined;
+      };
+
+      profile.metadata.labels.forEach(([field, patterns]) => {
+        const value = patterns.reduce<string | undefined>(
+          (found, pattern) => found || findValue(pattern),
+          undefined
+        );
+        if (!value || meta[field]) {
+          return;
+        }
+        meta[field] = value;
+        // The reference doubles as the property name when none is given.
+        if (field === "reference" && !meta.propertyName) {
+          meta.propertyName = value;
+        }
+      });
+
+      const quoteNumber = values.find((value) => profile.metadata.quoteNumber.test(value));
+      if (quoteNumber && !meta.quoteNumber) {
+        meta.quoteNumber = quoteNumber.trim();
+      }
+
+      const email = values.find((value) => /@/.test(value) && /\./.test(value));
+      if (email && !meta.designerEmail) {
+        meta.designerEmail = email.trim();
+      }
+
+      const phone = values.find((value) => /\d{7,}/.test(value.replace(/\D/g, "")));
+      if (phone && !meta.designerPhone) {
+        meta.designerPhone = phone.trim();
+      }
+
+      const dateMatch = values.find((value) => profile.metadata.quoteDate.test(value));
+      if (dateMatch && !meta.quoteDate) {
+        const match = dateMatch.match(profile.metadata.quoteDate);
+        if (match) {
+          meta.quoteDate = match[0];
+        }
+      }
+    });
+  };
+
+  workbook.SheetNames.forEach((sheetName) => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      return;
+    }
+
+    const rows = utils.sheet_to_json<(string | number)[]>(sheet, {
+      header: 1,
+      defval: "",
+      raw: false,
+      blankrows: false,
+    });
+
+    processRows(rows);
+  });
+
+  return meta;
+}
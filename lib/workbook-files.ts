@@ -0,0 +1,163 @@
+import { unzipSync } from "fflate";
+import { read, utils, type WorkBook, type WorkSheet } from "xlsx";
+
+// Turns an uploaded file into a workbook for the conversion pipeline. Excel
+// (.xlsx, .xls, .xlsm) and OpenDocument (.ods) files are read by SheetJS.
+// A ZIP of CSV files, such as the per-sheet exports of Google Sheets or
+// LibreOffice, becomes a workbook with one sheet per CSV named after the file:
+// "Kitchen - Details.csv" is the sheet "Kitchen - Details".
+
+// Raised for a file that is readable but holds nothing to convert.
+export class WorkbookFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkbookFileError";
+  }
+}
+
+// .xlsx, .xlsm and .ods files are ZIPs too; these entries give them away.
+const SPREADSHEET_MANIFESTS = ["[Content_Types].xml", "mimetype", "META-INF/manifest.xml"];
+
+function isZip(data: Uint8Array) {
+  return data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+// Lists a ZIP's entries without inflating them; null when it is not a readable ZIP.
+function zipEntryNames(data: Uint8Array) {
+  const names: string[] = [];
+  try {
+    unzipSync(data, {
+      filter: (entry) => {
+        names.push(entry.name);
+        return false;
+      },
+    });
+  } catch {
+    return null;
+  }
+  return names;
+}
+
+// RFC 4180 fields: quoted fields may hold commas, doubled quotes and line breaks.
+function parseCsv(text: string) {
+  const rows: Array<Array<string | null>> = [];
+  let row: Array<string | null> = [];
+  let field = "";
+  let quoted = false;
+  const endField = () => {
+    row.push(field === "" ? null : field);
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      endField();
+      rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length) {
+    endField();
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Sheet names for CSV files. Google Sheets names each download
+ * "<spreadsheet> - <sheet>.csv", so a title every file starts with is dropped.
+ */
+function csvSheetNames(fileNames: string[]) {
+  const names = fileNames.map((fileName) => fileName.replace(/^.*\//, "").replace(/\.csv$/i, "").trim());
+  if (names.length > 1) {
+    const first = names[0];
+    for (let at = first.indexOf(" - "); at !== -1; at = first.indexOf(" - ", at + 1)) {
+      const title = first.slice(0, at + 3);
+      if (names.every((name) => name.startsWith(title) && name.length > title.length)) {
+        names.forEach((name, index) => (names[index] = name.slice(title.length)));
+        break;
+      }
+    }
+  }
+
+  const used = new Map<string, number>();
+  return names.map((name) => {
+    const count = (used.get(name.toLowerCase()) ?? 0) + 1;
+    used.set(name.toLowerCase(), count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+function readCsvBundle(data: Uint8Array): WorkBook {
+  const entries = unzipSync(data, {
+    filter: (entry) => {
+      const name = entry.name.replace(/^.*\//, "");
+      return !entry.name.startsWith("__MACOSX/") && !name.startsWith(".") && /\.csv$/i.test(name);
+    },
+  });
+  const fileNames = Object.keys(entries);
+  if (!fileNames.length) {
+    throw new WorkbookFileError("The ZIP file holds no CSV sheets.");
+  }
+
+  // Sheets are built directly rather than through book_append_sheet, which
+  // rejects names longer than Excel's 31 characters.
+  const decoder = new TextDecoder("utf-8");
+  const sheetNames = csvSheetNames(fileNames);
+  const sheets: Record<string, WorkSheet> = {};
+  fileNames.forEach((fileName, index) => {
+    sheets[sheetNames[index]] = utils.aoa_to_sheet(parseCsv(decoder.decode(entries[fileName])));
+  });
+  return { SheetNames: sheetNames, Sheets: sheets };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+// SheetJS leaves OpenDocument sheet names XML-escaped ("Terms &amp; Conditions").
+function decodeSheetNames(workbook: WorkBook): WorkBook {
+  const decode = (name: string) => name.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+  const sheets: Record<string, WorkSheet> = {};
+  for (const name of workbook.SheetNames) {
+    sheets[decode(name)] = workbook.Sheets[name];
+  }
+  workbook.Workbook?.Sheets?.forEach((sheet) => {
+    if (sheet.name) {
+      sheet.name = decode(sheet.name);
+    }
+  });
+  return { ...workbook, SheetNames: workbook.SheetNames.map(decode), Sheets: sheets };
+}
+
+export function readWorkbookFile(data: ArrayBuffer | Uint8Array): WorkBook {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (isZip(bytes)) {
+    const names = zipEntryNames(bytes);
+    if (names && !names.some((name) => SPREADSHEET_MANIFESTS.includes(name))) {
+      return readCsvBundle(bytes);
+    }
+    // .xlsx and .xlsm files have [Content_Types].xml instead of content.xml.
+    if (names?.includes("content.xml")) {
+      return decodeSheetNames(read(data, { cellText: false, cellDates: true }));
+    }
+  }
+  return read(data, { cellText: false, cellDates: true });
+}
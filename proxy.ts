@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth";
+
+// Sends visitors without a session cookie to /login before any page renders.
+// This only checks that the cookie is there; every API route checks the
+// session itself, so a stale cookie still gets a 401 from the API.
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", `${request.nextUrl.pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // API routes answer for themselves; /q/<token> is the customer's share link.
+  matcher: ["/((?!api/|_next/|login|q/|favicon\\.ico|.*\\.[a-z0-9]+$).*)"],
+};